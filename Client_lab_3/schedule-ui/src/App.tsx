@@ -1,651 +1,1809 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import {
-  Calendar, Clock, User, Book, MapPin,
-  AlertCircle, CheckCircle, Zap, RefreshCw, Trash2, Plus,
-  BarChart3, TrendingUp, Activity
+  Calendar, Clock,
+  AlertCircle, Zap, RefreshCw, Trash2, Plus,
+  BarChart3, TrendingUp, Activity, LayoutGrid, Undo2, Database, Send, Archive, Lock, FileUp, Radio, User, ScrollText,
+  Languages, Contrast, Keyboard, ShieldAlert, type LucideIcon,
 } from "lucide-react";
+import type {
+  DayOfWeek, ScheduleStatus, NotificationType, ScheduleEntry, Schedule,
+  SystemStatistics, OptimizationCriteria, Catalog, CatalogKind, AnalyticsEvent, SchedulingConstraint,
+} from "./types";
+import WeeklyTimetable from "./components/WeeklyTimetable";
+import EntryList from "./components/EntryList";
+import { weekDays } from "./utils/timetable";
+import { fromMinutes, shortTime } from "./utils/time";
+import {
+  findAffectedEntries, findConflictingIndexes, messagesForEntry, parseConflict,
+} from "./utils/conflicts";
+import { api, ApiError, isAbortError, type NewConstraint } from "./api/client";
+import { useOptimizationProgress, isRunFinished } from "./hooks/useOptimizationProgress";
+import { useLiveEvents } from "./hooks/useLiveEvents";
+import { decodeEvent, eventKey } from "./api/events";
+import { useActivityHistory } from "./hooks/useActivityHistory";
+import { useNotifications } from "./hooks/useNotifications";
+import { useRoute } from "./hooks/useRoute";
+import { useOfflineQueue } from "./hooks/useOfflineQueue";
+import { useVersionHistory } from "./hooks/useVersionHistory";
+import { useI18n } from "./hooks/useI18n";
+import { useShortcuts } from "./hooks/useShortcuts";
+import OptimizationProgress from "./components/OptimizationProgress";
+import OptimizationDialog from "./components/OptimizationDialog";
+import ConflictInspector from "./components/ConflictInspector";
+import ClashWarnings from "./components/ClashWarnings";
+import CatalogPanel from "./components/CatalogPanel";
+import CapacityReport from "./components/CapacityReport";
+import ScheduleAnalytics from "./components/ScheduleAnalytics";
+import ScheduleComparison from "./components/ScheduleComparison";
+import ActivityCharts from "./components/ActivityCharts";
+import EventLog from "./components/EventLog";
+import NotificationCenter from "./components/NotificationCenter";
+import StatusTimeline from "./components/StatusTimeline";
+import ScheduleExport from "./components/ScheduleExport";
+import ImportWizard from "./components/ImportWizard";
+import SyncStatus from "./components/SyncStatus";
+import SyncConflictDialog from "./components/SyncConflictDialog";
+import PersonalTimetable from "./components/PersonalTimetable";
+import ConfirmDialog, { type ConfirmRequest } from "./components/ConfirmDialog";
+import ShortcutHelp from "./components/ShortcutHelp";
+import VersionHistory from "./components/VersionHistory";
+import ConstraintsEditor from "./components/ConstraintsEditor";
+import { loadCriteria, saveCriteria, takeSnapshot, type QualitySnapshot } from "./utils/optimization";
+import { findClashes, suggestFreeSlots, type SlotSuggestion } from "./utils/slots";
+import { emptyCatalog, findById, findByName, toNewRecord, type CatalogDraft } from "./utils/catalog";
+import { findCapacityIssues, rankRooms } from "./utils/rooms";
+import type { ImportTarget } from "./utils/csvImport";
+import { canArchive, canPublish, isLocked, statusClasses, statusKeys } from "./utils/scheduleStatus";
+import { claimEcho, expectEcho, type ExpectedEcho } from "./utils/liveEchoes";
+import { shouldPoll, type LiveState } from "./utils/liveConnection";
+import type { Page } from "./utils/routes";
+import { localeNames, type Locale, type TextKey } from "./utils/i18n";
+import { applyTheme, loadTheme, saveTheme, type Theme } from "./utils/theme";
+import { loadSingleKeyShortcuts, saveSingleKeyShortcuts, type ShortcutAction } from "./utils/shortcuts";
+import { versionsOf, type ScheduleVersion } from "./utils/versions";
+import { findViolations } from "./utils/constraints";
+import { readOffline, writeOffline } from "./utils/offlineStore";
+import { liveEventKey, localTimestamp } from "./utils/notifications";
+import {
+  applyPending, isUnreachable, nextTemporaryId, operationId, replayOperation,
+  type NewOperation, type SyncChoice, type SyncConflict,
+} from "./utils/offline";
 
-const API_BASE = "/api";
+const UNDO_LIMIT = 10;
+const STATS_POLL_INTERVAL_MS = 5000;
+const EVENT_LOG_LIMIT = 500;
+const SERVER_NOTIFICATIONS_LIMIT = 100;
+// How long the event a write from this tab causes is waited for, to be skipped as its own echo
+const LOCAL_ECHO_MS = 10_000;
+const LIVE_REFRESH_DELAY_MS = 300;
 
-type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6;
-type ScheduleStatus = 0 | 1 | 2 | 3;
-type NotificationType = "optimized" | "updated" | "conflict" | "error";
+const liveStateConfig: Record<LiveState, { label: TextKey; title: TextKey; classes: string }> = {
+  connecting: {
+    label: "live.connecting",
+    title: "live.connectingTitle",
+    classes: "bg-slate-500/20 text-slate-300 border-slate-500/50",
+  },
+  live: {
+    label: "live.live",
+    title: "live.liveTitle",
+    classes: "bg-green-500/20 text-green-300 border-green-500/50",
+  },
+  polling: {
+    label: "live.polling",
+    title: "live.pollingTitle",
+    classes: "bg-yellow-500/20 text-yellow-300 border-yellow-500/50",
+  },
+};
 
-interface ScheduleEntry {
-  subject: string;
-  teacher: string;
-  group: string;
-  room: string;
-  dayOfWeek: DayOfWeek;
-  startTime: string;
-  endTime: string;
-}
+const tabs: { page: Page; label: TextKey; icon: LucideIcon }[] = [
+  { page: "schedules", label: "tabs.schedules", icon: Calendar },
+  { page: "personal", label: "tabs.personal", icon: User },
+  { page: "catalog", label: "tabs.catalog", icon: Database },
+  { page: "analytics", label: "tabs.analytics", icon: BarChart3 },
+  { page: "events", label: "tabs.events", icon: ScrollText },
+];
 
-interface Schedule {
-  id: number;
-  name: string;
-  status: ScheduleStatus;
-  createdAt: string;
-  entries: ScheduleEntry[];
-}
+const shortcutTabs: Partial<Record<ShortcutAction, Page>> = {
+  tabSchedules: "schedules",
+  tabPersonal: "personal",
+  tabCatalog: "catalog",
+  tabAnalytics: "analytics",
+  tabEvents: "events",
+};
 
-interface UiNotification {
-  id: number;
-  type: NotificationType;
-  message: string;
-  time: string;
+const defaultFormData = {
+  scheduleName: "Winter Semester 2025",
+  subjectId: "",
+  teacherId: "",
+  groupId: "",
+  roomId: "",
+  dayOfWeek: "1",
+  startTime: "09:00",
+  endTime: "10:30",
+};
+
+type ScheduleForm = typeof defaultFormData;
+
+interface ConflictReport {
+  scheduleId: number | null;
+  title: string;
+  conflicts: string[];
+  /** Broken scheduling constraints; only the explicit check reports them */
+  violations: string[];
 }
 
-interface SystemStatistics {
-  totalSchedules: number;
-  totalOptimizations: number;
-  totalConflictsDetected: number;
-  totalUpdates: number;
-  averageOptimizationTime: number;
-  lastUpdated: string;
+interface UndoItem {
+  scheduleId: number;
+  entries: ScheduleEntry[];
+  label: string;
 }
 
-interface CatalogItem {
+interface Announcement {
   id: number;
-  name: string;
+  text: string;
+  /** Errors interrupt the screen reader, everything else waits its turn */
+  urgent: boolean;
 }
 
 export default function ScheduleManagementApp() {
-  const [schedules, setSchedules] = useState<Schedule[]>([]);
-  const [notifications, setNotifications] = useState<UiNotification[]>([]);
+  const [serverSchedules, setSchedules] = useState<Schedule[]>([]);
   const [statistics, setStatistics] = useState<SystemStatistics | null>(null);
-  const [teachers, setTeachers] = useState<CatalogItem[]>([]);
-  const [groups, setGroups] = useState<CatalogItem[]>([]);
-  const [rooms, setRooms] = useState<CatalogItem[]>([]);
+  const [events, setEvents] = useState<AnalyticsEvent[]>([]);
+  const [catalog, setCatalog] = useState<Catalog>(emptyCatalog);
   const [loading, setLoading] = useState<boolean>(false);
-  const [activeTab, setActiveTab] = useState<"schedules" | "analytics">("schedules");
-  const [selectedScheduleId, setSelectedScheduleId] = useState<number | null>(null);
-
-  const [formData, setFormData] = useState({
-    scheduleName: "Winter Semester 2025",
-    subject: "",
-    teacher: "",
-    group: "",
-    room: "",
-    dayOfWeek: "1",
-    startTime: "09:00",
-    endTime: "10:30",
+  const [entryConflicts, setEntryConflicts] = useState<{ scheduleId: number; byEntry: Record<number, string[]> } | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [undoStack, setUndoStack] = useState<UndoItem[]>([]);
+  const [optimizeDialogScheduleId, setOptimizeDialogScheduleId] = useState<number | null>(null);
+  const [optimizationBaselines, setOptimizationBaselines] = useState<Record<number, QualitySnapshot>>({});
+  const [conflictReport, setConflictReport] = useState<ConflictReport | null>(null);
+  const [constraints, setConstraints] = useState<SchedulingConstraint[]>([]);
+  const [showAllRooms, setShowAllRooms] = useState<boolean>(false);
+  const [pollingPaused, setPollingPaused] = useState<boolean>(false);
+  const [showImport, setShowImport] = useState<boolean>(false);
+  const activity = useActivityHistory();
+  const notificationCenter = useNotifications();
+  const timetableRef = useRef<HTMLDivElement | null>(null);
+  const { route, navigate, lastRoute } = useRoute();
+  const offlineQueue = useOfflineQueue();
+  const versionHistory = useVersionHistory();
+  const { locale, setLocale, t, tn, formatDateTime, formatTime, weekdayName } = useI18n();
+  const [serviceReachable, setServiceReachable] = useState<boolean>(true);
+  const [syncing, setSyncing] = useState<boolean>(false);
+  const [syncConflict, setSyncConflict] = useState<SyncConflict | null>(null);
+  const syncingRef = useRef<boolean>(false);
+  const syncConflictResolver = useRef<((choice: SyncChoice) => void) | null>(null);
+  const [confirmRequest, setConfirmRequest] = useState<ConfirmRequest | null>(null);
+  const confirmResolver = useRef<((confirmed: boolean) => void) | null>(null);
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState<boolean>(false);
+  const [singleKeys, setSingleKeys] = useState<boolean>(loadSingleKeyShortcuts);
+  const [theme, setTheme] = useState<Theme>(loadTheme);
+  const subjectSelectRef = useRef<HTMLSelectElement | null>(null);
+
+  // Everything below works on the schedules as they will be once the offline queue is synced
+  const schedules = applyPending(serverSchedules, offlineQueue.queue);
+  const offline = !offlineQueue.browserOnline || !serviceReachable;
+
+  // Tab, selected schedule and filters live in the URL; these are read-only views of it
+  const activeTab = route.page;
+  const selectedScheduleId = route.page === "schedules" ? route.scheduleId : null;
+  const statusFilter = route.page === "schedules" ? route.status : "all";
+  const focusedEntries = route.page === "schedules" ? route.focus : [];
+
+  // Back/forward can switch schedules without going through selectSchedule
+  const [editingScheduleId, setEditingScheduleId] = useState<number | null>(selectedScheduleId);
+  if (editingScheduleId !== selectedScheduleId) {
+    setEditingScheduleId(selectedScheduleId);
+    setEditingIndex(null);
+  }
+
+  // Classes reference catalog records by id; the entry itself still stores the names
+  const [formData, setFormData] = useState<ScheduleForm>(defaultFormData);
+  const [formDraftLoaded, setFormDraftLoaded] = useState<boolean>(false);
+
+  const selectedSchedule = schedules.find(s => s.id === selectedScheduleId) ?? null;
+  const selectedLocked = selectedSchedule !== null && isLocked(selectedSchedule);
+  const visibleSchedules = statusFilter === "all" ? schedules : schedules.filter(s => s.status === statusFilter);
+  const optimizeDialogSchedule = schedules.find(s => s.id === optimizeDialogScheduleId) ?? null;
+  const conflictReportSchedule = schedules.find(s => s.id === conflictReport?.scheduleId) ?? null;
+  // Rules each schedule breaks, counted locally so the list shows them without a check per schedule
+  const brokenConstraints: Record<number, number> = Object.fromEntries(
+    schedules.map(s => [s.id, findViolations(s.entries, constraints).length])
+  );
+
+  // Cells flagged in the timetable: a rejected drag plus everything the open conflict report points at
+  const conflictMarkers: Record<number, string[]> = {
+    ...(entryConflicts?.scheduleId === selectedScheduleId ? entryConflicts.byEntry : {}),
+  };
+  if (selectedSchedule && conflictReport?.scheduleId === selectedSchedule.id) {
+    for (const message of [...conflictReport.conflicts, ...conflictReport.violations]) {
+      for (const index of findAffectedEntries(selectedSchedule.entries, parseConflict(message))) {
+        conflictMarkers[index] = [...new Set([...(conflictMarkers[index] ?? []), message])];
+      }
+    }
+  }
+
+  const formRecords = {
+    subject: findById(catalog.subjects, formData.subjectId),
+    teacher: findById(catalog.teachers, formData.teacherId),
+    group: findById(catalog.groups, formData.groupId),
+    room: findById(catalog.rooms, formData.roomId),
+  };
+  const rankedRooms = rankRooms(catalog.rooms, formRecords.group, formRecords.subject);
+  const roomShortage = formRecords.group && formRecords.room && formRecords.group.studentsCount > formRecords.room.capacity
+    ? formRecords.group.studentsCount - formRecords.room.capacity
+    : 0;
+  const capacityIssues = selectedSchedule ? findCapacityIssues(selectedSchedule.entries, catalog.groups, catalog.rooms) : [];
+  const editingEntry = editingIndex !== null ? selectedSchedule?.entries[editingIndex] ?? null : null;
+
+  // Live pre-check of the class in the form, against the same rules the server applies on save
+  const draftEntry: ScheduleEntry | null = formData.endTime > formData.startTime
+    ? {
+        subject: formRecords.subject?.name ?? "",
+        teacher: formRecords.teacher?.name ?? "",
+        group: formRecords.group?.name ?? "",
+        room: formRecords.room?.name ?? "",
+        dayOfWeek: parseInt(formData.dayOfWeek, 10) as DayOfWeek,
+        startTime: `${formData.startTime}:00`,
+        endTime: `${formData.endTime}:00`,
+      }
+    : null;
+  const draftOwnEntries = selectedSchedule?.entries.filter((_, i) => i !== editingIndex) ?? [];
+  // Archived schedules are skipped by the server's global check as well
+  const draftOtherSchedules = schedules.filter(s => s.id !== selectedScheduleId && s.status !== 4);
+  const draftClashes = draftEntry ? findClashes(draftEntry, draftOwnEntries, draftOtherSchedules) : [];
+  const slotSuggestions = draftEntry && draftClashes.length > 0
+    ? suggestFreeSlots(draftEntry, [...draftOwnEntries, ...draftOtherSchedules.flatMap(s => s.entries)])
+    : [];
+
+  const optimization = useOptimizationProgress((run) => {
+    const completed = run.status === "Completed";
+    if (completed && run.result) {
+      addNotification(
+        "optimized",
+        t("notify.optimizationCompleted", {
+          name: run.result.scheduleName,
+          windows: run.result.windowsReduced,
+          conflicts: run.result.conflictsResolved,
+        }),
+        run.scheduleId
+      );
+    } else {
+      addNotification("error", t("notify.optimizationFailed", { id: run.scheduleId, message: run.message }), run.scheduleId);
+    }
+    loadSchedules()
+      .then((list) => {
+        const optimized = completed && list.find(s => s.id === run.scheduleId);
+        if (optimized) versionHistory.record(optimized, "afterOptimization", run.message);
+      })
+      .catch((error) => reportError(error, t("error.loadSchedules")));
+    loadStatistics().catch(() => undefined);
   });
 
+  // Aborted on unmount so in-flight requests never update a dead component
+  const abortRef = useRef<AbortController | null>(null);
+  const expectedEchoesRef = useRef<ExpectedEcho[]>([]);
+  const liveRefreshRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Registered once the schedule id is known: before the request, or from its response for new schedules
+  const expectLocalEcho = (kind: ExpectedEcho["kind"], scheduleId: number, changeType: string | null = null): void => {
+    expectedEchoesRef.current = expectEcho(expectedEchoesRef.current, { kind, scheduleId, changeType }, Date.now(), LOCAL_ECHO_MS);
+  };
+
+  // A burst of events (create + conflict check, optimization steps) triggers one reload
+  const scheduleLiveRefresh = (): void => {
+    if (liveRefreshRef.current) clearTimeout(liveRefreshRef.current);
+    liveRefreshRef.current = setTimeout(() => {
+      liveRefreshRef.current = null;
+      loadSchedules(true).catch((error) => reportError(error, t("error.loadSchedules")));
+      loadStatistics().catch(() => undefined);
+    }, LIVE_REFRESH_DELAY_MS);
+  };
+
+  const handleLiveEvent = (event: AnalyticsEvent): void => {
+    const key = eventKey(event);
+    setEvents(prev => (prev.some(e => eventKey(e) === key) ? prev : [event, ...prev].slice(0, EVENT_LOG_LIMIT)));
+    activity.recordEvents([event]);
+
+    // Changes made in this tab were already announced when their request returned
+    const decoded = decodeEvent(event);
+    const liveKey = liveEventKey(decoded);
+    if (liveKey) notificationCenter.seenLive(liveKey);
+    const scheduleId = decoded.data && decoded.data.scheduleId > 0 ? decoded.data.scheduleId : null;
+    const claim = claimEcho(expectedEchoesRef.current, decoded, Date.now(), id => optimization.runs[id] !== undefined);
+    expectedEchoesRef.current = claim.expected;
+    const ownEcho = claim.own;
+    if (decoded.kind === "updated" && !ownEcho) {
+      addNotification("updated", `${decoded.data.changeType}: ${decoded.data.details}`, scheduleId);
+    } else if (decoded.kind === "conflict" && !ownEcho) {
+      addNotification("conflict", decoded.data.description, scheduleId);
+    } else if (
+      decoded.kind === "optimized" &&
+      (decoded.data.status === "Completed" || decoded.data.status === "Failed") &&
+      !optimization.runs[decoded.data.scheduleId]
+    ) {
+      const completed = decoded.data.status === "Completed";
+      addNotification(
+        completed ? "optimized" : "error",
+        t(completed ? "notify.remoteOptimizationCompleted" : "notify.remoteOptimizationFailed", {
+          name: decoded.data.scheduleName,
+          message: decoded.data.message,
+        }),
+        scheduleId
+      );
+    }
+    scheduleLiveRefresh();
+  };
+
+  const liveState = useLiveEvents(handleLiveEvent);
+
+  // The effects below reach the loaders through this ref, as useLiveEvents does with its
+  // callback, so they re-run only when their own inputs change
+  const loadersRef = useRef<{ loadAll: () => void; poll: () => void; replayQueue: () => void } | null>(null);
   useEffect(() => {
-    loadSchedules().catch(() => addNotification("error", "Failed to load schedules"));
-    loadCatalogData().catch(() => addNotification("error", "Failed to load catalog data"));
-    loadStatistics().catch(() => addNotification("error", "Failed to load statistics"));
+    loadersRef.current = {
+      loadAll: () => {
+        loadSchedules().catch((error) => reportError(error, t("error.loadSchedules")));
+        loadCatalogData().catch((error) => reportError(error, t("error.loadCatalog")));
+        loadConstraints().catch((error) => reportError(error, t("error.loadConstraints")));
+        loadStatistics().catch((error) => reportError(error, t("error.loadStatistics")));
+      },
+      poll: () => {
+        loadStatistics().catch((error) => {
+          if (!isAbortError(error)) console.error("Failed to load statistics:", error);
+        });
+        loadSchedules(true).catch((error) => {
+          if (!isAbortError(error)) console.error("Failed to load schedules:", error);
+        });
+      },
+      replayQueue,
+    };
+  });
 
-    // Refresh statistics periodically
-    const interval = setInterval(() => {
-      loadStatistics();
-    }, 5000);
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-    return () => clearInterval(interval);
+    // The offline copy shows right away and stays if the services cannot be reached
+    readOffline<Schedule[]>("schedules", []).then(cached => setSchedules(prev => (prev.length > 0 ? prev : cached)));
+    readOffline<Catalog>("catalog", emptyCatalog).then(cached => setCatalog(prev => (prev === emptyCatalog ? cached : prev)));
+    readOffline<ScheduleForm | null>("formDraft", null).then((draft) => {
+      if (draft) setFormData({ ...defaultFormData, ...draft });
+      setFormDraftLoaded(true);
+    });
+
+    loadersRef.current?.loadAll();
+
+    return () => {
+      controller.abort();
+      if (liveRefreshRef.current) clearTimeout(liveRefreshRef.current);
+    };
   }, []);
 
-  const loadSchedules = async (): Promise<void> => {
-    setLoading(true);
+  // While the event stream is down, poll instead, unless paused from the Activity Trends panel
+  useEffect(() => {
+    if (!shouldPoll(liveState, pollingPaused)) return;
+    const interval = setInterval(() => loadersRef.current?.poll(), STATS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pollingPaused, liveState]);
+
+  useEffect(() => {
+    applyTheme(theme);
+  }, [theme]);
+
+  // A half-filled class form survives a reload, e.g. when the Wi-Fi dropped mid-edit
+  useEffect(() => {
+    if (formDraftLoaded) writeOffline("formDraft", formData);
+  }, [formData, formDraftLoaded]);
+
+  // Replays the offline queue whenever the services are reachable and something is waiting
+  const syncablePending = offlineQueue.queue.filter(op => !op.error).length;
+  useEffect(() => {
+    // replayQueue is guarded against overlapping runs and reads the latest queue itself
+    if (offlineQueue.loaded && !offline && syncablePending > 0) loadersRef.current?.replayQueue();
+  }, [offlineQueue.loaded, offline, syncablePending]);
+
+  // A link to specific classes (?focus=) scrolls to them once their schedule has loaded
+  const pendingDeepLinkScroll = useRef<boolean>(focusedEntries.length > 0);
+  const selectedScheduleLoaded = selectedSchedule !== null;
+  useEffect(() => {
+    if (!pendingDeepLinkScroll.current || !selectedScheduleLoaded) return;
+    pendingDeepLinkScroll.current = false;
+    requestAnimationFrame(() => timetableRef.current?.scrollIntoView({ behavior: "smooth", block: "start" }));
+  }, [selectedScheduleLoaded]);
+
+  const requestOptions = () => ({ signal: abortRef.current?.signal });
+
+  // Turns any failed call into a notification; conflict lists go to the conflict inspector
+  const reportError = (error: unknown, fallback: string, scheduleId: number | null = null): void => {
+    if (isAbortError(error)) return;
+    if (error instanceof ApiError && error.conflicts.length > 0) {
+      openConflictReport({ scheduleId, title: fallback, conflicts: error.conflicts, violations: [] });
+      return;
+    }
+    addNotification("error", error instanceof ApiError && error.status > 0 ? error.message : fallback);
+  };
+
+  /** `quiet` skips the loading placeholder for background refreshes */
+  const loadSchedules = async (quiet = false): Promise<Schedule[]> => {
+    if (!quiet) setLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/schedules`);
-      const data: Schedule[] = await res.json();
-      setSchedules(Array.isArray(data) ? data : []);
+      const list = await api.schedules.list(requestOptions());
+      setSchedules(list);
+      setServiceReachable(true);
+      writeOffline("schedules", list);
+      return list;
+    } catch (error) {
+      if (isUnreachable(error)) setServiceReachable(false);
+      throw error;
     } finally {
-      setLoading(false);
+      if (!quiet) setLoading(false);
     }
   };
 
   const loadCatalogData = async (): Promise<void> => {
+    const [teachers, groups, rooms, subjects] = await Promise.all([
+      api.catalog.list("teachers", requestOptions()),
+      api.catalog.list("groups", requestOptions()),
+      api.catalog.list("rooms", requestOptions()),
+      api.catalog.list("subjects", requestOptions()),
+    ]);
+
+    setCatalog({ teachers, groups, rooms, subjects });
+    writeOffline("catalog", { teachers, groups, rooms, subjects });
+  };
+
+  const createCatalogRecord = async (kind: CatalogKind, draft: CatalogDraft): Promise<boolean> => {
     try {
-      // ✅ Використовуємо /api/catalog замість localhost
-      const [teachersRes, groupsRes, roomsRes] = await Promise.all([
-        fetch("/api/catalog/teachers"),
-        fetch("/api/catalog/groups"),
-        fetch("/api/catalog/rooms"),
-      ]);
-      
-      setTeachers(await teachersRes.json());
-      setGroups(await groupsRes.json());
-      setRooms(await roomsRes.json());
+      const record = await api.catalog.create(kind, toNewRecord(kind, draft), requestOptions());
+      addNotification("updated", t("notify.catalogAdded", { name: record.name }));
+      await loadCatalogData();
+      return true;
     } catch (error) {
-      console.error("Failed to load catalog data:", error);
+      reportError(error, t("error.catalogAdd", { name: draft.name }));
+      return false;
     }
   };
 
-  const loadStatistics = async (): Promise<void> => {
+  const loadConstraints = async (): Promise<void> => {
+    setConstraints(await api.constraints.list(requestOptions()));
+  };
+
+  // `id` is null for a new rule
+  const saveConstraint = async (draft: NewConstraint, id: number | null): Promise<boolean> => {
     try {
-      // ✅ Використовуємо /api/analytics замість localhost
-      const res = await fetch("/api/analytics/stats");
-      const data = await res.json();
-      setStatistics(data);
+      if (id === null) await api.constraints.create(draft, requestOptions());
+      else await api.constraints.update({ ...draft, id }, requestOptions());
+      addNotification("updated", t(id === null ? "notify.constraintAdded" : "notify.constraintUpdated", { name: draft.name }));
+      await loadConstraints();
+      return true;
     } catch (error) {
-      console.error("Failed to load statistics:", error);
+      reportError(error, t("error.saveConstraint", { name: draft.name }));
+      return false;
     }
   };
 
+  const deleteConstraint = async (constraint: SchedulingConstraint): Promise<void> => {
+    const confirmed = await askConfirm({
+      title: t("constraints.delete"),
+      message: t("confirm.deleteConstraint", { name: constraint.name }),
+      confirmLabel: t("confirm.delete"),
+      danger: true,
+    });
+    if (!confirmed) return;
+    try {
+      await api.constraints.remove(constraint.id, requestOptions());
+      addNotification("updated", t("notify.constraintDeleted", { name: constraint.name }));
+      await loadConstraints();
+    } catch (error) {
+      reportError(error, t("error.deleteConstraint", { name: constraint.name }));
+    }
+  };
+
+  const loadStatistics = async (): Promise<void> => {
+    // NotificationService is optional too: without it the center just shows this browser's notifications
+    api.notifications.list({ ...requestOptions(), limit: SERVER_NOTIFICATIONS_LIMIT })
+      .then(notificationCenter.mergeServer)
+      .catch(() => undefined);
+    const stats = await api.analytics.stats(requestOptions());
+    setStatistics(stats);
+    activity.recordStats(stats);
+    // The event feed only adds detail to the trends and the log, so a failure here is not worth a notification
+    api.analytics.events({ ...requestOptions(), limit: EVENT_LOG_LIMIT })
+      .then(list => {
+        setEvents(list);
+        activity.recordEvents(list);
+      })
+      .catch(() => undefined);
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
     e.preventDefault();
 
-    // Validation: Check if adding a class entry
-    if (!formData.subject.trim()) {
-      addNotification("error", "Subject is required");
+    if (selectedSchedule && selectedLocked) {
+      addNotification("error", t("error.locked", {
+        name: selectedSchedule.name,
+        status: t(statusKeys[selectedSchedule.status]),
+      }));
+      return;
+    }
+
+    // Validation: every reference has to resolve to a catalog record
+    if (!formRecords.subject) {
+      addNotification("error", t("error.subjectRequired"));
       return;
     }
 
-    if (!formData.teacher.trim() || !formData.group.trim() || !formData.room.trim()) {
-      addNotification("error", "All fields must be filled when adding a class");
+    if (!formRecords.teacher || !formRecords.group || !formRecords.room) {
+      addNotification("error", t("error.pickRecords"));
+      return;
+    }
+
+    if (roomShortage > 0) {
+      addNotification("error", t("error.roomTooSmall", {
+        room: formRecords.room.name,
+        capacity: formRecords.room.capacity,
+        group: formRecords.group.name,
+        students: formRecords.group.studentsCount,
+      }));
       return;
     }
 
     // End time must be after start time
-    if (formData.endTime <= formData.startTime) {
-      addNotification("error", "End time must be after start time");
+    if (!draftEntry) {
+      addNotification("error", t("error.endBeforeStart"));
       return;
     }
 
-    const newEntry: ScheduleEntry = {
-      subject: formData.subject,
-      teacher: formData.teacher,
-      group: formData.group,
-      room: formData.room,
-      dayOfWeek: parseInt(formData.dayOfWeek, 10) as DayOfWeek,
-      startTime: `${formData.startTime}:00`,
-      endTime: `${formData.endTime}:00`,
-    };
+    const newEntry = draftEntry;
 
     // If schedule is selected, add to existing schedule
     if (selectedScheduleId !== null) {
       const existingSchedule = schedules.find(s => s.id === selectedScheduleId);
       if (!existingSchedule) {
-        addNotification("error", "Selected schedule not found");
+        addNotification("error", t("error.scheduleNotFound"));
         return;
       }
 
-      const updatedSchedule = {
-        ...existingSchedule,
-        entries: [...existingSchedule.entries, newEntry],
-      };
+      const isEditing = editingIndex !== null && editingIndex < existingSchedule.entries.length;
+      const entries = isEditing
+        ? existingSchedule.entries.map((entry, i) => (i === editingIndex ? newEntry : entry))
+        : [...existingSchedule.entries, newEntry];
 
-      const response = await fetch(`${API_BASE}/schedules/${selectedScheduleId}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(updatedSchedule),
-      });
+      const result = await saveScheduleEntries(
+        existingSchedule,
+        entries,
+        isEditing
+          ? t("notify.classUpdated", { subject: newEntry.subject, name: existingSchedule.name })
+          : t("notify.classAdded", { name: existingSchedule.name }),
+        t(isEditing ? "error.updateClass" : "error.addClass")
+      );
 
-      if (response.ok) {
-        addNotification("updated", `Added class to schedule: ${existingSchedule.name}`);
+      if (result.ok) {
+        setEditingIndex(null);
         setFormData({
           ...formData,
-          subject: "",
-          teacher: "",
-          group: "",
-          room: "",
+          subjectId: "",
+          teacherId: "",
+          groupId: "",
+          roomId: "",
         });
-        await loadSchedules();
-        await loadStatistics();
-      } else {
-        const errorData = await response.json().catch(() => null);
-        if (errorData && errorData.conflicts) {
-          errorData.conflicts.forEach((conflict: string) => {
-            addNotification("conflict", conflict);
-          });
-        } else {
-          addNotification("error", errorData?.error || "Failed to add class to schedule");
-        }
       }
     } else {
       // Create new schedule
-      const schedule = {
-        name: formData.scheduleName,
-        entries: [newEntry],
-      };
-
-      const response = await fetch(`${API_BASE}/schedules`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(schedule),
-      });
+      const name = formData.scheduleName;
+      const createdId = await createSchedule(name, [newEntry], t("error.createSchedule", { name }));
+      if (createdId !== null) {
+        const message = t("notify.scheduleCreated", { name });
+        addNotification("updated", createdId < 0 ? t("notify.savedOffline", { message }) : message);
+        setFormData(defaultFormData);
+      }
+    }
+  };
 
-      if (response.ok) {
-        addNotification("updated", `Created schedule: ${schedule.name}`);
-        setFormData({
-          scheduleName: "Winter Semester 2025",
-          subject: "",
-          teacher: "",
-          group: "",
-          room: "",
-          dayOfWeek: "1",
-          startTime: "09:00",
-          endTime: "10:30",
-        });
+  // PUTs the new entry list and reports the outcome the same way for every kind of edit
+  const saveScheduleEntries = async (
+    schedule: Schedule,
+    entries: ScheduleEntry[],
+    successMessage: string,
+    failureMessage: string,
+    recordUndo = true
+  ): Promise<{ ok: boolean; conflicts: string[] }> => {
+    // Schedules created offline have no server id yet, so their edits always wait in the queue
+    let queued = offline || schedule.id < 0;
+    if (!queued) {
+      try {
+        expectLocalEcho("updated", schedule.id, "Updated");
+        await api.schedules.update({ ...schedule, entries }, requestOptions());
+      } catch (error) {
+        if (!isUnreachable(error)) {
+          reportError(error, failureMessage, schedule.id);
+          return { ok: false, conflicts: error instanceof ApiError ? error.conflicts : [] };
+        }
+        setServiceReachable(false);
+        queued = true;
+      }
+    }
+    if (queued) {
+      queueOperation({ kind: "update", scheduleId: schedule.id, base: schedule, entries, label: successMessage });
+    }
+
+    // Undoing is an edit as well, so it leaves a version behind even though it is not undoable itself
+    versionHistory.record(schedule, "edit", successMessage);
+    if (recordUndo) {
+      setUndoStack(prev => [
+        { scheduleId: schedule.id, entries: schedule.entries, label: successMessage },
+        ...prev,
+      ].slice(0, UNDO_LIMIT));
+    }
+    setEntryConflicts(null);
+    if (queued) {
+      addNotification("updated", t("notify.savedOffline", { message: successMessage }), schedule.id);
+      return { ok: true, conflicts: [] };
+    }
+    addNotification("updated", successMessage, schedule.id);
+    await loadSchedules().catch((error) => reportError(error, t("error.loadSchedules")));
+    await loadStatistics().catch(() => undefined);
+    return { ok: true, conflicts: [] };
+  };
+
+  // Keeps a change that could not reach ScheduleService; it is replayed once the service is back
+  const queueOperation = (op: NewOperation): void => {
+    offlineQueue.add({ ...op, id: operationId(), queuedAt: localTimestamp() });
+  };
+
+  // Resolves to the new schedule's id, which is a temporary negative one while offline
+  const createSchedule = async (name: string, entries: ScheduleEntry[], failureMessage: string): Promise<number | null> => {
+    if (!offline) {
+      try {
+        const created = await api.schedules.create({ name, entries }, requestOptions());
+        expectLocalEcho("updated", created.id, "Created");
         await loadSchedules();
         await loadStatistics();
-      } else {
-        const errorData = await response.json().catch(() => null);
-        if (errorData && errorData.conflicts) {
-          errorData.conflicts.forEach((conflict: string) => {
-            addNotification("conflict", conflict);
-          });
-        } else {
-          addNotification("error", errorData?.error || "Failed to create schedule");
+        return created.id;
+      } catch (error) {
+        if (!isUnreachable(error)) {
+          // A rejected schedule is reported with ScheduleId 0, as it never got an id
+          if (error instanceof ApiError && error.conflicts.length > 0) expectLocalEcho("conflict", 0);
+          reportError(error, failureMessage);
+          return null;
         }
+        setServiceReachable(false);
       }
     }
+    const scheduleId = nextTemporaryId(offlineQueue.queue);
+    queueOperation({ kind: "create", scheduleId, name, entries, label: t("offline.createLabel", { name }) });
+    return scheduleId;
+  };
+
+  const askSyncConflict = (conflict: SyncConflict): Promise<SyncChoice> =>
+    new Promise((resolve) => {
+      syncConflictResolver.current = resolve;
+      setSyncConflict(conflict);
+    });
+
+  const resolveSyncConflict = (choice: SyncChoice): void => {
+    syncConflictResolver.current?.(choice);
+    syncConflictResolver.current = null;
+    setSyncConflict(null);
   };
 
-  const optimizeSchedule = async (id: number): Promise<void> => {
+  const askConfirm = (request: ConfirmRequest): Promise<boolean> =>
+    new Promise((resolve) => {
+      confirmResolver.current = resolve;
+      setConfirmRequest(request);
+    });
+
+  const resolveConfirm = (confirmed: boolean): void => {
+    confirmResolver.current?.(confirmed);
+    confirmResolver.current = null;
+    setConfirmRequest(null);
+  };
+
+  const replayQueue = async (): Promise<void> => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    setSyncing(true);
+    let synced = 0;
     try {
-      const res = await fetch(`${API_BASE}/schedules/${id}/optimize`, { method: "POST" });
-      if (res.ok) addNotification("optimized", `Started optimization for schedule #${id}`);
-      else addNotification("error", "Failed to start optimization");
-    } catch {
-      addNotification("error", "Failed to start optimization");
+      for (const op of offlineQueue.queue.filter(item => !item.error)) {
+        try {
+          if (op.kind !== "create") expectLocalEcho("updated", op.scheduleId, op.kind === "delete" ? "Deleted" : "Updated");
+          const scheduleId = await replayOperation(api, op, askSyncConflict, requestOptions());
+          if (scheduleId !== null && scheduleId !== op.scheduleId) expectLocalEcho("updated", scheduleId, "Created");
+          offlineQueue.settle(op);
+          synced++;
+          // Keep the offline-created schedule selected under its real id
+          if (op.scheduleId < 0 && scheduleId !== null) {
+            navigate(current => (current.page === "schedules" && current.scheduleId === op.scheduleId
+              ? { ...current, scheduleId } : current), { replace: true });
+          }
+        } catch (error) {
+          if (isAbortError(error)) return;
+          if (isUnreachable(error)) {
+            setServiceReachable(false);
+            return;
+          }
+          offlineQueue.markFailed(op.id, error instanceof ApiError ? error.message : t("error.syncFailed"));
+          reportError(error, t("error.sync", { label: op.label }), op.scheduleId > 0 ? op.scheduleId : null);
+        }
+      }
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      if (synced > 0) {
+        addNotification("updated", tn("notify.synced", synced));
+        await loadSchedules(true).catch((error) => reportError(error, t("error.loadSchedules")));
+        await loadStatistics().catch(() => undefined);
+      }
+    }
+  };
+
+  // Failed operations get another go; while offline this probes whether the services are back
+  const retrySync = (): void => {
+    offlineQueue.clearErrors();
+    if (offline) loadSchedules(true).catch(() => undefined);
+  };
+
+  const discardPending = async (id: string): Promise<void> => {
+    const confirmed = await askConfirm({
+      title: t("sync.discard"),
+      message: t("confirm.discardPending"),
+      confirmLabel: t("confirm.discard"),
+      danger: true,
+    });
+    if (confirmed) offlineQueue.remove(id);
+  };
+
+  const importEntries = async (target: ImportTarget, entries: ScheduleEntry[]): Promise<boolean> => {
+    if ("scheduleId" in target) {
+      const schedule = schedules.find(s => s.id === target.scheduleId);
+      if (!schedule) {
+        addNotification("error", t("error.scheduleNotFound"));
+        return false;
+      }
+      const result = await saveScheduleEntries(
+        schedule,
+        [...schedule.entries, ...entries],
+        tn("notify.imported", entries.length, { name: schedule.name }),
+        t("error.import", { name: schedule.name })
+      );
+      return result.ok;
+    }
+
+    const createdId = await createSchedule(target.name, entries, t("error.createSchedule", { name: target.name }));
+    if (createdId === null) return false;
+    const message = tn("notify.createdWithImport", entries.length, { name: target.name });
+    addNotification("updated", createdId < 0 ? t("notify.savedOffline", { message }) : message);
+    selectSchedule(createdId);
+    return true;
+  };
+
+  const rescheduleEntry = async (schedule: Schedule, index: number, updated: ScheduleEntry): Promise<void> => {
+    const entries = schedule.entries.map((entry, i) => (i === index ? updated : entry));
+    const result = await saveScheduleEntries(
+      schedule,
+      entries,
+      t("notify.moved", {
+        subject: updated.subject,
+        day: weekdayName(updated.dayOfWeek),
+        start: shortTime(updated.startTime),
+        end: shortTime(updated.endTime),
+      }),
+      t("error.reschedule")
+    );
+
+    if (result.conflicts.length > 0) {
+      const byEntry: Record<number, string[]> = { [index]: result.conflicts };
+      findConflictingIndexes(entries, index).forEach(i => {
+        byEntry[i] = messagesForEntry(entries[i], result.conflicts);
+      });
+      setEntryConflicts({ scheduleId: schedule.id, byEntry });
+    }
+  };
+
+  const deleteEntries = async (schedule: Schedule, indexes: number[]): Promise<boolean> => {
+    if (indexes.length === 0) return false;
+    const confirmed = await askConfirm({
+      title: tn("confirm.deleteEntriesTitle", indexes.length),
+      message: tn("confirm.deleteEntries", indexes.length, { name: schedule.name }),
+      confirmLabel: t("confirm.delete"),
+      danger: true,
+    });
+    if (!confirmed) return false;
+
+    const entries = schedule.entries.filter((_, i) => !indexes.includes(i));
+    const result = await saveScheduleEntries(
+      schedule,
+      entries,
+      tn("notify.entriesRemoved", indexes.length, { name: schedule.name }),
+      t("error.removeClasses")
+    );
+    // Indexes shift after a removal, so an open edit no longer points at the same class
+    if (result.ok) setEditingIndex(null);
+    return result.ok;
+  };
+
+  const undoLastChange = async (): Promise<void> => {
+    const [last, ...rest] = undoStack;
+    if (!last) return;
+
+    const schedule = schedules.find(s => s.id === last.scheduleId);
+    if (!schedule) {
+      addNotification("error", t("error.undoMissing"));
+      setUndoStack(rest);
+      return;
+    }
+
+    const result = await saveScheduleEntries(
+      schedule,
+      last.entries,
+      t("notify.undid", { label: last.label }),
+      t("error.undo"),
+      false
+    );
+    if (result.ok) {
+      setUndoStack(rest);
+      setEditingIndex(null);
+    }
+  };
+
+  // Restoring is an ordinary edit: it can be undone and leaves the replaced entries in the history
+  const restoreVersion = async (version: ScheduleVersion): Promise<void> => {
+    const schedule = schedules.find(s => s.id === version.scheduleId);
+    if (!schedule) return;
+    const result = await saveScheduleEntries(
+      schedule,
+      version.entries,
+      t("notify.versionRestored", { name: schedule.name, time: formatDateTime(version.takenAt) }),
+      t("error.restoreVersion", { name: schedule.name })
+    );
+    if (result.ok) setEditingIndex(null);
+  };
+
+  // Off the schedules tab there is nothing to focus, so the route is left alone
+  const setFocusedEntries = (focus: number[]): void => {
+    navigate(current => (current.page === "schedules" ? { ...current, focus } : current), { replace: true });
+  };
+
+  const scrollToTimetable = (): void => {
+    requestAnimationFrame(() => timetableRef.current?.scrollIntoView({ behavior: "smooth", block: "start" }));
+  };
+
+  const openConflictReport = (report: ConflictReport): void => {
+    setConflictReport(report);
+    setFocusedEntries([]);
+    addNotification("conflict", tn("notify.conflictReport", report.conflicts.length + report.violations.length, { title: report.title }));
+  };
+
+  const closeConflictReport = (): void => {
+    setConflictReport(null);
+    setFocusedEntries([]);
+  };
+
+  // Jumps to the classes behind a conflict picked in the inspector
+  const focusConflictEntries = (affected: number[]): void => {
+    if (conflictReport?.scheduleId != null && conflictReport.scheduleId !== selectedScheduleId) {
+      selectSchedule(conflictReport.scheduleId, affected);
+    } else {
+      setFocusedEntries(affected);
+    }
+    scrollToTimetable();
+  };
+
+  const focusEntry = (index: number): void => {
+    setFocusedEntries([index]);
+    scrollToTimetable();
+  };
+
+  const openSchedule = (id: number): void => {
+    selectSchedule(id);
+    scrollToTimetable();
+  };
+
+  // Also switches to the schedules tab, keeping its status filter
+  const selectSchedule = (id: number | null, focus: number[] = []): void => {
+    navigate(current => ({ ...(current.page === "schedules" ? current : lastRoute("schedules")), scheduleId: id, focus }));
+    setEditingIndex(null);
+  };
+
+  const setStatusFilter = (status: ScheduleStatus | "all"): void => {
+    navigate(current => (current.page === "schedules" ? { ...current, status } : current));
+  };
+
+  // Tabs reopen where they were left, e.g. the same schedule or catalog kind
+  const openTab = (page: Page): void => {
+    if (page !== activeTab) navigate(lastRoute(page));
+  };
+
+  const startEditing = (index: number): void => {
+    const entry = selectedSchedule?.entries[index];
+    if (!entry) return;
+    setEditingIndex(index);
+    setFormData({
+      ...formData,
+      subjectId: String(findByName(catalog.subjects, entry.subject)?.id ?? ""),
+      teacherId: String(findByName(catalog.teachers, entry.teacher)?.id ?? ""),
+      groupId: String(findByName(catalog.groups, entry.group)?.id ?? ""),
+      roomId: String(findByName(catalog.rooms, entry.room)?.id ?? ""),
+      dayOfWeek: String(entry.dayOfWeek),
+      startTime: shortTime(entry.startTime),
+      endTime: shortTime(entry.endTime),
+    });
+  };
+
+  const applySuggestedSlot = (slot: SlotSuggestion): void => {
+    setFormData({
+      ...formData,
+      dayOfWeek: String(slot.dayOfWeek),
+      startTime: fromMinutes(slot.start),
+      endTime: fromMinutes(slot.end),
+    });
+  };
+
+  const cancelEditing = (): void => {
+    setEditingIndex(null);
+    setFormData({ ...formData, subjectId: "", teacherId: "", groupId: "", roomId: "" });
+  };
+
+  const optimizeSchedule = async (id: number, criteria: OptimizationCriteria): Promise<void> => {
+    const schedule = schedules.find(s => s.id === id);
+    if (schedule) {
+      setOptimizationBaselines(prev => ({ ...prev, [id]: takeSnapshot(schedule.entries) }));
+    }
+
+    try {
+      await optimization.begin(id, abortRef.current?.signal);
+      await api.schedules.optimize(id, { ...criteria, constraints }, requestOptions());
+      if (schedule) versionHistory.record(schedule, "beforeOptimization", t("versions.optimizationLabel"));
+      addNotification("optimized", t("notify.optimizationStarted", { id }));
+      await loadSchedules();
+    } catch (error) {
+      if (!isAbortError(error)) optimization.fail(id, t("error.startOptimization"));
+      reportError(error, t("error.startOptimization"));
     }
   };
 
   const checkConflicts = async (id: number): Promise<void> => {
     try {
-      const res = await fetch(`${API_BASE}/schedules/${id}/check-conflicts`, { method: "POST" });
-      const result: { conflicts?: unknown[] } = await res.json();
-      if (result.conflicts && result.conflicts.length > 0) {
-        addNotification("conflict", `Found ${result.conflicts.length} conflicts in schedule #${id}`);
+      const { conflicts, violations } = await api.schedules.checkConflicts(id, requestOptions());
+      if (conflicts.length > 0 || violations.length > 0) {
+        const name = schedules.find(s => s.id === id)?.name ?? `#${id}`;
+        openConflictReport({ scheduleId: id, title: t("conflicts.checkTitle", { name }), conflicts, violations });
       } else {
-        addNotification("updated", `No conflicts found in schedule #${id}`);
+        addNotification("updated", t("notify.noConflicts", { id }));
+        if (conflictReport?.scheduleId === id) closeConflictReport();
       }
-    } catch {
-      addNotification("error", "Failed to check conflicts");
+    } catch (error) {
+      reportError(error, t("error.checkConflicts"));
     }
   };
 
   const deleteSchedule = async (id: number): Promise<void> => {
-    if (!window.confirm("Delete this schedule?")) return;
+    const schedule = schedules.find(s => s.id === id);
+    const confirmed = await askConfirm({
+      title: t("schedules.delete"),
+      message: t("confirm.deleteSchedule", { name: schedule?.name ?? `#${id}` }),
+      confirmLabel: t("confirm.delete"),
+      danger: true,
+    });
+    if (!confirmed) return;
+    const queueDelete = (): void => {
+      if (!schedule) return;
+      queueOperation({ kind: "delete", scheduleId: id, base: schedule, label: t("offline.deleteLabel", { name: schedule.name }) });
+      addNotification("updated", t("notify.savedOffline", { message: t("notify.scheduleDeleted", { id }) }));
+    };
+
+    if (offline || id < 0) {
+      queueDelete();
+      return;
+    }
     try {
-      const res = await fetch(`${API_BASE}/schedules/${id}`, { method: "DELETE" });
-      if (res.ok) {
-        addNotification("updated", `Schedule #${id} deleted`);
-        await loadSchedules();
-        await loadStatistics();
-      } else {
-        addNotification("error", "Failed to delete");
+      expectLocalEcho("updated", id, "Deleted");
+      await api.schedules.remove(id, requestOptions());
+      versionHistory.clear(id);
+      addNotification("updated", t("notify.scheduleDeleted", { id }));
+      await loadSchedules();
+      await loadStatistics();
+    } catch (error) {
+      if (!isUnreachable(error)) {
+        reportError(error, t("error.deleteSchedule"));
+        return;
       }
-    } catch {
-      addNotification("error", "Failed to delete");
+      setServiceReachable(false);
+      queueDelete();
     }
   };
 
-  const addNotification = (type: NotificationType, message: string): void => {
-    const notif: UiNotification = { 
-      id: Date.now(), 
-      type, 
-      message, 
-      time: new Date().toLocaleString("en-US") 
-    };
-    setNotifications(prev => [notif, ...prev].slice(0, 20));
+  const changeStatus = async (schedule: Schedule, target: "publish" | "archive"): Promise<void> => {
+    const confirmed = await askConfirm({
+      title: t(target === "publish" ? "schedules.publish" : "schedules.archive"),
+      message: t(target === "publish" ? "confirm.publish" : "confirm.archive", { name: schedule.name }),
+      confirmLabel: t(target === "publish" ? "confirm.publishAction" : "confirm.archiveAction"),
+    });
+    if (!confirmed) return;
+    try {
+      expectLocalEcho("updated", schedule.id, target === "publish" ? "Published" : "Archived");
+      const updated = await api.schedules[target](schedule.id, requestOptions());
+      const message = t("notify.statusChanged", { name: updated.name, status: t(statusKeys[updated.status]) });
+      versionHistory.record(schedule, "status", message);
+      addNotification("updated", message, updated.id);
+      if (updated.id === selectedScheduleId) setEditingIndex(null);
+      await loadSchedules();
+      await loadStatistics();
+    } catch (error) {
+      reportError(error, t(target === "publish" ? "error.publish" : "error.archive", { name: schedule.name }));
+    }
+  };
+
+  // Read out by the live regions below; the id makes a repeated message count as new text
+  const announce = (text: string, urgent = false): void => {
+    setAnnouncement(prev => ({ id: (prev?.id ?? 0) + 1, text, urgent }));
   };
 
-  const dayNames = ["Sunday","Monday","Tuesday","Wednesday","Thursday","Friday","Saturday"];
-  const statusNames: Record<ScheduleStatus, string> = {
-    0: "Draft", 1: "Optimizing", 2: "Optimized", 3: "Published"
+  const addNotification = (type: NotificationType, message: string, scheduleId: number | null = null): void => {
+    notificationCenter.add(type, message, scheduleId);
+    announce(message, type === "error");
   };
-  const statusClasses: Record<ScheduleStatus, string> = {
-    0: "bg-yellow-500/20 text-yellow-300 border-yellow-500/50",
-    1: "bg-blue-500/20 text-blue-300 border-blue-500/50",
-    2: "bg-green-500/20 text-green-300 border-green-500/50",
-    3: "bg-purple-500/20 text-purple-300 border-purple-500/50",
+
+  // Arrow keys move between tabs as in the WAI-ARIA tabs pattern; the focused tab opens at once
+  const handleTabKey = (e: React.KeyboardEvent<HTMLDivElement>): void => {
+    const current = tabs.findIndex(tab => tab.page === activeTab);
+    const target =
+      e.key === "ArrowRight" ? (current + 1) % tabs.length
+      : e.key === "ArrowLeft" ? (current - 1 + tabs.length) % tabs.length
+      : e.key === "Home" ? 0
+      : e.key === "End" ? tabs.length - 1
+      : null;
+    if (target === null) return;
+    e.preventDefault();
+    openTab(tabs[target].page);
+    document.getElementById(`tab-${tabs[target].page}`)?.focus();
+  };
+
+  const stepSchedule = (step: 1 | -1): void => {
+    if (visibleSchedules.length === 0) return;
+    const current = visibleSchedules.findIndex(s => s.id === selectedScheduleId);
+    const next = current === -1
+      ? (step === 1 ? 0 : visibleSchedules.length - 1)
+      : (current + step + visibleSchedules.length) % visibleSchedules.length;
+    selectSchedule(visibleSchedules[next].id);
+    announce(t("a11y.scheduleSelected", { name: visibleSchedules[next].name }));
   };
 
-  const typeConfig: Record<NotificationType, { 
-    icon: React.ComponentType<React.SVGProps<SVGSVGElement>>; 
-    color: string; 
-    iconColor: string; 
-    title: string; 
-  }> = {
-    optimized: { icon: Zap, color: "border-emerald-500/50 bg-emerald-500/10", iconColor: "text-emerald-400", title: "Optimization" },
-    updated: { icon: CheckCircle, color: "border-cyan-500/50 bg-cyan-500/10", iconColor: "text-cyan-400", title: "Update" },
-    conflict: { icon: AlertCircle, color: "border-red-500/50 bg-red-500/10", iconColor: "text-red-400", title: "Conflict" },
-    error: { icon: AlertCircle, color: "border-red-500/50 bg-red-500/10", iconColor: "text-red-400", title: "Error" },
+  const startNewClass = (): void => {
+    openTab("schedules");
+    if (editingIndex !== null) cancelEditing();
+    requestAnimationFrame(() => {
+      subjectSelectRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+      subjectSelectRef.current?.focus({ preventScroll: true });
+    });
   };
 
+  const toggleTheme = (): void => {
+    const next = theme === "contrast" ? "dark" : "contrast";
+    setTheme(next);
+    saveTheme(next);
+    announce(t(next === "contrast" ? "a11y.contrastOn" : "a11y.contrastOff"));
+  };
+
+  useShortcuts((action) => {
+    const page = shortcutTabs[action];
+    if (page) {
+      openTab(page);
+      return;
+    }
+    switch (action) {
+      case "newClass":
+        startNewClass();
+        break;
+      case "nextSchedule":
+      case "previousSchedule":
+        stepSchedule(action === "nextSchedule" ? 1 : -1);
+        break;
+      case "checkConflicts":
+        if (selectedSchedule && selectedSchedule.id > 0) checkConflicts(selectedSchedule.id);
+        else announce(t("a11y.noScheduleSelected"));
+        break;
+      case "undo":
+        if (undoStack.length > 0) undoLastChange();
+        break;
+      case "toggleContrast":
+        toggleTheme();
+        break;
+      case "help":
+        setShowShortcuts(true);
+        break;
+    }
+  }, singleKeys);
+
+  const changeSingleKeys = (enabled: boolean): void => {
+    setSingleKeys(enabled);
+    saveSingleKeyShortcuts(enabled);
+  };
+
+  // Key hints in titles are only shown while the key works
+  const keyHint = (key: string): string => (singleKeys ? ` (${key})` : "");
+
+  // Too-small rooms are hidden unless asked for, but the current choice always stays selectable
+  const roomOptions = rankedRooms
+    .filter(({ room, spareSeats }) =>
+      showAllRooms || spareSeats === null || spareSeats >= 0 || String(room.id) === formData.roomId)
+    .map(({ room, spareSeats, typeMatches }) => ({
+      id: room.id,
+      name: `${tn("form.roomOption", room.capacity, { name: room.name, type: room.type })}${typeMatches ? " ✓" : ""}${
+        spareSeats !== null && spareSeats < 0 ? ` ${t("form.roomTooSmall")}` : ""}`,
+    }));
+
+  const catalogPickers = [
+    { key: "subjectId", field: "subject", label: "kind.subject", placeholder: "form.selectSubject", items: catalog.subjects },
+    { key: "teacherId", field: "teacher", label: "kind.teacher", placeholder: "form.selectTeacher", items: catalog.teachers },
+    {
+      key: "groupId", field: "group", label: "kind.group", placeholder: "form.selectGroup",
+      items: catalog.groups.map(g => ({ id: g.id, name: tn("form.groupOption", g.studentsCount, { name: g.name }) })),
+    },
+    { key: "roomId", field: "room", label: "kind.room", placeholder: "form.selectRoom", items: roomOptions },
+  ] as const;
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-950 to-slate-900 p-6">
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-950 to-slate-900 p-6 print:hidden">
+      <div className="sr-only" role="status" aria-live="polite">
+        {announcement && !announcement.urgent && <span key={announcement.id}>{announcement.text}</span>}
+      </div>
+      <div className="sr-only" role="alert">
+        {announcement?.urgent && <span key={announcement.id}>{announcement.text}</span>}
+      </div>
+
       <div className="max-w-7xl mx-auto">
-        <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-8 mb-6 text-center">
+        <header className="relative bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-8 mb-6 text-center">
+          <div className="absolute top-4 right-4 flex items-center gap-2 text-xs text-slate-400">
+            <button
+              onClick={() => setShowShortcuts(true)}
+              className="p-1.5 rounded-lg border border-slate-700 hover:border-slate-600 text-slate-300"
+              aria-label={t("shortcuts.title")}
+              title={`${t("shortcuts.title")}${keyHint("?")}`}
+            >
+              <Keyboard className="w-4 h-4" />
+            </button>
+            <button
+              onClick={toggleTheme}
+              aria-pressed={theme === "contrast"}
+              className="p-1.5 rounded-lg border border-slate-700 hover:border-slate-600 text-slate-300"
+              aria-label={t("app.highContrast")}
+              title={`${t("app.highContrast")}${keyHint("H")}`}
+            >
+              <Contrast className="w-4 h-4" />
+            </button>
+            <label className="flex items-center gap-1">
+              <Languages className="w-4 h-4" aria-hidden="true" />
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="px-2 py-1 bg-slate-900/50 border border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-slate-200"
+                aria-label={t("app.language")}
+                title={t("app.language")}
+              >
+                {(Object.keys(localeNames) as Locale[]).map(key => (
+                  <option key={key} value={key} lang={key}>{localeNames[key]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
           <h1 className="text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500 mb-2">
-            Schedule Management System
+            {t("app.title")}
           </h1>
-        </div>
-
-        <div className="flex gap-4 mb-6">
-          <button
-            onClick={() => setActiveTab("schedules")}
-            className={`flex-1 py-3 px-6 rounded-lg font-semibold transition-all ${
-              activeTab === "schedules"
-                ? "bg-cyan-500/20 text-cyan-300 border-2 border-cyan-500/50"
-                : "bg-slate-800/50 text-slate-400 border-2 border-slate-700/50 hover:border-slate-600"
-            }`}
-          >
-            <Calendar className="inline w-5 h-5 mr-2" />
-            Schedules
-          </button>
-          <button
-            onClick={() => setActiveTab("analytics")}
-            className={`flex-1 py-3 px-6 rounded-lg font-semibold transition-all ${
-              activeTab === "analytics"
-                ? "bg-cyan-500/20 text-cyan-300 border-2 border-cyan-500/50"
-                : "bg-slate-800/50 text-slate-400 border-2 border-slate-700/50 hover:border-slate-600"
-            }`}
+          <span
+            className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold border ${liveStateConfig[liveState].classes}`}
+            title={t(liveStateConfig[liveState].title, { seconds: STATS_POLL_INTERVAL_MS / 1000 })}
           >
-            <BarChart3 className="inline w-5 h-5 mr-2" />
-            Analytics
-          </button>
+            <Radio className="w-3 h-3" aria-hidden="true" /> {t(liveStateConfig[liveState].label)}
+          </span>
+          <div className="mt-2">
+            <SyncStatus
+              offline={offline}
+              syncing={syncing}
+              queue={offlineQueue.queue}
+              onRetry={retrySync}
+              onDiscard={discardPending}
+            />
+          </div>
+        </header>
+
+        <div role="tablist" aria-label={t("tabs.label")} className="flex gap-4 mb-6" onKeyDown={handleTabKey}>
+          {tabs.map(tab => {
+            const selected = activeTab === tab.page;
+            return (
+              <button
+                key={tab.page}
+                id={`tab-${tab.page}`}
+                role="tab"
+                aria-selected={selected}
+                aria-controls="tab-panel"
+                tabIndex={selected ? 0 : -1}
+                onClick={() => openTab(tab.page)}
+                className={`flex-1 py-3 px-6 rounded-lg font-semibold transition-all ${
+                  selected
+                    ? "bg-cyan-500/20 text-cyan-300 border-2 border-cyan-500/50"
+                    : "bg-slate-800/50 text-slate-400 border-2 border-slate-700/50 hover:border-slate-600"
+                }`}
+              >
+                <tab.icon className="inline w-5 h-5 mr-2" aria-hidden="true" />
+                {t(tab.label)}
+              </button>
+            );
+          })}
         </div>
 
-        {activeTab === "schedules" && (
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
-            <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6">
-              <h2 className="text-2xl font-bold text-cyan-400 mb-4 flex items-center gap-2 border-b-2 border-cyan-500/50 pb-2">
-                <Plus className="w-6 h-6" /> Create New Schedule
-              </h2>
-
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div>
-                  <label className="block text-sm font-semibold text-slate-300 mb-1">Select Existing Schedule</label>
-                  <select
-                    value={selectedScheduleId ?? ""}
-                    onChange={(e) => {
-                      const val = e.target.value;
-                      setSelectedScheduleId(val ? parseInt(val, 10) : null);
-                    }}
-                    className="w-full px-4 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-slate-200"
+        <main id="tab-panel" role="tabpanel" aria-labelledby={`tab-${activeTab}`}>
+          {route.page === "personal" && (
+            <PersonalTimetable
+              schedules={schedules}
+              catalog={catalog}
+              selection={route.selection}
+              includeArchived={route.includeArchived}
+              onChange={(selection, includeArchived) => navigate({ ...route, selection, includeArchived })}
+              onOpenSchedule={openSchedule}
+            />
+          )}
+
+          {route.page === "catalog" && (
+            <div className="mb-6">
+              <CatalogPanel
+                catalog={catalog}
+                activeKind={route.kind}
+                onKindChange={(kind) => navigate({ ...route, kind })}
+                onCreate={createCatalogRecord}
+              />
+            </div>
+          )}
+
+          {route.page === "catalog" && (
+            <div className="mb-6">
+              <ConstraintsEditor
+                constraints={constraints}
+                catalog={catalog}
+                schedules={schedules}
+                onSave={saveConstraint}
+                onDelete={deleteConstraint}
+              />
+            </div>
+          )}
+
+          {activeTab === "schedules" && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+              <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6">
+                <div className="flex items-center justify-between mb-4 border-b-2 border-cyan-500/50 pb-2">
+                  <h2 className="text-2xl font-bold text-cyan-400 flex items-center gap-2">
+                    <Plus className="w-6 h-6" /> {t("form.title")}
+                  </h2>
+                  <button
+                    onClick={() => setShowImport(true)}
+                    className="bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-300 px-3 py-1.5 rounded-lg text-xs font-semibold border border-cyan-500/50 transition-all flex items-center gap-1"
                   >
-                    <option value="">-- Create New Schedule --</option>
-                    {schedules.map((schedule) => (
-                      <option key={schedule.id} value={schedule.id}>
-                        {schedule.name} (ID: {schedule.id}, Classes: {schedule.entries.length})
-                      </option>
-                    ))}
-                  </select>
-                  <p className="text-xs text-slate-500 mt-1">
-                    {selectedScheduleId
-                      ? "Adding class to existing schedule"
-                      : "Creating new schedule with first class"}
-                  </p>
+                    <FileUp className="w-3 h-3" /> {t("form.importCsv")}
+                  </button>
                 </div>
 
-                {!selectedScheduleId && (
+                <form onSubmit={handleSubmit} className="space-y-4">
                   <div>
-                    <label className="block text-sm font-semibold text-slate-300 mb-1">New Schedule Name</label>
-                    <input
-                      type="text"
-                      value={formData.scheduleName}
-                      onChange={(e) => setFormData({ ...formData, scheduleName: e.target.value })}
+                    <label htmlFor="form-schedule" className="block text-sm font-semibold text-slate-300 mb-1">{t("form.existingSchedule")}</label>
+                    <select
+                      id="form-schedule"
+                      value={selectedScheduleId ?? ""}
+                      onChange={(e) => {
+                        const val = e.target.value;
+                        selectSchedule(val ? parseInt(val, 10) : null);
+                      }}
                       className="w-full px-4 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-slate-200"
-                      required
-                    />
+                    >
+                      <option value="">{t("form.newScheduleOption")}</option>
+                      {schedules.map((schedule) => (
+                        <option key={schedule.id} value={schedule.id}>
+                          {tn("form.scheduleOption", schedule.entries.length, { name: schedule.name, id: schedule.id })}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {t(selectedScheduleId ? "form.addingHint" : "form.creatingHint")}
+                    </p>
+                    {selectedSchedule && selectedLocked && (
+                      <p className="text-xs text-purple-300 mt-2 flex items-center gap-1">
+                        <Lock className="w-3 h-3" /> {t("form.lockedHint", { status: t(statusKeys[selectedSchedule.status]) })}
+                      </p>
+                    )}
                   </div>
-                )}
 
-                <div className="border-t border-slate-700 pt-4">
-                  <h3 className="font-semibold text-slate-300 mb-3">Add Class</h3>
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="block text-sm font-medium text-slate-400 mb-1">Subject</label>
-                      <input
-                        type="text"
-                        value={formData.subject}
-                        onChange={(e) => setFormData({ ...formData, subject: e.target.value })}
-                        className="w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
-                        placeholder="Software Architecture"
-                      />
-                    </div>
+                  {!selectedScheduleId && (
                     <div>
-                      <label className="block text-sm font-medium text-slate-400 mb-1">Teacher</label>
+                      <label htmlFor="form-schedule-name" className="block text-sm font-semibold text-slate-300 mb-1">{t("form.scheduleName")}</label>
                       <input
+                        id="form-schedule-name"
                         type="text"
-                        value={formData.teacher}
-                        onChange={(e) => setFormData({ ...formData, teacher: e.target.value })}
-                        className="w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
-                        placeholder="Dr. Lutsyk"
-                        list="teachers-list"
+                        value={formData.scheduleName}
+                        onChange={(e) => setFormData({ ...formData, scheduleName: e.target.value })}
+                        className="w-full px-4 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-slate-200"
+                        required
                       />
-                      <datalist id="teachers-list">
-                        {teachers.map(t => <option key={t.id} value={t.name} />)}
-                      </datalist>
                     </div>
-                    <div>
-                      <label className="block text-sm font-medium text-slate-400 mb-1">Group</label>
-                      <input
-                        type="text"
-                        value={formData.group}
-                        onChange={(e) => setFormData({ ...formData, group: e.target.value })}
-                        className="w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
-                        placeholder="PZ-46"
-                        list="groups-list"
-                      />
-                      <datalist id="groups-list">
-                        {groups.map(g => <option key={g.id} value={g.name} />)}
-                      </datalist>
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-slate-400 mb-1">Room</label>
-                      <input
-                        type="text"
-                        value={formData.room}
-                        onChange={(e) => setFormData({ ...formData, room: e.target.value })}
-                        className="w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
-                        placeholder="Room 301"
-                        list="rooms-list"
-                      />
-                      <datalist id="rooms-list">
-                        {rooms.map(r => <option key={r.id} value={r.name} />)}
-                      </datalist>
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-slate-400 mb-1">Day of Week</label>
-                      <select
-                        value={formData.dayOfWeek}
-                        onChange={(e) => setFormData({ ...formData, dayOfWeek: e.target.value })}
-                        className="w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
-                      >
-                        {["Monday","Tuesday","Wednesday","Thursday","Friday","Saturday"].map((day, idx) => (
-                          <option key={idx + 1} value={idx + 1}>{day}</option>
-                        ))}
-                      </select>
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-slate-400 mb-1">Time</label>
-                      <div className="flex gap-2">
-                        <input
-                          type="time"
-                          value={formData.startTime}
-                          onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
-                          className="w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
-                        />
-                        <input
-                          type="time"
-                          value={formData.endTime}
-                          onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+                  )}
+
+                  <div className="border-t border-slate-700 pt-4">
+                    <h3 className="font-semibold text-slate-300 mb-3">
+                      {editingIndex !== null ? t("form.editClass", { number: editingIndex + 1 }) : t("form.addClass")}
+                    </h3>
+                    <div className="grid grid-cols-2 gap-4">
+                      {catalogPickers.map(picker => (
+                        <div key={picker.key}>
+                          <label htmlFor={`form-${picker.field}`} className="block text-sm font-medium text-slate-400 mb-1">{t(picker.label)}</label>
+                          <select
+                            id={`form-${picker.field}`}
+                            ref={picker.key === "subjectId" ? subjectSelectRef : undefined}
+                            value={formData[picker.key]}
+                            onChange={(e) => setFormData({ ...formData, [picker.key]: e.target.value })}
+                            className="w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
+                          >
+                            <option value="">{t(picker.placeholder)}</option>
+                            {picker.items.map(item => (
+                              <option key={item.id} value={item.id}>{item.name}</option>
+                            ))}
+                          </select>
+                          {editingEntry && !formData[picker.key] && (
+                            <p className="text-xs text-amber-400 mt-1">
+                              {t("form.notInCatalog", { name: editingEntry[picker.field] })}
+                            </p>
+                          )}
+                          {picker.key === "roomId" && (
+                            <>
+                              {roomShortage > 0 && (
+                                <p className="text-xs text-red-400 mt-1">
+                                  {tn("form.seatsShort", roomShortage)}
+                                </p>
+                              )}
+                              <label className="flex items-center gap-2 text-xs text-slate-500 mt-1 cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={showAllRooms}
+                                  onChange={(e) => setShowAllRooms(e.target.checked)}
+                                  className="accent-cyan-500"
+                                />
+                                {t("form.showSmallRooms")}
+                              </label>
+                            </>
+                          )}
+                        </div>
+                      ))}
+                      <div>
+                        <label htmlFor="form-day" className="block text-sm font-medium text-slate-400 mb-1">{t("form.dayOfWeek")}</label>
+                        <select
+                          id="form-day"
+                          value={formData.dayOfWeek}
+                          onChange={(e) => setFormData({ ...formData, dayOfWeek: e.target.value })}
                           className="w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
-                        />
+                        >
+                          {weekDays.map(day => (
+                            <option key={day} value={day}>{weekdayName(day)}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="form-start" className="block text-sm font-medium text-slate-400 mb-1">{t("form.time")}</label>
+                        <div className="flex gap-2">
+                          <input
+                            id="form-start"
+                            type="time"
+                            aria-label={t("import.start")}
+                            value={formData.startTime}
+                            onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                            className="w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
+                          />
+                          <input
+                            type="time"
+                            aria-label={t("import.end")}
+                            value={formData.endTime}
+                            onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+                            className="w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
+                          />
+                        </div>
                       </div>
                     </div>
+                    {draftClashes.length > 0 && (
+                      <ClashWarnings clashes={draftClashes} suggestions={slotSuggestions} onPick={applySuggestedSlot} />
+                    )}
                   </div>
+
+                  <button
+                    type="submit"
+                    disabled={selectedLocked}
+                    className="w-full bg-gradient-to-r from-cyan-500 to-blue-500 text-white font-semibold py-3 rounded-lg hover:shadow-lg hover:shadow-cyan-500/50 transform hover:-translate-y-0.5 transition-all disabled:opacity-40 disabled:cursor-not-allowed disabled:transform-none disabled:shadow-none"
+                  >
+                    {t(editingIndex !== null
+                      ? "form.saveChanges"
+                      : selectedScheduleId ? "form.addToSchedule" : "form.title")}
+                  </button>
+                  {editingIndex !== null && (
+                    <button
+                      type="button"
+                      onClick={cancelEditing}
+                      className="w-full bg-slate-900/50 border-2 border-slate-700 text-slate-300 font-semibold py-2 rounded-lg hover:border-slate-600 transition-all"
+                    >
+                      {t("form.cancelEditing")}
+                    </button>
+                  )}
+                </form>
+              </div>
+
+              <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6">
+                <div className="flex items-center justify-between mb-4 border-b-2 border-cyan-500/50 pb-2">
+                  <h2 className="text-2xl font-bold text-cyan-400 flex items-center gap-2">
+                    <Calendar className="w-6 h-6" /> {t("schedules.title")}
+                  </h2>
+                  <button
+                    onClick={() => loadSchedules()}
+                    className="bg-gradient-to-r from-blue-500 to-cyan-500 text-white px-4 py-2 rounded-lg font-semibold hover:shadow-lg hover:shadow-blue-500/50 transform hover:-translate-y-0.5 transition-all flex items-center gap-2"
+                  >
+                    <RefreshCw className="w-4 h-4" /> {t("common.refresh")}
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {(["all", 0, 1, 2, 3, 4] as const).map(status => (
+                    <button
+                      key={status}
+                      onClick={() => setStatusFilter(status)}
+                      aria-pressed={statusFilter === status}
+                      className={`px-3 py-1 rounded-full text-xs font-semibold border transition-all ${
+                        statusFilter === status
+                          ? status === "all" ? "bg-cyan-500/20 text-cyan-300 border-cyan-500/50" : statusClasses[status]
+                          : "bg-slate-900/50 text-slate-500 border-slate-700 hover:border-slate-600"
+                      }`}
+                    >
+                      {t(status === "all" ? "common.all" : statusKeys[status])}{" "}
+                      ({status === "all" ? schedules.length : schedules.filter(s => s.status === status).length})
+                    </button>
+                  ))}
                 </div>
 
-                <button
-                  type="submit"
-                  className="w-full bg-gradient-to-r from-cyan-500 to-blue-500 text-white font-semibold py-3 rounded-lg hover:shadow-lg hover:shadow-cyan-500/50 transform hover:-translate-y-0.5 transition-all"
-                >
-                  {selectedScheduleId ? "Add Class to Schedule" : "Create New Schedule"}
-                </button>
-              </form>
+                <div className="space-y-4 max-h-[600px] overflow-y-auto pr-2">
+                  {loading ? (
+                    <div className="text-center py-12" role="status">
+                      <div className="inline-block w-12 h-12 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin mb-4" aria-hidden="true" />
+                      <p className="text-slate-400">{t("common.loading")}</p>
+                    </div>
+                  ) : schedules.length === 0 ? (
+                    <div className="text-center py-12 text-slate-500">
+                      <Calendar className="w-16 h-16 mx-auto mb-4 text-slate-700" />
+                      <p>{t("schedules.empty")}</p>
+                    </div>
+                  ) : visibleSchedules.length === 0 ? (
+                    <p className="text-center py-12 text-slate-500">
+                      {t("schedules.emptyStatus", { status: t(statusKeys[statusFilter as ScheduleStatus]) })}
+                    </p>
+                  ) : (
+                    visibleSchedules.map((schedule) => (
+                      <div
+                        key={schedule.id}
+                        onClick={() => selectSchedule(schedule.id)}
+                        className={`bg-slate-900/50 border p-4 rounded-xl cursor-pointer transition-all ${
+                          schedule.id === selectedScheduleId
+                            ? "border-cyan-400 shadow-lg shadow-cyan-500/20"
+                            : "border-cyan-500/30 hover:border-cyan-500/60"
+                        }`}
+                      >
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <h3 className="text-lg font-bold text-slate-200 mb-2">
+                              {/* The whole card is clickable; this button is its keyboard and screen reader entry */}
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  selectSchedule(schedule.id);
+                                }}
+                                aria-current={schedule.id === selectedScheduleId ? "true" : undefined}
+                                className="text-left hover:text-cyan-300"
+                              >
+                                {schedule.name}
+                              </button>
+                            </h3>
+                            <div className="text-sm text-slate-400 space-y-1">
+                              <p><strong>{t("schedules.id")}</strong> {schedule.id}</p>
+                              <p><strong>{t("schedules.created")}</strong> {formatDateTime(schedule.createdAt)}</p>
+                              <p><strong>{t("schedules.classes")}</strong> {schedule.entries?.length ?? 0}</p>
+                              {brokenConstraints[schedule.id] > 0 && (
+                                <p className="text-amber-300 flex items-center gap-1">
+                                  <ShieldAlert className="w-3 h-3" aria-hidden="true" /> {tn("schedules.brokenConstraints", brokenConstraints[schedule.id])}
+                                </p>
+                              )}
+                            </div>
+                          </div>
+                          <div className="flex flex-col items-end gap-2">
+                            <span className={`px-3 py-1 rounded-full text-xs font-semibold border ${statusClasses[schedule.status]}`}>
+                              {t(statusKeys[schedule.status])}
+                            </span>
+                            <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                              <button
+                                onClick={() => setOptimizeDialogScheduleId(schedule.id)}
+                                disabled={schedule.id < 0 || isLocked(schedule) || schedule.status === 1 || (optimization.runs[schedule.id] !== undefined && !isRunFinished(optimization.runs[schedule.id]))}
+                                className="bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300 p-2 rounded-lg text-xs font-semibold border border-emerald-500/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                                aria-label={t("a11y.scheduleAction", { action: t("schedules.optimize"), name: schedule.name })}
+                                title={t("schedules.optimize")}
+                              >
+                                <Zap className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => changeStatus(schedule, "publish")}
+                                disabled={schedule.id < 0 || !canPublish(schedule.status)}
+                                className="bg-purple-500/20 hover:bg-purple-500/30 text-purple-300 p-2 rounded-lg text-xs font-semibold border border-purple-500/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                                aria-label={t("a11y.scheduleAction", { action: t("schedules.publish"), name: schedule.name })}
+                                title={t("schedules.publish")}
+                              >
+                                <Send className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => changeStatus(schedule, "archive")}
+                                disabled={schedule.id < 0 || !canArchive(schedule.status)}
+                                className="bg-slate-500/20 hover:bg-slate-500/30 text-slate-300 p-2 rounded-lg text-xs font-semibold border border-slate-500/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                                aria-label={t("a11y.scheduleAction", { action: t("schedules.archive"), name: schedule.name })}
+                                title={t("schedules.archive")}
+                              >
+                                <Archive className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => checkConflicts(schedule.id)}
+                                disabled={schedule.id < 0}
+                                className="bg-orange-500/20 hover:bg-orange-500/30 text-orange-300 p-2 rounded-lg text-xs font-semibold border border-orange-500/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                                aria-label={t("a11y.scheduleAction", { action: t("schedules.checkConflicts"), name: schedule.name })}
+                                title={`${t("schedules.checkConflicts")}${keyHint("C")}`}
+                              >
+                                <AlertCircle className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => deleteSchedule(schedule.id)}
+                                className="bg-red-500/20 hover:bg-red-500/30 text-red-300 p-2 rounded-lg text-xs font-semibold border border-red-500/50 transition-all"
+                                aria-label={t("a11y.scheduleAction", { action: t("schedules.delete"), name: schedule.name })}
+                                title={t("schedules.delete")}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </div>
+                        </div>
+
+                        {optimization.runs[schedule.id] && (
+                          <div onClick={(e) => e.stopPropagation()}>
+                            <OptimizationProgress
+                              run={optimization.runs[schedule.id]}
+                              comparison={optimizationBaselines[schedule.id] && {
+                                before: optimizationBaselines[schedule.id],
+                                after: takeSnapshot(schedule.entries),
+                              }}
+                              onDismiss={() => optimization.dismiss(schedule.id)}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
             </div>
+          )}
+
+          {activeTab === "schedules" && showImport && (
+            <ImportWizard
+              schedules={schedules}
+              catalog={catalog}
+              scheduleId={selectedScheduleId}
+              onImport={importEntries}
+              onClose={() => setShowImport(false)}
+            />
+          )}
+
+          {activeTab === "schedules" && conflictReport && (
+            <ConflictInspector
+              title={conflictReport.title}
+              conflicts={conflictReport.conflicts}
+              violations={conflictReport.violations}
+              entries={conflictReportSchedule?.entries ?? []}
+              onSelect={focusConflictEntries}
+              onClose={closeConflictReport}
+            />
+          )}
 
-            <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6">
+          {activeTab === "schedules" && selectedSchedule && (
+            <div ref={timetableRef} className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6 mb-6 scroll-mt-6">
               <div className="flex items-center justify-between mb-4 border-b-2 border-cyan-500/50 pb-2">
                 <h2 className="text-2xl font-bold text-cyan-400 flex items-center gap-2">
-                  <Calendar className="w-6 h-6" /> Existing Schedules
+                  <LayoutGrid className="w-6 h-6" /> {t("timetable.title", { name: selectedSchedule.name })}
                 </h2>
-                <button
-                  onClick={loadSchedules}
-                  className="bg-gradient-to-r from-blue-500 to-cyan-500 text-white px-4 py-2 rounded-lg font-semibold hover:shadow-lg hover:shadow-blue-500/50 transform hover:-translate-y-0.5 transition-all flex items-center gap-2"
-                >
-                  <RefreshCw className="w-4 h-4" /> Refresh
-                </button>
+                <div className="flex gap-2">
+                  {entryConflicts?.scheduleId === selectedSchedule.id && (
+                    <button
+                      onClick={() => setEntryConflicts(null)}
+                      className="bg-red-500/20 hover:bg-red-500/30 text-red-300 px-3 py-1.5 rounded-lg text-xs font-semibold border border-red-500/50 transition-all"
+                    >
+                      {t("timetable.clearMarkers")}
+                    </button>
+                  )}
+                  {undoStack.length > 0 && (
+                    <button
+                      onClick={undoLastChange}
+                      className="bg-slate-900/50 hover:bg-slate-700/50 text-slate-300 px-3 py-1.5 rounded-lg text-xs font-semibold border border-slate-600 transition-all flex items-center gap-1"
+                      title={`${undoStack[0].label} (Ctrl / ⌘ + Z)`}
+                    >
+                      <Undo2 className="w-3 h-3" /> {t("timetable.undo")}
+                    </button>
+                  )}
+                </div>
               </div>
+              <StatusTimeline schedule={selectedSchedule} events={events} />
+              {selectedSchedule.entries?.length > 0 ? (
+                <WeeklyTimetable
+                  entries={selectedSchedule.entries}
+                  conflicts={conflictMarkers}
+                  focused={focusedEntries}
+                  onEntryChange={selectedLocked ? undefined : (index, updated) => rescheduleEntry(selectedSchedule, index, updated)}
+                  onEntryClick={selectedLocked ? undefined : startEditing}
+                />
+              ) : (
+                <p className="text-center py-8 text-slate-500">{t("timetable.empty")}</p>
+              )}
 
-              <div className="space-y-4 max-h-[600px] overflow-y-auto pr-2">
-                {loading ? (
-                  <div className="text-center py-12">
-                    <div className="inline-block w-12 h-12 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin mb-4" />
-                    <p className="text-slate-400">Loading...</p>
-                  </div>
-                ) : schedules.length === 0 ? (
-                  <div className="text-center py-12 text-slate-500">
-                    <Calendar className="w-16 h-16 mx-auto mb-4 text-slate-700" />
-                    <p>No schedules found. Create your first one!</p>
-                  </div>
-                ) : (
-                  schedules.map((schedule) => (
-                    <div key={schedule.id} className="bg-slate-900/50 border border-cyan-500/30 p-4 rounded-xl">
-                      <div className="flex items-start justify-between mb-3">
-                        <div className="flex-1">
-                          <h3 className="text-lg font-bold text-slate-200 mb-2">{schedule.name}</h3>
-                          <div className="text-sm text-slate-400 space-y-1">
-                            <p><strong>ID:</strong> {schedule.id}</p>
-                            <p><strong>Created:</strong> {new Date(schedule.createdAt).toLocaleString("en-US")}</p>
-                            <p><strong>Classes:</strong> {schedule.entries?.length ?? 0}</p>
-                          </div>
-                        </div>
-                        <div className="flex flex-col items-end gap-2">
-                          <span className={`px-3 py-1 rounded-full text-xs font-semibold border ${statusClasses[schedule.status]}`}>
-                            {statusNames[schedule.status]}
-                          </span>
-                          <div className="flex gap-1">
-                            <button onClick={() => optimizeSchedule(schedule.id)} className="bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300 p-2 rounded-lg text-xs font-semibold border border-emerald-500/50 transition-all" title="Optimize Schedule">
-                              <Zap className="w-4 h-4" />
-                            </button>
-                            <button onClick={() => checkConflicts(schedule.id)} className="bg-orange-500/20 hover:bg-orange-500/30 text-orange-300 p-2 rounded-lg text-xs font-semibold border border-orange-500/50 transition-all" title="Check Conflicts">
-                              <AlertCircle className="w-4 h-4" />
-                            </button>
-                            <button onClick={() => deleteSchedule(schedule.id)} className="bg-red-500/20 hover:bg-red-500/30 text-red-300 p-2 rounded-lg text-xs font-semibold border border-red-500/50 transition-all" title="Delete Schedule">
-                              <Trash2 className="w-4 h-4" />
-                            </button>
-                          </div>
-                        </div>
-                      </div>
+              {selectedSchedule.entries?.length > 0 && (
+                <div className="mt-6 border-t border-slate-700 pt-4">
+                  <h3 className="font-semibold text-slate-300 mb-3">{t("timetable.roomCapacity")}</h3>
+                  <CapacityReport issues={capacityIssues} onSelect={focusEntry} />
+                </div>
+              )}
 
-                      {schedule.entries?.length > 0 && (
-                        <div className="space-y-2">
-                          {schedule.entries.map((entry, idx) => (
-                            <div key={idx} className="bg-cyan-500/10 border border-cyan-500/30 p-3 rounded-lg text-sm">
-                              <div className="font-semibold text-cyan-300 mb-1">{entry.subject}</div>
-                              <div className="text-slate-400 space-y-0.5">
-                                <div className="flex items-center gap-2"><User className="w-3 h-3" />{entry.teacher}</div>
-                                <div className="flex items-center gap-2"><Book className="w-3 h-3" />{entry.group}</div>
-                                <div className="flex items-center gap-2"><MapPin className="w-3 h-3" />{entry.room}</div>
-                                <div className="flex items-center gap-2"><Clock className="w-3 h-3" />{dayNames[entry.dayOfWeek]} {entry.startTime.substring(0,5)} - {entry.endTime.substring(0,5)}</div>
-                              </div>
-                            </div>
-                          ))}
-                        </div>
-                      )}
-                    </div>
-                  ))
-                )}
+              {selectedSchedule.entries?.length > 0 && (
+                <div className="mt-6 border-t border-slate-700 pt-4">
+                  <h3 className="font-semibold text-slate-300 mb-3">{t("timetable.export")}</h3>
+                  <ScheduleExport schedule={selectedSchedule} />
+                </div>
+              )}
+
+              {selectedSchedule.entries?.length > 0 && (
+                <div className="mt-6 border-t border-slate-700 pt-4">
+                  <h3 className="font-semibold text-slate-300 mb-3">{t("timetable.classes")}</h3>
+                  <EntryList
+                    key={selectedSchedule.id}
+                    entries={selectedSchedule.entries}
+                    editingIndex={editingIndex}
+                    onEdit={startEditing}
+                    onDelete={(indexes) => deleteEntries(selectedSchedule, indexes)}
+                    readOnly={selectedLocked}
+                  />
+                </div>
+              )}
+
+              <div className="mt-6 border-t border-slate-700 pt-4">
+                <h3 className="font-semibold text-slate-300 mb-3">{t("timetable.versions")}</h3>
+                <VersionHistory
+                  key={selectedSchedule.id}
+                  schedule={selectedSchedule}
+                  versions={versionsOf(versionHistory.versions, selectedSchedule.id)}
+                  onRestore={selectedLocked ? undefined : restoreVersion}
+                />
               </div>
             </div>
-          </div>
-        )}
-
-        {activeTab === "analytics" && statistics && (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-6">
-            <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-xl p-6">
-              <div className="flex items-center justify-between mb-2">
-                <Activity className="w-8 h-8 text-cyan-400" />
-                <span className="text-3xl font-bold text-cyan-300">{statistics.totalSchedules}</span>
+          )}
+
+          {activeTab === "analytics" && statistics && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-6">
+              <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-xl p-6">
+                <div className="flex items-center justify-between mb-2">
+                  <Activity className="w-8 h-8 text-cyan-400" />
+                  <span className="text-3xl font-bold text-cyan-300">{statistics.totalSchedules}</span>
+                </div>
+                <h3 className="text-slate-400 font-semibold">{t("stats.totalSchedules")}</h3>
               </div>
-              <h3 className="text-slate-400 font-semibold">Total Schedules</h3>
-            </div>
             
-            <div className="bg-slate-800/50 backdrop-blur-sm border border-emerald-500/30 rounded-xl p-6">
-              <div className="flex items-center justify-between mb-2">
-                <Zap className="w-8 h-8 text-emerald-400" />
-                <span className="text-3xl font-bold text-emerald-300">{statistics.totalOptimizations}</span>
+              <div className="bg-slate-800/50 backdrop-blur-sm border border-emerald-500/30 rounded-xl p-6">
+                <div className="flex items-center justify-between mb-2">
+                  <Zap className="w-8 h-8 text-emerald-400" />
+                  <span className="text-3xl font-bold text-emerald-300">{statistics.totalOptimizations}</span>
+                </div>
+                <h3 className="text-slate-400 font-semibold">{t("stats.totalOptimizations")}</h3>
               </div>
-              <h3 className="text-slate-400 font-semibold">Total Optimizations</h3>
-            </div>
             
-            <div className="bg-slate-800/50 backdrop-blur-sm border border-red-500/30 rounded-xl p-6">
-              <div className="flex items-center justify-between mb-2">
-                <AlertCircle className="w-8 h-8 text-red-400" />
-                <span className="text-3xl font-bold text-red-300">{statistics.totalConflictsDetected}</span>
+              <div className="bg-slate-800/50 backdrop-blur-sm border border-red-500/30 rounded-xl p-6">
+                <div className="flex items-center justify-between mb-2">
+                  <AlertCircle className="w-8 h-8 text-red-400" />
+                  <span className="text-3xl font-bold text-red-300">{statistics.totalConflictsDetected}</span>
+                </div>
+                <h3 className="text-slate-400 font-semibold">{t("stats.conflictsDetected")}</h3>
               </div>
-              <h3 className="text-slate-400 font-semibold">Conflicts Detected</h3>
-            </div>
             
-            <div className="bg-slate-800/50 backdrop-blur-sm border border-blue-500/30 rounded-xl p-6">
-              <div className="flex items-center justify-between mb-2">
-                <TrendingUp className="w-8 h-8 text-blue-400" />
-                <span className="text-3xl font-bold text-blue-300">{statistics.totalUpdates}</span>
+              <div className="bg-slate-800/50 backdrop-blur-sm border border-blue-500/30 rounded-xl p-6">
+                <div className="flex items-center justify-between mb-2">
+                  <TrendingUp className="w-8 h-8 text-blue-400" />
+                  <span className="text-3xl font-bold text-blue-300">{statistics.totalUpdates}</span>
+                </div>
+                <h3 className="text-slate-400 font-semibold">{t("stats.totalUpdates")}</h3>
               </div>
-              <h3 className="text-slate-400 font-semibold">Total Updates</h3>
-            </div>
             
-            <div className="bg-slate-800/50 backdrop-blur-sm border border-purple-500/30 rounded-xl p-6">
-              <div className="flex items-center justify-between mb-2">
-                <Clock className="w-8 h-8 text-purple-400" />
-                <span className="text-3xl font-bold text-purple-300">{statistics.averageOptimizationTime.toFixed(1)}s</span>
+              <div className="bg-slate-800/50 backdrop-blur-sm border border-purple-500/30 rounded-xl p-6">
+                <div className="flex items-center justify-between mb-2">
+                  <Clock className="w-8 h-8 text-purple-400" />
+                  <span className="text-3xl font-bold text-purple-300">{t("stats.seconds", { value: statistics.averageOptimizationTime.toFixed(1) })}</span>
+                </div>
+                <h3 className="text-slate-400 font-semibold">{t("stats.averageOptimizationTime")}</h3>
               </div>
-              <h3 className="text-slate-400 font-semibold">Avg Optimization Time</h3>
-            </div>
             
-            <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-xl p-6">
-              <div className="flex items-center justify-between mb-2">
-                <Calendar className="w-8 h-8 text-cyan-400" />
-                <span className="text-lg font-bold text-cyan-300">{new Date(statistics.lastUpdated).toLocaleTimeString()}</span>
+              <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-xl p-6">
+                <div className="flex items-center justify-between mb-2">
+                  <Calendar className="w-8 h-8 text-cyan-400" />
+                  <span className="text-lg font-bold text-cyan-300">{formatTime(statistics.lastUpdated)}</span>
+                </div>
+                <h3 className="text-slate-400 font-semibold">{t("stats.lastUpdated")}</h3>
               </div>
-              <h3 className="text-slate-400 font-semibold">Last Updated</h3>
             </div>
-          </div>
-        )}
-
-        <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6">
-          <h2 className="text-2xl font-bold text-cyan-400 mb-4 flex items-center gap-2 border-b-2 border-cyan-500/50 pb-2">
-            Real-time Notifications
-          </h2>
-          <p className="text-sm text-slate-400 mb-4">Events from RabbitMQ (auto-updated)</p>
-
-          <div className="space-y-3 max-h-96 overflow-y-auto">
-            {notifications.length === 0 ? (
-              <div className="text-center py-8 text-slate-500">
-                <AlertCircle className="w-12 h-12 mx-auto mb-3 text-slate-700" />
-                <p>Waiting for events...</p>
-              </div>
-            ) : (
-              notifications.map((notif) => {
-                const cfg = typeConfig[notif.type];
-                const Icon = cfg.icon;
-                return (
-                  <div key={notif.id} className={`p-4 rounded-xl border ${cfg.color} animate-fade-in`}>
-                    <div className="flex items-start gap-3">
-                      <Icon className={`w-5 h-5 ${cfg.iconColor} mt-0.5`} />
-                      <div className="flex-1">
-                        <div className="flex items-center justify-between mb-1">
-                          <span className="font-semibold text-slate-200">{cfg.title}</span>
-                          <span className="text-xs text-slate-500">{notif.time}</span>
-                        </div>
-                        <p className="text-sm text-slate-300">{notif.message}</p>
-                      </div>
-                    </div>
-                  </div>
-                );
-              })
-            )}
-          </div>
-        </div>
+          )}
+
+          {route.page === "analytics" && (
+            <>
+              <ActivityCharts
+                history={activity.history}
+                paused={pollingPaused}
+                onTogglePause={() => setPollingPaused(!pollingPaused)}
+                onClear={activity.clear}
+              />
+              <ScheduleAnalytics
+                schedules={schedules}
+                scheduleId={route.scheduleId}
+                onSelect={(scheduleId) => navigate({ ...route, scheduleId })}
+              />
+              <ScheduleComparison
+                schedules={schedules}
+                ids={route.compare}
+                onChange={(compare) => navigate({ ...route, compare })}
+              />
+            </>
+          )}
+
+          {route.page === "events" && (
+            <EventLog
+              events={events}
+              schedules={schedules}
+              filter={route.filter}
+              onFilterChange={(filter) => navigate({ ...route, filter }, { replace: true })}
+              onOpenSchedule={openSchedule}
+            />
+          )}
+        </main>
+
+        <NotificationCenter
+          notifications={notificationCenter.notifications}
+          schedules={schedules}
+          onOpenSchedule={openSchedule}
+          onRead={notificationCenter.read}
+          onRemove={notificationCenter.remove}
+          onClear={notificationCenter.clear}
+        />
       </div>
+
+      {syncConflict && <SyncConflictDialog conflict={syncConflict} onResolve={resolveSyncConflict} />}
+
+      {confirmRequest && <ConfirmDialog request={confirmRequest} onResolve={resolveConfirm} />}
+
+      {showShortcuts && (
+        <ShortcutHelp singleKeys={singleKeys} onSingleKeysChange={changeSingleKeys} onClose={() => setShowShortcuts(false)} />
+      )}
+
+      {optimizeDialogSchedule && (
+        <OptimizationDialog
+          scheduleName={optimizeDialogSchedule.name}
+          initialCriteria={loadCriteria(optimizeDialogSchedule.id)}
+          constraintCount={constraints.length}
+          onCancel={() => setOptimizeDialogScheduleId(null)}
+          onRun={(criteria) => {
+            saveCriteria(optimizeDialogSchedule.id, criteria);
+            setOptimizeDialogScheduleId(null);
+            optimizeSchedule(optimizeDialogSchedule.id, criteria);
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
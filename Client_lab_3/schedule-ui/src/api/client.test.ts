@@ -0,0 +1,170 @@
+import { describe, expect, it, vi } from "vitest";
+import { ApiError, createApiClient, isAbortError, toApiError } from "./client";
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const schedule = { id: 1, name: "Spring", entries: [], createdAt: "2025-02-01T08:00:00Z", status: 0 };
+
+/** A client whose retries wait 1 ms, so the limits can be tested without fake timers */
+const clientWith = (fetchImpl: typeof fetch, retries = 2) =>
+  createApiClient({ baseUrl: "", fetch: fetchImpl, retry: { retries, baseDelayMs: 1, maxDelayMs: 1 } });
+
+const rejectWith = async (promise: Promise<unknown>): Promise<unknown> => {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected the request to fail");
+};
+
+describe("response validation", () => {
+  it("returns the validated body", async () => {
+    const api = clientWith(vi.fn(async () => json(schedule)));
+    await expect(api.schedules.get(1)).resolves.toMatchObject({ id: 1, name: "Spring" });
+  });
+
+  it("turns a malformed body into an ApiError with the response status and path", async () => {
+    const api = clientWith(vi.fn(async () => json({ ...schedule, entries: "none" })));
+    const error = await rejectWith(api.schedules.get(1));
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 200, message: expect.stringContaining("$.entries") });
+  });
+
+  it("checks every item of a list", async () => {
+    const api = clientWith(vi.fn(async () => json([schedule, { ...schedule, id: "2" }])));
+    const error = await rejectWith(api.schedules.list());
+    expect(error).toMatchObject({ status: 200, message: expect.stringContaining("$[1].id") });
+  });
+
+  it("does not retry a malformed body", async () => {
+    const fetchImpl = vi.fn(async () => json(null));
+    await rejectWith(clientWith(fetchImpl).schedules.list());
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("retries", () => {
+  it("retries a failing GET until it succeeds", async () => {
+    const fetchImpl = vi.fn<typeof fetch>()
+      .mockResolvedValueOnce(json({ error: "busy" }, 503))
+      .mockResolvedValueOnce(json(schedule));
+    await expect(clientWith(fetchImpl).schedules.get(1)).resolves.toMatchObject({ id: 1 });
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after the configured number of retries and reports the last error", async () => {
+    const fetchImpl = vi.fn(async () => json({ error: "Database is down" }, 503));
+    const error = await rejectWith(clientWith(fetchImpl, 3).schedules.list());
+    expect(fetchImpl).toHaveBeenCalledTimes(4);
+    expect(error).toMatchObject({ status: 503, message: "Database is down" });
+  });
+
+  it("reports status 0 when the service stays unreachable", async () => {
+    const fetchImpl = vi.fn(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    const error = await rejectWith(clientWith(fetchImpl).schedules.list());
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+    expect(error).toMatchObject({ status: 0, message: "Service is unreachable" });
+  });
+
+  it("does not retry client errors", async () => {
+    const fetchImpl = vi.fn(async () => json({ error: "Schedule not found" }, 404));
+    const error = await rejectWith(clientWith(fetchImpl).schedules.get(7));
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(error).toMatchObject({ status: 404, message: "Schedule not found" });
+  });
+
+  it("never retries a write", async () => {
+    const fetchImpl = vi.fn(async () => json({ error: "busy" }, 503));
+    await rejectWith(clientWith(fetchImpl).schedules.create({ name: "New", entries: [] }));
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it("doubles the delay between attempts up to the maximum", async () => {
+    vi.useFakeTimers();
+    try {
+      const fetchImpl = vi.fn(async () => json({}, 500));
+      const api = createApiClient({
+        baseUrl: "", fetch: fetchImpl, retry: { retries: 3, baseDelayMs: 100, maxDelayMs: 300 },
+      });
+      const result = rejectWith(api.schedules.list());
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(fetchImpl).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(199);
+      expect(fetchImpl).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchImpl).toHaveBeenCalledTimes(3);
+      await vi.advanceTimersByTimeAsync(300);
+      expect(fetchImpl).toHaveBeenCalledTimes(4);
+      await expect(result).resolves.toMatchObject({ status: 500 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("aborting", () => {
+  it("rethrows the abort of a pending fetch untouched", async () => {
+    const controller = new AbortController();
+    const fetchImpl = vi.fn<typeof fetch>((_, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+    }));
+    const result = rejectWith(clientWith(fetchImpl).schedules.list({ signal: controller.signal }));
+    controller.abort();
+
+    const error = await result;
+    expect(isAbortError(error)).toBe(true);
+    expect(error).not.toBeInstanceOf(ApiError);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting for the next retry once aborted", async () => {
+    const controller = new AbortController();
+    const fetchImpl = vi.fn(async () => {
+      setTimeout(() => controller.abort(), 0);
+      return json({}, 503);
+    });
+    const api = createApiClient({
+      baseUrl: "", fetch: fetchImpl, retry: { retries: 2, baseDelayMs: 60_000, maxDelayMs: 60_000 },
+    });
+
+    const error = await rejectWith(api.schedules.list({ signal: controller.signal }));
+    expect(isAbortError(error)).toBe(true);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not start a retry when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    const fetchImpl = vi.fn(async () => {
+      controller.abort();
+      throw new TypeError("Failed to fetch");
+    });
+    const error = await rejectWith(clientWith(fetchImpl).schedules.list({ signal: controller.signal }));
+    expect(isAbortError(error)).toBe(true);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("toApiError", () => {
+  it("reads { error, conflicts } bodies", () => {
+    const error = toApiError(409, { error: "Schedule has conflicts", conflicts: ["Room 101 is double-booked"] });
+    expect(error).toMatchObject({ status: 409, message: "Schedule has conflicts", conflicts: ["Room 101 is double-booked"] });
+  });
+
+  it("reads ProblemDetails bodies, preferring the detail", () => {
+    expect(toApiError(400, { title: "Bad Request", detail: "Name is required" }).message).toBe("Name is required");
+    expect(toApiError(400, { title: "Bad Request" }).message).toBe("Bad Request");
+  });
+
+  it("falls back to plain text and then to the status", () => {
+    expect(toApiError(502, "  Bad gateway \n").message).toBe("Bad gateway");
+    expect(toApiError(404, undefined).message).toBe("Not found");
+    expect(toApiError(500, {}).message).toBe("Request failed with status 500");
+  });
+});
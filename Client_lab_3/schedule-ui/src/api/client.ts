@@ -0,0 +1,229 @@
+import type {
+  CatalogKind, CatalogRecords, OptimizationCriteria, Schedule, ScheduleEntry, SchedulingConstraint,
+} from "../types";
+import {
+  analyticsEventSchema, catalogSchemas, conflictCheckSchema, constraintSchema, messageSchema,
+  scheduleMetricsSchema, scheduleSchema, serverNotificationSchema, systemStatisticsSchema,
+} from "./schemas";
+import { array, number, object, string, ValidationError, type Validator } from "./validate";
+
+export interface RetryOptions {
+  /** Extra attempts after the first one; only GET requests are retried */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface ApiClientOptions {
+  baseUrl?: string;
+  /** Injected so the client can run against a mock fetch without the .NET services */
+  fetch?: typeof fetch;
+  retry?: Partial<RetryOptions>;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface NewSchedule {
+  name: string;
+  entries: ScheduleEntry[];
+}
+
+/** CatalogService assigns the id itself */
+export type NewCatalogRecord<K extends CatalogKind> = Omit<CatalogRecords[K], "id">;
+
+export type NewConstraint = Omit<SchedulingConstraint, "id">;
+
+export interface ConflictCheck {
+  conflicts: string[];
+  /** Broken scheduling constraints; unlike conflicts they do not block saving */
+  violations: string[];
+}
+
+/**
+ * Single error shape for every failed call: `{ error }`, `{ error, conflicts }`
+ * and ASP.NET ProblemDetails bodies all end up here. Status 0 means the
+ * service could not be reached at all.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly conflicts: string[];
+
+  constructor(status: number, message: string, conflicts: string[] = []) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.conflicts = conflicts;
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === "object" && error !== null && (error as { name?: unknown }).name === "AbortError";
+
+const DEFAULT_RETRY: RetryOptions = { retries: 2, baseDelayMs: 500, maxDelayMs: 5000 };
+
+const isRetryableStatus = (status: number): boolean => status === 408 || status === 429 || status >= 500;
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const readJson = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+export const toApiError = (status: number, body: unknown): ApiError => {
+  if (typeof body === "object" && body !== null) {
+    const data = body as Record<string, unknown>;
+    const conflicts = Array.isArray(data.conflicts) ? data.conflicts.map(String) : [];
+    const message =
+      (typeof data.error === "string" && data.error) ||
+      (typeof data.detail === "string" && data.detail) ||
+      (typeof data.title === "string" && data.title) ||
+      (conflicts.length > 0 ? "Request has conflicts" : "");
+    if (message) return new ApiError(status, message, conflicts);
+  }
+  if (typeof body === "string" && body.trim()) return new ApiError(status, body.trim());
+  return new ApiError(status, status === 404 ? "Not found" : `Request failed with status ${status}`);
+};
+
+const optimizationStatusSchema = object({ scheduleId: number, status: string, message: string });
+
+export const createApiClient = (options: ApiClientOptions = {}) => {
+  const baseUrl = options.baseUrl ?? "/api";
+  const fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  const retry = { ...DEFAULT_RETRY, ...options.retry };
+
+  const request = async <T>(
+    method: "GET" | "POST" | "PUT" | "DELETE",
+    path: string,
+    validator: Validator<T> | null,
+    { signal, body }: RequestOptions & { body?: unknown } = {}
+  ): Promise<T> => {
+    const attempts = method === "GET" ? retry.retries + 1 : 1;
+    const init: RequestInit = {
+      method,
+      signal,
+      headers: body !== undefined ? { "Content-Type": "application/json" } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < attempts - 1;
+      const backoff = Math.min(retry.baseDelayMs * 2 ** attempt, retry.maxDelayMs);
+
+      let response: Response;
+      try {
+        response = await fetchImpl(`${baseUrl}${path}`, init);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        if (canRetry) {
+          await sleep(backoff, signal);
+          continue;
+        }
+        throw new ApiError(0, "Service is unreachable");
+      }
+
+      if (!response.ok) {
+        if (canRetry && isRetryableStatus(response.status)) {
+          await sleep(backoff, signal);
+          continue;
+        }
+        throw toApiError(response.status, await readJson(response).catch(() => undefined));
+      }
+
+      const data = await readJson(response);
+      if (!validator) return undefined as T;
+      try {
+        return validator(data);
+      } catch (error) {
+        if (error instanceof ValidationError) throw new ApiError(response.status, error.message);
+        throw error;
+      }
+    }
+  };
+
+  return {
+    schedules: {
+      list: (opts?: RequestOptions) =>
+        request("GET", "/schedules", array(scheduleSchema), opts),
+      get: (id: number, opts?: RequestOptions) =>
+        request("GET", `/schedules/${id}`, scheduleSchema, opts),
+      create: (schedule: NewSchedule, opts?: RequestOptions) =>
+        request("POST", "/schedules", scheduleSchema, { ...opts, body: schedule }),
+      update: (schedule: Schedule, opts?: RequestOptions) =>
+        request("PUT", `/schedules/${schedule.id}`, scheduleSchema, { ...opts, body: schedule }),
+      remove: (id: number, opts?: RequestOptions) =>
+        request("DELETE", `/schedules/${id}`, null, opts),
+      optimize: (id: number, criteria?: OptimizationCriteria, opts?: RequestOptions) =>
+        request("POST", `/schedules/${id}/optimize`, messageSchema, { ...opts, body: criteria }),
+      publish: (id: number, opts?: RequestOptions) =>
+        request("POST", `/schedules/${id}/publish`, scheduleSchema, opts),
+      archive: (id: number, opts?: RequestOptions) =>
+        request("POST", `/schedules/${id}/archive`, scheduleSchema, opts),
+      checkConflicts: async (id: number, opts?: RequestOptions): Promise<ConflictCheck> => {
+        const result = await request("POST", `/schedules/${id}/check-conflicts`, conflictCheckSchema, opts);
+        return { conflicts: result.conflicts ?? [], violations: result.violations ?? [] };
+      },
+    },
+    catalog: {
+      list: <K extends CatalogKind>(kind: K, opts?: RequestOptions) =>
+        request("GET", `/catalog/${kind}`, array(catalogSchemas[kind]), opts),
+      create: <K extends CatalogKind>(kind: K, record: NewCatalogRecord<K>, opts?: RequestOptions) =>
+        request("POST", `/catalog/${kind}`, catalogSchemas[kind], { ...opts, body: record }),
+    },
+    /** Stored by CatalogService next to the teachers, groups and rooms they are about */
+    constraints: {
+      list: (opts?: RequestOptions) =>
+        request("GET", "/catalog/constraints", array(constraintSchema), opts),
+      create: (constraint: NewConstraint, opts?: RequestOptions) =>
+        request("POST", "/catalog/constraints", constraintSchema, { ...opts, body: constraint }),
+      update: (constraint: SchedulingConstraint, opts?: RequestOptions) =>
+        request("PUT", `/catalog/constraints/${constraint.id}`, constraintSchema, { ...opts, body: constraint }),
+      remove: (id: number, opts?: RequestOptions) =>
+        request("DELETE", `/catalog/constraints/${id}`, null, opts),
+    },
+    analytics: {
+      stats: (opts?: RequestOptions) =>
+        request("GET", "/analytics/stats", systemStatisticsSchema, opts),
+      /** Newest first; AnalyticsService returns 50 unless asked for more (up to 1000) */
+      events: (opts?: RequestOptions & { limit?: number }) =>
+        request("GET", `/analytics/events${opts?.limit ? `?limit=${opts.limit}` : ""}`, array(analyticsEventSchema), opts),
+      scheduleMetrics: (scheduleId: number, opts?: RequestOptions) =>
+        request("GET", `/analytics/schedule/${scheduleId}`, scheduleMetricsSchema, opts),
+    },
+    notifications: {
+      /** Newest first; NotificationService returns 100 unless asked for more (up to 1000) */
+      list: (opts?: RequestOptions & { limit?: number }) =>
+        request("GET", `/notifications${opts?.limit ? `?limit=${opts.limit}` : ""}`, array(serverNotificationSchema), opts),
+    },
+    optimization: {
+      status: (scheduleId: number, opts?: RequestOptions) =>
+        request("GET", `/optimization/status/${scheduleId}`, optimizationStatusSchema, opts),
+    },
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+export const api = createApiClient();
@@ -0,0 +1,115 @@
+import type {
+  AnalyticsEvent, ConflictDetectedEvent, OptimizationStatus, ScheduleOptimizedEvent, ScheduleUpdatedEvent,
+} from "../types";
+import { array, number, object, string, ValidationError, type Validator } from "./validate";
+
+// RabbitMqSettings routing keys
+export const ROUTING_KEY_OPTIMIZED = "schedule.optimized";
+export const ROUTING_KEY_UPDATED = "schedule.updated";
+export const ROUTING_KEY_CONFLICT = "schedule.conflict";
+
+const optimizationStatuses: OptimizationStatus[] = ["Started", "InProgress", "Completed", "Failed"];
+
+// The services publish with default System.Text.Json options: PascalCase keys, enums as numbers
+const optimizationStatus: Validator<OptimizationStatus> = (value, path = "$") => {
+  if (typeof value === "number" && optimizationStatuses[value]) return optimizationStatuses[value];
+  if (optimizationStatuses.includes(value as OptimizationStatus)) return value as OptimizationStatus;
+  throw new ValidationError(path, "optimization status", value);
+};
+
+const optimizedPayload = object({
+  ScheduleId: number,
+  ScheduleName: string,
+  Status: optimizationStatus,
+  WindowsReduced: number,
+  LoadBalanceImprovement: number,
+  ConflictsResolved: number,
+  OptimizedAt: string,
+  Message: string,
+});
+
+const updatedPayload = object({
+  ScheduleId: number,
+  UpdatedBy: string,
+  ChangeType: string,
+  Details: string,
+  UpdatedAt: string,
+});
+
+const conflictPayload = object({
+  ScheduleId: number,
+  ConflictType: string,
+  AffectedEntities: array(string),
+  Description: string,
+  DetectedAt: string,
+});
+
+const parsePayload = <T>(event: AnalyticsEvent, validator: Validator<T>): T | null => {
+  try {
+    return validator(JSON.parse(event.payload));
+  } catch {
+    return null;
+  }
+};
+
+/** Stable identity for an event, used to tell new events from ones already seen */
+export const eventKey = (event: AnalyticsEvent): string => `${event.timestamp}|${event.routingKey}|${event.payload}`;
+
+export const decodeOptimizedEvent = (event: AnalyticsEvent): ScheduleOptimizedEvent | null => {
+  if (event.routingKey !== ROUTING_KEY_OPTIMIZED) return null;
+  const payload = parsePayload(event, optimizedPayload);
+  if (!payload) return null;
+  return {
+    scheduleId: payload.ScheduleId,
+    scheduleName: payload.ScheduleName,
+    status: payload.Status,
+    windowsReduced: payload.WindowsReduced,
+    loadBalanceImprovement: payload.LoadBalanceImprovement,
+    conflictsResolved: payload.ConflictsResolved,
+    optimizedAt: payload.OptimizedAt,
+    message: payload.Message,
+  };
+};
+
+export const decodeUpdatedEvent = (event: AnalyticsEvent): ScheduleUpdatedEvent | null => {
+  if (event.routingKey !== ROUTING_KEY_UPDATED) return null;
+  const payload = parsePayload(event, updatedPayload);
+  if (!payload) return null;
+  return {
+    scheduleId: payload.ScheduleId,
+    updatedBy: payload.UpdatedBy,
+    changeType: payload.ChangeType,
+    details: payload.Details,
+    updatedAt: payload.UpdatedAt,
+  };
+};
+
+export const decodeConflictEvent = (event: AnalyticsEvent): ConflictDetectedEvent | null => {
+  if (event.routingKey !== ROUTING_KEY_CONFLICT) return null;
+  const payload = parsePayload(event, conflictPayload);
+  if (!payload) return null;
+  return {
+    scheduleId: payload.ScheduleId,
+    conflictType: payload.ConflictType,
+    affectedEntities: payload.AffectedEntities,
+    description: payload.Description,
+    detectedAt: payload.DetectedAt,
+  };
+};
+
+export type DecodedEvent =
+  | { kind: "optimized"; data: ScheduleOptimizedEvent }
+  | { kind: "updated"; data: ScheduleUpdatedEvent }
+  | { kind: "conflict"; data: ConflictDetectedEvent }
+  | { kind: "unknown"; data: null };
+
+/** Payload decoded by routing key; "unknown" for other keys or payloads that do not match the contract */
+export const decodeEvent = (event: AnalyticsEvent): DecodedEvent => {
+  const optimized = decodeOptimizedEvent(event);
+  if (optimized) return { kind: "optimized", data: optimized };
+  const updated = decodeUpdatedEvent(event);
+  if (updated) return { kind: "updated", data: updated };
+  const conflict = decodeConflictEvent(event);
+  if (conflict) return { kind: "conflict", data: conflict };
+  return { kind: "unknown", data: null };
+};
@@ -0,0 +1,117 @@
+import type {
+  AnalyticsEvent, CatalogKind, CatalogRecords, ConstraintKind, ConstraintTarget, DayOfWeek, Group, Room, Schedule,
+  ScheduleEntry, ScheduleMetrics, ScheduleStatus, SchedulingConstraint, ServerNotification, Subject, SystemStatistics,
+  Teacher,
+} from "../types";
+import { array, literal, nullable, number, object, optional, record, string, type Validator } from "./validate";
+
+// Annotating each schema with its interface makes tsc reject any drift between the two
+
+export const scheduleEntrySchema: Validator<ScheduleEntry> = object({
+  subject: string,
+  teacher: string,
+  group: string,
+  room: string,
+  dayOfWeek: literal<DayOfWeek>(0, 1, 2, 3, 4, 5, 6),
+  startTime: string,
+  endTime: string,
+});
+
+export const scheduleSchema: Validator<Schedule> = object({
+  id: number,
+  name: string,
+  status: literal<ScheduleStatus>(0, 1, 2, 3, 4),
+  createdAt: string,
+  lastOptimizedAt: optional(nullable(string)),
+  entries: array(scheduleEntrySchema),
+});
+
+export const teacherSchema: Validator<Teacher> = object({
+  id: number,
+  name: string,
+  department: string,
+  email: string,
+});
+
+export const groupSchema: Validator<Group> = object({
+  id: number,
+  name: string,
+  year: number,
+  studentsCount: number,
+});
+
+export const roomSchema: Validator<Room> = object({
+  id: number,
+  name: string,
+  capacity: number,
+  type: string,
+});
+
+export const subjectSchema: Validator<Subject> = object({
+  id: number,
+  name: string,
+  credits: number,
+  description: string,
+});
+
+export const catalogSchemas: { [K in CatalogKind]: Validator<CatalogRecords[K]> } = {
+  teachers: teacherSchema,
+  groups: groupSchema,
+  rooms: roomSchema,
+  subjects: subjectSchema,
+};
+
+export const systemStatisticsSchema: Validator<SystemStatistics> = object({
+  totalSchedules: number,
+  totalOptimizations: number,
+  totalConflictsDetected: number,
+  totalUpdates: number,
+  averageOptimizationTime: number,
+  lastUpdated: string,
+});
+
+export const scheduleMetricsSchema: Validator<ScheduleMetrics> = object({
+  scheduleId: number,
+  totalWindows: number,
+  totalConflicts: number,
+  averageLoadBalance: number,
+  optimizationCount: number,
+  lastCalculated: string,
+});
+
+export const analyticsEventSchema: Validator<AnalyticsEvent> = object({
+  type: string,
+  routingKey: string,
+  payload: string,
+  timestamp: string,
+});
+
+export const serverNotificationSchema: Validator<ServerNotification> = object({
+  id: number,
+  savedAt: string,
+  title: string,
+  scheduleId: number,
+  fields: record(string),
+  affectedEntities: array(string),
+});
+
+export const conflictCheckSchema: Validator<{ conflicts?: string[]; violations?: string[]; message?: string }> = object({
+  conflicts: optional(array(string)),
+  violations: optional(array(string)),
+  message: optional(string),
+});
+
+export const constraintSchema: Validator<SchedulingConstraint> = object({
+  id: number,
+  target: literal<ConstraintTarget>(0, 1, 2),
+  name: string,
+  kind: literal<ConstraintKind>(0, 1, 2),
+  dayOfWeek: nullable(literal<DayOfWeek>(0, 1, 2, 3, 4, 5, 6)),
+  startTime: nullable(string),
+  endTime: nullable(string),
+  maxHours: nullable(number),
+});
+
+export const messageSchema: Validator<{ message?: string }> = object({
+  message: optional(string),
+});
@@ -0,0 +1,93 @@
+import type { AnalyticsEvent } from "../types";
+import { analyticsEventSchema } from "./schemas";
+
+export const STREAM_URL = "/api/analytics/stream";
+
+export interface StreamHandlers {
+  onOpen: () => void;
+  onEvent: (event: AnalyticsEvent) => void;
+  /** The connection is gone; the caller decides when to reconnect */
+  onError: () => void;
+}
+
+/** Opens a connection and returns a function that closes it */
+export type StreamConnector = (url: string, handlers: StreamHandlers) => () => void;
+
+const parseEvent = (data: string): AnalyticsEvent | null => {
+  try {
+    return analyticsEventSchema(JSON.parse(data));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Server-sent events from AnalyticsService. EventSource would reconnect on its own
+ * at a fixed rate; it is closed on the first error so the caller's backoff applies.
+ */
+export const eventSourceConnector: StreamConnector = (url, handlers) => {
+  const source = new EventSource(url);
+  source.onopen = () => handlers.onOpen();
+  source.onmessage = (message: MessageEvent<string>) => {
+    const event = parseEvent(message.data);
+    if (event) handlers.onEvent(event);
+  };
+  source.onerror = () => {
+    source.close();
+    handlers.onError();
+  };
+  return () => source.close();
+};
+
+/**
+ * In-process stand-in for the server stream, for working on the UI without
+ * RabbitMQ: `emit` delivers an event to every open connection, `drop` breaks them
+ * all so reconnects and the polling fallback can be exercised, and `offline`
+ * makes new connections fail until it is switched back.
+ */
+export const createLocalStream = () => {
+  const connections = new Set<StreamHandlers>();
+  let offline = false;
+
+  const connect: StreamConnector = (_url, handlers) => {
+    connections.add(handlers);
+    // Opened asynchronously, like a real connection
+    setTimeout(() => {
+      if (!connections.has(handlers)) return;
+      if (offline) {
+        connections.delete(handlers);
+        handlers.onError();
+      } else {
+        handlers.onOpen();
+      }
+    }, 0);
+    return () => {
+      connections.delete(handlers);
+    };
+  };
+
+  return {
+    connect,
+    emit: (event: AnalyticsEvent): void => connections.forEach(handlers => handlers.onEvent(event)),
+    drop: (): void => {
+      const dropped = [...connections];
+      connections.clear();
+      dropped.forEach(handlers => handlers.onError());
+    },
+    setOffline: (value: boolean): void => {
+      offline = value;
+    },
+  };
+};
+
+export type LocalStream = ReturnType<typeof createLocalStream>;
+
+// `VITE_EVENT_STREAM=local npm run dev` swaps the server stream for the stand-in,
+// reachable from the console as `window.scheduleStream`
+const localStreamEnabled = import.meta.env.VITE_EVENT_STREAM === "local";
+
+export const localStream: LocalStream | null = localStreamEnabled ? createLocalStream() : null;
+
+if (localStream) Object.assign(window, { scheduleStream: localStream });
+
+export const defaultConnector: StreamConnector = localStream?.connect ?? eventSourceConnector;
@@ -0,0 +1,68 @@
+// Minimal runtime validators: each one checks an unknown JSON value and returns it typed.
+
+export type Validator<T> = (value: unknown, path?: string) => T;
+
+export class ValidationError extends Error {
+  readonly path: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    super(`Invalid response at ${path}: expected ${expected}, got ${value === null ? "null" : typeof value}`);
+    this.name = "ValidationError";
+    this.path = path;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const string: Validator<string> = (value, path = "$") => {
+  if (typeof value !== "string") throw new ValidationError(path, "string", value);
+  return value;
+};
+
+export const number: Validator<number> = (value, path = "$") => {
+  if (typeof value !== "number" || Number.isNaN(value)) throw new ValidationError(path, "number", value);
+  return value;
+};
+
+export const boolean: Validator<boolean> = (value, path = "$") => {
+  if (typeof value !== "boolean") throw new ValidationError(path, "boolean", value);
+  return value;
+};
+
+export const literal = <T extends string | number>(...allowed: T[]): Validator<T> => (value, path = "$") => {
+  if (!allowed.includes(value as T)) throw new ValidationError(path, allowed.join(" | "), value);
+  return value as T;
+};
+
+export const nullable = <T>(inner: Validator<T>): Validator<T | null> => (value, path = "$") =>
+  value === null || value === undefined ? null : inner(value, path);
+
+export const optional = <T>(inner: Validator<T>): Validator<T | undefined> => (value, path = "$") =>
+  value === undefined ? undefined : inner(value, path);
+
+export const array = <T>(item: Validator<T>): Validator<T[]> => (value, path = "$") => {
+  if (!Array.isArray(value)) throw new ValidationError(path, "array", value);
+  return value.map((element, i) => item(element, `${path}[${i}]`));
+};
+
+export const record = <T>(item: Validator<T>): Validator<Record<string, T>> => (value, path = "$") => {
+  if (!isRecord(value)) throw new ValidationError(path, "object", value);
+  return Object.fromEntries(Object.entries(value).map(([key, element]) => [key, item(element, `${path}.${key}`)]));
+};
+
+type Shape = Record<string, Validator<unknown>>;
+type Infer<S extends Shape> = { [K in keyof S]: ReturnType<S[K]> };
+
+/**
+ * Validates the listed keys and keeps any others untouched, so server-only
+ * fields (e.g. entry ids) survive a GET → PUT round trip.
+ */
+export const object = <S extends Shape>(shape: S): Validator<Infer<S>> => (value, path = "$") => {
+  if (!isRecord(value)) throw new ValidationError(path, "object", value);
+  const result: Record<string, unknown> = { ...value };
+  for (const key of Object.keys(shape)) {
+    result[key] = shape[key](value[key], `${path}.${key}`);
+  }
+  return result as Infer<S>;
+};
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { Pause, Play, TrendingUp, Trash2 } from "lucide-react";
+import { ROUTING_KEY_CONFLICT, ROUTING_KEY_OPTIMIZED, ROUTING_KEY_UPDATED } from "../api/events";
+import { bucketEvents, timeRanges, type ActivityHistory, type StatsSample } from "../utils/activity";
+import { formatTime, type TextKey } from "../utils/i18n";
+import { useI18n } from "../hooks/useI18n";
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 140;
+const EVENT_BUCKETS = 30;
+
+interface Series {
+  label: string;
+  color: string;
+  points: { at: number; value: number }[];
+}
+
+const eventColors: { routingKey: string; label: TextKey; color: string }[] = [
+  { routingKey: ROUTING_KEY_OPTIMIZED, label: "activity.optimized", color: "#34d399" },
+  { routingKey: ROUTING_KEY_UPDATED, label: "activity.updated", color: "#22d3ee" },
+  { routingKey: ROUTING_KEY_CONFLICT, label: "activity.conflict", color: "#f87171" },
+];
+
+function Legend({ items }: { items: { label: string; color: string }[] }) {
+  return (
+    <div className="flex flex-wrap gap-3 text-xs text-slate-400 mb-1">
+      {items.map(item => (
+        <span key={item.label} className="flex items-center gap-1">
+          <span className="w-3 h-1.5 rounded-full" style={{ backgroundColor: item.color }} /> {item.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function Axis({ from, to, max, unit }: { from: number; to: number; max: number; unit?: string }) {
+  const { t } = useI18n();
+  return (
+    <div className="flex justify-between text-[10px] text-slate-500 mt-1">
+      <span>{formatTime(from)}</span>
+      <span>{t("activity.max", { value: Number.isInteger(max) ? max : max.toFixed(1) })}{unit}</span>
+      <span>{formatTime(to)}</span>
+    </div>
+  );
+}
+
+function LineChart({ series, from, to, unit }: { series: Series[]; from: number; to: number; unit?: string }) {
+  const max = Math.max(1, ...series.flatMap(s => s.points.map(p => p.value)));
+  const x = (at: number): number => ((at - from) / Math.max(1, to - from)) * CHART_WIDTH;
+  const y = (value: number): number => CHART_HEIGHT - (value / max) * (CHART_HEIGHT - 8) - 4;
+
+  return (
+    <div>
+      <Legend items={series} />
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-36 bg-slate-900/50 rounded-lg">
+        {[0.25, 0.5, 0.75].map(f => (
+          <line key={f} x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT * f} y2={CHART_HEIGHT * f} stroke="#334155" strokeDasharray="4 4" />
+        ))}
+        {series.map(s => (
+          <polyline
+            key={s.label}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            points={s.points.map(p => `${x(p.at)},${y(p.value)}`).join(" ")}
+          />
+        ))}
+      </svg>
+      <Axis from={from} to={to} max={max} unit={unit} />
+    </div>
+  );
+}
+
+function EventBars({ history, from, to }: { history: ActivityHistory; from: number; to: number }) {
+  const buckets = bucketEvents(history.events, from, to, EVENT_BUCKETS);
+  const totals = buckets.map(bucket => Object.values(bucket.counts).reduce((sum, n) => sum + n, 0));
+  const max = Math.max(1, ...totals);
+  const barWidth = CHART_WIDTH / EVENT_BUCKETS;
+  const { t } = useI18n();
+
+  return (
+    <div>
+      <Legend items={eventColors.map(({ label, color }) => ({ label: t(label), color }))} />
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-36 bg-slate-900/50 rounded-lg">
+        {buckets.map((bucket, i) => {
+          let top = CHART_HEIGHT;
+          return eventColors.map(({ routingKey, color }) => {
+            const height = ((bucket.counts[routingKey] ?? 0) / max) * (CHART_HEIGHT - 4);
+            top -= height;
+            return height > 0 ? (
+              <rect key={`${i}-${routingKey}`} x={i * barWidth + 1} y={top} width={barWidth - 2} height={height} fill={color}>
+                <title>{`${formatTime(bucket.start)}: ${bucket.counts[routingKey]} ${routingKey}`}</title>
+              </rect>
+            ) : null;
+          });
+        })}
+      </svg>
+      <Axis from={from} to={to} max={max} unit={` ${t("activity.eventsUnit")}`} />
+    </div>
+  );
+}
+
+const seriesOf = (samples: StatsSample[], key: keyof Omit<StatsSample, "at">, label: string, color: string): Series => ({
+  label,
+  color,
+  points: samples.map(sample => ({ at: sample.at, value: sample[key] })),
+});
+
+interface ActivityChartsProps {
+  history: ActivityHistory;
+  paused: boolean;
+  onTogglePause: () => void;
+  onClear: () => void;
+}
+
+export default function ActivityCharts({ history, paused, onTogglePause, onClear }: ActivityChartsProps) {
+  const { t } = useI18n();
+  const [rangeLabel, setRangeLabel] = useState<string>(timeRanges[1].label);
+  const range = timeRanges.find(r => r.label === rangeLabel) ?? timeRanges[1];
+
+  // The window ends at the newest data point, so a paused view stays put
+  const latest = Math.max(0, ...history.samples.map(s => s.at), ...history.events.map(e => e.at));
+  const earliest = Math.min(latest, ...history.samples.map(s => s.at), ...history.events.map(e => e.at));
+  const to = latest;
+  const from = range.ms === null ? earliest : to - range.ms;
+  const samples = history.samples.filter(sample => sample.at >= from && sample.at <= to);
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4 border-b-2 border-cyan-500/50 pb-2">
+        <h2 className="text-2xl font-bold text-cyan-400 flex items-center gap-2">
+          <TrendingUp className="w-6 h-6" /> {t("activity.title")}
+        </h2>
+        <div className="flex items-center gap-2">
+          <select
+            aria-label={t("activity.range")}
+            value={range.label}
+            onChange={(e) => setRangeLabel(e.target.value)}
+            className="px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
+          >
+            {timeRanges.map(r => <option key={r.label} value={r.label}>{t(r.label)}</option>)}
+          </select>
+          <button
+            onClick={onTogglePause}
+            aria-pressed={paused}
+            className={`px-3 py-2 rounded-lg text-sm font-semibold flex items-center gap-2 border ${
+              paused
+                ? "bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300 border-emerald-500/50"
+                : "bg-amber-500/20 hover:bg-amber-500/30 text-amber-300 border-amber-500/50"
+            }`}
+          >
+            {paused ? <><Play className="w-4 h-4" /> {t("activity.resume")}</> : <><Pause className="w-4 h-4" /> {t("activity.pause")}</>}
+          </button>
+          <button
+            onClick={onClear}
+            className="bg-red-500/20 hover:bg-red-500/30 text-red-300 p-2 rounded-lg border border-red-500/50"
+            aria-label={t("activity.clear")}
+            title={t("activity.clear")}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {paused && <p className="text-xs text-amber-300 mb-3">{t("activity.pausedHint")}</p>}
+
+      {latest === 0 ? (
+        <p className="text-center text-slate-500 py-8">{t("activity.empty")}</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h3 className="font-semibold text-slate-300 mb-2">{t("activity.totals")}</h3>
+            <LineChart
+              from={from}
+              to={to}
+              series={[
+                seriesOf(samples, "totalOptimizations", t("activity.optimizations"), "#34d399"),
+                seriesOf(samples, "totalConflictsDetected", t("activity.conflictsDetected"), "#f87171"),
+                seriesOf(samples, "totalUpdates", t("activity.updates"), "#22d3ee"),
+              ]}
+            />
+          </div>
+          <div>
+            <h3 className="font-semibold text-slate-300 mb-2">{t("activity.eventsPerInterval")}</h3>
+            <EventBars history={history} from={from} to={to} />
+          </div>
+          <div className="lg:col-span-2">
+            <h3 className="font-semibold text-slate-300 mb-2">{t("activity.averageTime")}</h3>
+            <LineChart
+              from={from}
+              to={to}
+              unit={` ${t("activity.secondsUnit")}`}
+              series={[seriesOf(samples, "averageOptimizationTime", t("activity.averageTimeSeries"), "#c084fc")]}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { CheckCircle, Users } from "lucide-react";
+import type { CapacityIssue } from "../utils/rooms";
+import { shortTime } from "../utils/time";
+import { useI18n } from "../hooks/useI18n";
+
+interface CapacityReportProps {
+  issues: CapacityIssue[];
+  onSelect: (index: number) => void;
+}
+
+export default function CapacityReport({ issues, onSelect }: CapacityReportProps) {
+  const { t, tn, weekdayName } = useI18n();
+
+  if (issues.length === 0) {
+    return (
+      <p className="text-sm text-emerald-300 flex items-center gap-2">
+        <CheckCircle className="w-4 h-4" /> {t("capacity.allFit")}
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <p className="text-sm text-red-300 flex items-center gap-2 mb-2">
+        <Users className="w-4 h-4" /> {tn("capacity.issues", issues.length)}
+      </p>
+      <div className="space-y-1 max-h-48 overflow-y-auto pr-2">
+        {issues.map(issue => (
+          <button
+            key={issue.index}
+            onClick={() => onSelect(issue.index)}
+            className="w-full text-left p-2 rounded-lg border border-red-500/30 bg-red-500/5 hover:border-red-500/60 text-sm flex items-center justify-between gap-2"
+          >
+            <span className="text-slate-300">
+              <span className="font-semibold text-slate-200">{issue.entry.subject}</span>{" "}
+              · {t("capacity.groupInRoom", { group: issue.entry.group, room: issue.entry.room })} · {weekdayName(issue.entry.dayOfWeek)}{" "}
+              {shortTime(issue.entry.startTime)}–{shortTime(issue.entry.endTime)}
+            </span>
+            <span className="text-red-300 font-semibold whitespace-nowrap">
+              {t("capacity.seats", { students: issue.studentsCount, capacity: issue.capacity })}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
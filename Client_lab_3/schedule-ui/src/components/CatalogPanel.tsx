@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Book, Database, GraduationCap, MapPin, Plus, Search, User } from "lucide-react";
+import type { Catalog, CatalogItem, CatalogKind } from "../types";
+import {
+  catalogFields, catalogLabels, compareField, emptyDraft, matchesSearch, validateDraft, type CatalogDraft,
+} from "../utils/catalog";
+import { useI18n } from "../hooks/useI18n";
+
+const kindIcons: Record<CatalogKind, React.ComponentType<React.SVGProps<SVGSVGElement>>> = {
+  teachers: User,
+  groups: GraduationCap,
+  rooms: MapPin,
+  subjects: Book,
+};
+
+interface CatalogPanelProps {
+  catalog: Catalog;
+  activeKind: CatalogKind;
+  onKindChange: (kind: CatalogKind) => void;
+  /** Resolves to true once the record is stored and the catalog reloaded */
+  onCreate: (kind: CatalogKind, draft: CatalogDraft) => Promise<boolean>;
+}
+
+export default function CatalogPanel({ catalog, activeKind, onKindChange: setActiveKind, onCreate }: CatalogPanelProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6">
+      <h2 className="text-2xl font-bold text-cyan-400 mb-4 flex items-center gap-2 border-b-2 border-cyan-500/50 pb-2">
+        <Database className="w-6 h-6" /> {t("tabs.catalog")}
+      </h2>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {(Object.keys(catalogLabels) as CatalogKind[]).map(kind => {
+          const Icon = kindIcons[kind];
+          return (
+            <button
+              key={kind}
+              onClick={() => setActiveKind(kind)}
+              className={`px-4 py-2 rounded-lg text-sm font-semibold flex items-center gap-2 transition-all ${
+                activeKind === kind
+                  ? "bg-cyan-500/20 text-cyan-300 border border-cyan-500/50"
+                  : "bg-slate-900/50 text-slate-400 border border-slate-700 hover:border-slate-600"
+              }`}
+            >
+              <Icon className="w-4 h-4" /> {t(catalogLabels[kind].plural)}
+              <span className="text-xs text-slate-500">{catalog[kind].length}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <CatalogSection key={activeKind} kind={activeKind} items={catalog[activeKind]} onCreate={onCreate} />
+    </div>
+  );
+}
+
+interface CatalogSectionProps {
+  kind: CatalogKind;
+  items: CatalogItem[];
+  onCreate: (kind: CatalogKind, draft: CatalogDraft) => Promise<boolean>;
+}
+
+function CatalogSection({ kind, items, onCreate }: CatalogSectionProps) {
+  const { t } = useI18n();
+  const fields = catalogFields[kind];
+  const [search, setSearch] = useState<string>("");
+  const [sort, setSort] = useState<{ key: string; descending: boolean }>({ key: "name", descending: false });
+  const [draft, setDraft] = useState<CatalogDraft>(() => emptyDraft(kind));
+  const [showErrors, setShowErrors] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const errors = validateDraft(kind, draft, items);
+  const visible = items
+    .filter(item => matchesSearch(item, search))
+    .sort(compareField(sort.key));
+  if (sort.descending) visible.reverse();
+
+  const toggleSort = (key: string): void => {
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : false }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+    if (Object.keys(errors).length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    setSaving(true);
+    try {
+      if (await onCreate(kind, draft)) {
+        setDraft(emptyDraft(kind));
+        setShowErrors(false);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2">
+        <div className="relative mb-3">
+          <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t(catalogLabels[kind].search)}
+            className="w-full pl-9 pr-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
+          />
+        </div>
+
+        <div className="overflow-x-auto max-h-[28rem] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-slate-400 border-b border-slate-700 sticky top-0 bg-slate-800">
+              <tr>
+                <th className="text-left font-semibold py-2 pr-3 w-12">#</th>
+                {fields.map(field => (
+                  <th key={field.key} className="text-left font-semibold py-2 pr-3">
+                    <button onClick={() => toggleSort(field.key)} className="flex items-center gap-1 hover:text-cyan-300">
+                      {t(field.label)}
+                      {sort.key === field.key && (sort.descending
+                        ? <ArrowDown className="w-3 h-3" />
+                        : <ArrowUp className="w-3 h-3" />)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(item => (
+                <tr key={item.id} className="border-b border-slate-800 text-slate-300">
+                  <td className="py-2 pr-3 text-slate-500">{item.id}</td>
+                  {fields.map(field => (
+                    <td key={field.key} className={`py-2 pr-3 ${field.key === "name" ? "font-semibold text-slate-200" : ""}`}>
+                      {String((item as unknown as Record<string, unknown>)[field.key] ?? "") || <span className="text-slate-600">—</span>}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visible.length === 0 && (
+            <p className="text-center text-slate-500 py-8">
+              {t(items.length === 0 ? "catalog.empty" : "catalog.noMatches")}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3" noValidate>
+        <h3 className="font-semibold text-slate-300">{t(catalogLabels[kind].create)}</h3>
+        {fields.map(field => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-slate-400 mb-1">
+              {t(field.label)}{field.required && <span className="text-red-400"> *</span>}
+            </label>
+            <input
+              type={field.type}
+              min={field.min}
+              value={draft[field.key] ?? ""}
+              onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+              className={`w-full px-3 py-2 bg-slate-900/50 border-2 rounded-lg focus:outline-none text-sm text-slate-200 ${
+                showErrors && errors[field.key] ? "border-red-500/70" : "border-slate-700 focus:border-cyan-500"
+              }`}
+            />
+            {showErrors && errors[field.key] && (
+              <p className="text-xs text-red-400 mt-1">{errors[field.key]}</p>
+            )}
+          </div>
+        ))}
+        <button
+          type="submit"
+          disabled={saving}
+          className="w-full bg-gradient-to-r from-cyan-500 to-blue-500 text-white font-semibold py-2 rounded-lg hover:shadow-lg hover:shadow-cyan-500/50 transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-4 h-4" /> {t("catalog.add")}
+        </button>
+      </form>
+    </div>
+  );
+}
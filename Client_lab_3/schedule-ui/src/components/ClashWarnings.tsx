@@ -0,0 +1,64 @@
+import { AlertCircle, Clock } from "lucide-react";
+import type { Clash, ClashKind, SlotSuggestion } from "../utils/slots";
+import { fromMinutes, shortTime } from "../utils/time";
+import type { TextKey } from "../utils/i18n";
+import { useI18n } from "../hooks/useI18n";
+
+const kindLabels: Record<ClashKind, TextKey> = {
+  teacher: "kind.teacher",
+  group: "kind.group",
+  room: "kind.room",
+};
+
+interface ClashWarningsProps {
+  clashes: Clash[];
+  suggestions: SlotSuggestion[];
+  onPick: (slot: SlotSuggestion) => void;
+}
+
+export default function ClashWarnings({ clashes, suggestions, onPick }: ClashWarningsProps) {
+  const { t, weekdayName } = useI18n();
+  return (
+    <div className="mt-4 p-3 rounded-lg border border-amber-500/50 bg-amber-500/10 text-sm">
+      <div className="font-semibold text-amber-300 flex items-center gap-2 mb-2">
+        <AlertCircle className="w-4 h-4" /> {t("clashes.title")}
+      </div>
+      <ul className="space-y-1 text-slate-300 max-h-32 overflow-y-auto">
+        {clashes.map((clash, index) => (
+          <li key={index}>
+            <span className="text-amber-200">{t(kindLabels[clash.kind])} '{clash.entity}'</span>{" "}
+            {t("clashes.busyWith", {
+              subject: clash.entry.subject,
+              day: weekdayName(clash.entry.dayOfWeek),
+              time: `${shortTime(clash.entry.startTime)}–${shortTime(clash.entry.endTime)}`,
+            })}
+            {clash.scheduleName !== null && (
+              <span className="text-slate-500"> {t("clashes.inSchedule", { name: clash.scheduleName })}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-3">
+        <div className="text-xs text-slate-400 mb-1">{t("clashes.nearestSlots")}</div>
+        {suggestions.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map(slot => (
+              <button
+                key={`${slot.dayOfWeek}-${slot.start}`}
+                type="button"
+                onClick={() => onPick(slot)}
+                className="bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-300 px-2 py-1 rounded-lg text-xs flex items-center gap-1 border border-cyan-500/50"
+              >
+                <Clock className="w-3 h-3" />
+                {weekdayName(slot.dayOfWeek, "short")} {fromMinutes(slot.start)}–{fromMinutes(slot.end)}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="text-xs text-slate-500">{t("clashes.noSlots")}</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useId } from "react";
+import { AlertTriangle } from "lucide-react";
+import { useI18n } from "../hooks/useI18n";
+import { useDialogFocus } from "../hooks/useDialogFocus";
+
+export interface ConfirmRequest {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  /** Destructive actions are shown in red and start with Cancel focused */
+  danger?: boolean;
+}
+
+interface ConfirmDialogProps {
+  request: ConfirmRequest;
+  onResolve: (confirmed: boolean) => void;
+}
+
+export default function ConfirmDialog({ request, onResolve }: ConfirmDialogProps) {
+  const { t } = useI18n();
+  const ref = useDialogFocus<HTMLDivElement>(() => onResolve(false));
+  const titleId = useId();
+  const messageId = useId();
+  const buttonClasses = "flex-1 font-semibold py-2 rounded-lg border-2 transition-all";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={() => onResolve(false)}>
+      <div
+        ref={ref}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        aria-describedby={messageId}
+        tabIndex={-1}
+        className={`w-full max-w-md bg-slate-800 border rounded-2xl shadow-2xl p-6 ${
+          request.danger ? "border-red-500/40" : "border-cyan-500/40"
+        }`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id={titleId} className={`text-xl font-bold mb-2 flex items-center gap-2 ${request.danger ? "text-red-300" : "text-cyan-300"}`}>
+          <AlertTriangle className="w-5 h-5" aria-hidden="true" /> {request.title}
+        </h2>
+        <p id={messageId} className="text-sm text-slate-300">{request.message}</p>
+
+        <div className="flex gap-2 mt-6">
+          <button
+            onClick={() => onResolve(false)}
+            data-autofocus={request.danger ? true : undefined}
+            className={`${buttonClasses} bg-slate-900/50 border-slate-700 text-slate-300 hover:border-slate-600`}
+          >
+            {t("common.cancel")}
+          </button>
+          <button
+            onClick={() => onResolve(true)}
+            data-autofocus={request.danger ? undefined : true}
+            className={`${buttonClasses} ${
+              request.danger
+                ? "bg-red-500/20 hover:bg-red-500/30 text-red-300 border-red-500/50"
+                : "bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-300 border-cyan-500/50"
+            }`}
+          >
+            {request.confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
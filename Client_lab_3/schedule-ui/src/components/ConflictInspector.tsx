@@ -0,0 +1,131 @@
+import { useMemo, useState } from "react";
+import { AlertCircle, Book, MapPin, ShieldAlert, User, X } from "lucide-react";
+import type { ScheduleEntry } from "../types";
+import { findAffectedEntries, parseConflict, type ConflictKind, type ParsedConflict } from "../utils/conflicts";
+import type { TextKey } from "../utils/i18n";
+import { useI18n } from "../hooks/useI18n";
+
+// Constraint violations use the conflict message format but get a column of their own
+type Section = ConflictKind | "constraint";
+
+const sectionConfig: Record<Section, { label: TextKey; icon: React.ComponentType<React.SVGProps<SVGSVGElement>> }> = {
+  teacher: { label: "inspector.teacher", icon: User },
+  group: { label: "inspector.group", icon: Book },
+  room: { label: "inspector.room", icon: MapPin },
+  constraint: { label: "inspector.constraint", icon: ShieldAlert },
+  other: { label: "inspector.other", icon: AlertCircle },
+};
+
+interface InspectedConflict extends ParsedConflict {
+  section: Section;
+  count: number;
+  affected: number[];
+}
+
+interface ConflictInspectorProps {
+  title: string;
+  conflicts: string[];
+  /** Broken scheduling constraints from the same check */
+  violations?: string[];
+  /** Entries of the schedule the conflicts belong to; empty when there is none yet */
+  entries: ScheduleEntry[];
+  onSelect: (affected: number[]) => void;
+  onClose: () => void;
+}
+
+export default function ConflictInspector({ title, conflicts, violations = [], entries, onSelect, onClose }: ConflictInspectorProps) {
+  const { t, tn, weekdayName } = useI18n();
+  const [activeMessage, setActiveMessage] = useState<string | null>(null);
+
+  // The server reports one message per clashing pair, so identical lines are folded together
+  const grouped = useMemo(() => {
+    const byMessage = new Map<string, InspectedConflict>();
+    const add = (message: string, isViolation: boolean) => {
+      const existing = byMessage.get(message);
+      if (existing) {
+        existing.count++;
+        return;
+      }
+      const parsed = parseConflict(message);
+      const section = isViolation ? "constraint" : parsed.kind;
+      byMessage.set(message, { ...parsed, section, count: 1, affected: findAffectedEntries(entries, parsed) });
+    };
+    conflicts.forEach(message => add(message, false));
+    violations.forEach(message => add(message, true));
+
+    const groups = new Map<Section, InspectedConflict[]>();
+    for (const item of byMessage.values()) {
+      groups.set(item.section, [...(groups.get(item.section) ?? []), item]);
+    }
+    return (Object.keys(sectionConfig) as Section[])
+      .filter(section => groups.has(section))
+      .map(section => ({ section, items: groups.get(section)! }));
+  }, [conflicts, violations, entries]);
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-red-500/30 rounded-2xl shadow-2xl p-6 mb-6">
+      <div className="flex items-center justify-between mb-4 border-b-2 border-red-500/50 pb-2">
+        <h2 className="text-2xl font-bold text-red-400 flex items-center gap-2">
+          <AlertCircle className="w-6 h-6" /> {t("inspector.title")}
+        </h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-200" aria-label={t("common.close")} title={t("common.close")}>
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-sm text-slate-400 mb-4">
+        {title} · {tn("inspector.summary", conflicts.length)}
+        {violations.length > 0 && ` · ${tn("inspector.violations", violations.length)}`}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-h-96 overflow-y-auto pr-2">
+        {grouped.map(({ section, items }) => {
+          const { label, icon: Icon } = sectionConfig[section];
+          return (
+            <div key={section}>
+              <h3 className="font-semibold text-slate-300 mb-2 flex items-center gap-2">
+                <Icon className={`w-4 h-4 ${section === "constraint" ? "text-amber-400" : "text-red-400"}`} /> {t(label)} ({items.length})
+              </h3>
+              <div className="space-y-2">
+                {items.map(item => (
+                  <button
+                    key={item.message}
+                    onClick={() => {
+                      setActiveMessage(item.message);
+                      onSelect(item.affected);
+                    }}
+                    className={`w-full text-left p-3 rounded-lg border text-sm transition-all ${
+                      activeMessage === item.message
+                        ? "border-amber-400 bg-amber-500/10"
+                        : item.section === "constraint"
+                          ? "border-amber-500/30 bg-amber-500/5 hover:border-amber-500/60"
+                          : "border-red-500/30 bg-red-500/5 hover:border-red-500/60"
+                    }`}
+                  >
+                    {item.kind === "other" || item.section === "constraint" ? (
+                      <span className="text-slate-300">{item.message}</span>
+                    ) : (
+                      <>
+                        <div className="font-semibold text-slate-200">{item.entity}</div>
+                        <div className="text-slate-400">
+                          {item.day !== null && weekdayName(item.day)} {item.time}
+                          {item.endTime && `–${item.endTime}`}
+                        </div>
+                        {item.otherSchedule && (
+                          <div className="text-xs text-slate-500">{t("inspector.withSchedule", { name: item.otherSchedule })}</div>
+                        )}
+                      </>
+                    )}
+                    <div className="text-xs text-slate-500 mt-1">
+                      {tn("inspector.affected", item.affected.length)}
+                      {item.count > 1 && ` · ${t("inspector.reported", { count: item.count })}`}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
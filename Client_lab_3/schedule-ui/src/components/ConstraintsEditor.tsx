@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { Pencil, Plus, Save, ShieldAlert, Trash2, X } from "lucide-react";
+import type { Catalog, ConstraintKind, ConstraintTarget, DayOfWeek, Schedule, SchedulingConstraint } from "../types";
+import type { NewConstraint } from "../api/client";
+import {
+  constraintKindLabels, constraintTargets, emptyConstraint, findViolations, validateConstraint,
+} from "../utils/constraints";
+import { weekDays } from "../utils/timetable";
+import { shortTime } from "../utils/time";
+import { useI18n } from "../hooks/useI18n";
+
+interface ConstraintsEditorProps {
+  constraints: SchedulingConstraint[];
+  catalog: Catalog;
+  /** Every rule is checked against these */
+  schedules: Schedule[];
+  /** `id` is null for a new rule; resolves to true once it is stored and the list reloaded */
+  onSave: (constraint: NewConstraint, id: number | null) => Promise<boolean>;
+  onDelete: (constraint: SchedulingConstraint) => void;
+}
+
+const inputClasses = "w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200";
+
+const toTimeInput = (time: string | null): string => (time === null ? "" : shortTime(time));
+const fromTimeInput = (value: string): string | null => (value ? `${value}:00` : null);
+
+export default function ConstraintsEditor({ constraints, catalog, schedules, onSave, onDelete }: ConstraintsEditorProps) {
+  const { t, tn, weekdayName } = useI18n();
+  const [draft, setDraft] = useState<NewConstraint>(emptyConstraint);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [showErrors, setShowErrors] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const error = validateConstraint(draft);
+  const names = catalog[constraintTargets[draft.target].catalogKind].map(item => item.name);
+  if (draft.name && !names.includes(draft.name)) names.unshift(draft.name);
+
+  // Archived schedules no longer hold their teachers, groups and rooms
+  const activeSchedules = schedules.filter(s => s.status !== 4);
+  const brokenIn = (constraint: SchedulingConstraint): Schedule[] =>
+    activeSchedules.filter(s => findViolations(s.entries, [constraint]).length > 0);
+
+  const describe = (constraint: SchedulingConstraint | NewConstraint): string => {
+    if (constraint.kind === 1) return t("constraints.maxHoursValue", { hours: constraint.maxHours ?? 0 });
+    const day = constraint.dayOfWeek === null ? t("constraints.everyDay") : weekdayName(constraint.dayOfWeek);
+    const time = constraint.startTime === null || constraint.endTime === null
+      ? t("constraints.allDay")
+      : `${shortTime(constraint.startTime)}–${shortTime(constraint.endTime)}`;
+    return `${day}, ${time}`;
+  };
+
+  const startEditing = (constraint: SchedulingConstraint): void => {
+    const { id, ...rest } = constraint;
+    setEditingId(id);
+    setDraft(rest);
+    setShowErrors(false);
+  };
+
+  const reset = (): void => {
+    setEditingId(null);
+    setDraft(emptyConstraint);
+    setShowErrors(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+    if (error) {
+      setShowErrors(true);
+      return;
+    }
+    setSaving(true);
+    try {
+      // A rule only uses the fields of its kind; the rest is cleared before sending
+      const cleaned: NewConstraint = {
+        ...draft,
+        name: draft.name.trim(),
+        maxHours: draft.kind === 1 ? draft.maxHours : null,
+        dayOfWeek: draft.kind === 1 ? null : draft.dayOfWeek,
+        startTime: draft.kind === 1 ? null : draft.startTime,
+        endTime: draft.kind === 1 ? null : draft.endTime,
+      };
+      if (await onSave(cleaned, editingId)) reset();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6">
+      <h2 className="text-2xl font-bold text-cyan-400 mb-2 flex items-center gap-2 border-b-2 border-cyan-500/50 pb-2">
+        <ShieldAlert className="w-6 h-6" /> {t("constraints.title")}
+      </h2>
+      <p className="text-sm text-slate-400 mb-4">{t("constraints.hint")}</p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          {constraints.length === 0 ? (
+            <p className="text-center text-slate-500 py-8">{t("constraints.empty")}</p>
+          ) : (
+            <ul className="space-y-2 max-h-[28rem] overflow-y-auto pr-2">
+              {constraints.map(constraint => {
+                const broken = brokenIn(constraint);
+                return (
+                  <li
+                    key={constraint.id}
+                    className={`p-3 rounded-lg border text-sm ${
+                      constraint.id === editingId ? "border-cyan-400 bg-cyan-500/10" : "border-slate-700 bg-slate-900/40"
+                    }`}
+                  >
+                    <div className="flex items-start gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-semibold text-slate-200">
+                          <span className="text-slate-500 font-normal">{t(constraintTargets[constraint.target].label)}:</span> {constraint.name}
+                        </div>
+                        <div className="text-slate-400">
+                          {t(constraintKindLabels[constraint.kind])} · {describe(constraint)}
+                        </div>
+                        <div className={`text-xs mt-1 ${broken.length > 0 ? "text-amber-300" : "text-emerald-400"}`}>
+                          {broken.length > 0
+                            ? t("constraints.brokenIn", { names: broken.map(s => s.name).join(", ") })
+                            : t("constraints.kept")}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => startEditing(constraint)}
+                        className="text-slate-400 hover:text-cyan-300"
+                        aria-label={`${t("constraints.edit")}: ${constraint.name}`}
+                        title={t("constraints.edit")}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => onDelete(constraint)}
+                        className="text-slate-400 hover:text-red-300"
+                        aria-label={`${t("constraints.delete")}: ${constraint.name}`}
+                        title={t("constraints.delete")}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {constraints.length > 0 && (
+            <p className="text-xs text-slate-500 mt-2">{tn("constraints.count", constraints.length)}</p>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3" noValidate>
+          <h3 className="font-semibold text-slate-300">{t(editingId === null ? "constraints.new" : "constraints.editing")}</h3>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor="constraint-target" className="block text-sm font-medium text-slate-400 mb-1">{t("constraints.target")}</label>
+              <select
+                id="constraint-target"
+                value={draft.target}
+                onChange={(e) => setDraft({ ...draft, target: Number(e.target.value) as ConstraintTarget, name: "" })}
+                className={inputClasses}
+              >
+                {([0, 1, 2] as ConstraintTarget[]).map(target => (
+                  <option key={target} value={target}>{t(constraintTargets[target].label)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="constraint-name" className="block text-sm font-medium text-slate-400 mb-1">{t("constraints.name")}</label>
+              <select
+                id="constraint-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className={inputClasses}
+              >
+                <option value="">{t("constraints.pick")}</option>
+                {names.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="constraint-kind" className="block text-sm font-medium text-slate-400 mb-1">{t("constraints.kind")}</label>
+            <select
+              id="constraint-kind"
+              value={draft.kind}
+              onChange={(e) => setDraft({ ...draft, kind: Number(e.target.value) as ConstraintKind })}
+              className={inputClasses}
+            >
+              {([0, 1, 2] as ConstraintKind[]).map(kind => (
+                <option key={kind} value={kind}>{t(constraintKindLabels[kind])}</option>
+              ))}
+            </select>
+          </div>
+
+          {draft.kind === 1 ? (
+            <div>
+              <label htmlFor="constraint-hours" className="block text-sm font-medium text-slate-400 mb-1">{t("constraints.maxHours")}</label>
+              <input
+                id="constraint-hours"
+                type="number"
+                min={0.5}
+                step={0.5}
+                value={draft.maxHours ?? ""}
+                onChange={(e) => setDraft({ ...draft, maxHours: e.target.value === "" ? null : Number(e.target.value) })}
+                className={inputClasses}
+              />
+            </div>
+          ) : (
+            <>
+              <div>
+                <label htmlFor="constraint-day" className="block text-sm font-medium text-slate-400 mb-1">{t("constraints.day")}</label>
+                <select
+                  id="constraint-day"
+                  value={draft.dayOfWeek ?? ""}
+                  onChange={(e) => setDraft({ ...draft, dayOfWeek: e.target.value === "" ? null : Number(e.target.value) as DayOfWeek })}
+                  className={inputClasses}
+                >
+                  <option value="">{t("constraints.everyDay")}</option>
+                  {weekDays.map(day => <option key={day} value={day}>{weekdayName(day)}</option>)}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label htmlFor="constraint-start" className="block text-sm font-medium text-slate-400 mb-1">{t("constraints.from")}</label>
+                  <input
+                    id="constraint-start"
+                    type="time"
+                    value={toTimeInput(draft.startTime)}
+                    onChange={(e) => setDraft({ ...draft, startTime: fromTimeInput(e.target.value) })}
+                    className={inputClasses}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="constraint-end" className="block text-sm font-medium text-slate-400 mb-1">{t("constraints.to")}</label>
+                  <input
+                    id="constraint-end"
+                    type="time"
+                    value={toTimeInput(draft.endTime)}
+                    onChange={(e) => setDraft({ ...draft, endTime: fromTimeInput(e.target.value) })}
+                    className={inputClasses}
+                  />
+                </div>
+              </div>
+              {draft.kind === 0 && <p className="text-xs text-slate-500">{t("constraints.timesOptional")}</p>}
+            </>
+          )}
+
+          {showErrors && error && <p className="text-xs text-red-400" role="alert">{t(error)}</p>}
+
+          <div className="flex gap-2">
+            {editingId !== null && (
+              <button
+                type="button"
+                onClick={reset}
+                className="flex-1 bg-slate-900/50 border-2 border-slate-700 text-slate-300 font-semibold py-2 rounded-lg hover:border-slate-600 transition-all flex items-center justify-center gap-2"
+              >
+                <X className="w-4 h-4" /> {t("common.cancel")}
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-gradient-to-r from-cyan-500 to-blue-500 text-white font-semibold py-2 rounded-lg hover:shadow-lg hover:shadow-cyan-500/50 transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {editingId === null ? <Plus className="w-4 h-4" /> : <Save className="w-4 h-4" />}
+              {t(editingId === null ? "constraints.add" : "constraints.save")}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
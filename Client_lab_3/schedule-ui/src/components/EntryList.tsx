@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Pencil, Trash2 } from "lucide-react";
+import type { ScheduleEntry } from "../types";
+import { shortTime } from "../utils/time";
+import { useI18n } from "../hooks/useI18n";
+
+interface EntryListProps {
+  entries: ScheduleEntry[];
+  editingIndex: number | null;
+  onEdit: (index: number) => void;
+  /** Resolves to true when the entries were removed on the server */
+  onDelete: (indexes: number[]) => Promise<boolean>;
+  /** Published and archived schedules can only be looked at */
+  readOnly?: boolean;
+}
+
+export default function EntryList({ entries, editingIndex, onEdit, onDelete, readOnly = false }: EntryListProps) {
+  const { t, weekdayName } = useI18n();
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  // Indexes may point past the end after a refresh removed entries
+  const selectedIndexes = [...selected].filter(i => i < entries.length).sort((a, b) => a - b);
+  const allSelected = entries.length > 0 && selectedIndexes.length === entries.length;
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const remove = async (indexes: number[]) => {
+    if (await onDelete(indexes)) setSelected(new Set());
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="flex items-center gap-2 text-sm text-slate-400">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={() => setSelected(allSelected ? new Set() : new Set(entries.map((_, i) => i)))}
+            className="accent-cyan-500"
+          />
+          {t("entries.selectAll")}
+        </label>
+        <button
+          onClick={() => remove(selectedIndexes)}
+          disabled={readOnly || selectedIndexes.length === 0}
+          className="bg-red-500/20 hover:bg-red-500/30 text-red-300 px-3 py-1.5 rounded-lg text-xs font-semibold border border-red-500/50 transition-all flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Trash2 className="w-3 h-3" /> {t("entries.deleteSelected", { count: selectedIndexes.length })}
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs uppercase text-slate-500 border-b border-slate-700">
+            <tr>
+              <th className="p-2 w-8"><span className="sr-only">{t("entries.selection")}</span></th>
+              <th className="p-2">{t("entries.day")}</th>
+              <th className="p-2">{t("form.time")}</th>
+              <th className="p-2">{t("kind.subject")}</th>
+              <th className="p-2">{t("kind.teacher")}</th>
+              <th className="p-2">{t("kind.group")}</th>
+              <th className="p-2">{t("kind.room")}</th>
+              <th className="p-2 w-20"><span className="sr-only">{t("entries.actions")}</span></th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, index) => (
+              <tr
+                key={index}
+                className={`border-b border-slate-800 ${
+                  index === editingIndex ? "bg-cyan-500/10" : "hover:bg-slate-800/50"
+                }`}
+              >
+                <td className="p-2">
+                  <input
+                    type="checkbox"
+                    aria-label={t("entries.select", { subject: entry.subject, day: weekdayName(entry.dayOfWeek), time: shortTime(entry.startTime) })}
+                    checked={selected.has(index)}
+                    onChange={() => toggle(index)}
+                    className="accent-cyan-500"
+                  />
+                </td>
+                <td className="p-2 text-slate-300">{weekdayName(entry.dayOfWeek)}</td>
+                <td className="p-2 text-slate-300 whitespace-nowrap">{shortTime(entry.startTime)}–{shortTime(entry.endTime)}</td>
+                <td className="p-2 font-semibold text-cyan-300">{entry.subject}</td>
+                <td className="p-2 text-slate-400">{entry.teacher}</td>
+                <td className="p-2 text-slate-400">{entry.group}</td>
+                <td className="p-2 text-slate-400">{entry.room}</td>
+                <td className="p-2">
+                  <div className="flex gap-1 justify-end">
+                    <button
+                      onClick={() => onEdit(index)}
+                      disabled={readOnly}
+                      className="bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-300 p-1.5 rounded-lg border border-cyan-500/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                      aria-label={`${t("entries.edit")}: ${entry.subject}`}
+                      title={t("entries.edit")}
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => remove([index])}
+                      disabled={readOnly}
+                      className="bg-red-500/20 hover:bg-red-500/30 text-red-300 p-1.5 rounded-lg border border-red-500/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                      aria-label={`${t("entries.delete")}: ${entry.subject}`}
+                      title={t("entries.delete")}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight, ExternalLink, ScrollText, Search } from "lucide-react";
+import type { AnalyticsEvent, Schedule } from "../types";
+import { ROUTING_KEY_CONFLICT, ROUTING_KEY_OPTIMIZED, ROUTING_KEY_UPDATED } from "../api/events";
+import { emptyLogFilter, filterLog, toLogEntry, type LogFilter } from "../utils/eventLog";
+import { useI18n } from "../hooks/useI18n";
+
+const routingKeys: { key: string; classes: string }[] = [
+  { key: ROUTING_KEY_OPTIMIZED, classes: "bg-emerald-500/20 text-emerald-300 border-emerald-500/50" },
+  { key: ROUTING_KEY_UPDATED, classes: "bg-cyan-500/20 text-cyan-300 border-cyan-500/50" },
+  { key: ROUTING_KEY_CONFLICT, classes: "bg-red-500/20 text-red-300 border-red-500/50" },
+];
+
+const badgeClasses = (routingKey: string): string =>
+  routingKeys.find(r => r.key === routingKey)?.classes ?? "bg-slate-500/20 text-slate-300 border-slate-500/50";
+
+const inputClasses = "px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200";
+
+const formatPayload = (payload: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+};
+
+interface EventLogProps {
+  events: AnalyticsEvent[];
+  schedules: Schedule[];
+  filter: LogFilter;
+  onFilterChange: (filter: LogFilter) => void;
+  onOpenSchedule: (id: number) => void;
+}
+
+export default function EventLog({ events, schedules, filter, onFilterChange: setFilter, onOpenSchedule }: EventLogProps) {
+  const { locale, t, formatDateTime } = useI18n();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const entries = useMemo(() => events.map(event => toLogEntry(event, locale)), [events, locale]);
+  const visible = filterLog(entries, filter);
+
+  const toggleRoutingKey = (key: string): void => {
+    setFilter({
+      ...filter,
+      routingKeys: filter.routingKeys.includes(key)
+        ? filter.routingKeys.filter(k => k !== key)
+        : [...filter.routingKeys, key],
+    });
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6 mb-6">
+      <div className="flex items-center justify-between mb-4 border-b-2 border-cyan-500/50 pb-2">
+        <h2 className="text-2xl font-bold text-cyan-400 flex items-center gap-2">
+          <ScrollText className="w-6 h-6" /> {t("tabs.events")}
+        </h2>
+        <span className="text-sm text-slate-500">{t("eventLog.count", { visible: visible.length, total: entries.length })}</span>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <div className="flex gap-2">
+          {routingKeys.map(r => (
+            <button
+              key={r.key}
+              onClick={() => toggleRoutingKey(r.key)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-semibold border transition-all ${
+                filter.routingKeys.includes(r.key) ? r.classes : "bg-slate-900/50 text-slate-500 border-slate-700"
+              }`}
+            >
+              {r.key}
+            </button>
+          ))}
+        </div>
+        <input
+          type="number"
+          min={1}
+          value={filter.scheduleId}
+          onChange={(e) => setFilter({ ...filter, scheduleId: e.target.value })}
+          placeholder={t("eventLog.scheduleId")}
+          className={`${inputClasses} w-32`}
+        />
+        <label className="text-xs text-slate-400">
+          {t("eventLog.from")}
+          <input
+            type="datetime-local"
+            value={filter.from}
+            onChange={(e) => setFilter({ ...filter, from: e.target.value })}
+            className={`${inputClasses} block`}
+          />
+        </label>
+        <label className="text-xs text-slate-400">
+          {t("eventLog.to")}
+          <input
+            type="datetime-local"
+            value={filter.to}
+            onChange={(e) => setFilter({ ...filter, to: e.target.value })}
+            className={`${inputClasses} block`}
+          />
+        </label>
+        <div className="relative flex-1 min-w-48">
+          <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={filter.search}
+            onChange={(e) => setFilter({ ...filter, search: e.target.value })}
+            placeholder={t("eventLog.search")}
+            className={`${inputClasses} w-full pl-9`}
+          />
+        </div>
+        <button
+          onClick={() => setFilter(emptyLogFilter)}
+          className="text-sm text-slate-400 hover:text-slate-200 py-2"
+        >
+          {t("eventLog.reset")}
+        </button>
+      </div>
+
+      <div className="space-y-2 max-h-[32rem] overflow-y-auto pr-2">
+        {visible.length === 0 ? (
+          <p className="text-center text-slate-500 py-8">
+            {t(entries.length === 0 ? "eventLog.empty" : "eventLog.noMatches")}
+          </p>
+        ) : (
+          visible.map(entry => {
+            const schedule = entry.scheduleId !== null ? schedules.find(s => s.id === entry.scheduleId) : undefined;
+            const isExpanded = expanded === entry.key;
+            return (
+              <div key={entry.key} className="bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-sm">
+                <div className="flex items-start gap-3">
+                  <button
+                    onClick={() => setExpanded(isExpanded ? null : entry.key)}
+                    className="text-slate-500 hover:text-slate-300 mt-0.5"
+                    aria-expanded={isExpanded}
+                    aria-label={t(isExpanded ? "eventLog.hidePayload" : "eventLog.showPayload")}
+                    title={t(isExpanded ? "eventLog.hidePayload" : "eventLog.showPayload")}
+                  >
+                    {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded text-[11px] font-semibold border ${badgeClasses(entry.event.routingKey)}`}>
+                        {entry.event.routingKey}
+                      </span>
+                      <span className="font-semibold text-slate-200">{entry.title}</span>
+                      <span className="text-xs text-slate-500 ml-auto whitespace-nowrap">
+                        {formatDateTime(entry.event.timestamp)}
+                      </span>
+                    </div>
+                    <p className="text-slate-400 mt-1 break-words">{entry.detail}</p>
+                    {entry.decoded.kind === "conflict" && entry.decoded.data.affectedEntities.length > 0 && (
+                      <ul className="mt-1 text-xs text-red-300/80 list-disc list-inside">
+                        {entry.decoded.data.affectedEntities.map((entity, i) => <li key={i}>{entity}</li>)}
+                      </ul>
+                    )}
+                    {entry.scheduleId !== null && (
+                      schedule ? (
+                        <button
+                          onClick={() => onOpenSchedule(schedule.id)}
+                          className="mt-1 text-xs text-cyan-400 hover:text-cyan-300 flex items-center gap-1"
+                        >
+                          <ExternalLink className="w-3 h-3" /> {schedule.name} (#{schedule.id})
+                        </button>
+                      ) : (
+                        <span className="mt-1 block text-xs text-slate-500">{t("eventLog.missingSchedule", { id: entry.scheduleId })}</span>
+                      )
+                    )}
+                    {isExpanded && (
+                      <pre className="mt-2 p-2 bg-slate-950/60 rounded text-xs text-slate-400 overflow-x-auto">
+                        {formatPayload(entry.event.payload)}
+                      </pre>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import { useMemo, useState } from "react";
+import { FileUp, X } from "lucide-react";
+import type { Catalog, Schedule, ScheduleEntry } from "../types";
+import {
+  analyzeImport, guessMapping, importFields, parseCsv, positionalMapping,
+  type ColumnMapping, type ImportRowStatus, type ImportTarget,
+} from "../utils/csvImport";
+import { isLocked } from "../utils/scheduleStatus";
+import { shortTime } from "../utils/time";
+import type { TextKey } from "../utils/i18n";
+import { useI18n } from "../hooks/useI18n";
+
+type Step = "source" | "mapping" | "preview";
+
+const steps: { key: Step; label: TextKey }[] = [
+  { key: "source", label: "import.stepData" },
+  { key: "mapping", label: "import.stepColumns" },
+  { key: "preview", label: "import.stepPreview" },
+];
+
+const statusConfig: Record<ImportRowStatus, { label: TextKey; classes: string }> = {
+  matched: { label: "import.matched", classes: "bg-green-500/20 text-green-300 border-green-500/50" },
+  new: { label: "import.newNames", classes: "bg-yellow-500/20 text-yellow-300 border-yellow-500/50" },
+  broken: { label: "import.broken", classes: "bg-red-500/20 text-red-300 border-red-500/50" },
+};
+
+const inputClasses = "px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200";
+const buttonClasses = "bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-300 px-4 py-2 rounded-lg text-sm font-semibold border border-cyan-500/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed";
+
+interface ImportWizardProps {
+  schedules: Schedule[];
+  catalog: Catalog;
+  /** Preselected target; published and archived schedules are not offered */
+  scheduleId: number | null;
+  /** Resolves to true once the entries are saved */
+  onImport: (target: ImportTarget, entries: ScheduleEntry[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export default function ImportWizard({ schedules, catalog, scheduleId, onImport, onClose }: ImportWizardProps) {
+  const { locale, t, tn, weekdayName } = useI18n();
+  const [step, setStep] = useState<Step>("source");
+  const [text, setText] = useState<string>("");
+  const [fileName, setFileName] = useState<string>("");
+  const [hasHeader, setHasHeader] = useState<boolean>(true);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping([]));
+  const editable = schedules.filter(s => !isLocked(s));
+  const [target, setTarget] = useState<string>(
+    scheduleId !== null && editable.some(s => s.id === scheduleId) ? String(scheduleId) : "new"
+  );
+  const [newName, setNewName] = useState<string>("");
+  const [importing, setImporting] = useState<boolean>(false);
+
+  const table = useMemo(() => parseCsv(text), [text]);
+  const columnCount = Math.max(0, ...table.map(row => row.length));
+  const headers = hasHeader && table.length > 0
+    ? Array.from({ length: columnCount }, (_, i) => table[0][i]?.trim() || t("import.column", { n: i + 1 }))
+    : Array.from({ length: columnCount }, (_, i) => t("import.column", { n: i + 1 }));
+  const dataRows = useMemo(() => (hasHeader ? table.slice(1) : table), [table, hasHeader]);
+
+  const targetSchedule = target === "new" ? null : editable.find(s => String(s.id) === target) ?? null;
+  const rows = useMemo(() => analyzeImport(
+    dataRows,
+    mapping,
+    catalog,
+    targetSchedule?.entries ?? [],
+    // Archived schedules do not take part in the server's global check
+    schedules.filter(s => s.id !== targetSchedule?.id && s.status !== 4),
+    hasHeader ? 2 : 1,
+    locale,
+  ), [dataRows, mapping, catalog, targetSchedule, schedules, hasHeader, locale]);
+  const importable = rows.filter(row => row.status !== "broken" && row.entry).map(row => row.entry!);
+  const counts = rows.reduce<Record<ImportRowStatus, number>>(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { matched: 0, new: 0, broken: 0 }
+  );
+
+  const loadFile = async (file: File | undefined): Promise<void> => {
+    if (!file) return;
+    setFileName(file.name);
+    setText(await file.text());
+  };
+
+  const goToMapping = (): void => {
+    setMapping(hasHeader ? guessMapping(headers) : positionalMapping(columnCount));
+    setStep("mapping");
+  };
+
+  const submit = async (): Promise<void> => {
+    setImporting(true);
+    const done = await onImport(
+      targetSchedule ? { scheduleId: targetSchedule.id } : { name: newName.trim() },
+      importable
+    );
+    setImporting(false);
+    if (done) onClose();
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6 mb-6">
+      <div className="flex items-center justify-between mb-4 border-b-2 border-cyan-500/50 pb-2">
+        <h2 className="text-2xl font-bold text-cyan-400 flex items-center gap-2">
+          <FileUp className="w-6 h-6" /> {t("import.title")}
+        </h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-200" aria-label={t("common.close")} title={t("common.close")}>
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-4 text-sm">
+        {steps.map(s => (
+          <span
+            key={s.key}
+            className={`px-3 py-1 rounded-full border ${
+              step === s.key ? "bg-cyan-500/20 text-cyan-300 border-cyan-500/50" : "text-slate-500 border-slate-700"
+            }`}
+          >
+            {t(s.label)}
+          </span>
+        ))}
+      </div>
+
+      {step === "source" && (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-400">
+            {t("import.sourceHint")}
+          </p>
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv"
+            onChange={(e) => loadFile(e.target.files?.[0])}
+            className="block text-sm text-slate-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border file:border-cyan-500/50 file:bg-cyan-500/20 file:text-cyan-300"
+          />
+          <textarea
+            value={text}
+            onChange={(e) => { setText(e.target.value); setFileName(""); }}
+            rows={8}
+            placeholder={"Subject,Teacher,Group,Room,Day,Start,End\nDatabases,Dr. Lutsyk,KN-21,101,Monday,09:00,10:30"}
+            className={`${inputClasses} w-full font-mono`}
+          />
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+              {t("import.hasHeader")}
+            </label>
+            <span className="text-xs text-slate-500">
+              {fileName && `${fileName} · `}{tn("import.rows", dataRows.length)}, {tn("import.columns", columnCount)}
+            </span>
+          </div>
+          <button onClick={goToMapping} disabled={dataRows.length === 0} className={buttonClasses}>
+            {t("import.next")}
+          </button>
+        </div>
+      )}
+
+      {step === "mapping" && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {importFields.map(field => (
+              <label key={field.key} className="text-sm text-slate-400">
+                {t(field.label)}
+                <select
+                  value={mapping[field.key] ?? ""}
+                  onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value === "" ? null : Number(e.target.value) })}
+                  className={`${inputClasses} block w-full`}
+                >
+                  <option value="">{t("import.notMappedOption")}</option>
+                  {headers.map((header, i) => <option key={i} value={i}>{header}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="text-slate-400 border-b border-slate-700">
+                <tr>{headers.map((header, i) => <th key={i} className="text-left font-semibold py-2 pr-3">{header}</th>)}</tr>
+              </thead>
+              <tbody>
+                {dataRows.slice(0, 5).map((row, r) => (
+                  <tr key={r} className="border-b border-slate-800 text-slate-300">
+                    {headers.map((_, i) => <td key={i} className="py-1 pr-3">{row[i]}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => setStep("source")} className="text-sm text-slate-400 hover:text-slate-200 px-4 py-2">{t("import.back")}</button>
+            <button
+              onClick={() => setStep("preview")}
+              disabled={importFields.some(field => mapping[field.key] === null)}
+              className={buttonClasses}
+            >
+              {t("import.next")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === "preview" && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="text-sm text-slate-400">
+              {t("import.into")}
+              <select value={target} onChange={(e) => setTarget(e.target.value)} className={`${inputClasses} block`}>
+                <option value="new">{t("import.newSchedule")}</option>
+                {editable.map(s => <option key={s.id} value={s.id}>{s.name} (ID: {s.id})</option>)}
+              </select>
+            </label>
+            {target === "new" && (
+              <label className="text-sm text-slate-400">
+                {t("import.scheduleName")}
+                <input type="text" value={newName} onChange={(e) => setNewName(e.target.value)} className={`${inputClasses} block`} />
+              </label>
+            )}
+            <div className="flex gap-2 text-xs ml-auto">
+              {(Object.keys(statusConfig) as ImportRowStatus[]).map(status => (
+                <span key={status} className={`px-2 py-1 rounded-full border font-semibold ${statusConfig[status].classes}`}>
+                  {t(statusConfig[status].label)}: {counts[status]}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto pr-2">
+            <table className="w-full text-sm">
+              <thead className="text-slate-400 border-b border-slate-700 sticky top-0 bg-slate-800">
+                <tr>
+                  <th className="text-left font-semibold py-2 pr-3 w-12">{t("import.row")}</th>
+                  <th className="text-left font-semibold py-2 pr-3">{t("import.status")}</th>
+                  <th className="text-left font-semibold py-2 pr-3">{t("import.class")}</th>
+                  <th className="text-left font-semibold py-2 pr-3">{t("import.notes")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.line} className="border-b border-slate-800 text-slate-300 align-top">
+                    <td className="py-2 pr-3 text-slate-500">{row.line}</td>
+                    <td className="py-2 pr-3">
+                      <span className={`px-2 py-0.5 rounded-full border text-xs font-semibold ${statusConfig[row.status].classes}`}>
+                        {t(statusConfig[row.status].label)}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-3">
+                      {row.entry ? (
+                        <>
+                          <div className="font-semibold text-slate-200">{row.entry.subject}</div>
+                          <div className="text-xs text-slate-400">
+                            {row.entry.teacher} · {row.entry.group} · {row.entry.room} · {weekdayName(row.entry.dayOfWeek)}{" "}
+                            {shortTime(row.entry.startTime)}-{shortTime(row.entry.endTime)}
+                          </div>
+                        </>
+                      ) : (
+                        <span className="text-slate-500">—</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-xs">
+                      {row.errors.map((error, i) => <div key={i} className="text-red-300">{error}</div>)}
+                      {row.unknown.length > 0 && (
+                        <div className="text-yellow-300/80">{t("import.notInCatalog", { names: row.unknown.join(", ") })}</div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button onClick={() => setStep("mapping")} className="text-sm text-slate-400 hover:text-slate-200 px-4 py-2">{t("import.back")}</button>
+            <button
+              onClick={submit}
+              disabled={importing || importable.length === 0 || (target === "new" && !newName.trim())}
+              className={buttonClasses}
+            >
+              {importing ? t("import.importing") : tn("import.submit", importable.length)}
+            </button>
+            {counts.broken > 0 && (
+              <span className="text-xs text-slate-500">{t("import.brokenSkipped")}</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { AlertCircle, Bell, CheckCheck, CheckCircle, ExternalLink, Trash2, X, Zap } from "lucide-react";
+import type { NotificationType, Schedule, UiNotification } from "../types";
+import type { TextKey } from "../utils/i18n";
+import { useI18n } from "../hooks/useI18n";
+
+const typeConfig: Record<NotificationType, {
+  icon: React.ComponentType<React.SVGProps<SVGSVGElement>>;
+  color: string;
+  iconColor: string;
+  title: TextKey;
+}> = {
+  optimized: { icon: Zap, color: "border-emerald-500/50 bg-emerald-500/10", iconColor: "text-emerald-400", title: "notifications.optimized" },
+  updated: { icon: CheckCircle, color: "border-cyan-500/50 bg-cyan-500/10", iconColor: "text-cyan-400", title: "notifications.updated" },
+  conflict: { icon: AlertCircle, color: "border-red-500/50 bg-red-500/10", iconColor: "text-red-400", title: "notifications.conflict" },
+  error: { icon: AlertCircle, color: "border-red-500/50 bg-red-500/10", iconColor: "text-red-400", title: "notifications.error" },
+};
+
+type SourceFilter = "all" | UiNotification["source"];
+
+const sourceLabels: Record<SourceFilter, TextKey> = {
+  all: "notifications.allSources", app: "notifications.thisBrowser", server: "notifications.serverSource",
+};
+
+interface NotificationCenterProps {
+  notifications: UiNotification[];
+  schedules: Schedule[];
+  onOpenSchedule: (id: number) => void;
+  onRead: (ids: string[] | "all") => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+export default function NotificationCenter({
+  notifications, schedules, onOpenSchedule, onRead, onRemove, onClear,
+}: NotificationCenterProps) {
+  const { t, tn, formatDateTime } = useI18n();
+  const [types, setTypes] = useState<NotificationType[]>([]);
+  const [source, setSource] = useState<SourceFilter>("all");
+  const [unreadOnly, setUnreadOnly] = useState<boolean>(false);
+
+  const unread = notifications.filter(n => !n.read).length;
+  const visible = notifications.filter(n =>
+    (types.length === 0 || types.includes(n.type)) &&
+    (source === "all" || n.source === source) &&
+    (!unreadOnly || !n.read)
+  );
+
+  const toggleType = (type: NotificationType): void => {
+    setTypes(types.includes(type) ? types.filter(item => item !== type) : [...types, type]);
+  };
+
+  return (
+    <section aria-labelledby="notifications-title" className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6">
+      <div className="flex items-center justify-between mb-4 border-b-2 border-cyan-500/50 pb-2">
+        <h2 id="notifications-title" className="text-2xl font-bold text-cyan-400 flex items-center gap-2">
+          <Bell className="w-6 h-6" aria-hidden="true" /> {t("notifications.title")}
+          {unread > 0 && (
+            <span className="bg-cyan-500 text-slate-900 text-xs font-bold rounded-full px-2 py-0.5" aria-label={tn("notifications.unreadCount", unread)}>
+              {unread}
+            </span>
+          )}
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onRead("all")}
+            disabled={unread === 0}
+            className="text-sm text-slate-400 hover:text-slate-200 flex items-center gap-1 disabled:opacity-40"
+          >
+            <CheckCheck className="w-4 h-4" /> {t("notifications.markAllRead")}
+          </button>
+          <button
+            onClick={onClear}
+            disabled={notifications.length === 0}
+            className="text-sm text-slate-400 hover:text-red-300 flex items-center gap-1 disabled:opacity-40"
+          >
+            <Trash2 className="w-4 h-4" /> {t("notifications.clear")}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {(Object.keys(typeConfig) as NotificationType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => toggleType(type)}
+            aria-pressed={types.includes(type)}
+            className={`px-3 py-1 rounded-lg text-xs font-semibold border transition-all ${
+              types.includes(type) ? `${typeConfig[type].color} ${typeConfig[type].iconColor}` : "bg-slate-900/50 text-slate-500 border-slate-700"
+            }`}
+          >
+            {t(typeConfig[type].title)} ({notifications.filter(n => n.type === type).length})
+          </button>
+        ))}
+        <select
+          aria-label={t("notifications.source")}
+          value={source}
+          onChange={(e) => setSource(e.target.value as SourceFilter)}
+          className="px-3 py-1 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-xs text-slate-200"
+        >
+          {(Object.keys(sourceLabels) as SourceFilter[]).map(key => <option key={key} value={key}>{t(sourceLabels[key])}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-xs text-slate-400 ml-auto">
+          <input type="checkbox" checked={unreadOnly} onChange={(e) => setUnreadOnly(e.target.checked)} />
+          {t("notifications.unreadOnly")}
+        </label>
+      </div>
+
+      <div className="space-y-3 max-h-96 overflow-y-auto pr-2" role="list">
+        {visible.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">
+            <AlertCircle className="w-12 h-12 mx-auto mb-3 text-slate-700" />
+            <p>{t(notifications.length === 0 ? "notifications.waiting" : "notifications.noMatches")}</p>
+          </div>
+        ) : (
+          visible.map((notif) => {
+            const cfg = typeConfig[notif.type];
+            const Icon = cfg.icon;
+            const schedule = notif.scheduleId !== null ? schedules.find(s => s.id === notif.scheduleId) : undefined;
+            return (
+              <div
+                key={notif.id}
+                role="listitem"
+                onClick={() => !notif.read && onRead([notif.id])}
+                className={`p-4 rounded-xl border ${cfg.color} animate-fade-in ${notif.read ? "opacity-60" : "cursor-pointer"}`}
+              >
+                <div className="flex items-start gap-3">
+                  <Icon className={`w-5 h-5 ${cfg.iconColor} mt-0.5`} aria-hidden="true" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      {!notif.read && (
+                        <span className="w-2 h-2 rounded-full bg-cyan-400" title={t("notifications.unread")}>
+                          <span className="sr-only">{t("notifications.unread")}</span>
+                        </span>
+                      )}
+                      <span className="font-semibold text-slate-200">{t(cfg.title)}</span>
+                      {notif.count > 1 && (
+                        <span className="text-xs font-semibold text-slate-300 bg-slate-700 rounded-full px-2">×{notif.count}</span>
+                      )}
+                      {notif.source === "server" && (
+                        <span className="text-[11px] text-slate-400 border border-slate-600 rounded px-1">{t("notifications.server")}</span>
+                      )}
+                      <span className="text-xs text-slate-500 ml-auto whitespace-nowrap">{formatDateTime(notif.time)}</span>
+                    </div>
+                    <p className="text-sm text-slate-300 break-words">{notif.message}</p>
+                    {schedule && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onRead([notif.id]);
+                          onOpenSchedule(schedule.id);
+                        }}
+                        className="mt-1 text-xs text-cyan-400 hover:text-cyan-300 flex items-center gap-1"
+                      >
+                        <ExternalLink className="w-3 h-3" /> {schedule.name} (#{schedule.id})
+                      </button>
+                    )}
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemove(notif.id);
+                    }}
+                    className="text-slate-500 hover:text-slate-300"
+                    aria-label={t("notifications.dismiss")}
+                    title={t("notifications.dismiss")}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Zap } from "lucide-react";
+import type { OptimizationCriteria } from "../types";
+import type { TextKey } from "../utils/i18n";
+import { useI18n } from "../hooks/useI18n";
+import { useDialogFocus } from "../hooks/useDialogFocus";
+
+interface OptimizationDialogProps {
+  scheduleName: string;
+  initialCriteria: OptimizationCriteria;
+  /** Rules from the constraints editor that are sent along with the run */
+  constraintCount: number;
+  onRun: (criteria: OptimizationCriteria) => void;
+  onCancel: () => void;
+}
+
+const options: { key: "minimizeWindows" | "balanceLoad" | "resolveConflicts"; label: TextKey; hint: TextKey }[] = [
+  { key: "minimizeWindows", label: "optimize.minimizeWindows", hint: "optimize.minimizeWindowsHint" },
+  { key: "balanceLoad", label: "optimize.balanceLoad", hint: "optimize.balanceLoadHint" },
+  { key: "resolveConflicts", label: "optimize.resolveConflicts", hint: "optimize.resolveConflictsHint" },
+];
+
+export default function OptimizationDialog({ scheduleName, initialCriteria, constraintCount, onRun, onCancel }: OptimizationDialogProps) {
+  const { t, tn } = useI18n();
+  const ref = useDialogFocus<HTMLDivElement>(onCancel);
+  const [criteria, setCriteria] = useState<OptimizationCriteria>(initialCriteria);
+  const nothingSelected = !criteria.minimizeWindows && !criteria.balanceLoad && !criteria.resolveConflicts;
+  const invalidIterations = !Number.isInteger(criteria.maxIterations) || criteria.maxIterations < 1;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onCancel}>
+      <div
+        ref={ref}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="optimize-title"
+        aria-describedby="optimize-schedule"
+        tabIndex={-1}
+        className="w-full max-w-md bg-slate-800 border border-emerald-500/40 rounded-2xl shadow-2xl p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id="optimize-title" className="text-xl font-bold text-emerald-300 mb-1 flex items-center gap-2">
+          <Zap className="w-5 h-5" aria-hidden="true" /> {t("optimize.title")}
+        </h2>
+        <p id="optimize-schedule" className="text-sm text-slate-400 mb-4">{scheduleName}</p>
+
+        <div className="space-y-3 mb-4">
+          {options.map(option => (
+            <label key={option.key} className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={criteria[option.key]}
+                onChange={(e) => setCriteria({ ...criteria, [option.key]: e.target.checked })}
+                className="mt-1 accent-emerald-500"
+              />
+              <span>
+                <span className="block text-slate-200 font-semibold">{t(option.label)}</span>
+                <span className="block text-xs text-slate-500">{t(option.hint)}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <label htmlFor="optimize-iterations" className="block text-sm font-medium text-slate-400 mb-1">{t("optimize.maxIterations")}</label>
+        <input
+          id="optimize-iterations"
+          type="number"
+          aria-invalid={invalidIterations}
+          min={1}
+          step={100}
+          value={criteria.maxIterations}
+          onChange={(e) => setCriteria({ ...criteria, maxIterations: parseInt(e.target.value, 10) })}
+          className="w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-emerald-500 focus:outline-none text-sm text-slate-200"
+        />
+
+        <p className="text-xs text-slate-500 mt-3">
+          {constraintCount > 0 ? tn("optimize.constraints", constraintCount) : t("optimize.noConstraints")}
+        </p>
+
+        {(nothingSelected || invalidIterations) && (
+          <p className="text-xs text-red-400 mt-2" role="alert">
+            {nothingSelected ? t("optimize.nothingSelected") : t("optimize.invalidIterations")}
+          </p>
+        )}
+
+        <div className="flex gap-2 mt-6">
+          <button
+            onClick={onCancel}
+            className="flex-1 bg-slate-900/50 border-2 border-slate-700 text-slate-300 font-semibold py-2 rounded-lg hover:border-slate-600 transition-all"
+          >
+            {t("common.cancel")}
+          </button>
+          <button
+            onClick={() => onRun(criteria)}
+            disabled={nothingSelected || invalidIterations}
+            className="flex-1 bg-gradient-to-r from-emerald-500 to-cyan-500 text-white font-semibold py-2 rounded-lg hover:shadow-lg hover:shadow-emerald-500/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {t("optimize.run")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { AlertCircle, CheckCircle, X, Zap } from "lucide-react";
+import { isRunFinished, type OptimizationRun, type OptimizationRunStatus } from "../hooks/useOptimizationProgress";
+import type { QualitySnapshot } from "../utils/optimization";
+import type { TextKey } from "../utils/i18n";
+import { useI18n } from "../hooks/useI18n";
+
+const steps: { status: OptimizationRunStatus; label: TextKey }[] = [
+  { status: "Requested", label: "progress.requested" },
+  { status: "Started", label: "progress.started" },
+  { status: "InProgress", label: "progress.inProgress" },
+  { status: "Completed", label: "progress.completed" },
+];
+
+const metricKeys: Record<keyof QualitySnapshot, TextKey> = {
+  windows: "analytics.windows",
+  conflicts: "analytics.conflicts",
+};
+
+const stepIndex = (status: OptimizationRunStatus): number => {
+  const index = steps.findIndex(step => step.status === status);
+  return index === -1 ? steps.length - 1 : index;
+};
+
+interface OptimizationProgressProps {
+  run: OptimizationRun;
+  /** Windows and conflicts counted on the client before the run and on the refreshed schedule */
+  comparison?: { before: QualitySnapshot; after: QualitySnapshot };
+  onDismiss: () => void;
+}
+
+export default function OptimizationProgress({ run, comparison, onDismiss }: OptimizationProgressProps) {
+  const { t } = useI18n();
+  const failed = run.status === "Failed" || run.status === "TimedOut";
+  const current = stepIndex(run.status);
+  const finished = isRunFinished(run);
+
+  return (
+    <div className={`mt-3 p-3 rounded-lg border text-sm ${
+      failed ? "border-red-500/50 bg-red-500/10" : "border-emerald-500/50 bg-emerald-500/10"
+    }`}>
+      <div className="flex items-center justify-between mb-2">
+        <span className={`font-semibold flex items-center gap-2 ${failed ? "text-red-300" : "text-emerald-300"}`}>
+          {failed ? <AlertCircle className="w-4 h-4" />
+            : finished ? <CheckCircle className="w-4 h-4" />
+            : <Zap className="w-4 h-4 animate-pulse" />}
+          {failed ? t("progress.failed") : finished ? t("progress.done") : t("progress.running")}
+        </span>
+        {finished && (
+          <button onClick={onDismiss} className="text-slate-400 hover:text-slate-200" aria-label={t("progress.dismiss")} title={t("progress.dismiss")}>
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div
+        className="flex gap-1 mb-2"
+        role="progressbar"
+        aria-label={t("progress.label")}
+        aria-valuemin={1}
+        aria-valuemax={steps.length}
+        aria-valuenow={current + 1}
+        aria-valuetext={failed ? t("progress.failed") : t(steps[current].label)}
+      >
+        {steps.map((step, index) => (
+          <div key={step.status} className="flex-1">
+            <div className={`h-1.5 rounded-full ${
+              index <= current
+                ? failed && index === current ? "bg-red-400" : "bg-emerald-400"
+                : "bg-slate-700"
+            } ${!finished && index === current ? "animate-pulse" : ""}`} />
+            <div className="text-[10px] text-slate-500 mt-1">{t(step.label)}</div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-slate-300">{run.message}</p>
+
+      {run.status === "Completed" && run.result && (
+        <div className="grid grid-cols-3 gap-2 mt-3 text-center">
+          <div className="bg-slate-900/50 rounded-lg p-2">
+            <div className="text-lg font-bold text-emerald-300">{run.result.windowsReduced}</div>
+            <div className="text-[11px] text-slate-400">{t("progress.windowsReduced")}</div>
+          </div>
+          <div className="bg-slate-900/50 rounded-lg p-2">
+            <div className="text-lg font-bold text-emerald-300">{run.result.conflictsResolved}</div>
+            <div className="text-[11px] text-slate-400">{t("progress.conflictsResolved")}</div>
+          </div>
+          <div className="bg-slate-900/50 rounded-lg p-2">
+            <div className="text-lg font-bold text-emerald-300">{run.result.loadBalanceImprovement.toFixed(1)}%</div>
+            <div className="text-[11px] text-slate-400">{t("progress.loadBalance")}</div>
+          </div>
+        </div>
+      )}
+
+      {finished && comparison && (
+        <table className="w-full mt-3 text-xs text-center">
+          <thead className="text-slate-500">
+            <tr>
+              <th className="text-left font-medium" />
+              <th className="font-medium">{t("progress.before")}</th>
+              <th className="font-medium">{t("progress.after")}</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-300">
+            {(["windows", "conflicts"] as const).map(metric => {
+              const delta = comparison.after[metric] - comparison.before[metric];
+              return (
+                <tr key={metric}>
+                  <td className="text-left text-slate-400">{t(metricKeys[metric])}</td>
+                  <td>{comparison.before[metric]}</td>
+                  <td className={delta < 0 ? "text-emerald-300 font-semibold" : delta > 0 ? "text-red-300 font-semibold" : ""}>
+                    {comparison.after[metric]}{delta !== 0 && ` (${delta > 0 ? "+" : ""}${delta})`}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
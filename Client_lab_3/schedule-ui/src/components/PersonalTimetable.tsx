@@ -0,0 +1,166 @@
+import { useMemo, useState } from "react";
+import { AlertCircle, ExternalLink, Link2, User } from "lucide-react";
+import type { Catalog, Schedule } from "../types";
+import WeeklyTimetable from "./WeeklyTimetable";
+import type { ClashKind } from "../utils/slots";
+import { shortTime } from "../utils/time";
+import { statusClasses, statusKeys } from "../utils/scheduleStatus";
+import {
+  gatherPersonalEntries, personalConflicts, personalKindLabels, personalOptions, personalPlaceholders, weeklyHours,
+  type PersonalSelection,
+} from "../utils/personal";
+import { useI18n } from "../hooks/useI18n";
+
+interface PersonalTimetableProps {
+  schedules: Schedule[];
+  catalog: Catalog;
+  selection: PersonalSelection;
+  includeArchived: boolean;
+  /** The selection lives in the URL, so every change goes through the router */
+  onChange: (selection: PersonalSelection, includeArchived: boolean) => void;
+  onOpenSchedule: (id: number) => void;
+}
+
+export default function PersonalTimetable({
+  schedules, catalog, selection, includeArchived, onChange, onOpenSchedule,
+}: PersonalTimetableProps) {
+  const { locale, t, tn, weekdayName } = useI18n();
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">("idle");
+
+  const sources = useMemo(
+    () => (includeArchived ? schedules : schedules.filter(schedule => schedule.status !== 4)),
+    [schedules, includeArchived]
+  );
+  const options = useMemo(() => personalOptions(catalog, schedules, selection.kind), [catalog, schedules, selection.kind]);
+  const items = useMemo(
+    () => (selection.name ? gatherPersonalEntries(sources, selection) : []),
+    [sources, selection]
+  );
+  const conflicts = useMemo(() => personalConflicts(items, locale), [items, locale]);
+  const conflicting = items.filter((_, index) => conflicts[index]).length;
+  const scheduleCount = new Set(items.map(item => item.schedule.id)).size;
+
+  const copyLink = async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopyState("copied");
+    } catch {
+      setCopyState("failed");
+    }
+  };
+
+  const select = (next: PersonalSelection): void => {
+    onChange(next, includeArchived);
+    setCopyState("idle");
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6 mb-6">
+      <div className="flex items-center justify-between mb-4 border-b-2 border-cyan-500/50 pb-2">
+        <h2 className="text-2xl font-bold text-cyan-400 flex items-center gap-2">
+          <User className="w-6 h-6" /> {t("tabs.personal")}{selection.name && `: ${selection.name}`}
+        </h2>
+        <button
+          onClick={copyLink}
+          disabled={!selection.name}
+          className="bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-300 px-3 py-1.5 rounded-lg text-xs font-semibold border border-cyan-500/50 transition-all flex items-center gap-1 disabled:opacity-40"
+        >
+          <Link2 className="w-3 h-3" />
+          {t(copyState === "copied" ? "personal.linkCopied" : copyState === "failed" ? "personal.copyFailed" : "personal.copyLink")}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <select
+          value={selection.kind}
+          onChange={(e) => select({ kind: e.target.value as ClashKind, name: "" })}
+          className="px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
+        >
+          {(Object.keys(personalKindLabels) as ClashKind[]).map(kind => (
+            <option key={kind} value={kind}>{t(personalKindLabels[kind])}</option>
+          ))}
+        </select>
+        <select
+          value={selection.name}
+          onChange={(e) => select({ ...selection, name: e.target.value })}
+          className="flex-1 min-w-[12rem] px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
+        >
+          <option value="">{t(personalPlaceholders[selection.kind])}</option>
+          {/* A shared link may name someone this browser has not loaded (yet) */}
+          {selection.name && !options.includes(selection.name) && <option value={selection.name}>{selection.name}</option>}
+          {options.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-xs text-slate-400">
+          <input type="checkbox" checked={includeArchived} onChange={(e) => onChange(selection, e.target.checked)} />
+          {t("personal.includeArchived")}
+        </label>
+      </div>
+
+      {!selection.name ? (
+        <p className="text-center py-8 text-slate-500">
+          {t("personal.prompt")}
+        </p>
+      ) : items.length === 0 ? (
+        <p className="text-center py-8 text-slate-500">{t("personal.empty", { name: selection.name })}</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-4 mb-4 text-sm text-slate-400">
+            <span>{tn("personal.classes", items.length)}</span>
+            <span>{t("personal.hours", { hours: weeklyHours(items).toFixed(1) })}</span>
+            <span>{tn("personal.schedules", scheduleCount)}</span>
+            {conflicting > 0 && (
+              <span className="text-red-300 flex items-center gap-1">
+                <AlertCircle className="w-4 h-4" /> {tn("personal.overlapping", conflicting)}
+              </span>
+            )}
+          </div>
+
+          <WeeklyTimetable entries={items.map(item => item.entry)} conflicts={conflicts} />
+
+          <div className="mt-6 border-t border-slate-700 pt-4 overflow-x-auto">
+            <h3 className="font-semibold text-slate-300 mb-3">{t("timetable.classes")}</h3>
+            <table className="w-full text-sm">
+              <thead className="text-slate-400 border-b border-slate-700">
+                <tr>
+                  <th className="text-left py-2 pr-3">{t("entries.day")}</th>
+                  <th className="text-left py-2 pr-3">{t("form.time")}</th>
+                  <th className="text-left py-2 pr-3">{t("kind.subject")}</th>
+                  <th className="text-left py-2 pr-3">{t("personal.participants")}</th>
+                  <th className="text-left py-2 pr-3">{t("personal.schedule")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(({ entry, schedule }, index) => (
+                  <tr
+                    key={`${schedule.id}-${index}`}
+                    className={`border-b border-slate-800 ${conflicts[index] ? "text-red-300" : "text-slate-300"}`}
+                    title={conflicts[index]?.join("\n")}
+                  >
+                    <td className="py-2 pr-3">{weekdayName(entry.dayOfWeek)}</td>
+                    <td className="py-2 pr-3 whitespace-nowrap">{shortTime(entry.startTime)}–{shortTime(entry.endTime)}</td>
+                    <td className="py-2 pr-3">
+                      {conflicts[index] && <AlertCircle className="inline w-3 h-3 mr-1 text-red-400" />}
+                      {entry.subject}
+                    </td>
+                    <td className="py-2 pr-3">{entry.teacher} · {entry.group} · {entry.room}</td>
+                    <td className="py-2 pr-3">
+                      <button
+                        onClick={() => onOpenSchedule(schedule.id)}
+                        className="text-cyan-400 hover:text-cyan-300 flex items-center gap-1"
+                      >
+                        <ExternalLink className="w-3 h-3" /> {schedule.name}
+                        <span className={`ml-1 px-1.5 rounded-full border text-[10px] ${statusClasses[schedule.status]}`}>
+                          {t(statusKeys[schedule.status])}
+                        </span>
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { BarChart3 } from "lucide-react";
+import type { Schedule } from "../types";
+import { useScheduleMetrics } from "../hooks/useScheduleMetrics";
+import {
+  gapHeatmap, hoursPerGroupPerDay, hoursPerTeacher, roomUtilization, summarizeSchedule,
+} from "../utils/metrics";
+import { weekDays } from "../utils/timetable";
+import { useI18n } from "../hooks/useI18n";
+
+// Literal class names so Tailwind keeps them; index grows with the window minutes in a cell
+const heatTiers = ["bg-slate-900/50", "bg-amber-500/20", "bg-amber-500/40", "bg-orange-500/50", "bg-red-500/60"];
+
+const heatTier = (minutes: number): string =>
+  heatTiers[minutes === 0 ? 0 : minutes <= 30 ? 1 : minutes <= 90 ? 2 : minutes <= 180 ? 3 : 4];
+
+const formatHours = (hours: number): string => (Number.isInteger(hours) ? String(hours) : hours.toFixed(1));
+
+function Metric({ label, value, tone = "text-cyan-300" }: { label: string; value: string | number; tone?: string }) {
+  return (
+    <div className="bg-slate-900/50 rounded-lg p-3 text-center">
+      <div className={`text-2xl font-bold ${tone}`}>{value}</div>
+      <div className="text-xs text-slate-400">{label}</div>
+    </div>
+  );
+}
+
+function Bars({ rows, max, suffix }: { rows: { name: string; value: number }[]; max: number; suffix: string }) {
+  return (
+    <div className="space-y-2">
+      {rows.map(row => (
+        <div key={row.name} className="text-sm">
+          <div className="flex justify-between text-slate-300">
+            <span className="truncate">{row.name}</span>
+            <span className="text-slate-400">{formatHours(row.value)}{suffix}</span>
+          </div>
+          <div className="h-2 bg-slate-900/50 rounded-full">
+            <div
+              className="h-2 rounded-full bg-gradient-to-r from-cyan-500 to-blue-500"
+              style={{ width: `${max > 0 ? Math.min(100, (row.value / max) * 100) : 0}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ScheduleAnalyticsProps {
+  schedules: Schedule[];
+  /** null shows the first schedule */
+  scheduleId: number | null;
+  onSelect: (id: number) => void;
+}
+
+export default function ScheduleAnalytics({ schedules, scheduleId, onSelect: setScheduleId }: ScheduleAnalyticsProps) {
+  const { t, weekdayName } = useI18n();
+  const schedule = schedules.find(s => s.id === scheduleId) ?? schedules[0] ?? null;
+  const server = useScheduleMetrics(schedule?.id ?? null, schedule?.lastOptimizedAt);
+
+  if (!schedule) {
+    return null;
+  }
+
+  const entries = schedule.entries;
+  const summary = summarizeSchedule(entries);
+  const teachers = hoursPerTeacher(entries);
+  const rooms = roomUtilization(entries);
+  const groupLoad = hoursPerGroupPerDay(entries);
+  const gaps = gapHeatmap(entries);
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4 border-b-2 border-cyan-500/50 pb-2">
+        <h2 className="text-2xl font-bold text-cyan-400 flex items-center gap-2">
+          <BarChart3 className="w-6 h-6" /> {t("analytics.title")}
+        </h2>
+        <select
+          value={schedule.id}
+          onChange={(e) => setScheduleId(parseInt(e.target.value, 10))}
+          className="px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
+        >
+          {schedules.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+      </div>
+
+      <h3 className="font-semibold text-slate-300 mb-2">{t("analytics.reported")}</h3>
+      {server.metrics ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+          <Metric label={t("analytics.windows")} value={server.metrics.totalWindows} />
+          <Metric label={t("analytics.conflicts")} value={server.metrics.totalConflicts} tone="text-red-300" />
+          <Metric label={t("analytics.loadBalance")} value={`${server.metrics.averageLoadBalance.toFixed(1)}%`} tone="text-emerald-300" />
+          <Metric label={t("analytics.optimizations")} value={server.metrics.optimizationCount} tone="text-purple-300" />
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500 mb-6">
+          {server.loading ? t("common.loading") : server.error ?? t("analytics.noMetrics")}
+        </p>
+      )}
+
+      <h3 className="font-semibold text-slate-300 mb-2">{t("analytics.computed")}</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        <Metric label={t("analytics.classes")} value={summary.classes} />
+        <Metric label={t("analytics.hoursPerWeek")} value={formatHours(summary.hours)} />
+        <Metric label={t("analytics.windows")} value={summary.windows} tone="text-amber-300" />
+        <Metric label={t("analytics.conflicts")} value={summary.conflicts} tone="text-red-300" />
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-center text-slate-500 py-4">{t("timetable.empty")}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            <div>
+              <h3 className="font-semibold text-slate-300 mb-2">{t("analytics.hoursPerTeacher")}</h3>
+              <Bars
+                rows={teachers.map(teacher => ({ name: teacher.name, value: teacher.hours }))}
+                max={teachers[0]?.hours ?? 0}
+                suffix={` ${t("analytics.hoursUnit")}`}
+              />
+            </div>
+            <div>
+              <h3 className="font-semibold text-slate-300 mb-2">{t("analytics.roomUtilization", { week: `${weekdayName(1, "short")}–${weekdayName(6, "short")}` })}</h3>
+              <Bars rows={rooms.map(r => ({ name: r.name, value: r.percent }))} max={100} suffix="%" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="overflow-x-auto">
+              <h3 className="font-semibold text-slate-300 mb-2">{t("analytics.groupLoad")}</h3>
+              <table className="w-full text-sm text-center">
+                <thead className="text-slate-400">
+                  <tr>
+                    <th className="text-left font-semibold py-1">{t("kind.group")}</th>
+                    {weekDays.map(day => <th key={day} className="font-semibold py-1">{weekdayName(day, "short")}</th>)}
+                    <th className="font-semibold py-1">{t("analytics.total")}</th>
+                  </tr>
+                </thead>
+                <tbody className="text-slate-300">
+                  {groupLoad.map(row => (
+                    <tr key={row.group} className="border-t border-slate-800">
+                      <td className="text-left py-1">{row.group}</td>
+                      {weekDays.map(day => (
+                        <td key={day} className={row.byDay[day] === 0 ? "text-slate-600" : ""}>
+                          {formatHours(row.byDay[day])}
+                        </td>
+                      ))}
+                      <td className="font-semibold">{formatHours(row.total)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="overflow-x-auto">
+              <h3 className="font-semibold text-slate-300 mb-2">{t("analytics.heatmap")}</h3>
+              <table className="w-full text-sm text-center border-separate border-spacing-1">
+                <thead className="text-slate-400">
+                  <tr>
+                    <th className="text-left font-semibold">{t("kind.group")}</th>
+                    {weekDays.map(day => <th key={day} className="font-semibold">{weekdayName(day, "short")}</th>)}
+                  </tr>
+                </thead>
+                <tbody className="text-slate-200">
+                  {gaps.map(row => (
+                    <tr key={row.group}>
+                      <td className="text-left text-slate-300">{row.group}</td>
+                      {weekDays.map(day => (
+                        <td key={day} className={`rounded ${heatTier(row.byDay[day])} py-1`} title={t("analytics.minutes", { minutes: row.byDay[day] })}>
+                          {row.byDay[day] || ""}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
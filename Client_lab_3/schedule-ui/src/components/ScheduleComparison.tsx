@@ -0,0 +1,115 @@
+import { GitCompare } from "lucide-react";
+import type { Schedule } from "../types";
+import { useScheduleMetrics } from "../hooks/useScheduleMetrics";
+import { summarizeSchedule, type ScheduleSummary } from "../utils/metrics";
+import type { ComparedIds } from "../utils/routes";
+import type { TextKey } from "../utils/i18n";
+import { useI18n } from "../hooks/useI18n";
+
+interface ComparedRow {
+  label: TextKey;
+  a: number | null;
+  b: number | null;
+  /** Whether a smaller value is the better one, for colouring the difference */
+  lowerIsBetter?: boolean;
+  digits?: number;
+}
+
+const format = (value: number | null, digits = 0): string => (value === null ? "—" : value.toFixed(digits));
+
+interface ScheduleComparisonProps {
+  schedules: Schedule[];
+  /** Picked schedules; null falls back to the first ones in the list */
+  ids: ComparedIds;
+  onChange: (ids: ComparedIds) => void;
+}
+
+export default function ScheduleComparison({ schedules, ids, onChange: setIds }: ScheduleComparisonProps) {
+  const { t } = useI18n();
+  const a = schedules.find(s => s.id === ids[0]) ?? schedules[0] ?? null;
+  const b = schedules.find(s => s.id === ids[1]) ?? schedules.find(s => s !== a) ?? null;
+  const serverA = useScheduleMetrics(a?.id ?? null, a?.lastOptimizedAt);
+  const serverB = useScheduleMetrics(b?.id ?? null, b?.lastOptimizedAt);
+
+  if (schedules.length < 2 || !a || !b) {
+    return null;
+  }
+
+  const summaryA = summarizeSchedule(a.entries);
+  const summaryB = summarizeSchedule(b.entries);
+  const fromSummary = (label: TextKey, key: keyof ScheduleSummary, extra: Partial<ComparedRow> = {}): ComparedRow =>
+    ({ label, a: summaryA[key], b: summaryB[key], ...extra });
+
+  const rows: ComparedRow[] = [
+    fromSummary("analytics.classes", "classes"),
+    fromSummary("analytics.hoursPerWeek", "hours", { digits: 1 }),
+    fromSummary("analytics.windows", "windows", { lowerIsBetter: true }),
+    fromSummary("analytics.conflicts", "conflicts", { lowerIsBetter: true }),
+    fromSummary("catalog.teachers", "teachers"),
+    fromSummary("catalog.groups", "groups"),
+    fromSummary("catalog.rooms", "rooms"),
+    fromSummary("comparison.roomUtilization", "roomUtilization", { digits: 1 }),
+    {
+      label: "comparison.loadBalance",
+      a: serverA.metrics?.averageLoadBalance ?? null,
+      b: serverB.metrics?.averageLoadBalance ?? null,
+      digits: 1,
+    },
+    {
+      label: "comparison.optimizations",
+      a: serverA.metrics?.optimizationCount ?? null,
+      b: serverB.metrics?.optimizationCount ?? null,
+    },
+  ];
+
+  const picker = (slot: 0 | 1, value: Schedule) => (
+    <select
+      value={value.id}
+      onChange={(e) => {
+        const next: ComparedIds = [a.id, b.id];
+        next[slot] = parseInt(e.target.value, 10);
+        setIds(next);
+      }}
+      className="w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
+    >
+      {schedules.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-cyan-500/30 rounded-2xl shadow-2xl p-6 mb-6">
+      <h2 className="text-2xl font-bold text-cyan-400 mb-4 flex items-center gap-2 border-b-2 border-cyan-500/50 pb-2">
+        <GitCompare className="w-6 h-6" /> {t("comparison.title")}
+      </h2>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-slate-400">
+            <th className="text-left font-semibold py-2 w-1/3" />
+            <th className="font-semibold py-2 px-2">{picker(0, a)}</th>
+            <th className="font-semibold py-2 px-2">{picker(1, b)}</th>
+            <th className="font-semibold py-2 w-24">{t("comparison.difference")}</th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-300">
+          {rows.map(row => {
+            const delta = row.a !== null && row.b !== null ? row.b - row.a : null;
+            const better = delta !== null && row.lowerIsBetter !== undefined && delta !== 0
+              ? (delta < 0) === row.lowerIsBetter
+              : null;
+            return (
+              <tr key={row.label} className="border-t border-slate-800 text-center">
+                <td className="text-left py-2 text-slate-400">{t(row.label)}</td>
+                <td>{format(row.a, row.digits)}</td>
+                <td>{format(row.b, row.digits)}</td>
+                <td className={better === null ? "text-slate-500" : better ? "text-emerald-300 font-semibold" : "text-red-300 font-semibold"}>
+                  {delta === null ? "—" : `${delta > 0 ? "+" : ""}${delta.toFixed(row.digits ?? 0)}`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
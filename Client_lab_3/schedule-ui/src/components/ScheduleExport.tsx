@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { CalendarDays, Download, FileSpreadsheet, Printer } from "lucide-react";
+import type { Schedule, ScheduleEntry } from "../types";
+import {
+  buildCalendars, calendarsZipFilename, csvFilename, downloadFile, entriesToCsv, exportKindLabels, exportValues, todayIso,
+  type ExportKind,
+} from "../utils/export";
+import { zipFiles } from "../utils/zip";
+import { daysShown } from "../utils/timetable";
+import { shortTime } from "../utils/time";
+import { useI18n } from "../hooks/useI18n";
+
+const DEFAULT_WEEKS = 16;
+const inputClasses = "px-3 py-1.5 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200";
+const buttonClasses = "bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-300 px-3 py-1.5 rounded-lg text-xs font-semibold border border-cyan-500/50 transition-all flex items-center gap-1";
+
+const slotOf = (entry: ScheduleEntry): string => `${shortTime(entry.startTime)}–${shortTime(entry.endTime)}`;
+
+interface PrintViewProps {
+  schedule: Schedule;
+  kind: ExportKind;
+  /** Empty prints the whole schedule */
+  value: string;
+}
+
+// Light, table-based grid that only shows up when printing (or saving as PDF)
+function PrintView({ schedule, kind, value }: PrintViewProps) {
+  const { t, weekdayName } = useI18n();
+  const entries = schedule.entries.filter(entry => !value || entry[kind] === value);
+  const days = daysShown(entries);
+  // "HH:mm" is zero-padded, so text order is time order
+  const slots = [...new Set(entries.map(slotOf))].sort();
+  // The field the view is restricted to would repeat in every cell
+  const details = (entry: ScheduleEntry): string =>
+    (["teacher", "group", "room"] as const)
+      .filter(field => !value || field !== kind)
+      .map(field => entry[field])
+      .join(" · ");
+
+  return (
+    <div className="hidden print:block text-black bg-white text-xs">
+      <h1 className="text-lg font-bold mb-1">{schedule.name}</h1>
+      <p className="mb-3">{value ? `${t(exportKindLabels[kind])}: ${value}` : t("export.allClasses")}</p>
+      {slots.length === 0 ? (
+        <p>{t("export.noClasses")}</p>
+      ) : (
+        <table className="w-full border-collapse">
+          <thead>
+            <tr>
+              <th className="border border-black p-1 w-20">{t("form.time")}</th>
+              {days.map(day => <th key={day} className="border border-black p-1">{weekdayName(day)}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {slots.map(slot => (
+              <tr key={slot} className="break-inside-avoid">
+                <td className="border border-black p-1 align-top font-semibold whitespace-nowrap">{slot}</td>
+                {days.map(day => (
+                  <td key={day} className="border border-black p-1 align-top">
+                    {entries
+                      .filter(entry => entry.dayOfWeek === day && slotOf(entry) === slot)
+                      .map((entry, i) => (
+                        <div key={i} className={i > 0 ? "mt-1 pt-1 border-t border-dashed border-black" : ""}>
+                          <div className="font-semibold">{entry.subject}</div>
+                          <div>{details(entry)}</div>
+                        </div>
+                      ))}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+interface ScheduleExportProps {
+  schedule: Schedule;
+}
+
+export default function ScheduleExport({ schedule }: ScheduleExportProps) {
+  const { t, tn } = useI18n();
+  const [kind, setKind] = useState<ExportKind>("group");
+  const [startDate, setStartDate] = useState<string>(todayIso);
+  const [weeks, setWeeks] = useState<number>(DEFAULT_WEEKS);
+  const [printValue, setPrintValue] = useState<string>("");
+
+  const values = exportValues(schedule, kind);
+  const printed = values.includes(printValue) ? printValue : "";
+  const options = { startDate: startDate || todayIso(), weeks: Math.max(0, weeks) };
+
+  const downloadCalendars = (only?: string): void => {
+    const files = buildCalendars(schedule, kind, options).filter(file => only === undefined || file.value === only);
+    if (files.length === 1) {
+      downloadFile(files[0].filename, files[0].content, "text/calendar;charset=utf-8");
+    } else if (files.length > 1) {
+      downloadFile(calendarsZipFilename(schedule, kind), zipFiles(files), "application/zip");
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-3 mb-3">
+        <label className="text-xs text-slate-400">
+          {t("export.calendarPer")}
+          <select
+            value={kind}
+            onChange={(e) => { setKind(e.target.value as ExportKind); setPrintValue(""); }}
+            className={`${inputClasses} block`}
+          >
+            {(Object.keys(exportKindLabels) as ExportKind[]).map(k => (
+              <option key={k} value={k}>{t(exportKindLabels[k]).toLowerCase()}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-slate-400">
+          {t("export.firstWeek")}
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={`${inputClasses} block`} />
+        </label>
+        <label className="text-xs text-slate-400">
+          {t("export.weeks")}
+          <input
+            type="number"
+            min={0}
+            value={weeks}
+            onChange={(e) => setWeeks(parseInt(e.target.value, 10) || 0)}
+            className={`${inputClasses} block w-28`}
+          />
+        </label>
+        <button onClick={() => downloadCalendars()} disabled={values.length === 0} className={`${buttonClasses} disabled:opacity-40`}>
+          <CalendarDays className="w-3 h-3" /> {tn("export.allCalendars", values.length)}
+        </button>
+        <button
+          onClick={() => downloadFile(csvFilename(schedule), entriesToCsv(schedule.entries), "text/csv;charset=utf-8")}
+          className={buttonClasses}
+        >
+          <FileSpreadsheet className="w-3 h-3" /> CSV
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {values.map(value => (
+          <button
+            key={value}
+            onClick={() => downloadCalendars(value)}
+            className="bg-slate-900/50 hover:bg-slate-700/50 text-slate-300 px-2 py-1 rounded-lg text-xs border border-slate-600 transition-all flex items-center gap-1"
+            title={t("export.downloadOne", { value })}
+          >
+            <Download className="w-3 h-3" /> {value}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={printed} onChange={(e) => setPrintValue(e.target.value)} className={inputClasses}>
+          <option value="">{t("export.wholeSchedule")}</option>
+          {values.map(value => <option key={value} value={value}>{t(exportKindLabels[kind])}: {value}</option>)}
+        </select>
+        <button onClick={() => window.print()} className={buttonClasses}>
+          <Printer className="w-3 h-3" /> {t("export.print")}
+        </button>
+      </div>
+
+      {createPortal(<PrintView schedule={schedule} kind={kind} value={printed} />, document.body)}
+    </div>
+  );
+}
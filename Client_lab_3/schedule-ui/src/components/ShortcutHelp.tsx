@@ -0,0 +1,74 @@
+import { useId } from "react";
+import { Keyboard, X } from "lucide-react";
+import { modifierShortcuts, shortcuts, timetableKeys } from "../utils/shortcuts";
+import { useI18n } from "../hooks/useI18n";
+import { useDialogFocus } from "../hooks/useDialogFocus";
+
+const kbdClasses = "px-2 py-0.5 rounded border border-slate-600 bg-slate-900/50 font-mono text-xs text-slate-200 whitespace-nowrap";
+
+interface ShortcutHelpProps {
+  /** Whether the single-key shortcuts are on */
+  singleKeys: boolean;
+  onSingleKeysChange: (enabled: boolean) => void;
+  onClose: () => void;
+}
+
+export default function ShortcutHelp({ singleKeys, onSingleKeysChange, onClose }: ShortcutHelpProps) {
+  const { t } = useI18n();
+  const ref = useDialogFocus<HTMLDivElement>(onClose);
+  const titleId = useId();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        ref={ref}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="w-full max-w-lg bg-slate-800 border border-cyan-500/40 rounded-2xl shadow-2xl p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 id={titleId} className="text-xl font-bold text-cyan-300 flex items-center gap-2">
+            <Keyboard className="w-5 h-5" aria-hidden="true" /> {t("shortcuts.title")}
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-200" aria-label={t("common.close")} title={t("common.close")}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-300 mb-1">
+          <input type="checkbox" checked={singleKeys} onChange={(e) => onSingleKeysChange(e.target.checked)} />
+          {t("shortcuts.singleKeys")}
+        </label>
+        <p className="text-xs text-slate-500 mb-3">{t("shortcuts.singleKeysHint")}</p>
+
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+          {modifierShortcuts.map(shortcut => (
+            <div key={shortcut.key} className="contents">
+              <dt><kbd className={kbdClasses}>{shortcut.keys}</kbd></dt>
+              <dd className="text-slate-300">{t(shortcut.label)}</dd>
+            </div>
+          ))}
+          {singleKeys && shortcuts.map(shortcut => (
+            <div key={shortcut.key} className="contents">
+              <dt><kbd className={kbdClasses}>{shortcut.key.toUpperCase()}</kbd></dt>
+              <dd className="text-slate-300">{t(shortcut.label)}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <h3 className="font-semibold text-slate-300 mt-5 mb-2">{t("shortcuts.timetable")}</h3>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+          {timetableKeys.map(item => (
+            <div key={item.keys} className="contents">
+              <dt><kbd className={kbdClasses}>{item.keys}</kbd></dt>
+              <dd className="text-slate-300">{t(item.label)}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { History } from "lucide-react";
+import type { AnalyticsEvent, Schedule } from "../types";
+import { statusClasses, statusTimeline } from "../utils/scheduleStatus";
+import { useI18n } from "../hooks/useI18n";
+
+interface StatusTimelineProps {
+  schedule: Schedule;
+  events: AnalyticsEvent[];
+}
+
+export default function StatusTimeline({ schedule, events }: StatusTimelineProps) {
+  const { t, formatDateTime, formatTime } = useI18n();
+  const changes = statusTimeline(schedule.id, events);
+
+  return (
+    <div className="mb-4">
+      <h3 className="font-semibold text-slate-300 mb-2 flex items-center gap-2 text-sm">
+        <History className="w-4 h-4" /> {t("statusTimeline.title")}
+      </h3>
+      {changes.length === 0 ? (
+        <p className="text-xs text-slate-500">{t("statusTimeline.empty")}</p>
+      ) : (
+        <ol className="flex flex-wrap items-center gap-y-2 text-xs">
+          {changes.map((change, index) => (
+            <li key={`${change.timestamp}-${index}`} className="flex items-center">
+              {index > 0 && <span className="w-6 h-px bg-slate-600 mx-1" />}
+              <span
+                className={`px-2 py-1 rounded-full border font-semibold ${
+                  change.status === null ? "bg-red-500/20 text-red-300 border-red-500/50" : statusClasses[change.status]
+                }`}
+                title={formatDateTime(change.timestamp)}
+              >
+                {t(change.label)}
+                <span className="font-normal text-slate-400 ml-1">{formatTime(change.timestamp)}</span>
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { GitMerge } from "lucide-react";
+import type { ScheduleEntry } from "../types";
+import { shortTime } from "../utils/time";
+import { statusKeys } from "../utils/scheduleStatus";
+import { weekdayName } from "../utils/i18n";
+import { diffEntries, type EntryDiff, type SyncChoice, type SyncConflict } from "../utils/offline";
+import { useI18n } from "../hooks/useI18n";
+import { useDialogFocus } from "../hooks/useDialogFocus";
+
+const describeEntry = (entry: ScheduleEntry): string =>
+  `${entry.subject} · ${entry.group} · ${weekdayName(entry.dayOfWeek)} ${shortTime(entry.startTime)}–${shortTime(entry.endTime)}`;
+
+function DiffList({ title, diff }: { title: string; diff: EntryDiff }) {
+  const { t } = useI18n();
+  return (
+    <div className="flex-1 min-w-0 bg-slate-900/50 border border-slate-700 rounded-lg p-3">
+      <h3 className="font-semibold text-slate-300 text-sm mb-2">{title}</h3>
+      {diff.added.length === 0 && diff.removed.length === 0 ? (
+        <p className="text-xs text-slate-500">{t("syncConflict.noChanges")}</p>
+      ) : (
+        <ul className="space-y-1 text-xs max-h-48 overflow-y-auto">
+          {diff.added.map((entry, i) => <li key={`a${i}`} className="text-emerald-300">+ {describeEntry(entry)}</li>)}
+          {diff.removed.map((entry, i) => <li key={`r${i}`} className="text-red-300">− {describeEntry(entry)}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface SyncConflictDialogProps {
+  conflict: SyncConflict;
+  onResolve: (choice: SyncChoice) => void;
+}
+
+export default function SyncConflictDialog({ conflict, onResolve }: SyncConflictDialogProps) {
+  const { t } = useI18n();
+  // No Escape: the queued change stays blocked until one of the choices is made
+  const ref = useDialogFocus<HTMLDivElement>();
+  const { operation, server } = conflict;
+  // Creates never conflict; the dialog is only opened for updates and deletes
+  if (operation.kind === "create") return null;
+
+  const base = operation.base;
+  const mine = operation.kind === "update"
+    ? diffEntries(base.entries, operation.entries)
+    : { added: [], removed: base.entries };
+  const buttonClasses = "flex-1 font-semibold py-2 rounded-lg border transition-all";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4">
+      <div
+        ref={ref}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="sync-conflict-title"
+        aria-describedby="sync-conflict-summary"
+        tabIndex={-1}
+        className="w-full max-w-2xl bg-slate-800 border border-amber-500/40 rounded-2xl shadow-2xl p-6"
+      >
+        <h2 id="sync-conflict-title" className="text-xl font-bold text-amber-300 mb-1 flex items-center gap-2">
+          <GitMerge className="w-5 h-5" aria-hidden="true" /> {t("syncConflict.title")}
+        </h2>
+        <p id="sync-conflict-summary" className="text-sm text-slate-400 mb-4">
+          {t(server ? "syncConflict.changed" : "syncConflict.deleted", { name: base.name })}
+        </p>
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <DiffList title={t(operation.kind === "delete" ? "syncConflict.mineDelete" : "syncConflict.mine")} diff={mine} />
+          {server && <DiffList title={t("syncConflict.server")} diff={diffEntries(base.entries, server.entries)} />}
+        </div>
+        {server && base.name !== server.name && (
+          <p className="text-xs text-slate-400 mt-2">{t("syncConflict.renamed", { name: server.name })}</p>
+        )}
+        {server && base.status !== server.status && (
+          <p className="text-xs text-slate-400 mt-2">
+            {t("syncConflict.statusChanged", { from: t(statusKeys[base.status]), to: t(statusKeys[server.status]) })}
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2 mt-6">
+          <button
+            onClick={() => onResolve("server")}
+            className={`${buttonClasses} bg-slate-900/50 border-slate-700 text-slate-300 hover:border-slate-600`}
+          >
+            {t(server ? "syncConflict.keepServer" : "syncConflict.discardMine")}
+          </button>
+          {server && operation.kind === "update" && (
+            <button
+              onClick={() => onResolve("merge")}
+              className={`${buttonClasses} bg-cyan-500/20 border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/30`}
+            >
+              {t("syncConflict.merge")}
+            </button>
+          )}
+          <button
+            onClick={() => onResolve("mine")}
+            className={`${buttonClasses} bg-amber-500/20 border-amber-500/50 text-amber-300 hover:bg-amber-500/30`}
+          >
+            {t(operation.kind === "delete" ? "syncConflict.deleteAnyway" : server ? "syncConflict.keepMine" : "syncConflict.recreate")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { CloudOff, RefreshCw, Trash2, Wifi } from "lucide-react";
+import type { PendingOperation } from "../utils/offline";
+import type { TextKey } from "../utils/i18n";
+import { useI18n } from "../hooks/useI18n";
+
+const kindLabels: Record<PendingOperation["kind"], TextKey> = {
+  create: "sync.kindCreate", update: "sync.kindUpdate", delete: "sync.kindDelete",
+};
+
+interface SyncStatusProps {
+  offline: boolean;
+  syncing: boolean;
+  queue: PendingOperation[];
+  onRetry: () => void;
+  onDiscard: (id: string) => void;
+}
+
+export default function SyncStatus({ offline, syncing, queue, onRetry, onDiscard }: SyncStatusProps) {
+  const { t, tn, formatDateTime } = useI18n();
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const failed = queue.filter(op => op.error).length;
+
+  return (
+    <div className="inline-flex flex-col items-center">
+      <div className="flex flex-wrap justify-center gap-2">
+        <span
+          className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold border ${
+            offline
+              ? "bg-red-500/20 text-red-300 border-red-500/50"
+              : "bg-emerald-500/20 text-emerald-300 border-emerald-500/50"
+          }`}
+          title={t(offline ? "sync.offlineTitle" : "sync.onlineTitle")}
+        >
+          {offline ? <CloudOff className="w-3 h-3" /> : <Wifi className="w-3 h-3" />}
+          {t(offline ? "sync.offline" : "sync.online")}
+        </span>
+        {queue.length > 0 && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            aria-expanded={expanded}
+            aria-controls="sync-queue"
+            className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold border ${
+              failed > 0 ? "bg-red-500/20 text-red-300 border-red-500/50" : "bg-amber-500/20 text-amber-300 border-amber-500/50"
+            }`}
+          >
+            {syncing && <RefreshCw className="w-3 h-3 animate-spin" />}
+            {tn("sync.pending", queue.length)}
+            {failed > 0 && ` ${t("sync.failed", { count: failed })}`}
+          </button>
+        )}
+      </div>
+
+      {expanded && queue.length > 0 && (
+        <div id="sync-queue" className="mt-3 w-full max-w-xl text-left bg-slate-900/70 border border-slate-700 rounded-xl p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-semibold text-slate-300">{t("sync.waiting")}</span>
+            <button
+              onClick={onRetry}
+              disabled={syncing}
+              className="text-xs text-cyan-400 hover:text-cyan-300 flex items-center gap-1 disabled:opacity-40"
+            >
+              <RefreshCw className="w-3 h-3" /> {t("sync.syncNow")}
+            </button>
+          </div>
+          <ul className="space-y-2 max-h-60 overflow-y-auto">
+            {queue.map(op => (
+              <li key={op.id} className="flex items-start gap-2 text-xs">
+                <span className="text-slate-500 whitespace-nowrap">{formatDateTime(op.queuedAt)}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-slate-300 break-words">
+                    <span className="font-semibold">{t(kindLabels[op.kind])}:</span> {op.label}
+                  </p>
+                  {op.error && <p className="text-red-300 break-words">{op.error}</p>}
+                </div>
+                <button
+                  onClick={() => onDiscard(op.id)}
+                  className="text-slate-500 hover:text-red-300"
+                  aria-label={`${t("sync.discard")}: ${op.label}`}
+                  title={t("sync.discard")}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { GitCompare, History, RotateCcw } from "lucide-react";
+import type { Schedule, ScheduleEntry } from "../types";
+import { compareVersions, versionReasonKeys, type ScheduleVersion } from "../utils/versions";
+import { shortTime } from "../utils/time";
+import { useI18n } from "../hooks/useI18n";
+import WeeklyTimetable, { type EntryHighlight } from "./WeeklyTimetable";
+
+const CURRENT = "current";
+
+interface VersionHistoryProps {
+  schedule: Schedule;
+  /** Snapshots of this schedule, newest first */
+  versions: ScheduleVersion[];
+  /** Left out for schedules that cannot be edited */
+  onRestore?: (version: ScheduleVersion) => Promise<void>;
+}
+
+export default function VersionHistory({ schedule, versions, onRestore }: VersionHistoryProps) {
+  const { t, tn, formatDateTime, weekdayName } = useI18n();
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string>(CURRENT);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  // A picked version may have been dropped from the capped history meanwhile
+  const from = versions.find(v => v.id === fromId) ?? versions[0] ?? null;
+  const to = versions.find(v => v.id === toId) ?? null;
+  const fromEntries = from?.entries ?? [];
+  const toEntries = to?.entries ?? schedule.entries;
+
+  const diff = compareVersions(fromEntries, toEntries);
+
+  // The newer side is drawn in full, with the removed classes laid over it
+  const shownEntries = [...toEntries, ...diff.removed.map(i => fromEntries[i])];
+  const highlights: Record<number, EntryHighlight> = {};
+  diff.added.forEach(i => (highlights[i] = "added"));
+  diff.moved.forEach(move => (highlights[move.to] = "moved"));
+  diff.removed.forEach((_, k) => (highlights[toEntries.length + k] = "removed"));
+
+  if (versions.length === 0) {
+    return <p className="text-sm text-slate-500">{t("versions.empty")}</p>;
+  }
+
+  const slot = (entry: ScheduleEntry): string =>
+    `${weekdayName(entry.dayOfWeek)} ${shortTime(entry.startTime)}–${shortTime(entry.endTime)}`;
+
+  const restore = async (version: ScheduleVersion) => {
+    if (!onRestore) return;
+    setRestoring(version.id);
+    try {
+      await onRestore(version);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const versionLabel = (version: ScheduleVersion): string =>
+    `${formatDateTime(version.takenAt)} · ${t(versionReasonKeys[version.reason])}`;
+
+  const changes = diff.added.length + diff.removed.length + diff.moved.length;
+  const selectClasses = "w-full px-3 py-2 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200";
+
+  return (
+    <div>
+      <ol className="space-y-2 max-h-72 overflow-y-auto mb-4" aria-label={t("versions.timeline")}>
+        {versions.map(version => (
+          <li
+            key={version.id}
+            className={`flex flex-wrap items-center gap-2 text-xs bg-slate-900/40 border rounded-lg px-3 py-2 ${
+              version.id === from?.id || version.id === to?.id ? "border-cyan-500/50" : "border-slate-700"
+            }`}
+          >
+            <History className="w-3 h-3 text-slate-500" aria-hidden="true" />
+            <span className="text-slate-500 whitespace-nowrap">{formatDateTime(version.takenAt)}</span>
+            <span className="px-2 py-0.5 rounded-full border border-slate-600 text-slate-300 whitespace-nowrap">
+              {t(versionReasonKeys[version.reason])}
+            </span>
+            <span className="text-slate-300 flex-1 min-w-0 break-words">{version.label}</span>
+            <span className="text-slate-500 whitespace-nowrap">{tn("versions.classes", version.entries.length)}</span>
+            <button
+              onClick={() => {
+                setFromId(version.id);
+                setToId(CURRENT);
+              }}
+              className="text-cyan-400 hover:text-cyan-300 flex items-center gap-1"
+              aria-label={`${t("versions.compareWithCurrent")}: ${versionLabel(version)}`}
+            >
+              <GitCompare className="w-3 h-3" /> {t("versions.compare")}
+            </button>
+            {onRestore && (
+              <button
+                onClick={() => restore(version)}
+                disabled={restoring !== null}
+                className="text-amber-300 hover:text-amber-200 flex items-center gap-1 disabled:opacity-40"
+                aria-label={`${t("versions.restore")}: ${versionLabel(version)}`}
+              >
+                <RotateCcw className={`w-3 h-3 ${restoring === version.id ? "animate-spin" : ""}`} /> {t("versions.restore")}
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+        <label className="text-xs text-slate-400">
+          {t("versions.from")}
+          <select value={from?.id ?? ""} onChange={(e) => setFromId(e.target.value)} className={`${selectClasses} mt-1`}>
+            {versions.map(version => <option key={version.id} value={version.id}>{versionLabel(version)}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-slate-400">
+          {t("versions.to")}
+          <select value={to?.id ?? CURRENT} onChange={(e) => setToId(e.target.value)} className={`${selectClasses} mt-1`}>
+            <option value={CURRENT}>{t("versions.current")}</option>
+            {versions.map(version => <option key={version.id} value={version.id}>{versionLabel(version)}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {changes === 0 ? (
+        <p className="text-sm text-slate-500 mb-3">{t("versions.noChanges")}</p>
+      ) : (
+        <ul className="text-xs space-y-1 mb-4" aria-label={t("versions.changes")}>
+          {diff.added.map(i => (
+            <li key={`added-${i}`} className="text-emerald-300">
+              <span aria-hidden="true">+ </span>
+              <span className="sr-only">{t("versions.added")}: </span>
+              {toEntries[i].subject} · {toEntries[i].group} · {slot(toEntries[i])}
+            </li>
+          ))}
+          {diff.removed.map(i => (
+            <li key={`removed-${i}`} className="text-red-300">
+              <span aria-hidden="true">− </span>
+              <span className="sr-only">{t("versions.removed")}: </span>
+              {fromEntries[i].subject} · {fromEntries[i].group} · {slot(fromEntries[i])}
+            </li>
+          ))}
+          {diff.moved.map(move => (
+            <li key={`moved-${move.to}`} className="text-amber-300">
+              <span aria-hidden="true">↷ </span>
+              <span className="sr-only">{t("versions.moved")}: </span>
+              {toEntries[move.to].subject} · {toEntries[move.to].group} · {slot(fromEntries[move.from])} → {slot(toEntries[move.to])}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {shownEntries.length > 0 && <WeeklyTimetable entries={shownEntries} highlights={highlights} />}
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+import { useCallback, useEffect, useId, useMemo, useRef, useState } from "react";
+import { AlertCircle, Filter } from "lucide-react";
+import type { DayOfWeek, ScheduleEntry } from "../types";
+import { shortTime, toMinutes, toTimeSpan } from "../utils/time";
+import {
+  daysShown, getHourRange, layoutDay, matchesFilter,
+  type TimetableFilterKind,
+} from "../utils/timetable";
+import type { TextKey } from "../utils/i18n";
+import { useI18n } from "../hooks/useI18n";
+
+const HOUR_HEIGHT = 56;
+const PX_PER_MINUTE = HOUR_HEIGHT / 60;
+const SNAP_MINUTES = 15;
+
+interface DragState {
+  index: number;
+  mode: "move" | "resize";
+  originY: number;
+  entry: ScheduleEntry;
+  preview: ScheduleEntry;
+}
+
+interface WeeklyTimetableProps {
+  entries: ScheduleEntry[];
+  /** Conflict messages keyed by entry index, shown on the cells involved */
+  conflicts?: Record<number, string[]>;
+  /** Entries to draw attention to, e.g. the ones picked in the conflict inspector */
+  focused?: number[];
+  /** Enables drag-to-move and resize; the promise settles once the server has answered */
+  onEntryChange?: (index: number, updated: ScheduleEntry) => Promise<void>;
+  /** Called for a press that did not move the class */
+  onEntryClick?: (index: number) => void;
+  /** Marks entries as added, removed or moved, e.g. when comparing two versions */
+  highlights?: Record<number, EntryHighlight>;
+}
+
+export type EntryHighlight = "added" | "removed" | "moved";
+
+const highlightKeys: Record<EntryHighlight, TextKey> = {
+  added: "versions.added", removed: "versions.removed", moved: "versions.moved",
+};
+
+const highlightClasses: Record<EntryHighlight, string> = {
+  added: "bg-emerald-500/20 border-emerald-500/70",
+  removed: "bg-red-500/10 border-red-500/70 border-dashed opacity-70",
+  moved: "bg-amber-500/20 border-amber-500/70",
+};
+
+const anyOptionKeys: Record<Exclude<TimetableFilterKind, "all">, TextKey> = {
+  group: "weekly.anyGroup", teacher: "weekly.anyTeacher", room: "weekly.anyRoom",
+};
+
+const snap = (minutes: number): number => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+
+export default function WeeklyTimetable({
+  entries, conflicts = {}, focused = [], onEntryChange, onEntryClick, highlights = {},
+}: WeeklyTimetableProps) {
+  const { t, weekdayName } = useI18n();
+  const hintId = useId();
+  const keysHintId = useId();
+  const [filterKind, setFilterKind] = useState<TimetableFilterKind>("all");
+  const [filterValue, setFilterValue] = useState<string>("");
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [pending, setPending] = useState<{ index: number; entry: ScheduleEntry } | null>(null);
+  const columnRefs = useRef(new Map<DayOfWeek, HTMLDivElement>());
+  const blockRefs = useRef(new Map<number, HTMLDivElement>());
+  // A class moved with the keyboard is re-mounted in its new column; focus follows it there
+  const keyboardIndexRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const index = keyboardIndexRef.current;
+    const block = index === null ? undefined : blockRefs.current.get(index);
+    if (block && document.activeElement !== block) block.focus();
+  });
+
+  // While dragging or waiting for the server, the entry is drawn at its proposed position
+  const displayed = useMemo(() => entries.map((entry, index) => {
+    if (drag?.index === index) return drag.preview;
+    if (pending?.index === index) return pending.entry;
+    return entry;
+  }), [entries, drag, pending]);
+
+  const filterOptions = useMemo(() => {
+    if (filterKind === "all") return [];
+    return [...new Set(entries.map(e => e[filterKind]))].sort();
+  }, [entries, filterKind]);
+
+  const visible = useMemo(
+    () => displayed
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => matchesFilter(entry, filterKind, filterValue)),
+    [displayed, filterKind, filterValue]
+  );
+
+  const days = daysShown(entries);
+  const { from, to } = getHourRange(entries);
+  const hours = Array.from({ length: to - from }, (_, i) => from + i);
+  const gridHeight = (to - from) * HOUR_HEIGHT;
+
+  const dayAt = useCallback((clientX: number, fallback: DayOfWeek): DayOfWeek => {
+    for (const [day, element] of columnRefs.current) {
+      const rect = element.getBoundingClientRect();
+      if (clientX >= rect.left && clientX < rect.right) return day;
+    }
+    return fallback;
+  }, []);
+
+  const commitChange = useCallback(async (index: number, updated: ScheduleEntry) => {
+    if (!onEntryChange) return;
+    setPending({ index, entry: updated });
+    try {
+      await onEntryChange(index, updated);
+    } finally {
+      // On rejection the parent keeps the old entries, so the block snaps back
+      setPending(null);
+    }
+  }, [onEntryChange]);
+
+  // Alt+arrows move a class by one snap step or one day, Alt+Shift+Up/Down changes its length
+  const handleBlockKey = (e: React.KeyboardEvent<HTMLDivElement>, index: number) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      onEntryClick?.(index);
+      return;
+    }
+    if (!onEntryChange || pending || !e.altKey) return;
+    const entry = entries[index];
+    const start = toMinutes(entry.startTime);
+    const end = toMinutes(entry.endTime);
+    const step = e.key === "ArrowUp" ? -SNAP_MINUTES : e.key === "ArrowDown" ? SNAP_MINUTES : 0;
+    let updated: ScheduleEntry | null = null;
+
+    if (step !== 0 && e.shiftKey) {
+      const newEnd = end + step;
+      if (newEnd > start && newEnd <= to * 60) updated = { ...entry, endTime: toTimeSpan(newEnd) };
+    } else if (step !== 0) {
+      if (start + step >= from * 60 && end + step <= to * 60) {
+        updated = { ...entry, startTime: toTimeSpan(start + step), endTime: toTimeSpan(end + step) };
+      }
+    } else if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      const position = days.indexOf(entry.dayOfWeek) + (e.key === "ArrowLeft" ? -1 : 1);
+      if (position >= 0 && position < days.length) updated = { ...entry, dayOfWeek: days[position] };
+    } else {
+      return;
+    }
+
+    e.preventDefault();
+    if (!updated) return;
+    keyboardIndexRef.current = index;
+    commitChange(index, updated);
+  };
+
+  const startDrag = (e: React.PointerEvent<HTMLDivElement>, index: number, mode: DragState["mode"]) => {
+    if (!onEntryChange || pending || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ index, mode, originY: e.clientY, entry: entries[index], preview: entries[index] });
+  };
+
+  // Listen on window: the block is re-mounted in another column when it crosses days
+  useEffect(() => {
+    if (!drag || !onEntryChange) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const delta = snap((e.clientY - drag.originY) / PX_PER_MINUTE);
+      const start = toMinutes(drag.entry.startTime);
+      const end = toMinutes(drag.entry.endTime);
+
+      if (drag.mode === "resize") {
+        const newEnd = Math.min(Math.max(end + delta, start + SNAP_MINUTES), to * 60);
+        setDrag({ ...drag, preview: { ...drag.entry, endTime: toTimeSpan(newEnd) } });
+        return;
+      }
+
+      const duration = end - start;
+      const newStart = Math.min(Math.max(start + delta, from * 60), to * 60 - duration);
+      setDrag({
+        ...drag,
+        preview: {
+          ...drag.entry,
+          dayOfWeek: dayAt(e.clientX, drag.entry.dayOfWeek),
+          startTime: toTimeSpan(newStart),
+          endTime: toTimeSpan(newStart + duration),
+        },
+      });
+    };
+
+    const handleUp = async () => {
+      const { index, entry, preview } = drag;
+      setDrag(null);
+
+      const unchanged = entry.dayOfWeek === preview.dayOfWeek &&
+        entry.startTime === preview.startTime &&
+        entry.endTime === preview.endTime;
+      if (unchanged) {
+        onEntryClick?.(index);
+        return;
+      }
+      await commitChange(index, preview);
+    };
+
+    const handleCancel = () => setDrag(null);
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    window.addEventListener("pointercancel", handleCancel);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      window.removeEventListener("pointercancel", handleCancel);
+    };
+  }, [drag, onEntryChange, onEntryClick, from, to, dayAt, commitChange]);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Filter className="w-4 h-4 text-slate-400" aria-hidden="true" />
+        <select
+          aria-label={t("weekly.filter")}
+          value={filterKind}
+          onChange={(e) => {
+            setFilterKind(e.target.value as TimetableFilterKind);
+            setFilterValue("");
+          }}
+          className="px-3 py-1.5 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
+        >
+          <option value="all">{t("weekly.wholeSchedule")}</option>
+          <option value="group">{t("weekly.byGroup")}</option>
+          <option value="teacher">{t("weekly.byTeacher")}</option>
+          <option value="room">{t("weekly.byRoom")}</option>
+        </select>
+        {filterKind !== "all" && (
+          <select
+            aria-label={t(anyOptionKeys[filterKind])}
+            value={filterValue}
+            onChange={(e) => setFilterValue(e.target.value)}
+            className="px-3 py-1.5 bg-slate-900/50 border-2 border-slate-700 rounded-lg focus:border-cyan-500 focus:outline-none text-sm text-slate-200"
+          >
+            <option value="">{t(anyOptionKeys[filterKind])}</option>
+            {filterOptions.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        )}
+        <span id={hintId} className="text-xs text-slate-500 ml-auto">
+          {onEntryChange && `${t("weekly.dragHint")} · `}
+          {t("weekly.showing", { visible: visible.length, total: entries.length })}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto" role="region" aria-label={t("weekly.label")} aria-describedby={hintId}>
+        <div className="grid min-w-[760px]" style={{ gridTemplateColumns: `3.5rem repeat(${days.length}, minmax(0, 1fr))` }}>
+          <div />
+          {/* Each day column below is a labelled list, so the visual headers are not read twice */}
+          {days.map(day => (
+            <div key={day} aria-hidden="true" className="text-center text-sm font-semibold text-slate-300 pb-2 border-b border-slate-700">
+              {weekdayName(day)}
+            </div>
+          ))}
+
+          <div className="relative" style={{ height: gridHeight }} aria-hidden="true">
+            {hours.map(hour => (
+              <div
+                key={hour}
+                className="absolute right-2 text-xs text-slate-500 -translate-y-1/2"
+                style={{ top: (hour - from) * HOUR_HEIGHT }}
+              >
+                {String(hour).padStart(2, "0")}:00
+              </div>
+            ))}
+          </div>
+
+          {days.map(day => (
+            <div
+              key={day}
+              ref={(element) => {
+                if (element) columnRefs.current.set(day, element);
+                else columnRefs.current.delete(day);
+              }}
+              role="list"
+              aria-label={weekdayName(day)}
+              className="relative border-l border-slate-700/70"
+              style={{ height: gridHeight }}
+            >
+              {hours.map(hour => (
+                <div
+                  key={hour}
+                  aria-hidden="true"
+                  className="absolute inset-x-0 border-t border-slate-700/50"
+                  style={{ top: (hour - from) * HOUR_HEIGHT }}
+                />
+              ))}
+
+              {layoutDay(visible.filter(({ entry }) => entry.dayOfWeek === day)).map(placed => {
+                const messages = conflicts[placed.index] ?? [];
+                const highlight = highlights[placed.index];
+                const isActive = drag?.index === placed.index || pending?.index === placed.index;
+                return (
+                  <div
+                    key={placed.index}
+                    role="listitem"
+                    className={`absolute p-0.5 ${isActive ? "z-10" : ""}`}
+                    style={{
+                      top: (placed.start - from * 60) * PX_PER_MINUTE,
+                      height: (placed.end - placed.start) * PX_PER_MINUTE,
+                      left: `${(placed.lane / placed.lanes) * 100}%`,
+                      width: `${100 / placed.lanes}%`,
+                    }}
+                  >
+                    <div
+                      ref={(element) => {
+                        if (element) blockRefs.current.set(placed.index, element);
+                        else blockRefs.current.delete(placed.index);
+                      }}
+                      tabIndex={0}
+                      role={onEntryClick ? "button" : undefined}
+                      aria-label={[
+                        `${placed.entry.subject}, ${shortTime(placed.entry.startTime)}–${shortTime(placed.entry.endTime)}`,
+                        `${placed.entry.teacher}, ${placed.entry.group}, ${placed.entry.room}`,
+                        ...(highlight ? [t(highlightKeys[highlight])] : []),
+                        ...messages,
+                      ].join(". ")}
+                      aria-describedby={onEntryChange ? keysHintId : undefined}
+                      aria-busy={pending?.index === placed.index}
+                      onKeyDown={(e) => handleBlockKey(e, placed.index)}
+                      onBlur={(e) => {
+                        // A null target means the block was re-mounted, not that focus moved on
+                        if (e.relatedTarget) keyboardIndexRef.current = null;
+                      }}
+                      onPointerDown={(e) => startDrag(e, placed.index, "move")}
+                      className={`relative h-full overflow-hidden rounded-md px-1.5 py-1 text-xs border select-none ${
+                        messages.length > 0
+                          ? "bg-red-500/20 border-red-500/70"
+                          : highlight ? highlightClasses[highlight] : "bg-cyan-500/15 border-cyan-500/40"
+                      } ${onEntryChange ? "cursor-grab active:cursor-grabbing touch-none" : ""} ${
+                        isActive ? "ring-2 ring-cyan-300 shadow-lg shadow-cyan-500/30" : ""
+                      } ${focused.includes(placed.index) ? "ring-2 ring-amber-300 shadow-lg shadow-amber-500/40" : ""} ${pending?.index === placed.index ? "animate-pulse" : ""}`}
+                      title={[
+                        placed.entry.subject,
+                        `${placed.entry.teacher} · ${placed.entry.group} · ${placed.entry.room}`,
+                        `${weekdayName(placed.entry.dayOfWeek)} ${shortTime(placed.entry.startTime)} - ${shortTime(placed.entry.endTime)}`,
+                        ...(highlight ? [t(highlightKeys[highlight])] : []),
+                        ...messages,
+                      ].join("\n")}
+                    >
+                      <div className="flex items-center gap-1 font-semibold text-cyan-300">
+                        {messages.length > 0 && <AlertCircle className="w-3 h-3 text-red-400 shrink-0" aria-hidden="true" />}
+                        <span className={`truncate ${highlight === "removed" ? "line-through" : ""}`}>{placed.entry.subject}</span>
+                      </div>
+                      <div className="text-slate-400 truncate">{shortTime(placed.entry.startTime)}–{shortTime(placed.entry.endTime)}</div>
+                      <div className="text-slate-400 truncate">{placed.entry.group} · {placed.entry.room}</div>
+                      <div className="text-slate-500 truncate">{placed.entry.teacher}</div>
+                      {messages.length > 0 && (
+                        <div className="text-red-300 truncate">{messages[0]}</div>
+                      )}
+                      {onEntryChange && (
+                        <div
+                          aria-hidden="true"
+                          onPointerDown={(e) => startDrag(e, placed.index, "resize")}
+                          className="absolute inset-x-0 bottom-0 h-2 cursor-ns-resize hover:bg-cyan-400/30"
+                        />
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+      {onEntryChange && <p id={keysHintId} className="sr-only">{t("weekly.keysHint")}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from "react";
+import type { AnalyticsEvent, SystemStatistics } from "../types";
+import { appendSample, loadHistory, mergeEvents, saveHistory, type ActivityHistory } from "../utils/activity";
+
+/**
+ * Keeps every polled SystemStatistics snapshot and analytics event as a time series,
+ * persisted to localStorage so trends survive a reload.
+ */
+export function useActivityHistory() {
+  const [history, setHistory] = useState<ActivityHistory>(loadHistory);
+
+  useEffect(() => {
+    saveHistory(history);
+  }, [history]);
+
+  const recordStats = useCallback((stats: SystemStatistics) => {
+    setHistory(prev => appendSample(prev, stats, Date.now()));
+  }, []);
+
+  const recordEvents = useCallback((events: AnalyticsEvent[]) => {
+    setHistory(prev => mergeEvents(prev, events, Date.now()));
+  }, []);
+
+  const clear = useCallback(() => setHistory({ samples: [], events: [] }), []);
+
+  return { history, recordStats, recordEvents, clear };
+}
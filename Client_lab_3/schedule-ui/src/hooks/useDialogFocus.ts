@@ -0,0 +1,57 @@
+import { useEffect, useRef } from "react";
+
+const FOCUSABLE = "button:not([disabled]), [href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex=\"-1\"])";
+
+/**
+ * Modal dialog focus handling: moves focus into the dialog (to the element marked
+ * `data-autofocus`, else the first control), keeps Tab inside it, calls `onEscape`
+ * on Escape and gives focus back to whatever had it once the dialog closes.
+ */
+export function useDialogFocus<T extends HTMLElement>(onEscape?: () => void) {
+  const ref = useRef<T | null>(null);
+  const onEscapeRef = useRef(onEscape);
+
+  useEffect(() => {
+    onEscapeRef.current = onEscape;
+  }, [onEscape]);
+
+  useEffect(() => {
+    const dialog = ref.current;
+    if (!dialog) return;
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const focusable = (): HTMLElement[] => [...dialog.querySelectorAll<HTMLElement>(FOCUSABLE)];
+    (dialog.querySelector<HTMLElement>("[data-autofocus]") ?? focusable()[0] ?? dialog).focus();
+
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && onEscapeRef.current) {
+        e.preventDefault();
+        onEscapeRef.current();
+        return;
+      }
+      if (e.key !== "Tab") return;
+      const items = focusable();
+      if (items.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = items[0];
+      const last = items[items.length - 1];
+      if (e.shiftKey && (document.activeElement === first || !dialog.contains(document.activeElement))) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener("keydown", handleKey);
+    return () => {
+      document.removeEventListener("keydown", handleKey);
+      // The opener may be gone, e.g. the card of a schedule that was just deleted
+      if (previous?.isConnected) previous.focus();
+    };
+  }, []);
+
+  return ref;
+}
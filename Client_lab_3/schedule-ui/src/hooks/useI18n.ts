@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from "react";
+import {
+  formatDate, formatDateTime, formatTime, getLocale, setLocale, subscribeLocale, t, tn, weekdayName,
+} from "../utils/i18n";
+
+/**
+ * The current UI language plus the translate and format helpers. Components that show
+ * text call this so they re-render when the language is switched.
+ */
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return { locale, setLocale, t, tn, formatDate, formatDateTime, formatTime, weekdayName };
+}
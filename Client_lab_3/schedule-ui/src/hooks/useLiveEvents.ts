@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from "react";
+import type { AnalyticsEvent } from "../types";
+import { defaultConnector, STREAM_URL, type StreamConnector } from "../api/stream";
+import {
+  connectionFailed, connectionOpened, initialConnection, type LiveConnection, type LiveState,
+} from "../utils/liveConnection";
+
+/**
+ * Keeps a push connection to the schedule_exchange event stream open, reconnecting
+ * with exponential backoff (see reconnectDelay). Callers should poll whenever the
+ * state is not "live".
+ */
+export function useLiveEvents(
+  onEvent: (event: AnalyticsEvent) => void,
+  connector: StreamConnector = defaultConnector,
+  url: string = STREAM_URL
+): LiveState {
+  const [state, setState] = useState<LiveState>(initialConnection.state);
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    let close: (() => void) | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let connection: LiveConnection = initialConnection;
+
+    const open = (): void => {
+      retryTimer = null;
+      close = connector(url, {
+        onOpen: () => {
+          connection = connectionOpened();
+          setState(connection.state);
+        },
+        onEvent: (event) => onEventRef.current(event),
+        onError: () => {
+          close = null;
+          const failed = connectionFailed(connection);
+          connection = failed;
+          setState(failed.state);
+          retryTimer = setTimeout(open, failed.retryInMs);
+        },
+      });
+    };
+
+    open();
+    return () => {
+      close?.();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [connector, url]);
+
+  return state;
+}
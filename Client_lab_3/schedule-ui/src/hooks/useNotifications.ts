@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from "react";
+import type { NotificationType, ServerNotification } from "../types";
+import {
+  clearNotifications, loadNotifications, localTimestamp, markRead, mergeServerNotifications,
+  pushNotification, rememberLiveEvent, removeNotification, saveNotifications, type NotificationStore,
+} from "../utils/notifications";
+
+/**
+ * Notification center state: the app's own notifications plus the ones NotificationService
+ * wrote to its file, with read state, persisted to localStorage.
+ */
+export function useNotifications() {
+  const [store, setStore] = useState<NotificationStore>(loadNotifications);
+
+  useEffect(() => {
+    saveNotifications(store);
+  }, [store]);
+
+  const add = useCallback((type: NotificationType, message: string, scheduleId: number | null = null) => {
+    setStore(prev => pushNotification(prev, type, message, scheduleId, localTimestamp()));
+  }, []);
+
+  const mergeServer = useCallback((list: ServerNotification[]) => {
+    setStore(prev => mergeServerNotifications(prev, list));
+  }, []);
+
+  // `key` comes from liveEventKey
+  const seenLive = useCallback((key: string) => setStore(prev => rememberLiveEvent(prev, key)), []);
+
+  const read = useCallback((ids: string[] | "all") => setStore(prev => markRead(prev, ids)), []);
+  const remove = useCallback((id: string) => setStore(prev => removeNotification(prev, id)), []);
+  const clear = useCallback(() => setStore(prev => clearNotifications(prev)), []);
+
+  return { notifications: store.items, add, mergeServer, seenLive, read, remove, clear };
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from "react";
+import { readOffline, writeOffline } from "../utils/offlineStore";
+import { enqueue, type PendingOperation } from "../utils/offline";
+
+/**
+ * Schedule changes made while ScheduleService was unreachable, persisted to IndexedDB
+ * until they are replayed, plus the browser's own online/offline state.
+ */
+export function useOfflineQueue() {
+  const [queue, setQueue] = useState<PendingOperation[]>([]);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [browserOnline, setBrowserOnline] = useState<boolean>(navigator.onLine);
+
+  useEffect(() => {
+    let cancelled = false;
+    readOffline<PendingOperation[]>("queue", []).then((stored) => {
+      if (cancelled) return;
+      // Anything queued before the stored copy was read goes after it
+      setQueue(prev => [...stored, ...prev]);
+      setLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (loaded) writeOffline("queue", queue);
+  }, [queue, loaded]);
+
+  useEffect(() => {
+    const handleOnline = () => setBrowserOnline(true);
+    const handleOffline = () => setBrowserOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  const add = useCallback((op: PendingOperation) => setQueue(prev => enqueue(prev, op)), []);
+  const remove = useCallback((id: string) => setQueue(prev => prev.filter(op => op.id !== id)), []);
+  // By identity: an edit folded into the operation while it was being replayed keeps it queued
+  const settle = useCallback((op: PendingOperation) => setQueue(prev => prev.filter(item => item !== op)), []);
+  const markFailed = useCallback((id: string, error: string) =>
+    setQueue(prev => prev.map(op => (op.id === id ? { ...op, error } : op))), []);
+  const clearErrors = useCallback(() =>
+    setQueue(prev => prev.map(op => (op.error ? { ...op, error: undefined } : op))), []);
+
+  return { queue, loaded, browserOnline, add, remove, settle, markFailed, clearErrors };
+}
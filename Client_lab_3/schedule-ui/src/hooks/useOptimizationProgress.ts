@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { OptimizationStatus, ScheduleOptimizedEvent } from "../types";
+import { api, isAbortError } from "../api/client";
+import { decodeOptimizedEvent, eventKey, ROUTING_KEY_OPTIMIZED } from "../api/events";
+import { t } from "../utils/i18n";
+
+const POLL_INTERVAL_MS = 1500;
+const TIMEOUT_MS = 60_000;
+
+export type OptimizationRunStatus = "Requested" | OptimizationStatus | "TimedOut";
+
+export interface OptimizationRun {
+  scheduleId: number;
+  status: OptimizationRunStatus;
+  requestedAt: number;
+  message: string;
+  result: ScheduleOptimizedEvent | null;
+}
+
+export const isRunFinished = (run: OptimizationRun): boolean =>
+  run.status === "Completed" || run.status === "Failed" || run.status === "TimedOut";
+
+/**
+ * Follows optimization runs through the ScheduleOptimizedEvent lifecycle
+ * (Started → InProgress → Completed/Failed) by polling AnalyticsService events.
+ *
+ * Server timestamps are in the services' local time, so instead of comparing
+ * clocks every run remembers which events already existed when it was requested.
+ */
+export function useOptimizationProgress(onFinished: (run: OptimizationRun) => void) {
+  const [runs, setRuns] = useState<Record<number, OptimizationRun>>({});
+  const runsRef = useRef(runs);
+  const seenRef = useRef(new Set<string>());
+  const onFinishedRef = useRef(onFinished);
+
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  }, [onFinished]);
+
+  const updateRuns = useCallback((update: (prev: Record<number, OptimizationRun>) => Record<number, OptimizationRun>) => {
+    runsRef.current = update(runsRef.current);
+    setRuns(runsRef.current);
+  }, []);
+
+  /** Call before POSTing the optimize request so the Started event is not mistaken for an old one */
+  const begin = useCallback(async (scheduleId: number, signal?: AbortSignal): Promise<void> => {
+    try {
+      const events = await api.analytics.events({ signal });
+      events.forEach(event => seenRef.current.add(eventKey(event)));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      // Without a baseline we may pick up an older result; still better than no progress
+    }
+    updateRuns(prev => ({
+      ...prev,
+      [scheduleId]: { scheduleId, status: "Requested", requestedAt: Date.now(), message: t("progress.waiting"), result: null },
+    }));
+  }, [updateRuns]);
+
+  const fail = useCallback((scheduleId: number, message: string) => {
+    updateRuns(prev => ({
+      ...prev,
+      [scheduleId]: { ...prev[scheduleId], scheduleId, status: "Failed", message, result: null },
+    }));
+  }, [updateRuns]);
+
+  const dismiss = useCallback((scheduleId: number) => {
+    updateRuns(prev => {
+      const next = { ...prev };
+      delete next[scheduleId];
+      return next;
+    });
+  }, [updateRuns]);
+
+  const hasActiveRuns = Object.values(runs).some(run => !isRunFinished(run));
+
+  useEffect(() => {
+    if (!hasActiveRuns) return;
+    const controller = new AbortController();
+
+    const poll = async () => {
+      let events;
+      try {
+        events = await api.analytics.events({ signal: controller.signal });
+      } catch (error) {
+        if (!isAbortError(error)) console.error("Failed to poll optimization events:", error);
+        return;
+      }
+
+      const finished: OptimizationRun[] = [];
+      const next = { ...runsRef.current };
+
+      // Events come newest first; replay them in the order they happened
+      for (const event of [...events].reverse()) {
+        if (event.routingKey !== ROUTING_KEY_OPTIMIZED) continue;
+        const key = eventKey(event);
+        if (seenRef.current.has(key)) continue;
+
+        const decoded = decodeOptimizedEvent(event);
+        const run = decoded && next[decoded.scheduleId];
+        if (!decoded || !run || isRunFinished(run)) continue;
+
+        seenRef.current.add(key);
+        next[decoded.scheduleId] = { ...run, status: decoded.status, message: decoded.message, result: decoded };
+        if (isRunFinished(next[decoded.scheduleId])) finished.push(next[decoded.scheduleId]);
+      }
+
+      for (const run of Object.values(next)) {
+        if (!isRunFinished(run) && Date.now() - run.requestedAt > TIMEOUT_MS) {
+          next[run.scheduleId] = { ...run, status: "TimedOut", message: t("progress.timedOut") };
+          finished.push(next[run.scheduleId]);
+        }
+      }
+
+      updateRuns(() => next);
+      finished.forEach(run => onFinishedRef.current(run));
+    };
+
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [hasActiveRuns, updateRuns]);
+
+  return { runs, begin, fail, dismiss };
+}
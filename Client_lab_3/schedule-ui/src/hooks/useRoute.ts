@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { defaultRoute, formatRoute, parseRoute, type Page, type Route } from "../utils/routes";
+
+type RouteOf<P extends Page> = Extract<Route, { page: P }>;
+
+const currentRoute = (): Route => parseRoute(window.location.pathname, window.location.search);
+
+/**
+ * The app's location as a Route, kept in sync with the address bar and the back/forward buttons.
+ * `replace` is for changes not worth a history step, e.g. typing into a filter.
+ */
+export function useRoute() {
+  const [route, setRoute] = useState<Route>(currentRoute);
+  // Read by navigate() so updaters called after an await see the latest route, not the render's
+  const routeRef = useRef<Route>(route);
+  // Last route seen on each page, so switching tabs comes back to the same selection
+  const visited = useRef<Partial<Record<Page, Route>>>({ [route.page]: route });
+
+  const apply = useCallback((next: Route) => {
+    routeRef.current = next;
+    visited.current[next.page] = next;
+    setRoute(next);
+  }, []);
+
+  useEffect(() => {
+    const handlePopState = () => apply(currentRoute());
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, [apply]);
+
+  const navigate = useCallback((next: Route | ((current: Route) => Route), options: { replace?: boolean } = {}) => {
+    const resolved = typeof next === "function" ? next(routeRef.current) : next;
+    const url = formatRoute(resolved);
+    if (url !== `${window.location.pathname}${window.location.search}`) {
+      if (options.replace) window.history.replaceState(null, "", url);
+      else window.history.pushState(null, "", url);
+    }
+    apply(resolved);
+  }, [apply]);
+
+  const lastRoute = useCallback(<P extends Page>(page: P): RouteOf<P> =>
+    (visited.current[page] ?? defaultRoute(page)) as RouteOf<P>, []);
+
+  return { route, navigate, lastRoute };
+}
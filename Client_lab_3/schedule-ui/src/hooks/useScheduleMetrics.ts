@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import type { ScheduleMetrics } from "../types";
+import { api, ApiError, isAbortError } from "../api/client";
+
+export interface ScheduleMetricsState {
+  /** null when AnalyticsService has nothing for the schedule yet (it only tracks optimized ones) */
+  metrics: ScheduleMetrics | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const idle: ScheduleMetricsState = { metrics: null, loading: false, error: null };
+
+/**
+ * Loads GET /api/analytics/schedule/{id} whenever the schedule or `revision` changes;
+ * bump `revision` after an optimization so the numbers follow the new result.
+ */
+export function useScheduleMetrics(scheduleId: number | null, revision?: string | null): ScheduleMetricsState {
+  const [state, setState] = useState<{ key: string; value: ScheduleMetricsState } | null>(null);
+  const key = `${scheduleId}|${revision ?? ""}`;
+
+  useEffect(() => {
+    if (scheduleId === null) return;
+    const controller = new AbortController();
+
+    api.analytics.scheduleMetrics(scheduleId, { signal: controller.signal })
+      .then(metrics => setState({ key, value: { metrics, loading: false, error: null } }))
+      .catch(error => {
+        if (isAbortError(error)) return;
+        const value = error instanceof ApiError && error.status === 404
+          ? idle
+          : { metrics: null, loading: false, error: error instanceof Error ? error.message : String(error) };
+        setState({ key, value });
+      });
+
+    return () => controller.abort();
+  }, [scheduleId, key]);
+
+  if (scheduleId === null) return idle;
+  // Until the response for the current key arrives, the previous one is stale
+  return state?.key === key ? state.value : { metrics: null, loading: true, error: null };
+}
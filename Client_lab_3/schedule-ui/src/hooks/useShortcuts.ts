@@ -0,0 +1,27 @@
+import { useEffect, useRef } from "react";
+import { matchShortcut, type ShortcutAction } from "../utils/shortcuts";
+
+/**
+ * Calls `onShortcut` for the app's keyboard shortcuts. Nothing fires while a modal
+ * dialog is open, so its own keys (Escape, Tab) are left alone; the single-key ones
+ * only fire while `singleKeys` is on.
+ */
+export function useShortcuts(onShortcut: (action: ShortcutAction) => void, singleKeys: boolean) {
+  const onShortcutRef = useRef(onShortcut);
+
+  useEffect(() => {
+    onShortcutRef.current = onShortcut;
+  }, [onShortcut]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (document.querySelector("[aria-modal=\"true\"]")) return;
+      const action = matchShortcut(e, singleKeys);
+      if (!action) return;
+      e.preventDefault();
+      onShortcutRef.current(action);
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [singleKeys]);
+}
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Schedule } from "../types";
+import { readOffline, writeOffline } from "../utils/offlineStore";
+import { localTimestamp } from "../utils/notifications";
+import { addVersion, type ScheduleVersion, type VersionReason } from "../utils/versions";
+
+/**
+ * Snapshots of schedules taken before every change made from this browser and around
+ * optimization runs, persisted to IndexedDB next to the offline copy.
+ */
+export function useVersionHistory() {
+  const [versions, setVersions] = useState<ScheduleVersion[]>([]);
+  const [loaded, setLoaded] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    readOffline<ScheduleVersion[]>("versions", []).then((stored) => {
+      if (cancelled) return;
+      // Snapshots taken before the stored ones were read are newer, so they stay on top
+      setVersions(prev => [...prev, ...stored]);
+      setLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (loaded) writeOffline("versions", versions);
+  }, [versions, loaded]);
+
+  const record = useCallback((schedule: Schedule, reason: VersionReason, label: string) =>
+    setVersions(prev => addVersion(prev, schedule, reason, label, localTimestamp())), []);
+
+  const clear = useCallback((scheduleId: number) =>
+    setVersions(prev => prev.filter(version => version.scheduleId !== scheduleId)), []);
+
+  return { versions, record, clear };
+}
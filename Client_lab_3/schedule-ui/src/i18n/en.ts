@@ -0,0 +1,634 @@
+// English messages; the keys and value shapes here define what every other catalog must provide.
+// Plural messages list Intl.PluralRules categories and get the number as {count}.
+
+export const en = {
+  "app.title": "Schedule Management System",
+  "app.language": "Interface language",
+
+  "common.all": "All",
+  "common.refresh": "Refresh",
+  "common.loading": "Loading...",
+
+  "kind.subject": "Subject",
+  "kind.teacher": "Teacher",
+  "kind.group": "Group",
+  "kind.room": "Room",
+
+  "status.draft": "Draft",
+  "status.optimizing": "Optimizing",
+  "status.optimized": "Optimized",
+  "status.published": "Published",
+  "status.archived": "Archived",
+  "status.optimizationFailed": "Optimization failed",
+
+  "live.connecting": "Connecting...",
+  "live.connectingTitle": "Opening the live event stream",
+  "live.live": "Live",
+  "live.liveTitle": "Changes from other users show up as they happen",
+  "live.polling": "Polling",
+  "live.pollingTitle": "Live updates unavailable; refreshing every {seconds} s while reconnecting",
+
+  "tabs.schedules": "Schedules",
+  "tabs.personal": "My Schedule",
+  "tabs.catalog": "Catalog",
+  "tabs.analytics": "Analytics",
+  "tabs.events": "Event Log",
+
+  "form.title": "Create New Schedule",
+  "form.importCsv": "Import CSV",
+  "form.existingSchedule": "Select Existing Schedule",
+  "form.newScheduleOption": "-- Create New Schedule --",
+  "form.scheduleOption": {
+    one: "{name} (ID: {id}, {count} class)",
+    other: "{name} (ID: {id}, {count} classes)",
+  },
+  "form.addingHint": "Adding class to existing schedule",
+  "form.creatingHint": "Creating new schedule with first class",
+  "form.lockedHint": "This schedule is {status} and can no longer be edited.",
+  "form.scheduleName": "New Schedule Name",
+  "form.editClass": "Edit Class #{number}",
+  "form.addClass": "Add Class",
+  "form.selectSubject": "Select subject...",
+  "form.selectTeacher": "Select teacher...",
+  "form.selectGroup": "Select group...",
+  "form.selectRoom": "Select room...",
+  "form.groupOption": {
+    one: "{name} · {count} student",
+    other: "{name} · {count} students",
+  },
+  "form.roomOption": {
+    one: "{name} · {count} seat · {type}",
+    other: "{name} · {count} seats · {type}",
+  },
+  "form.roomTooSmall": "(too small)",
+  "form.notInCatalog": "'{name}' is not in the catalog",
+  "form.seatsShort": {
+    one: "{count} student short of seats for this group",
+    other: "{count} students short of seats for this group",
+  },
+  "form.showSmallRooms": "Show rooms that are too small",
+  "form.dayOfWeek": "Day of Week",
+  "form.time": "Time",
+  "form.saveChanges": "Save Changes",
+  "form.addToSchedule": "Add Class to Schedule",
+  "form.cancelEditing": "Cancel Editing",
+
+  "schedules.title": "Existing Schedules",
+  "schedules.empty": "No schedules found. Create your first one!",
+  "schedules.emptyStatus": "No schedules with status {status}.",
+  "schedules.id": "ID:",
+  "schedules.created": "Created:",
+  "schedules.classes": "Classes:",
+  "schedules.brokenConstraints": {
+    one: "Breaks {count} constraint",
+    other: "Breaks {count} constraints",
+  },
+  "schedules.optimize": "Optimize Schedule",
+  "schedules.publish": "Publish Schedule",
+  "schedules.archive": "Archive Schedule",
+  "schedules.checkConflicts": "Check Conflicts",
+  "schedules.delete": "Delete Schedule",
+
+  "timetable.title": "Weekly Timetable: {name}",
+  "timetable.clearMarkers": "Clear conflict markers",
+  "timetable.undo": "Undo last change",
+  "timetable.empty": "This schedule has no classes yet.",
+  "timetable.roomCapacity": "Room Capacity",
+  "timetable.export": "Export",
+  "timetable.classes": "Classes",
+  "timetable.versions": "Version history",
+
+  "statusTimeline.title": "Status history",
+  "statusTimeline.empty": "No status changes in the recent event feed.",
+
+  "stats.totalSchedules": "Total Schedules",
+  "stats.totalOptimizations": "Total Optimizations",
+  "stats.conflictsDetected": "Conflicts Detected",
+  "stats.totalUpdates": "Total Updates",
+  "stats.averageOptimizationTime": "Avg Optimization Time",
+  "stats.lastUpdated": "Last Updated",
+  "stats.seconds": "{value}s",
+
+  "conflicts.checkTitle": "Conflict check of \"{name}\"",
+
+  "offline.createLabel": "New schedule \"{name}\"",
+  "offline.deleteLabel": "Delete \"{name}\"",
+
+  "confirm.discardPending": "Discard this offline change? It will not be sent to the server.",
+  "confirm.deleteEntries": {
+    one: "Delete {count} class from \"{name}\"?",
+    other: "Delete {count} classes from \"{name}\"?",
+  },
+  "confirm.deleteSchedule": "Delete \"{name}\"? This cannot be undone.",
+  "confirm.deleteConstraint": "Delete the constraint for \"{name}\"?",
+  "confirm.publish": "Publish \"{name}\"? Published schedules can no longer be edited.",
+  "confirm.archive": "Archive \"{name}\"? Its teachers, groups and rooms become free for other schedules.",
+
+  "notify.optimizationCompleted":
+    "Optimization of \"{name}\" completed: {windows} windows reduced, {conflicts} conflicts resolved",
+  "notify.optimizationFailed": "Optimization of schedule #{id} failed: {message}",
+  "notify.remoteOptimizationCompleted": "Optimization of \"{name}\" completed: {message}",
+  "notify.remoteOptimizationFailed": "Optimization of \"{name}\" failed: {message}",
+  "notify.optimizationStarted": "Started optimization for schedule #{id}",
+  "notify.catalogAdded": "Added \"{name}\" to the catalog",
+  "notify.constraintAdded": "Added a constraint for \"{name}\"",
+  "notify.constraintUpdated": "Updated the constraint for \"{name}\"",
+  "notify.constraintDeleted": "Deleted the constraint for \"{name}\"",
+  "notify.classUpdated": "Updated {subject} in schedule: {name}",
+  "notify.classAdded": "Added class to schedule: {name}",
+  "notify.scheduleCreated": "Created schedule: {name}",
+  "notify.createdWithImport": {
+    one: "Created schedule {name} with {count} imported class",
+    other: "Created schedule {name} with {count} imported classes",
+  },
+  "notify.imported": {
+    one: "Imported {count} class into {name}",
+    other: "Imported {count} classes into {name}",
+  },
+  "notify.savedOffline": "Saved offline: {message}",
+  "notify.synced": {
+    one: "Synced {count} offline change",
+    other: "Synced {count} offline changes",
+  },
+  "notify.moved": "Moved {subject} to {day} {start}-{end}",
+  "notify.entriesRemoved": {
+    one: "Removed {count} class from schedule: {name}",
+    other: "Removed {count} classes from schedule: {name}",
+  },
+  "notify.undid": "Undid: {label}",
+  "notify.versionRestored": "Restored \"{name}\" to the version from {time}",
+  "notify.conflictReport": {
+    one: "{title}: {count} conflict, see the conflict inspector",
+    other: "{title}: {count} conflicts, see the conflict inspector",
+  },
+  "notify.noConflicts": "No conflicts found in schedule #{id}",
+  "notify.scheduleDeleted": "Schedule #{id} deleted",
+  "notify.statusChanged": "Schedule \"{name}\" is now {status}",
+
+  "error.loadSchedules": "Failed to load schedules",
+  "error.loadCatalog": "Failed to load catalog data",
+  "error.loadStatistics": "Failed to load statistics",
+  "error.catalogAdd": "Failed to add \"{name}\" to the catalog",
+  "error.loadConstraints": "Failed to load constraints",
+  "error.saveConstraint": "Failed to save the constraint for \"{name}\"",
+  "error.deleteConstraint": "Failed to delete the constraint for \"{name}\"",
+  "error.locked": "\"{name}\" is {status} and can no longer be edited",
+  "error.subjectRequired": "Subject is required",
+  "error.pickRecords": "Pick a teacher, group and room from the catalog",
+  "error.roomTooSmall": "{room} seats {capacity}, group {group} has {students} students",
+  "error.endBeforeStart": "End time must be after start time",
+  "error.scheduleNotFound": "Selected schedule not found",
+  "error.updateClass": "Failed to update class",
+  "error.addClass": "Failed to add class to schedule",
+  "error.createSchedule": "Failed to create schedule \"{name}\"",
+  "error.syncFailed": "Sync failed",
+  "error.sync": "Failed to sync: {label}",
+  "error.import": "Failed to import classes into \"{name}\"",
+  "error.reschedule": "Failed to reschedule class",
+  "error.removeClasses": "Failed to remove classes",
+  "error.undoMissing": "Cannot undo: schedule no longer exists",
+  "error.undo": "Failed to undo last change",
+  "error.restoreVersion": "Failed to restore a version of \"{name}\"",
+  "error.startOptimization": "Failed to start optimization",
+  "error.checkConflicts": "Failed to check conflicts",
+  "error.deleteSchedule": "Failed to delete",
+  "error.publish": "Failed to publish \"{name}\"",
+  "error.archive": "Failed to archive \"{name}\"",
+
+  "sync.online": "Online",
+  "sync.offline": "Offline",
+  "sync.onlineTitle": "ScheduleService is reachable",
+  "sync.offlineTitle": "Changes are saved in this browser and sent once the services are reachable again",
+  "sync.pending": {
+    one: "{count} pending change",
+    other: "{count} pending changes",
+  },
+  "sync.failed": "({count} failed)",
+  "sync.waiting": "Waiting to sync",
+  "sync.syncNow": "Sync now",
+  "sync.discard": "Discard this change",
+  "sync.kindCreate": "Create",
+  "sync.kindUpdate": "Edit",
+  "sync.kindDelete": "Delete",
+
+  "syncConflict.title": "Schedule changed while you were offline",
+  "syncConflict.changed": "\"{name}\" was changed on the server after you started editing it offline.",
+  "syncConflict.deleted": "\"{name}\" was deleted on the server while you were editing it offline.",
+  "syncConflict.mine": "Your changes",
+  "syncConflict.mineDelete": "Your change: delete",
+  "syncConflict.server": "Changes on the server",
+  "syncConflict.noChanges": "No class changes",
+  "syncConflict.renamed": "Renamed on the server to \"{name}\".",
+  "syncConflict.statusChanged": "Status on the server: {from} → {to}.",
+  "syncConflict.keepServer": "Keep server version",
+  "syncConflict.discardMine": "Discard my changes",
+  "syncConflict.merge": "Merge both",
+  "syncConflict.keepMine": "Keep mine",
+  "syncConflict.deleteAnyway": "Delete anyway",
+  "syncConflict.recreate": "Recreate schedule",
+
+
+  "notifications.title": "Notifications",
+  "notifications.markAllRead": "Mark all read",
+  "notifications.clear": "Clear",
+  "notifications.optimized": "Optimization",
+  "notifications.updated": "Update",
+  "notifications.conflict": "Conflict",
+  "notifications.error": "Error",
+  "notifications.allSources": "All sources",
+  "notifications.thisBrowser": "This browser",
+  "notifications.serverSource": "NotificationService",
+  "notifications.unreadOnly": "Unread only",
+  "notifications.waiting": "Waiting for events...",
+  "notifications.noMatches": "No notifications match the filters",
+  "notifications.unread": "Unread",
+  "notifications.server": "server",
+  "notifications.dismiss": "Dismiss",
+
+  "weekly.wholeSchedule": "Whole schedule",
+  "weekly.byGroup": "By group",
+  "weekly.byTeacher": "By teacher",
+  "weekly.byRoom": "By room",
+  "weekly.anyGroup": "-- Any group --",
+  "weekly.anyTeacher": "-- Any teacher --",
+  "weekly.anyRoom": "-- Any room --",
+  "weekly.dragHint": "Drag a class to move it, drag its bottom edge to change the end time",
+  "weekly.showing": "Showing {visible} of {total} classes",
+
+
+  "entries.selectAll": "Select all",
+  "entries.deleteSelected": "Delete selected ({count})",
+  "entries.day": "Day",
+  "entries.edit": "Edit Class",
+  "entries.delete": "Delete Class",
+
+  "personal.linkCopied": "Link copied",
+  "personal.copyFailed": "Copy failed",
+  "personal.copyLink": "Copy link",
+  "personal.selectTeacher": "-- Select teacher --",
+  "personal.selectGroup": "-- Select group --",
+  "personal.selectRoom": "-- Select room --",
+  "personal.includeArchived": "Include archived schedules",
+  "personal.prompt": "Pick a teacher, group or room to see their classes from every schedule in one week.",
+  "personal.empty": "No classes for {name} in the loaded schedules.",
+  "personal.classes": {
+    one: "{count} class",
+    other: "{count} classes",
+  },
+  "personal.hours": "{hours} h per week",
+  "personal.schedules": {
+    one: "{count} schedule",
+    other: "{count} schedules",
+  },
+  "personal.overlapping": {
+    one: "{count} overlapping class",
+    other: "{count} overlapping classes",
+  },
+  "personal.participants": "Teacher · Group · Room",
+  "personal.schedule": "Schedule",
+  "personal.overlaps": "Overlaps {subject} in \"{schedule}\", {day} {time}",
+
+
+  "catalog.teachers": "Teachers",
+  "catalog.groups": "Groups",
+  "catalog.rooms": "Rooms",
+  "catalog.subjects": "Subjects",
+  "catalog.newTeacher": "New Teacher",
+  "catalog.newGroup": "New Group",
+  "catalog.newRoom": "New Room",
+  "catalog.newSubject": "New Subject",
+  "catalog.searchTeachers": "Search teachers...",
+  "catalog.searchGroups": "Search groups...",
+  "catalog.searchRooms": "Search rooms...",
+  "catalog.searchSubjects": "Search subjects...",
+  "catalog.field.name": "Name",
+  "catalog.field.department": "Department",
+  "catalog.field.email": "Email",
+  "catalog.field.year": "Year",
+  "catalog.field.students": "Students",
+  "catalog.field.capacity": "Capacity",
+  "catalog.field.type": "Type",
+  "catalog.field.credits": "Credits",
+  "catalog.field.description": "Description",
+  "catalog.empty": "Nothing in the catalog yet",
+  "catalog.noMatches": "No records match the search",
+  "catalog.add": "Add to catalog",
+  "catalog.required": "{field} is required",
+  "catalog.wholeNumber": "{field} must be a whole number of at least {min}",
+  "catalog.invalidEmail": "Enter a valid email address",
+  "catalog.exists": "{kind} '{name}' already exists",
+
+  "common.close": "Close",
+
+  "clashes.title": "This class will be rejected on save",
+  "clashes.busyWith": "is busy with {subject} {day} {time}",
+  "clashes.inSchedule": "in schedule \"{name}\"",
+  "clashes.nearestSlots": "Nearest free slots:",
+  "clashes.noSlots": "No free slot of this length between 08:00 and 20:00",
+
+  "capacity.allFit": "Every group fits its room",
+  "capacity.issues": {
+    one: "{count} class is in a room too small for the group",
+    other: "{count} classes are in rooms too small for the group",
+  },
+  "capacity.groupInRoom": "{group} in {room}",
+  "capacity.seats": "{students}/{capacity} seats",
+
+  "inspector.title": "Conflict Inspector",
+  "inspector.teacher": "Teacher conflicts",
+  "inspector.group": "Group conflicts",
+  "inspector.room": "Room conflicts",
+  "inspector.other": "Other",
+  "inspector.constraint": "Constraint violations",
+  "inspector.summary": {
+    one: "{count} conflict. Click it to highlight the classes involved.",
+    other: "{count} conflicts. Click one to highlight the classes involved.",
+  },
+  "inspector.withSchedule": "with schedule \"{name}\"",
+  "inspector.affected": {
+    one: "{count} class affected",
+    other: "{count} classes affected",
+  },
+  "inspector.reported": "reported {count}×",
+  "inspector.violations": {
+    one: "{count} constraint violation",
+    other: "{count} constraint violations",
+  },
+
+
+  "eventLog.count": "{visible} of {total} events",
+  "eventLog.scheduleId": "Schedule ID",
+  "eventLog.from": "From",
+  "eventLog.to": "To",
+  "eventLog.search": "Search details...",
+  "eventLog.reset": "Reset",
+  "eventLog.empty": "No events recorded yet",
+  "eventLog.noMatches": "No events match the filters",
+  "eventLog.hidePayload": "Hide payload",
+  "eventLog.showPayload": "Show payload",
+  "eventLog.missingSchedule": "Schedule #{id} (no longer exists)",
+  "eventLog.optimizationStarted": "Optimization Started: {name}",
+  "eventLog.optimizationInProgress": "Optimization InProgress: {name}",
+  "eventLog.optimizationCompleted": "Optimization Completed: {name}",
+  "eventLog.optimizationFailed": "Optimization Failed: {name}",
+  "eventLog.optimizationResult": "{windows} windows reduced, {conflicts} conflicts resolved",
+  "eventLog.by": "by {user}",
+  "eventLog.conflicts": "{type} conflicts",
+
+
+  "analytics.title": "Schedule Drill-down",
+  "analytics.reported": "Reported by AnalyticsService",
+  "analytics.computed": "Computed from the timetable",
+  "analytics.windows": "Windows",
+  "analytics.conflicts": "Conflicts",
+  "analytics.loadBalance": "Avg load balance",
+  "analytics.optimizations": "Optimizations",
+  "analytics.noMetrics": "No metrics yet: AnalyticsService records a schedule once it has been optimized.",
+  "analytics.classes": "Classes",
+  "analytics.hoursPerWeek": "Hours / week",
+  "analytics.hoursPerTeacher": "Hours per teacher",
+  "analytics.hoursUnit": "h",
+  "analytics.roomUtilization": "Room utilization (08:00–20:00, {week})",
+  "analytics.groupLoad": "Hours per group per day",
+  "analytics.total": "Total",
+  "analytics.heatmap": "Window heatmap (minutes idle between classes)",
+  "analytics.minutes": "{minutes} min",
+
+  "comparison.title": "Compare Schedules",
+  "comparison.difference": "Difference",
+  "comparison.roomUtilization": "Avg room utilization %",
+  "comparison.loadBalance": "Avg load balance % (server)",
+  "comparison.optimizations": "Optimizations (server)",
+
+
+  "common.cancel": "Cancel",
+
+  "activity.title": "Activity Trends",
+  "activity.range15m": "15 min",
+  "activity.range1h": "1 hour",
+  "activity.range6h": "6 hours",
+  "activity.range24h": "24 hours",
+  "activity.resume": "Resume",
+  "activity.pause": "Pause",
+  "activity.clear": "Clear history",
+  "activity.pausedHint": "Polling is paused; charts show the data collected so far.",
+  "activity.empty": "No samples collected yet",
+  "activity.totals": "Totals over time",
+  "activity.optimizations": "Optimizations",
+  "activity.conflictsDetected": "Conflicts detected",
+  "activity.updates": "Updates",
+  "activity.eventsPerInterval": "Events per interval",
+  "activity.averageTime": "Average optimization time",
+  "activity.averageTimeSeries": "Avg optimization time",
+  "activity.optimized": "Optimized",
+  "activity.updated": "Updated",
+  "activity.conflict": "Conflict",
+  "activity.max": "max {value}",
+  "activity.eventsUnit": "events",
+  "activity.secondsUnit": "s",
+
+  "progress.requested": "Requested",
+  "progress.started": "Started",
+  "progress.inProgress": "In progress",
+  "progress.completed": "Completed",
+  "progress.failed": "Optimization failed",
+  "progress.done": "Optimization completed",
+  "progress.running": "Optimizing...",
+  "progress.dismiss": "Dismiss",
+  "progress.windowsReduced": "Windows reduced",
+  "progress.conflictsResolved": "Conflicts resolved",
+  "progress.loadBalance": "Load balance",
+  "progress.before": "Before",
+  "progress.after": "After",
+
+  "optimize.title": "Optimize Schedule",
+  "optimize.minimizeWindows": "Minimize windows",
+  "optimize.minimizeWindowsHint": "Close gaps between consecutive classes",
+  "optimize.balanceLoad": "Balance load",
+  "optimize.balanceLoadHint": "Spread classes evenly across the week",
+  "optimize.resolveConflicts": "Resolve conflicts",
+  "optimize.resolveConflictsHint": "Fix teacher, group and room overlaps",
+  "optimize.maxIterations": "Max iterations",
+  "optimize.nothingSelected": "Select at least one criterion",
+  "optimize.invalidIterations": "Max iterations must be a positive whole number",
+  "optimize.run": "Run Optimization",
+  "optimize.constraints": {
+    one: "The optimizer will keep to {count} constraint from the catalog.",
+    other: "The optimizer will keep to {count} constraints from the catalog.",
+  },
+  "optimize.noConstraints": "No constraints are defined; add them in the catalog.",
+
+
+  "export.allClasses": "All classes",
+  "export.noClasses": "No classes.",
+  "export.calendarPer": "One calendar per",
+  "export.firstWeek": "First week",
+  "export.weeks": "Weeks (0 = no end)",
+  "export.allCalendars": {
+    one: "{count} calendar",
+    other: "{count} calendars",
+  },
+  "export.downloadOne": "Download the calendar of {value}",
+  "export.wholeSchedule": "Whole schedule",
+  "export.print": "Print / save as PDF",
+
+  "import.title": "Import Classes",
+  "import.stepData": "1. Data",
+  "import.stepColumns": "2. Columns",
+  "import.stepPreview": "3. Preview",
+  "import.matched": "Matched",
+  "import.newNames": "New names",
+  "import.broken": "Broken",
+  "import.column": "Column {n}",
+  "import.sourceHint": "Choose a CSV file or paste cells copied from a spreadsheet. Comma, semicolon and tab separated data are recognised.",
+  "import.hasHeader": "First row is a header",
+  "import.rows": {
+    one: "{count} row",
+    other: "{count} rows",
+  },
+  "import.columns": {
+    one: "{count} column",
+    other: "{count} columns",
+  },
+  "import.next": "Next",
+  "import.back": "Back",
+  "import.notMappedOption": "-- not mapped --",
+  "import.into": "Import into",
+  "import.newSchedule": "-- New schedule --",
+  "import.scheduleName": "Schedule name",
+  "import.row": "Row",
+  "import.status": "Status",
+  "import.class": "Class",
+  "import.notes": "Notes",
+  "import.notInCatalog": "Not in the catalog: {names}",
+  "import.importing": "Importing...",
+  "import.submit": {
+    one: "Import {count} class",
+    other: "Import {count} classes",
+  },
+  "import.brokenSkipped": "Broken rows are skipped.",
+  "import.start": "Start",
+  "import.end": "End",
+  "import.notMapped": "{field} column is not mapped",
+  "import.empty": "{field} is empty",
+  "import.unknownDay": "Unknown day \"{value}\"",
+  "import.invalidStart": "Invalid start time \"{value}\"",
+  "import.invalidEnd": "Invalid end time \"{value}\"",
+  "import.unknownName": "{kind} '{name}'",
+  "import.capacity": "{room} seats {capacity}, group {group} has {students} students",
+  "import.inSchedule": "in \"{name}\"",
+  "import.inEarlierRow": "in an earlier row",
+  "import.inThisSchedule": "in this schedule",
+  "import.busy": "{kind} '{name}' is busy {where} with {subject}",
+
+  "progress.waiting": "Waiting for OptimizationService...",
+  "progress.timedOut": "No result received from OptimizationService",
+
+
+  "app.highContrast": "High contrast theme",
+  "tabs.label": "Sections",
+  "confirm.discard": "Discard",
+  "confirm.delete": "Delete",
+  "confirm.publishAction": "Publish",
+  "confirm.archiveAction": "Archive",
+  "confirm.deleteEntriesTitle": {
+    one: "Delete class",
+    other: "Delete classes",
+  },
+
+  "a11y.scheduleSelected": "Selected schedule {name}",
+  "a11y.noScheduleSelected": "Select a schedule first",
+  "a11y.contrastOn": "High contrast theme on",
+  "a11y.contrastOff": "High contrast theme off",
+  "a11y.scheduleAction": "{action}: {name}",
+
+  "shortcuts.title": "Keyboard shortcuts",
+  "shortcuts.newClass": "Add a new class",
+  "shortcuts.nextSchedule": "Next schedule",
+  "shortcuts.previousSchedule": "Previous schedule",
+  "shortcuts.checkConflicts": "Check the selected schedule for conflicts",
+  "shortcuts.undo": "Undo the last change",
+  "shortcuts.toggleContrast": "Turn high contrast on or off",
+  "shortcuts.help": "Show this list",
+  "shortcuts.singleKeys": "Single-key shortcuts",
+  "shortcuts.singleKeysHint": "Turn these off if you use speech input or tend to press keys by accident. This list stays under the keyboard button at the top.",
+  "shortcuts.timetable": "On a class in the weekly timetable",
+  "shortcuts.editClass": "Edit the class",
+  "shortcuts.moveTime": "Move 15 minutes earlier or later",
+  "shortcuts.moveDay": "Move to the previous or next day",
+  "shortcuts.resize": "Make 15 minutes shorter or longer",
+
+  "weekly.label": "Weekly timetable",
+  "weekly.filter": "Timetable filter",
+  "weekly.keysHint": "Press Enter to edit. Alt with the arrow keys moves the class; Alt and Shift with Up or Down changes its length.",
+  "notifications.source": "Source",
+  "notifications.unreadCount": {
+    one: "{count} unread notification",
+    other: "{count} unread notifications",
+  },
+  "entries.select": "Select {subject}, {day} {time}",
+  "entries.selection": "Selection",
+  "entries.actions": "Actions",
+  "activity.range": "Time range",
+  "progress.label": "Optimization progress",
+
+  "versions.empty": "No versions yet. A snapshot is taken before every change and around each optimization run.",
+  "versions.timeline": "Versions",
+  "versions.reasonEdit": "Before edit",
+  "versions.reasonStatus": "Before status change",
+  "versions.reasonBeforeOptimization": "Before optimization",
+  "versions.reasonAfterOptimization": "After optimization",
+  "versions.optimizationLabel": "Optimization requested",
+  "versions.classes": {
+    one: "{count} class",
+    other: "{count} classes",
+  },
+  "versions.compare": "Compare",
+  "versions.compareWithCurrent": "Compare with the current schedule",
+  "versions.restore": "Restore",
+  "versions.from": "Older",
+  "versions.to": "Newer",
+  "versions.current": "Current schedule",
+  "versions.changes": "Changes",
+  "versions.noChanges": "The two versions have the same classes.",
+  "versions.added": "Added",
+  "versions.removed": "Removed",
+  "versions.moved": "Moved",
+
+  "constraints.title": "Constraints",
+  "constraints.hint": "Availability and load rules for teachers, groups and rooms. They are checked with every conflict check and sent with every optimization run.",
+  "constraints.empty": "No constraints yet",
+  "constraints.unavailable": "Unavailable",
+  "constraints.maxDailyHours": "Max hours a day",
+  "constraints.preferredTime": "Preferred time",
+  "constraints.maxHoursValue": "at most {hours} h a day",
+  "constraints.everyDay": "Every day",
+  "constraints.allDay": "all day",
+  "constraints.brokenIn": "Broken in: {names}",
+  "constraints.kept": "Kept in every active schedule",
+  "constraints.count": {
+    one: "{count} constraint",
+    other: "{count} constraints",
+  },
+  "constraints.new": "New constraint",
+  "constraints.editing": "Edit constraint",
+  "constraints.edit": "Edit constraint",
+  "constraints.delete": "Delete constraint",
+  "constraints.target": "Applies to",
+  "constraints.name": "Name",
+  "constraints.pick": "Choose…",
+  "constraints.kind": "Rule",
+  "constraints.maxHours": "Max hours",
+  "constraints.day": "Day",
+  "constraints.from": "From",
+  "constraints.to": "To",
+  "constraints.timesOptional": "Leave the times empty to block the whole day.",
+  "constraints.add": "Add constraint",
+  "constraints.save": "Save changes",
+  "constraints.nameRequired": "Choose a teacher, group or room",
+  "constraints.bothTimes": "Set both the start and the end time",
+  "constraints.endAfterStart": "End time must be after start time",
+  "constraints.unavailableNeedsSlot": "Choose a day, a time range or both",
+  "constraints.maxHoursPositive": "Max hours must be greater than zero",
+  "constraints.preferredNeedsTime": "Set the preferred time range",
+};
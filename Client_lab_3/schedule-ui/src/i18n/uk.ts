@@ -0,0 +1,691 @@
+import type { Messages } from "../utils/i18n";
+
+// Українські повідомлення; ключі та форми множини перевіряються за англійським каталогом
+
+export const uk: Messages = {
+  "app.title": "Система керування розкладом",
+  "app.language": "Мова інтерфейсу",
+
+  "common.all": "Усі",
+  "common.refresh": "Оновити",
+  "common.loading": "Завантаження...",
+
+  "kind.subject": "Предмет",
+  "kind.teacher": "Викладач",
+  "kind.group": "Група",
+  "kind.room": "Аудиторія",
+
+  "status.draft": "Чернетка",
+  "status.optimizing": "Оптимізується",
+  "status.optimized": "Оптимізовано",
+  "status.published": "Опубліковано",
+  "status.archived": "В архіві",
+  "status.optimizationFailed": "Оптимізація не вдалася",
+
+  "live.connecting": "Підключення...",
+  "live.connectingTitle": "Відкривається потік подій у реальному часі",
+  "live.live": "Наживо",
+  "live.liveTitle": "Зміни інших користувачів з'являються одразу",
+  "live.polling": "Опитування",
+  "live.pollingTitle": "Оновлення наживо недоступні; дані оновлюються кожні {seconds} с, поки триває перепідключення",
+
+  "tabs.schedules": "Розклади",
+  "tabs.personal": "Мій розклад",
+  "tabs.catalog": "Довідник",
+  "tabs.analytics": "Аналітика",
+  "tabs.events": "Журнал подій",
+
+  "form.title": "Створити новий розклад",
+  "form.importCsv": "Імпорт CSV",
+  "form.existingSchedule": "Обрати наявний розклад",
+  "form.newScheduleOption": "-- Створити новий розклад --",
+  "form.scheduleOption": {
+    one: "{name} (ID: {id}, {count} заняття)",
+    few: "{name} (ID: {id}, {count} заняття)",
+    many: "{name} (ID: {id}, {count} занять)",
+    other: "{name} (ID: {id}, {count} заняття)",
+  },
+  "form.addingHint": "Заняття буде додано до наявного розкладу",
+  "form.creatingHint": "Буде створено новий розклад із першим заняттям",
+  "form.lockedHint": "Цей розклад має статус «{status}» і більше не редагується.",
+  "form.scheduleName": "Назва нового розкладу",
+  "form.editClass": "Редагування заняття №{number}",
+  "form.addClass": "Додати заняття",
+  "form.selectSubject": "Оберіть предмет...",
+  "form.selectTeacher": "Оберіть викладача...",
+  "form.selectGroup": "Оберіть групу...",
+  "form.selectRoom": "Оберіть аудиторію...",
+  "form.groupOption": {
+    one: "{name} · {count} студент",
+    few: "{name} · {count} студенти",
+    many: "{name} · {count} студентів",
+    other: "{name} · {count} студента",
+  },
+  "form.roomOption": {
+    one: "{name} · {count} місце · {type}",
+    few: "{name} · {count} місця · {type}",
+    many: "{name} · {count} місць · {type}",
+    other: "{name} · {count} місця · {type}",
+  },
+  "form.roomTooSmall": "(замала)",
+  "form.notInCatalog": "«{name}» немає в довіднику",
+  "form.seatsShort": {
+    one: "Для цієї групи бракує місця {count} студентові",
+    few: "Для цієї групи бракує місць {count} студентам",
+    many: "Для цієї групи бракує місць {count} студентам",
+    other: "Для цієї групи бракує місць {count} студента",
+  },
+  "form.showSmallRooms": "Показувати замалі аудиторії",
+  "form.dayOfWeek": "День тижня",
+  "form.time": "Час",
+  "form.saveChanges": "Зберегти зміни",
+  "form.addToSchedule": "Додати заняття до розкладу",
+  "form.cancelEditing": "Скасувати редагування",
+
+  "schedules.title": "Наявні розклади",
+  "schedules.empty": "Розкладів ще немає. Створіть перший!",
+  "schedules.emptyStatus": "Немає розкладів зі статусом «{status}».",
+  "schedules.id": "ID:",
+  "schedules.created": "Створено:",
+  "schedules.classes": "Занять:",
+  "schedules.brokenConstraints": {
+    one: "Порушує {count} обмеження",
+    few: "Порушує {count} обмеження",
+    many: "Порушує {count} обмежень",
+    other: "Порушує {count} обмеження",
+  },
+  "schedules.optimize": "Оптимізувати розклад",
+  "schedules.publish": "Опублікувати розклад",
+  "schedules.archive": "Архівувати розклад",
+  "schedules.checkConflicts": "Перевірити конфлікти",
+  "schedules.delete": "Видалити розклад",
+
+  "timetable.title": "Тижневий розклад: {name}",
+  "timetable.clearMarkers": "Прибрати позначки конфліктів",
+  "timetable.undo": "Скасувати останню зміну",
+  "timetable.empty": "У цьому розкладі ще немає занять.",
+  "timetable.roomCapacity": "Місткість аудиторій",
+  "timetable.export": "Експорт",
+  "timetable.classes": "Заняття",
+  "timetable.versions": "Історія версій",
+
+  "statusTimeline.title": "Історія статусів",
+  "statusTimeline.empty": "У нещодавніх подіях немає змін статусу.",
+
+  "stats.totalSchedules": "Усього розкладів",
+  "stats.totalOptimizations": "Усього оптимізацій",
+  "stats.conflictsDetected": "Виявлено конфліктів",
+  "stats.totalUpdates": "Усього оновлень",
+  "stats.averageOptimizationTime": "Середній час оптимізації",
+  "stats.lastUpdated": "Останнє оновлення",
+  "stats.seconds": "{value} с",
+
+  "conflicts.checkTitle": "Перевірка конфліктів у «{name}»",
+
+  "offline.createLabel": "Новий розклад «{name}»",
+  "offline.deleteLabel": "Видалення «{name}»",
+
+  "confirm.discardPending": "Відкинути цю офлайн-зміну? Її не буде надіслано на сервер.",
+  "confirm.deleteEntries": {
+    one: "Видалити {count} заняття з «{name}»?",
+    few: "Видалити {count} заняття з «{name}»?",
+    many: "Видалити {count} занять з «{name}»?",
+    other: "Видалити {count} заняття з «{name}»?",
+  },
+  "confirm.deleteSchedule": "Видалити «{name}»? Цю дію не можна скасувати.",
+  "confirm.deleteConstraint": "Видалити обмеження для «{name}»?",
+  "confirm.publish": "Опублікувати «{name}»? Опубліковані розклади більше не редагуються.",
+  "confirm.archive": "Архівувати «{name}»? Його викладачі, групи та аудиторії звільняться для інших розкладів.",
+
+  "notify.optimizationCompleted":
+    "Оптимізацію «{name}» завершено: прибрано вікон — {windows}, розв'язано конфліктів — {conflicts}",
+  "notify.optimizationFailed": "Оптимізація розкладу #{id} не вдалася: {message}",
+  "notify.remoteOptimizationCompleted": "Оптимізацію «{name}» завершено: {message}",
+  "notify.remoteOptimizationFailed": "Оптимізація «{name}» не вдалася: {message}",
+  "notify.optimizationStarted": "Розпочато оптимізацію розкладу #{id}",
+  "notify.catalogAdded": "«{name}» додано до довідника",
+  "notify.constraintAdded": "Додано обмеження для «{name}»",
+  "notify.constraintUpdated": "Оновлено обмеження для «{name}»",
+  "notify.constraintDeleted": "Видалено обмеження для «{name}»",
+  "notify.classUpdated": "Оновлено {subject} у розкладі: {name}",
+  "notify.classAdded": "Додано заняття до розкладу: {name}",
+  "notify.scheduleCreated": "Створено розклад: {name}",
+  "notify.createdWithImport": {
+    one: "Створено розклад {name} з {count} імпортованим заняттям",
+    few: "Створено розклад {name} з {count} імпортованими заняттями",
+    many: "Створено розклад {name} з {count} імпортованими заняттями",
+    other: "Створено розклад {name} з {count} імпортованого заняття",
+  },
+  "notify.imported": {
+    one: "Імпортовано {count} заняття до {name}",
+    few: "Імпортовано {count} заняття до {name}",
+    many: "Імпортовано {count} занять до {name}",
+    other: "Імпортовано {count} заняття до {name}",
+  },
+  "notify.savedOffline": "Збережено офлайн: {message}",
+  "notify.synced": {
+    one: "Синхронізовано {count} офлайн-зміну",
+    few: "Синхронізовано {count} офлайн-зміни",
+    many: "Синхронізовано {count} офлайн-змін",
+    other: "Синхронізовано {count} офлайн-зміни",
+  },
+  "notify.moved": "{subject} перенесено на {day} {start}-{end}",
+  "notify.entriesRemoved": {
+    one: "Видалено {count} заняття з розкладу: {name}",
+    few: "Видалено {count} заняття з розкладу: {name}",
+    many: "Видалено {count} занять з розкладу: {name}",
+    other: "Видалено {count} заняття з розкладу: {name}",
+  },
+  "notify.undid": "Скасовано: {label}",
+  "notify.versionRestored": "«{name}» відновлено до версії від {time}",
+  "notify.conflictReport": {
+    one: "{title}: {count} конфлікт, див. інспектор конфліктів",
+    few: "{title}: {count} конфлікти, див. інспектор конфліктів",
+    many: "{title}: {count} конфліктів, див. інспектор конфліктів",
+    other: "{title}: {count} конфлікту, див. інспектор конфліктів",
+  },
+  "notify.noConflicts": "У розкладі #{id} конфліктів не знайдено",
+  "notify.scheduleDeleted": "Розклад #{id} видалено",
+  "notify.statusChanged": "Розклад «{name}» тепер має статус «{status}»",
+
+  "error.loadSchedules": "Не вдалося завантажити розклади",
+  "error.loadCatalog": "Не вдалося завантажити довідник",
+  "error.loadStatistics": "Не вдалося завантажити статистику",
+  "error.catalogAdd": "Не вдалося додати «{name}» до довідника",
+  "error.loadConstraints": "Не вдалося завантажити обмеження",
+  "error.saveConstraint": "Не вдалося зберегти обмеження для «{name}»",
+  "error.deleteConstraint": "Не вдалося видалити обмеження для «{name}»",
+  "error.locked": "«{name}» має статус «{status}» і більше не редагується",
+  "error.subjectRequired": "Потрібно обрати предмет",
+  "error.pickRecords": "Оберіть викладача, групу та аудиторію з довідника",
+  "error.roomTooSmall": "{room}: місць — {capacity}, а в групі {group} студентів — {students}",
+  "error.endBeforeStart": "Час закінчення має бути пізніше за час початку",
+  "error.scheduleNotFound": "Обраний розклад не знайдено",
+  "error.updateClass": "Не вдалося оновити заняття",
+  "error.addClass": "Не вдалося додати заняття до розкладу",
+  "error.createSchedule": "Не вдалося створити розклад «{name}»",
+  "error.syncFailed": "Синхронізація не вдалася",
+  "error.sync": "Не вдалося синхронізувати: {label}",
+  "error.import": "Не вдалося імпортувати заняття до «{name}»",
+  "error.reschedule": "Не вдалося перенести заняття",
+  "error.removeClasses": "Не вдалося видалити заняття",
+  "error.undoMissing": "Неможливо скасувати: розкладу більше не існує",
+  "error.undo": "Не вдалося скасувати останню зміну",
+  "error.restoreVersion": "Не вдалося відновити версію «{name}»",
+  "error.startOptimization": "Не вдалося розпочати оптимізацію",
+  "error.checkConflicts": "Не вдалося перевірити конфлікти",
+  "error.deleteSchedule": "Не вдалося видалити",
+  "error.publish": "Не вдалося опублікувати «{name}»",
+  "error.archive": "Не вдалося архівувати «{name}»",
+
+  "sync.online": "Онлайн",
+  "sync.offline": "Офлайн",
+  "sync.onlineTitle": "ScheduleService доступний",
+  "sync.offlineTitle": "Зміни зберігаються в цьому браузері й будуть надіслані, щойно сервіси знову стануть доступні",
+  "sync.pending": {
+    one: "{count} зміна очікує",
+    few: "{count} зміни очікують",
+    many: "{count} змін очікують",
+    other: "{count} зміни очікують",
+  },
+  "sync.failed": "(з помилкою: {count})",
+  "sync.waiting": "Очікують синхронізації",
+  "sync.syncNow": "Синхронізувати",
+  "sync.discard": "Відкинути цю зміну",
+  "sync.kindCreate": "Створення",
+  "sync.kindUpdate": "Редагування",
+  "sync.kindDelete": "Видалення",
+
+  "syncConflict.title": "Розклад змінився, поки ви були офлайн",
+  "syncConflict.changed": "«{name}» змінили на сервері після того, як ви почали редагувати його офлайн.",
+  "syncConflict.deleted": "«{name}» видалили на сервері, поки ви редагували його офлайн.",
+  "syncConflict.mine": "Ваші зміни",
+  "syncConflict.mineDelete": "Ваша зміна: видалення",
+  "syncConflict.server": "Зміни на сервері",
+  "syncConflict.noChanges": "Заняття не змінено",
+  "syncConflict.renamed": "На сервері перейменовано на «{name}».",
+  "syncConflict.statusChanged": "Статус на сервері: {from} → {to}.",
+  "syncConflict.keepServer": "Залишити версію сервера",
+  "syncConflict.discardMine": "Відкинути мої зміни",
+  "syncConflict.merge": "Об'єднати обидві",
+  "syncConflict.keepMine": "Залишити мою",
+  "syncConflict.deleteAnyway": "Усе одно видалити",
+  "syncConflict.recreate": "Створити розклад знову",
+
+
+  "notifications.title": "Сповіщення",
+  "notifications.markAllRead": "Позначити всі прочитаними",
+  "notifications.clear": "Очистити",
+  "notifications.optimized": "Оптимізація",
+  "notifications.updated": "Оновлення",
+  "notifications.conflict": "Конфлікт",
+  "notifications.error": "Помилка",
+  "notifications.allSources": "Усі джерела",
+  "notifications.thisBrowser": "Цей браузер",
+  "notifications.serverSource": "NotificationService",
+  "notifications.unreadOnly": "Лише непрочитані",
+  "notifications.waiting": "Очікування подій...",
+  "notifications.noMatches": "Жодне сповіщення не відповідає фільтрам",
+  "notifications.unread": "Непрочитане",
+  "notifications.server": "сервер",
+  "notifications.dismiss": "Закрити",
+
+  "weekly.wholeSchedule": "Увесь розклад",
+  "weekly.byGroup": "За групою",
+  "weekly.byTeacher": "За викладачем",
+  "weekly.byRoom": "За аудиторією",
+  "weekly.anyGroup": "-- Будь-яка група --",
+  "weekly.anyTeacher": "-- Будь-який викладач --",
+  "weekly.anyRoom": "-- Будь-яка аудиторія --",
+  "weekly.dragHint": "Перетягніть заняття, щоб перенести його, або нижній край, щоб змінити час закінчення",
+  "weekly.showing": "Показано {visible} з {total} занять",
+
+
+  "entries.selectAll": "Обрати всі",
+  "entries.deleteSelected": "Видалити обрані ({count})",
+  "entries.day": "День",
+  "entries.edit": "Редагувати заняття",
+  "entries.delete": "Видалити заняття",
+
+  "personal.linkCopied": "Посилання скопійовано",
+  "personal.copyFailed": "Не вдалося скопіювати",
+  "personal.copyLink": "Копіювати посилання",
+  "personal.selectTeacher": "-- Оберіть викладача --",
+  "personal.selectGroup": "-- Оберіть групу --",
+  "personal.selectRoom": "-- Оберіть аудиторію --",
+  "personal.includeArchived": "Враховувати архівні розклади",
+  "personal.prompt": "Оберіть викладача, групу чи аудиторію, щоб побачити їхні заняття з усіх розкладів в одному тижні.",
+  "personal.empty": "У завантажених розкладах немає занять для {name}.",
+  "personal.classes": {
+    one: "{count} заняття",
+    few: "{count} заняття",
+    many: "{count} занять",
+    other: "{count} заняття",
+  },
+  "personal.hours": "{hours} год на тиждень",
+  "personal.schedules": {
+    one: "{count} розклад",
+    few: "{count} розклади",
+    many: "{count} розкладів",
+    other: "{count} розкладу",
+  },
+  "personal.overlapping": {
+    one: "{count} заняття накладається",
+    few: "{count} заняття накладаються",
+    many: "{count} занять накладаються",
+    other: "{count} заняття накладаються",
+  },
+  "personal.participants": "Викладач · Група · Аудиторія",
+  "personal.schedule": "Розклад",
+  "personal.overlaps": "Накладається на {subject} у «{schedule}», {day} {time}",
+
+
+  "catalog.teachers": "Викладачі",
+  "catalog.groups": "Групи",
+  "catalog.rooms": "Аудиторії",
+  "catalog.subjects": "Предмети",
+  "catalog.newTeacher": "Новий викладач",
+  "catalog.newGroup": "Нова група",
+  "catalog.newRoom": "Нова аудиторія",
+  "catalog.newSubject": "Новий предмет",
+  "catalog.searchTeachers": "Пошук викладачів...",
+  "catalog.searchGroups": "Пошук груп...",
+  "catalog.searchRooms": "Пошук аудиторій...",
+  "catalog.searchSubjects": "Пошук предметів...",
+  "catalog.field.name": "Назва",
+  "catalog.field.department": "Кафедра",
+  "catalog.field.email": "Ел. пошта",
+  "catalog.field.year": "Курс",
+  "catalog.field.students": "Студентів",
+  "catalog.field.capacity": "Місткість",
+  "catalog.field.type": "Тип",
+  "catalog.field.credits": "Кредити",
+  "catalog.field.description": "Опис",
+  "catalog.empty": "У довіднику ще нічого немає",
+  "catalog.noMatches": "Жоден запис не відповідає пошуку",
+  "catalog.add": "Додати до довідника",
+  "catalog.required": "Поле «{field}» обов'язкове",
+  "catalog.wholeNumber": "«{field}» має бути цілим числом, не меншим за {min}",
+  "catalog.invalidEmail": "Введіть коректну адресу ел. пошти",
+  "catalog.exists": "{kind} «{name}» вже існує",
+
+  "common.close": "Закрити",
+
+  "clashes.title": "Це заняття буде відхилено під час збереження",
+  "clashes.busyWith": "зайнято: {subject}, {day} {time}",
+  "clashes.inSchedule": "у розкладі «{name}»",
+  "clashes.nearestSlots": "Найближчі вільні проміжки:",
+  "clashes.noSlots": "Між 08:00 і 20:00 немає вільного проміжку такої тривалості",
+
+  "capacity.allFit": "Усі групи вміщаються у свої аудиторії",
+  "capacity.issues": {
+    one: "{count} заняття проходить в аудиторії, замалій для групи",
+    few: "{count} заняття проходять в аудиторіях, замалих для групи",
+    many: "{count} занять проходять в аудиторіях, замалих для групи",
+    other: "{count} заняття проходять в аудиторіях, замалих для групи",
+  },
+  "capacity.groupInRoom": "{group} в {room}",
+  "capacity.seats": "{students}/{capacity} місць",
+
+  "inspector.title": "Інспектор конфліктів",
+  "inspector.teacher": "Конфлікти викладачів",
+  "inspector.group": "Конфлікти груп",
+  "inspector.room": "Конфлікти аудиторій",
+  "inspector.other": "Інше",
+  "inspector.constraint": "Порушення обмежень",
+  "inspector.summary": {
+    one: "{count} конфлікт. Натисніть на нього, щоб підсвітити пов'язані заняття.",
+    few: "{count} конфлікти. Натисніть на конфлікт, щоб підсвітити пов'язані заняття.",
+    many: "{count} конфліктів. Натисніть на конфлікт, щоб підсвітити пов'язані заняття.",
+    other: "{count} конфлікту. Натисніть на конфлікт, щоб підсвітити пов'язані заняття.",
+  },
+  "inspector.withSchedule": "з розкладом «{name}»",
+  "inspector.affected": {
+    one: "Зачеплено {count} заняття",
+    few: "Зачеплено {count} заняття",
+    many: "Зачеплено {count} занять",
+    other: "Зачеплено {count} заняття",
+  },
+  "inspector.reported": "повідомлено {count}×",
+  "inspector.violations": {
+    one: "{count} порушення обмежень",
+    few: "{count} порушення обмежень",
+    many: "{count} порушень обмежень",
+    other: "{count} порушення обмежень",
+  },
+
+
+  "eventLog.count": "{visible} з {total} подій",
+  "eventLog.scheduleId": "ID розкладу",
+  "eventLog.from": "Від",
+  "eventLog.to": "До",
+  "eventLog.search": "Пошук у подробицях...",
+  "eventLog.reset": "Скинути",
+  "eventLog.empty": "Подій ще не зафіксовано",
+  "eventLog.noMatches": "Жодна подія не відповідає фільтрам",
+  "eventLog.hidePayload": "Сховати дані",
+  "eventLog.showPayload": "Показати дані",
+  "eventLog.missingSchedule": "Розклад #{id} (більше не існує)",
+  "eventLog.optimizationStarted": "Оптимізацію розпочато: {name}",
+  "eventLog.optimizationInProgress": "Оптимізація триває: {name}",
+  "eventLog.optimizationCompleted": "Оптимізацію завершено: {name}",
+  "eventLog.optimizationFailed": "Оптимізація не вдалася: {name}",
+  "eventLog.optimizationResult": "прибрано вікон — {windows}, розв'язано конфліктів — {conflicts}",
+  "eventLog.by": "автор: {user}",
+  "eventLog.conflicts": "Конфлікти: {type}",
+
+
+  "analytics.title": "Детальний аналіз розкладу",
+  "analytics.reported": "За даними AnalyticsService",
+  "analytics.computed": "Обчислено з розкладу",
+  "analytics.windows": "Вікна",
+  "analytics.conflicts": "Конфлікти",
+  "analytics.loadBalance": "Сер. баланс навантаження",
+  "analytics.optimizations": "Оптимізації",
+  "analytics.noMetrics": "Метрик ще немає: AnalyticsService враховує розклад після його оптимізації.",
+  "analytics.classes": "Заняття",
+  "analytics.hoursPerWeek": "Годин на тиждень",
+  "analytics.hoursPerTeacher": "Години викладачів",
+  "analytics.hoursUnit": "год",
+  "analytics.roomUtilization": "Завантаженість аудиторій (08:00–20:00, {week})",
+  "analytics.groupLoad": "Години груп за днями",
+  "analytics.total": "Усього",
+  "analytics.heatmap": "Теплова карта вікон (хвилини простою між заняттями)",
+  "analytics.minutes": "{minutes} хв",
+
+  "comparison.title": "Порівняння розкладів",
+  "comparison.difference": "Різниця",
+  "comparison.roomUtilization": "Сер. завантаженість аудиторій, %",
+  "comparison.loadBalance": "Сер. баланс навантаження, % (сервер)",
+  "comparison.optimizations": "Оптимізації (сервер)",
+
+
+  "common.cancel": "Скасувати",
+
+  "activity.title": "Динаміка активності",
+  "activity.range15m": "15 хв",
+  "activity.range1h": "1 година",
+  "activity.range6h": "6 годин",
+  "activity.range24h": "24 години",
+  "activity.resume": "Продовжити",
+  "activity.pause": "Пауза",
+  "activity.clear": "Очистити історію",
+  "activity.pausedHint": "Опитування призупинено; графіки показують уже зібрані дані.",
+  "activity.empty": "Даних ще не зібрано",
+  "activity.totals": "Підсумки з часом",
+  "activity.optimizations": "Оптимізації",
+  "activity.conflictsDetected": "Виявлені конфлікти",
+  "activity.updates": "Оновлення",
+  "activity.eventsPerInterval": "Події за інтервал",
+  "activity.averageTime": "Середній час оптимізації",
+  "activity.averageTimeSeries": "Сер. час оптимізації",
+  "activity.optimized": "Оптимізовано",
+  "activity.updated": "Оновлено",
+  "activity.conflict": "Конфлікт",
+  "activity.max": "макс. {value}",
+  "activity.eventsUnit": "подій",
+  "activity.secondsUnit": "с",
+
+  "progress.requested": "Запит",
+  "progress.started": "Розпочато",
+  "progress.inProgress": "Виконується",
+  "progress.completed": "Завершено",
+  "progress.failed": "Оптимізація не вдалася",
+  "progress.done": "Оптимізацію завершено",
+  "progress.running": "Оптимізація...",
+  "progress.dismiss": "Закрити",
+  "progress.windowsReduced": "Вікон прибрано",
+  "progress.conflictsResolved": "Конфліктів усунено",
+  "progress.loadBalance": "Баланс навантаження",
+  "progress.before": "До",
+  "progress.after": "Після",
+
+  "optimize.title": "Оптимізація розкладу",
+  "optimize.minimizeWindows": "Мінімізувати вікна",
+  "optimize.minimizeWindowsHint": "Прибрати перерви між послідовними заняттями",
+  "optimize.balanceLoad": "Збалансувати навантаження",
+  "optimize.balanceLoadHint": "Рівномірно розподілити заняття протягом тижня",
+  "optimize.resolveConflicts": "Усунути конфлікти",
+  "optimize.resolveConflictsHint": "Виправити накладки викладачів, груп і аудиторій",
+  "optimize.maxIterations": "Максимум ітерацій",
+  "optimize.nothingSelected": "Оберіть хоча б один критерій",
+  "optimize.invalidIterations": "Максимум ітерацій має бути додатним цілим числом",
+  "optimize.run": "Запустити оптимізацію",
+  "optimize.constraints": {
+    one: "Оптимізатор враховуватиме {count} обмеження з довідника.",
+    few: "Оптимізатор враховуватиме {count} обмеження з довідника.",
+    many: "Оптимізатор враховуватиме {count} обмежень з довідника.",
+    other: "Оптимізатор враховуватиме {count} обмеження з довідника.",
+  },
+  "optimize.noConstraints": "Обмежень не задано; їх можна додати в довіднику.",
+
+
+  "export.allClasses": "Усі заняття",
+  "export.noClasses": "Занять немає.",
+  "export.calendarPer": "Окремий календар для",
+  "export.firstWeek": "Перший тиждень",
+  "export.weeks": "Тижнів (0 = без кінця)",
+  "export.allCalendars": {
+    one: "{count} календар",
+    few: "{count} календарі",
+    many: "{count} календарів",
+    other: "{count} календаря",
+  },
+  "export.downloadOne": "Завантажити календар: {value}",
+  "export.wholeSchedule": "Увесь розклад",
+  "export.print": "Друк / зберегти як PDF",
+
+  "import.title": "Імпорт занять",
+  "import.stepData": "1. Дані",
+  "import.stepColumns": "2. Стовпці",
+  "import.stepPreview": "3. Перегляд",
+  "import.matched": "Збіг",
+  "import.newNames": "Нові назви",
+  "import.broken": "Помилки",
+  "import.column": "Стовпець {n}",
+  "import.sourceHint": "Оберіть CSV-файл або вставте клітинки, скопійовані з таблиці. Розпізнаються дані, розділені комами, крапками з комою та табуляцією.",
+  "import.hasHeader": "Перший рядок — заголовок",
+  "import.rows": {
+    one: "{count} рядок",
+    few: "{count} рядки",
+    many: "{count} рядків",
+    other: "{count} рядка",
+  },
+  "import.columns": {
+    one: "{count} стовпець",
+    few: "{count} стовпці",
+    many: "{count} стовпців",
+    other: "{count} стовпця",
+  },
+  "import.next": "Далі",
+  "import.back": "Назад",
+  "import.notMappedOption": "-- не вибрано --",
+  "import.into": "Імпортувати в",
+  "import.newSchedule": "-- Новий розклад --",
+  "import.scheduleName": "Назва розкладу",
+  "import.row": "Рядок",
+  "import.status": "Стан",
+  "import.class": "Заняття",
+  "import.notes": "Примітки",
+  "import.notInCatalog": "Немає в довіднику: {names}",
+  "import.importing": "Імпорт...",
+  "import.submit": {
+    one: "Імпортувати {count} заняття",
+    few: "Імпортувати {count} заняття",
+    many: "Імпортувати {count} занять",
+    other: "Імпортувати {count} заняття",
+  },
+  "import.brokenSkipped": "Рядки з помилками буде пропущено.",
+  "import.start": "Початок",
+  "import.end": "Кінець",
+  "import.notMapped": "Стовпець «{field}» не вибрано",
+  "import.empty": "Поле «{field}» порожнє",
+  "import.unknownDay": "Невідомий день «{value}»",
+  "import.invalidStart": "Неправильний час початку «{value}»",
+  "import.invalidEnd": "Неправильний час завершення «{value}»",
+  "import.unknownName": "{kind} «{name}»",
+  "import.capacity": "Аудиторія {room} вміщує {capacity}, а в групі {group} {students} студентів",
+  "import.inSchedule": "у розкладі «{name}»",
+  "import.inEarlierRow": "у попередньому рядку",
+  "import.inThisSchedule": "у цьому розкладі",
+  "import.busy": "{kind} «{name}» зайнятий {where}: {subject}",
+
+  "progress.waiting": "Очікування відповіді OptimizationService...",
+  "progress.timedOut": "OptimizationService не надіслав результат",
+
+
+  "app.highContrast": "Висококонтрастна тема",
+  "tabs.label": "Розділи",
+  "confirm.discard": "Відкинути",
+  "confirm.delete": "Видалити",
+  "confirm.publishAction": "Опублікувати",
+  "confirm.archiveAction": "Архівувати",
+  "confirm.deleteEntriesTitle": {
+    one: "Видалення заняття",
+    few: "Видалення занять",
+    many: "Видалення занять",
+    other: "Видалення занять",
+  },
+
+  "a11y.scheduleSelected": "Вибрано розклад {name}",
+  "a11y.noScheduleSelected": "Спершу виберіть розклад",
+  "a11y.contrastOn": "Висококонтрастну тему увімкнено",
+  "a11y.contrastOff": "Висококонтрастну тему вимкнено",
+  "a11y.scheduleAction": "{action}: {name}",
+
+  "shortcuts.title": "Клавіатурні скорочення",
+  "shortcuts.newClass": "Додати нове заняття",
+  "shortcuts.nextSchedule": "Наступний розклад",
+  "shortcuts.previousSchedule": "Попередній розклад",
+  "shortcuts.checkConflicts": "Перевірити вибраний розклад на конфлікти",
+  "shortcuts.undo": "Скасувати останню зміну",
+  "shortcuts.toggleContrast": "Увімкнути або вимкнути високий контраст",
+  "shortcuts.help": "Показати цей список",
+  "shortcuts.singleKeys": "Скорочення однією клавішею",
+  "shortcuts.singleKeysHint": "Вимкніть їх, якщо користуєтеся голосовим введенням або випадково натискаєте клавіші. Цей список завжди доступний за кнопкою з клавіатурою вгорі.",
+  "shortcuts.timetable": "На занятті в тижневому розкладі",
+  "shortcuts.editClass": "Редагувати заняття",
+  "shortcuts.moveTime": "Перенести на 15 хвилин раніше або пізніше",
+  "shortcuts.moveDay": "Перенести на попередній або наступний день",
+  "shortcuts.resize": "Скоротити або подовжити на 15 хвилин",
+
+  "weekly.label": "Тижневий розклад",
+  "weekly.filter": "Фільтр розкладу",
+  "weekly.keysHint": "Enter — редагувати. Alt зі стрілками переносить заняття; Alt і Shift зі стрілками вгору чи вниз змінюють його тривалість.",
+  "notifications.source": "Джерело",
+  "notifications.unreadCount": {
+    one: "{count} непрочитане сповіщення",
+    few: "{count} непрочитані сповіщення",
+    many: "{count} непрочитаних сповіщень",
+    other: "{count} непрочитаного сповіщення",
+  },
+  "entries.select": "Вибрати {subject}, {day} {time}",
+  "entries.selection": "Вибір",
+  "entries.actions": "Дії",
+  "activity.range": "Період",
+  "progress.label": "Хід оптимізації",
+
+  "versions.empty": "Версій ще немає. Знімок робиться перед кожною зміною та до й після кожної оптимізації.",
+  "versions.timeline": "Версії",
+  "versions.reasonEdit": "Перед редагуванням",
+  "versions.reasonStatus": "Перед зміною статусу",
+  "versions.reasonBeforeOptimization": "Перед оптимізацією",
+  "versions.reasonAfterOptimization": "Після оптимізації",
+  "versions.optimizationLabel": "Запит на оптимізацію",
+  "versions.classes": {
+    one: "{count} заняття",
+    few: "{count} заняття",
+    many: "{count} занять",
+    other: "{count} заняття",
+  },
+  "versions.compare": "Порівняти",
+  "versions.compareWithCurrent": "Порівняти з поточним розкладом",
+  "versions.restore": "Відновити",
+  "versions.from": "Старіша",
+  "versions.to": "Новіша",
+  "versions.current": "Поточний розклад",
+  "versions.changes": "Зміни",
+  "versions.noChanges": "Обидві версії мають однакові заняття.",
+  "versions.added": "Додано",
+  "versions.removed": "Видалено",
+  "versions.moved": "Перенесено",
+
+  "constraints.title": "Обмеження",
+  "constraints.hint": "Правила доступності та навантаження для викладачів, груп і аудиторій. Вони перевіряються під час кожної перевірки конфліктів і надсилаються з кожним запуском оптимізації.",
+  "constraints.empty": "Обмежень ще немає",
+  "constraints.unavailable": "Недоступний",
+  "constraints.maxDailyHours": "Максимум годин на день",
+  "constraints.preferredTime": "Бажаний час",
+  "constraints.maxHoursValue": "не більше {hours} год на день",
+  "constraints.everyDay": "Щодня",
+  "constraints.allDay": "увесь день",
+  "constraints.brokenIn": "Порушено в: {names}",
+  "constraints.kept": "Дотримано в усіх активних розкладах",
+  "constraints.count": {
+    one: "{count} обмеження",
+    few: "{count} обмеження",
+    many: "{count} обмежень",
+    other: "{count} обмеження",
+  },
+  "constraints.new": "Нове обмеження",
+  "constraints.editing": "Редагування обмеження",
+  "constraints.edit": "Редагувати обмеження",
+  "constraints.delete": "Видалити обмеження",
+  "constraints.target": "Для кого",
+  "constraints.name": "Назва",
+  "constraints.pick": "Оберіть…",
+  "constraints.kind": "Правило",
+  "constraints.maxHours": "Максимум годин",
+  "constraints.day": "День",
+  "constraints.from": "З",
+  "constraints.to": "До",
+  "constraints.timesOptional": "Залиште час порожнім, щоб заблокувати весь день.",
+  "constraints.add": "Додати обмеження",
+  "constraints.save": "Зберегти зміни",
+  "constraints.nameRequired": "Оберіть викладача, групу чи аудиторію",
+  "constraints.bothTimes": "Вкажіть і початок, і кінець",
+  "constraints.endAfterStart": "Кінець має бути пізніше за початок",
+  "constraints.unavailableNeedsSlot": "Оберіть день, проміжок часу або обидва",
+  "constraints.maxHoursPositive": "Кількість годин має бути більшою за нуль",
+  "constraints.preferredNeedsTime": "Вкажіть бажаний проміжок часу",
+};
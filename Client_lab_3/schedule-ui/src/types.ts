@@ -0,0 +1,171 @@
+export type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+export type ScheduleStatus = 0 | 1 | 2 | 3 | 4;
+export type NotificationType = "optimized" | "updated" | "conflict" | "error";
+
+export interface ScheduleEntry {
+  subject: string;
+  teacher: string;
+  group: string;
+  room: string;
+  dayOfWeek: DayOfWeek;
+  startTime: string;
+  endTime: string;
+}
+
+export interface Schedule {
+  id: number;
+  name: string;
+  status: ScheduleStatus;
+  createdAt: string;
+  lastOptimizedAt?: string | null;
+  entries: ScheduleEntry[];
+}
+
+export interface UiNotification {
+  id: string;
+  type: NotificationType;
+  message: string;
+  /** "YYYY-MM-DDTHH:mm:ss" without a zone, like the services' timestamps */
+  time: string;
+  read: boolean;
+  scheduleId: number | null;
+  /** How many identical notifications were folded into this one */
+  count: number;
+  /** "server" for entries from NotificationService's schedule_notifications.txt */
+  source: "app" | "server";
+}
+
+/** One entry of schedule_notifications.txt as parsed by NotificationService */
+export interface ServerNotification {
+  /** Position in the file, 1-based */
+  id: number;
+  savedAt: string;
+  title: string;
+  /** 0 when the event is not tied to a stored schedule */
+  scheduleId: number;
+  /** The "Key: Value" lines of the entry, e.g. "Change Type" → "Created" */
+  fields: Record<string, string>;
+  affectedEntities: string[];
+}
+
+export interface SystemStatistics {
+  totalSchedules: number;
+  totalOptimizations: number;
+  totalConflictsDetected: number;
+  totalUpdates: number;
+  averageOptimizationTime: number;
+  lastUpdated: string;
+}
+
+export interface CatalogItem {
+  id: number;
+  name: string;
+}
+
+export interface Teacher extends CatalogItem {
+  department: string;
+  email: string;
+}
+
+export interface Group extends CatalogItem {
+  year: number;
+  studentsCount: number;
+}
+
+export interface Room extends CatalogItem {
+  capacity: number;
+  type: string;
+}
+
+export interface Subject extends CatalogItem {
+  credits: number;
+  description: string;
+}
+
+/** Keyed by the CatalogService route segment, e.g. /api/catalog/teachers */
+export interface CatalogRecords {
+  teachers: Teacher;
+  groups: Group;
+  rooms: Room;
+  subjects: Subject;
+}
+
+export type CatalogKind = keyof CatalogRecords;
+
+export type Catalog = { [K in CatalogKind]: CatalogRecords[K][] };
+
+export interface ScheduleMetrics {
+  scheduleId: number;
+  totalWindows: number;
+  totalConflicts: number;
+  averageLoadBalance: number;
+  optimizationCount: number;
+  lastCalculated: string;
+}
+
+export interface AnalyticsEvent {
+  type: string;
+  routingKey: string;
+  payload: string;
+  timestamp: string;
+}
+
+export type OptimizationStatus = "Started" | "InProgress" | "Completed" | "Failed";
+
+export interface ScheduleOptimizedEvent {
+  scheduleId: number;
+  scheduleName: string;
+  status: OptimizationStatus;
+  windowsReduced: number;
+  loadBalanceImprovement: number;
+  conflictsResolved: number;
+  optimizedAt: string;
+  message: string;
+}
+
+export interface ScheduleUpdatedEvent {
+  scheduleId: number;
+  updatedBy: string;
+  changeType: string;
+  details: string;
+  updatedAt: string;
+}
+
+export interface ConflictDetectedEvent {
+  /** 0 when the conflicting schedule was rejected before it got an id */
+  scheduleId: number;
+  conflictType: string;
+  affectedEntities: string[];
+  description: string;
+  detectedAt: string;
+}
+
+export interface OptimizationCriteria {
+  minimizeWindows: boolean;
+  balanceLoad: boolean;
+  resolveConflicts: boolean;
+  maxIterations: number;
+  /** Attached when the run is sent; not part of the criteria remembered per schedule */
+  constraints?: SchedulingConstraint[];
+}
+
+/** SharedModels.ConstraintTarget: Teacher, Group, Room */
+export type ConstraintTarget = 0 | 1 | 2;
+/** SharedModels.ConstraintKind: Unavailable, MaxDailyHours, PreferredTime */
+export type ConstraintKind = 0 | 1 | 2;
+
+/** A rule kept in CatalogService and checked against schedule entries */
+export interface SchedulingConstraint {
+  id: number;
+  target: ConstraintTarget;
+  /** Teacher, group or room name as used in schedule entries */
+  name: string;
+  kind: ConstraintKind;
+  /** Null means every day */
+  dayOfWeek: DayOfWeek | null;
+  /** "HH:mm:ss"; both null for a whole-day unavailability */
+  startTime: string | null;
+  endTime: string | null;
+  /** Only for MaxDailyHours */
+  maxHours: number | null;
+}
@@ -0,0 +1,113 @@
+import type { AnalyticsEvent, SystemStatistics } from "../types";
+import { eventKey } from "../api/events";
+import { loadJson, saveJson } from "./storage";
+import type { TextKey } from "./i18n";
+
+const HISTORY_STORAGE_KEY = "schedule-ui.activityHistory";
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_SAMPLES = 5000;
+const MAX_EVENTS = 2000;
+// Unchanged counters are still sampled this often so flat periods show up on the charts
+const HEARTBEAT_MS = 60_000;
+
+export interface StatsSample {
+  /** Client clock, ms */
+  at: number;
+  totalOptimizations: number;
+  totalConflictsDetected: number;
+  totalUpdates: number;
+  averageOptimizationTime: number;
+}
+
+export interface ActivityMark {
+  key: string;
+  routingKey: string;
+  /** Client clock, ms; see mergeEvents */
+  at: number;
+}
+
+export interface ActivityHistory {
+  samples: StatsSample[];
+  events: ActivityMark[];
+}
+
+export interface TimeRange {
+  label: TextKey;
+  /** null shows everything kept */
+  ms: number | null;
+}
+
+export const timeRanges: TimeRange[] = [
+  { label: "activity.range15m", ms: 15 * 60 * 1000 },
+  { label: "activity.range1h", ms: 60 * 60 * 1000 },
+  { label: "activity.range6h", ms: 6 * 60 * 60 * 1000 },
+  { label: "activity.range24h", ms: 24 * 60 * 60 * 1000 },
+  { label: "common.all", ms: null },
+];
+
+const prune = (history: ActivityHistory, now: number): ActivityHistory => ({
+  samples: history.samples.filter(sample => now - sample.at <= MAX_AGE_MS).slice(-MAX_SAMPLES),
+  events: history.events.filter(mark => now - mark.at <= MAX_AGE_MS).slice(-MAX_EVENTS),
+});
+
+export const loadHistory = (): ActivityHistory =>
+  prune({ samples: [], events: [], ...loadJson<Partial<ActivityHistory>>(HISTORY_STORAGE_KEY, {}) }, Date.now());
+
+export const saveHistory = (history: ActivityHistory): void => saveJson(HISTORY_STORAGE_KEY, history);
+
+export const appendSample = (history: ActivityHistory, stats: SystemStatistics, now: number): ActivityHistory => {
+  const sample: StatsSample = {
+    at: now,
+    totalOptimizations: stats.totalOptimizations,
+    totalConflictsDetected: stats.totalConflictsDetected,
+    totalUpdates: stats.totalUpdates,
+    averageOptimizationTime: stats.averageOptimizationTime,
+  };
+  const last = history.samples[history.samples.length - 1];
+  const unchanged = last &&
+    last.totalOptimizations === sample.totalOptimizations &&
+    last.totalConflictsDetected === sample.totalConflictsDetected &&
+    last.totalUpdates === sample.totalUpdates &&
+    last.averageOptimizationTime === sample.averageOptimizationTime;
+  if (unchanged && now - last.at < HEARTBEAT_MS) return history;
+  return prune({ ...history, samples: [...history.samples, sample] }, now);
+};
+
+/**
+ * Adds events not seen before. Server timestamps are in the services' local time,
+ * so they are only used relative to each other: the batch is anchored on its newest
+ * already-known event, or on its newest event taken as "now" when none is known.
+ */
+export const mergeEvents = (history: ActivityHistory, events: AnalyticsEvent[], now: number): ActivityHistory => {
+  const known = new Map(history.events.map(mark => [mark.key, mark]));
+  const parsed = events
+    .map(event => ({ event, key: eventKey(event), serverAt: Date.parse(event.timestamp) }))
+    .filter(item => !Number.isNaN(item.serverAt))
+    .sort((a, b) => b.serverAt - a.serverAt);
+  if (parsed.length === 0 || parsed.every(item => known.has(item.key))) return history;
+
+  const anchor = parsed.find(item => known.has(item.key)) ?? parsed[0];
+  const offset = (known.get(anchor.key)?.at ?? now) - anchor.serverAt;
+  const added = parsed
+    .filter(item => !known.has(item.key))
+    .map(item => ({ key: item.key, routingKey: item.event.routingKey, at: Math.min(now, item.serverAt + offset) }))
+    .reverse();
+
+  return prune({ ...history, events: [...history.events, ...added].sort((a, b) => a.at - b.at) }, now);
+};
+
+export interface EventBucket {
+  start: number;
+  counts: Record<string, number>;
+}
+
+export const bucketEvents = (marks: ActivityMark[], from: number, to: number, buckets: number): EventBucket[] => {
+  const size = Math.max(1, (to - from) / buckets);
+  const result: EventBucket[] = Array.from({ length: buckets }, (_, i) => ({ start: from + i * size, counts: {} }));
+  for (const mark of marks) {
+    if (mark.at < from || mark.at > to) continue;
+    const bucket = result[Math.min(buckets - 1, Math.floor((mark.at - from) / size))];
+    bucket.counts[mark.routingKey] = (bucket.counts[mark.routingKey] ?? 0) + 1;
+  }
+  return result;
+};
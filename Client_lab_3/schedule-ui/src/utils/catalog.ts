@@ -0,0 +1,104 @@
+import type { Catalog, CatalogItem, CatalogKind } from "../types";
+import type { NewCatalogRecord } from "../api/client";
+import { t, type TextKey } from "./i18n";
+
+export interface CatalogField {
+  key: string;
+  label: TextKey;
+  type: "text" | "email" | "number";
+  required: boolean;
+  /** Lower bound for number fields */
+  min?: number;
+}
+
+export type CatalogDraft = Record<string, string>;
+
+export const emptyCatalog: Catalog = { teachers: [], groups: [], rooms: [], subjects: [] };
+
+export const catalogLabels: Record<CatalogKind, { plural: TextKey; singular: TextKey; create: TextKey; search: TextKey }> = {
+  teachers: { plural: "catalog.teachers", singular: "kind.teacher", create: "catalog.newTeacher", search: "catalog.searchTeachers" },
+  groups: { plural: "catalog.groups", singular: "kind.group", create: "catalog.newGroup", search: "catalog.searchGroups" },
+  rooms: { plural: "catalog.rooms", singular: "kind.room", create: "catalog.newRoom", search: "catalog.searchRooms" },
+  subjects: { plural: "catalog.subjects", singular: "kind.subject", create: "catalog.newSubject", search: "catalog.searchSubjects" },
+};
+
+// Mirrors the SharedModels catalog entities; `name` always comes first and is unique per kind
+export const catalogFields: Record<CatalogKind, CatalogField[]> = {
+  teachers: [
+    { key: "name", label: "catalog.field.name", type: "text", required: true },
+    { key: "department", label: "catalog.field.department", type: "text", required: true },
+    { key: "email", label: "catalog.field.email", type: "email", required: false },
+  ],
+  groups: [
+    { key: "name", label: "catalog.field.name", type: "text", required: true },
+    { key: "year", label: "catalog.field.year", type: "number", required: true, min: 1 },
+    { key: "studentsCount", label: "catalog.field.students", type: "number", required: true, min: 1 },
+  ],
+  rooms: [
+    { key: "name", label: "catalog.field.name", type: "text", required: true },
+    { key: "capacity", label: "catalog.field.capacity", type: "number", required: true, min: 1 },
+    { key: "type", label: "catalog.field.type", type: "text", required: true },
+  ],
+  subjects: [
+    { key: "name", label: "catalog.field.name", type: "text", required: true },
+    { key: "credits", label: "catalog.field.credits", type: "number", required: true, min: 1 },
+    { key: "description", label: "catalog.field.description", type: "text", required: false },
+  ],
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const emptyDraft = (kind: CatalogKind): CatalogDraft =>
+  Object.fromEntries(catalogFields[kind].map(field => [field.key, ""]));
+
+/** Returns an error message per invalid field; an empty object means the draft can be sent */
+export const validateDraft = (kind: CatalogKind, draft: CatalogDraft, existing: CatalogItem[]): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  for (const field of catalogFields[kind]) {
+    const value = (draft[field.key] ?? "").trim();
+    if (!value) {
+      if (field.required) errors[field.key] = t("catalog.required", { field: t(field.label) });
+      continue;
+    }
+    if (field.type === "number") {
+      const number = Number(value);
+      if (!Number.isInteger(number) || number < (field.min ?? 0)) {
+        errors[field.key] = t("catalog.wholeNumber", { field: t(field.label), min: field.min ?? 0 });
+      }
+    }
+    if (field.type === "email" && !EMAIL_PATTERN.test(value)) {
+      errors[field.key] = t("catalog.invalidEmail");
+    }
+  }
+  if (!errors.name && findByName(existing, draft.name ?? "")) {
+    errors.name = t("catalog.exists", { kind: t(catalogLabels[kind].singular), name: draft.name.trim() });
+  }
+  return errors;
+};
+
+export const toNewRecord = <K extends CatalogKind>(kind: K, draft: CatalogDraft): NewCatalogRecord<K> =>
+  Object.fromEntries(catalogFields[kind].map(field => {
+    const value = (draft[field.key] ?? "").trim();
+    return [field.key, field.type === "number" ? Number(value) : value];
+  })) as NewCatalogRecord<K>;
+
+export const findByName = <T extends CatalogItem>(items: T[], name: string): T | undefined => {
+  const wanted = name.trim().toLowerCase();
+  return wanted ? items.find(item => item.name.trim().toLowerCase() === wanted) : undefined;
+};
+
+export const findById = <T extends CatalogItem>(items: T[], id: string): T | undefined =>
+  items.find(item => String(item.id) === id);
+
+/** Case-insensitive substring match over every field of the record */
+export const matchesSearch = (record: CatalogItem, query: string): boolean => {
+  const wanted = query.trim().toLowerCase();
+  return !wanted || Object.values(record).some(value => String(value).toLowerCase().includes(wanted));
+};
+
+export const compareField = (key: string) => (a: CatalogItem, b: CatalogItem): number => {
+  const left = (a as unknown as Record<string, unknown>)[key];
+  const right = (b as unknown as Record<string, unknown>)[key];
+  if (typeof left === "number" && typeof right === "number") return left - right;
+  return String(left ?? "").localeCompare(String(right ?? ""), undefined, { numeric: true });
+};
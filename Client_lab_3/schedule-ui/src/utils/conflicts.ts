@@ -0,0 +1,113 @@
+import type { DayOfWeek, ScheduleEntry } from "../types";
+import { toMinutes } from "./time";
+import { dayNames } from "./timetable";
+
+// Same rule as CheckConflicts in ScheduleService: same day and half-open time ranges intersect
+export const entriesOverlap = (a: ScheduleEntry, b: ScheduleEntry): boolean =>
+  a.dayOfWeek === b.dayOfWeek &&
+  toMinutes(a.startTime) < toMinutes(b.endTime) &&
+  toMinutes(b.startTime) < toMinutes(a.endTime);
+
+// Same rule as SchedulingRules.SameName in SharedModels: case-insensitive, and an empty name never matches
+export const sameName = (a: string, b: string): boolean =>
+  a.trim() !== "" && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const sharesResource = (a: ScheduleEntry, b: ScheduleEntry): boolean =>
+  sameName(a.teacher, b.teacher) || sameName(a.group, b.group) || sameName(a.room, b.room);
+
+/**
+ * Indexes of the entries that clash with `entries[index]` on teacher, group or room.
+ */
+export const findConflictingIndexes = (entries: ScheduleEntry[], index: number): number[] =>
+  entries.reduce<number[]>((acc, other, i) => {
+    if (i !== index && entriesOverlap(entries[index], other) && sharesResource(entries[index], other)) {
+      acc.push(i);
+    }
+    return acc;
+  }, []);
+
+/**
+ * Server conflict messages quote the entity name ("Teacher 'Dr. Lutsyk' ..."),
+ * so an entry is considered involved in a message when one of its names is quoted in it.
+ */
+export const messagesForEntry = (entry: ScheduleEntry, messages: string[]): string[] =>
+  messages.filter(message =>
+    [entry.teacher, entry.group, entry.room].some(name => message.includes(`'${name}'`))
+  );
+
+/** Number of clashing entry pairs, matching OptimizationService.CountConflicts */
+export const countConflicts = (entries: ScheduleEntry[]): number => {
+  let conflicts = 0;
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      if (entriesOverlap(entries[i], entries[j]) && sharesResource(entries[i], entries[j])) conflicts++;
+    }
+  }
+  return conflicts;
+};
+
+export type ConflictKind = "teacher" | "group" | "room" | "other";
+
+export interface ParsedConflict {
+  kind: ConflictKind;
+  entity: string;
+  day: DayOfWeek | null;
+  /** "HH:mm"; for conflicts with other schedules this is the start of the existing class */
+  time: string | null;
+  endTime: string | null;
+  /** Set when the clash is with a class in another schedule */
+  otherSchedule: string | null;
+  message: string;
+}
+
+// Matches the messages built by CheckConflicts / CheckGlobalConflicts in ScheduleService, e.g.
+//   Teacher 'Dr. Lutsyk' has overlapping classes on Monday at 09:00:00
+//   Room 'Room 301' is already booked on Monday from 09:00 to 10:30 in schedule 'Winter'
+const CONFLICT_PATTERN =
+  /^(Teacher|Group|Room) '(.+?)' .*? on (\w+) (?:at (\d{1,2}:\d{2})(?::\d{2})?|from (\d{1,2}:\d{2}) to (\d{1,2}:\d{2}))(?: in schedule '(.+)')?/;
+
+export const parseConflict = (message: string): ParsedConflict => {
+  const match = CONFLICT_PATTERN.exec(message);
+  if (!match) {
+    return { kind: "other", entity: "", day: null, time: null, endTime: null, otherSchedule: null, message };
+  }
+  const [, kind, entity, dayName, at, from, to, otherSchedule] = match;
+  const dayIndex = dayNames.indexOf(dayName);
+  return {
+    kind: kind.toLowerCase() as ConflictKind,
+    entity,
+    day: dayIndex === -1 ? null : (dayIndex as DayOfWeek),
+    time: (at ?? from).padStart(5, "0"),
+    endTime: to ? to.padStart(5, "0") : null,
+    otherSchedule: otherSchedule ?? null,
+    message,
+  };
+};
+
+/**
+ * Indexes of the entries a parsed conflict refers to: the entity's classes on
+ * that day that overlap the reported time, together with the classes they clash with.
+ */
+export const findAffectedEntries = (entries: ScheduleEntry[], conflict: ParsedConflict): number[] => {
+  if (conflict.kind === "other" || conflict.day === null || conflict.time === null) return [];
+  const kind = conflict.kind;
+
+  const candidates = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => entry.dayOfWeek === conflict.day && entry[kind].toLowerCase() === conflict.entity.toLowerCase());
+
+  const start = toMinutes(conflict.time);
+  if (conflict.endTime !== null) {
+    // Clash with another schedule: our classes overlapping the existing one
+    const end = toMinutes(conflict.endTime);
+    return candidates
+      .filter(({ entry }) => toMinutes(entry.startTime) < end && start < toMinutes(entry.endTime))
+      .map(({ index }) => index);
+  }
+
+  const anchor = candidates.find(({ entry }) => toMinutes(entry.startTime) === start);
+  if (!anchor) return [];
+  return candidates
+    .filter(({ entry, index }) => index === anchor.index || entriesOverlap(anchor.entry, entry))
+    .map(({ index }) => index);
+};
@@ -0,0 +1,84 @@
+import type { ConstraintKind, ConstraintTarget, ScheduleEntry, SchedulingConstraint } from "../types";
+import type { NewConstraint } from "../api/client";
+import type { TextKey } from "./i18n";
+import { toMinutes } from "./time";
+
+export const constraintTargets: Record<ConstraintTarget, {
+  label: TextKey;
+  field: "teacher" | "group" | "room";
+  catalogKind: "teachers" | "groups" | "rooms";
+}> = {
+  0: { label: "kind.teacher", field: "teacher", catalogKind: "teachers" },
+  1: { label: "kind.group", field: "group", catalogKind: "groups" },
+  2: { label: "kind.room", field: "room", catalogKind: "rooms" },
+};
+
+export const constraintKindLabels: Record<ConstraintKind, TextKey> = {
+  0: "constraints.unavailable",
+  1: "constraints.maxDailyHours",
+  2: "constraints.preferredTime",
+};
+
+export const emptyConstraint: NewConstraint = {
+  target: 0,
+  name: "",
+  kind: 0,
+  dayOfWeek: null,
+  startTime: null,
+  endTime: null,
+  maxHours: null,
+};
+
+/** Same checks as ConstraintRules.Validate in SharedModels; null means the rule can be sent */
+export const validateConstraint = (constraint: NewConstraint): TextKey | null => {
+  if (!constraint.name.trim()) return "constraints.nameRequired";
+  if ((constraint.startTime === null) !== (constraint.endTime === null)) return "constraints.bothTimes";
+  if (constraint.startTime !== null && constraint.endTime !== null && toMinutes(constraint.endTime) <= toMinutes(constraint.startTime)) {
+    return "constraints.endAfterStart";
+  }
+  if (constraint.kind === 0 && constraint.dayOfWeek === null && constraint.startTime === null) return "constraints.unavailableNeedsSlot";
+  if (constraint.kind === 1 && !(constraint.maxHours !== null && constraint.maxHours > 0)) return "constraints.maxHoursPositive";
+  if (constraint.kind === 2 && constraint.startTime === null) return "constraints.preferredNeedsTime";
+  return null;
+};
+
+export interface ConstraintViolation {
+  constraint: SchedulingConstraint;
+  /** Entries that break the rule */
+  indexes: number[];
+}
+
+/**
+ * Mirrors ConstraintRules.FindViolations in SharedModels, but returns the broken rules
+ * with the entries involved instead of one message per class or day.
+ */
+export const findViolations = (entries: ScheduleEntry[], constraints: SchedulingConstraint[]): ConstraintViolation[] =>
+  constraints.flatMap((constraint) => {
+    const field = constraintTargets[constraint.target].field;
+    const own = entries
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => entry[field].toLowerCase() === constraint.name.toLowerCase());
+    const onDay = own.filter(({ entry }) => constraint.dayOfWeek === null || entry.dayOfWeek === constraint.dayOfWeek);
+    const from = constraint.startTime === null ? null : toMinutes(constraint.startTime);
+    const to = constraint.endTime === null ? null : toMinutes(constraint.endTime);
+
+    let broken: number[] = [];
+    if (constraint.kind === 0) {
+      broken = onDay
+        .filter(({ entry }) => from === null || to === null ||
+          (toMinutes(entry.startTime) < to && from < toMinutes(entry.endTime)))
+        .map(({ index }) => index);
+    } else if (constraint.kind === 1 && constraint.maxHours !== null) {
+      const minutesByDay = new Map<number, number>();
+      for (const { entry } of own) {
+        minutesByDay.set(entry.dayOfWeek, (minutesByDay.get(entry.dayOfWeek) ?? 0) + toMinutes(entry.endTime) - toMinutes(entry.startTime));
+      }
+      const limit = constraint.maxHours * 60;
+      broken = own.filter(({ entry }) => minutesByDay.get(entry.dayOfWeek)! > limit).map(({ index }) => index);
+    } else if (constraint.kind === 2 && from !== null && to !== null) {
+      broken = onDay
+        .filter(({ entry }) => toMinutes(entry.startTime) < from || toMinutes(entry.endTime) > to)
+        .map(({ index }) => index);
+    }
+    return broken.length > 0 ? [{ constraint, indexes: broken }] : [];
+  });
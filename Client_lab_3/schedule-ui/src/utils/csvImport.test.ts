@@ -0,0 +1,31 @@
+// @vitest-environment jsdom
+// i18n sets the document language when it loads
+import { describe, expect, it } from "vitest";
+import { parseDay } from "./csvImport";
+
+describe("parseDay", () => {
+  it("reads the API's numbers, with 7 as Sunday", () => {
+    expect(["0", "1", "6", "7"].map(parseDay)).toEqual([0, 1, 6, 0]);
+  });
+
+  it("reads English names and three-letter abbreviations", () => {
+    expect(["Monday", "tue", " WED ", "Sat"].map(parseDay)).toEqual([1, 2, 3, 6]);
+  });
+
+  it("reads Ukrainian names and their abbreviations", () => {
+    expect(["Понеділок", "вів", "середа", "чет", "субота", "неділя"].map(parseDay)).toEqual([1, 2, 3, 4, 6, 0]);
+  });
+
+  it("reads the two-letter Ukrainian forms", () => {
+    expect(["нд", "пн", "вт", "ср", "чт", "пт", "сб", "Пн"].map(parseDay)).toEqual([0, 1, 2, 3, 4, 5, 6, 1]);
+  });
+
+  it("reads Friday with any apostrophe", () => {
+    const spellings = ["п'ятниця", "п’ятниця", "пʼятниця", "п`ятниця", "П’ЯТ"];
+    expect(spellings.map(parseDay)).toEqual([5, 5, 5, 5, 5]);
+  });
+
+  it("rejects what is not a day", () => {
+    expect(["", "8", "m", "mo", "пх", "понеділокк", "holiday"].map(parseDay)).toEqual([null, null, null, null, null, null, null]);
+  });
+});
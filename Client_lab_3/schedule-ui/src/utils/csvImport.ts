@@ -0,0 +1,236 @@
+import type { Catalog, DayOfWeek, Schedule, ScheduleEntry } from "../types";
+import { findByName } from "./catalog";
+import { findClashes } from "./slots";
+import { toMinutes, toTimeSpan } from "./time";
+import { dayNames } from "./timetable";
+import { t, type Locale, type TextKey } from "./i18n";
+
+export type ImportField = keyof ScheduleEntry;
+
+/** Column index per entry field; null while the field is not mapped */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type ImportRowStatus = "matched" | "new" | "broken";
+
+/** An existing schedule to append to, or the name of one to create */
+export type ImportTarget = { scheduleId: number } | { name: string };
+
+export interface ImportRow {
+  /** 1-based row of the sheet, header included */
+  line: number;
+  /** null when the row could not be turned into an entry */
+  entry: ScheduleEntry | null;
+  status: ImportRowStatus;
+  /** Reasons the row cannot be imported */
+  errors: string[];
+  /** Names that are not in the catalog; the row can still be imported */
+  unknown: string[];
+}
+
+export const importFields: { key: ImportField; label: TextKey; aliases: string[] }[] = [
+  { key: "subject", label: "kind.subject", aliases: ["subject", "course", "discipline", "предмет", "дисципліна"] },
+  { key: "teacher", label: "kind.teacher", aliases: ["teacher", "lecturer", "instructor", "викладач"] },
+  { key: "group", label: "kind.group", aliases: ["group", "class", "група"] },
+  { key: "room", label: "kind.room", aliases: ["room", "auditorium", "location", "аудиторія", "ауд"] },
+  { key: "dayOfWeek", label: "entries.day", aliases: ["day", "dayofweek", "weekday", "день"] },
+  { key: "startTime", label: "import.start", aliases: ["start", "starttime", "from", "begin", "початок"] },
+  { key: "endTime", label: "import.end", aliases: ["end", "endtime", "to", "finish", "кінець"] },
+];
+
+// Ukrainian day names as they appear in the faculty's spreadsheets, Sunday first like dayNames
+const ukrainianDays = ["неділя", "понеділок", "вівторок", "середа", "четвер", "пʼятниця", "субота"];
+// The standard two-letter forms, which are not prefixes of the full names
+const ukrainianShortDays = ["нд", "пн", "вт", "ср", "чт", "пт", "сб"];
+
+// Spreadsheets spell the apostrophe in "пʼятниця" as ', ’, ʼ or `; ukrainianDays uses ʼ
+const apostrophes = /['\u2019\u02BC`]/g;
+
+const delimiters = [",", ";", "\t"];
+
+/**
+ * Splits CSV text into rows. Handles quoted fields with embedded delimiters, quotes and
+ * line breaks; the delimiter (comma, semicolon or tab, as pasted from a spreadsheet)
+ * is whichever occurs most often in the first line.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = delimiters
+    .map(d => ({ d, count: firstLine.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ""));
+};
+
+const normalizeHeader = (header: string): string => header.trim().toLowerCase().replace(/[\s_-]+/g, "");
+
+/** Maps columns whose header matches a field name or a common alias */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(importFields.map(field => {
+    const index = normalized.findIndex(header => field.aliases.includes(header));
+    return [field.key, index === -1 ? null : index];
+  })) as ColumnMapping;
+};
+
+/** Without a header the columns are taken in the order the CSV export writes them */
+export const positionalMapping = (columnCount: number): ColumnMapping =>
+  Object.fromEntries(importFields.map((field, i) => [field.key, i < columnCount ? i : null])) as ColumnMapping;
+
+/**
+ * Accepts English or Ukrainian day names (full or abbreviated to three letters), the
+ * Ukrainian two-letter forms (пн, вт …) and the API's numbers, 0 = Sunday … 6 = Saturday;
+ * 7 is read as Sunday too.
+ */
+export const parseDay = (value: string): DayOfWeek | null => {
+  const text = value.trim().toLowerCase().replace(apostrophes, "ʼ");
+  if (/^[0-7]$/.test(text)) return (parseInt(text, 10) % 7) as DayOfWeek;
+  if (text.length < 2) return null;
+  const short = ukrainianShortDays.indexOf(text);
+  if (short !== -1) return short as DayOfWeek;
+  const index = [dayNames.map(name => name.toLowerCase()), ukrainianDays]
+    .map(names => names.findIndex(name => name === text || (text.length >= 3 && name.startsWith(text))))
+    .find(i => i !== -1);
+  return index === undefined ? null : (index as DayOfWeek);
+};
+
+/** "9:00", "09:00", "09:00:00" or "9.00"; returns the "HH:mm:ss" the API expects */
+export const parseTime = (value: string): string | null => {
+  const match = /^(\d{1,2})[:.](\d{2})(?::\d{2})?$/.exec(value.trim());
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  return hours < 24 && minutes < 60 ? toTimeSpan(hours * 60 + minutes) : null;
+};
+
+const clashLabels: Record<"teacher" | "group" | "room", TextKey> = {
+  teacher: "kind.teacher",
+  group: "kind.group",
+  room: "kind.room",
+};
+
+/**
+ * Turns the data rows into entries and checks them the way saving would: required fields,
+ * times, catalog names, room capacity and clashes with the target schedule, other schedules
+ * and the rows above. Catalog spellings replace the spreadsheet's when a name matches.
+ * Messages are written in `locale`.
+ */
+export const analyzeImport = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  catalog: Catalog,
+  ownEntries: ScheduleEntry[],
+  otherSchedules: Schedule[],
+  firstLine: number,
+  locale: Locale,
+): ImportRow[] => {
+  const accepted: ScheduleEntry[] = [];
+
+  return rows.map((cells, i): ImportRow => {
+    const line = firstLine + i;
+    const errors: string[] = [];
+    const unknown: string[] = [];
+    const cell = (field: ImportField): string => {
+      const index = mapping[field];
+      return index === null ? "" : (cells[index] ?? "").trim();
+    };
+
+    for (const field of importFields) {
+      const label = t(field.label, {}, locale);
+      if (mapping[field.key] === null) errors.push(t("import.notMapped", { field: label }, locale));
+      else if (!cell(field.key)) errors.push(t("import.empty", { field: label }, locale));
+    }
+    if (errors.length > 0) return { line, entry: null, status: "broken", errors, unknown };
+
+    const dayOfWeek = parseDay(cell("dayOfWeek"));
+    const startTime = parseTime(cell("startTime"));
+    const endTime = parseTime(cell("endTime"));
+    if (dayOfWeek === null) errors.push(t("import.unknownDay", { value: cell("dayOfWeek") }, locale));
+    if (startTime === null) errors.push(t("import.invalidStart", { value: cell("startTime") }, locale));
+    if (endTime === null) errors.push(t("import.invalidEnd", { value: cell("endTime") }, locale));
+    if (startTime && endTime && toMinutes(endTime) <= toMinutes(startTime)) {
+      errors.push(t("error.endBeforeStart", {}, locale));
+    }
+
+    const subject = findByName(catalog.subjects, cell("subject"));
+    const teacher = findByName(catalog.teachers, cell("teacher"));
+    const group = findByName(catalog.groups, cell("group"));
+    const room = findByName(catalog.rooms, cell("room"));
+    const unknownName = (kind: TextKey, field: ImportField): string =>
+      t("import.unknownName", { kind: t(kind, {}, locale), name: cell(field) }, locale);
+    if (!subject) unknown.push(unknownName("kind.subject", "subject"));
+    if (!teacher) unknown.push(unknownName("kind.teacher", "teacher"));
+    if (!group) unknown.push(unknownName("kind.group", "group"));
+    if (!room) unknown.push(unknownName("kind.room", "room"));
+    if (group && room && room.capacity < group.studentsCount) {
+      errors.push(t("import.capacity", {
+        room: room.name, capacity: room.capacity, group: group.name, students: group.studentsCount,
+      }, locale));
+    }
+
+    if (dayOfWeek === null || startTime === null || endTime === null) {
+      return { line, entry: null, status: "broken", errors, unknown };
+    }
+
+    const entry: ScheduleEntry = {
+      subject: subject?.name ?? cell("subject"),
+      teacher: teacher?.name ?? cell("teacher"),
+      group: group?.name ?? cell("group"),
+      room: room?.name ?? cell("room"),
+      dayOfWeek,
+      startTime,
+      endTime,
+    };
+
+    if (errors.length === 0) {
+      for (const clash of findClashes(entry, [...ownEntries, ...accepted], otherSchedules)) {
+        const where = clash.scheduleName
+          ? t("import.inSchedule", { name: clash.scheduleName }, locale)
+          : t(accepted.includes(clash.entry) ? "import.inEarlierRow" : "import.inThisSchedule", {}, locale);
+        errors.push(t("import.busy", {
+          kind: t(clashLabels[clash.kind], {}, locale), name: clash.entity, where, subject: clash.entry.subject,
+        }, locale));
+      }
+    }
+
+    if (errors.length > 0) return { line, entry, status: "broken", errors, unknown };
+    accepted.push(entry);
+    return { line, entry, status: unknown.length > 0 ? "new" : "matched", errors, unknown };
+  });
+};
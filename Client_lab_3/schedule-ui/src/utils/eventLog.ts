@@ -0,0 +1,77 @@
+import type { AnalyticsEvent, OptimizationStatus } from "../types";
+import { decodeEvent, eventKey, type DecodedEvent } from "../api/events";
+import { t, type Locale, type TextKey } from "./i18n";
+
+export interface LogEntry {
+  key: string;
+  event: AnalyticsEvent;
+  decoded: DecodedEvent;
+  /** null for events not tied to a stored schedule (catalog changes, rejected saves) */
+  scheduleId: number | null;
+  title: string;
+  detail: string;
+}
+
+export interface LogFilter {
+  routingKeys: string[];
+  scheduleId: string;
+  /** "YYYY-MM-DDTHH:mm" as produced by datetime-local inputs; empty for no bound */
+  from: string;
+  to: string;
+  search: string;
+}
+
+export const emptyLogFilter: LogFilter = { routingKeys: [], scheduleId: "", from: "", to: "", search: "" };
+
+const optimizationTitles: Record<OptimizationStatus, TextKey> = {
+  Started: "eventLog.optimizationStarted",
+  InProgress: "eventLog.optimizationInProgress",
+  Completed: "eventLog.optimizationCompleted",
+  Failed: "eventLog.optimizationFailed",
+};
+
+const describe = (decoded: DecodedEvent, event: AnalyticsEvent, locale: Locale): Pick<LogEntry, "title" | "detail"> => {
+  switch (decoded.kind) {
+    case "optimized":
+      return {
+        title: t(optimizationTitles[decoded.data.status], { name: decoded.data.scheduleName }, locale),
+        detail: decoded.data.status === "Completed"
+          ? `${decoded.data.message} · ${t("eventLog.optimizationResult", {
+            windows: decoded.data.windowsReduced,
+            conflicts: decoded.data.conflictsResolved,
+          }, locale)}`
+          : decoded.data.message,
+      };
+    case "updated":
+      return {
+        title: decoded.data.changeType,
+        detail: `${decoded.data.details} · ${t("eventLog.by", { user: decoded.data.updatedBy }, locale)}`,
+      };
+    case "conflict":
+      return { title: t("eventLog.conflicts", { type: decoded.data.conflictType }, locale), detail: decoded.data.description };
+    default:
+      return { title: event.type || event.routingKey, detail: event.payload };
+  }
+};
+
+/** Titles and details are worded in `locale`, which is also what the search matches against */
+export const toLogEntry = (event: AnalyticsEvent, locale: Locale): LogEntry => {
+  const decoded = decodeEvent(event);
+  const scheduleId = decoded.data && decoded.data.scheduleId > 0 ? decoded.data.scheduleId : null;
+  return { key: eventKey(event), event, decoded, scheduleId, ...describe(decoded, event, locale) };
+};
+
+// Server timestamps carry no zone and are shown as-is, so the range is compared on the same text
+const minuteOf = (timestamp: string): string => timestamp.substring(0, 16);
+
+export const filterLog = (entries: LogEntry[], filter: LogFilter): LogEntry[] => {
+  const search = filter.search.trim().toLowerCase();
+  const scheduleId = filter.scheduleId.trim();
+  return entries.filter(entry =>
+    (filter.routingKeys.length === 0 || filter.routingKeys.includes(entry.event.routingKey)) &&
+    (!scheduleId || String(entry.scheduleId ?? "") === scheduleId) &&
+    (!filter.from || minuteOf(entry.event.timestamp) >= filter.from) &&
+    (!filter.to || minuteOf(entry.event.timestamp) <= filter.to) &&
+    (!search || `${entry.title} ${entry.detail} ${entry.event.payload}`.toLowerCase().includes(search))
+  );
+};
@@ -0,0 +1,179 @@
+import type { DayOfWeek, Schedule, ScheduleEntry } from "../types";
+import { dayNames } from "./timetable";
+import { fromMinutes, shortTime, toMinutes } from "./time";
+import type { TextKey } from "./i18n";
+
+export type ExportKind = "group" | "teacher" | "room";
+
+export const exportKindLabels: Record<ExportKind, TextKey> = { group: "kind.group", teacher: "kind.teacher", room: "kind.room" };
+
+export interface ExportFile {
+  /** The group, teacher or room the file is for */
+  value: string;
+  filename: string;
+  content: string;
+}
+
+export interface CalendarOptions {
+  /** "YYYY-MM-DD"; each class starts on its first weekday on or after this date */
+  startDate: string;
+  /** Number of weekly occurrences; 0 repeats without end */
+  weeks: number;
+}
+
+const icsDays: Record<DayOfWeek, string> = { 0: "SU", 1: "MO", 2: "TU", 3: "WE", 4: "TH", 5: "FR", 6: "SA" };
+const MAX_LINE_OCTETS = 75;
+const encoder = new TextEncoder();
+
+const slug = (text: string): string =>
+  text.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-+|-+$/g, "") || "export";
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+// FNV-1a; it only has to tell the classes of one schedule apart
+const hash = (text: string): string => {
+  let value = 0x811c9dc5;
+  for (const char of text) {
+    value ^= char.codePointAt(0)!;
+    value = Math.imul(value, 0x01000193);
+  }
+  return (value >>> 0).toString(16).padStart(8, "0");
+};
+
+// Entries have no ids of their own, so the UID comes from what makes a class: removing or
+// reordering other classes keeps it, and calendars update the event on re-import
+const eventUid = (scheduleId: number, entry: ScheduleEntry): string =>
+  `schedule-${scheduleId}-${icsDays[entry.dayOfWeek]}-${shortTime(entry.startTime).replace(":", "")}-` +
+  `${hash([entry.subject, entry.group, entry.teacher, entry.room].join("\u0000"))}@schedule-ui`;
+
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// RFC 5545 §3.1: lines longer than 75 octets continue on the next line after a single space
+const fold = (line: string): string => {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const firstOccurrence = (startDate: string, dayOfWeek: DayOfWeek): Date => {
+  const [year, month, day] = startDate.split("-").map(part => parseInt(part, 10));
+  const date = new Date(year, month - 1, day);
+  date.setDate(date.getDate() + ((dayOfWeek - date.getDay() + 7) % 7));
+  return date;
+};
+
+// Schedule times carry no zone, so events are written as floating local times
+const localDateTime = (date: Date, time: string): string => {
+  const [hours, minutes] = fromMinutes(toMinutes(time)).split(":");
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${hours}${minutes}00`;
+};
+
+const utcStamp = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+export const todayIso = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+/** Distinct groups, teachers or rooms of a schedule, sorted */
+export const exportValues = (schedule: Schedule, kind: ExportKind): string[] =>
+  [...new Set(schedule.entries.map(entry => entry[kind]))].sort((a, b) => a.localeCompare(b));
+
+/**
+ * One VCALENDAR with a weekly recurring VEVENT per class of the given group, teacher or room.
+ */
+export const buildCalendar = (
+  schedule: Schedule, kind: ExportKind, value: string, options: CalendarOptions, now = new Date(),
+): string => {
+  const stamp = utcStamp(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Schedule UI//Schedule Export//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`${schedule.name} — ${value}`)}`,
+  ];
+
+  schedule.entries.forEach(entry => {
+    if (entry[kind] !== value) return;
+    const date = firstOccurrence(options.startDate, entry.dayOfWeek);
+    const rule = `FREQ=WEEKLY;BYDAY=${icsDays[entry.dayOfWeek]}${options.weeks > 0 ? `;COUNT=${options.weeks}` : ""}`;
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${eventUid(schedule.id, entry)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${localDateTime(date, entry.startTime)}`,
+      `DTEND:${localDateTime(date, entry.endTime)}`,
+      `RRULE:${rule}`,
+      `SUMMARY:${escapeText(kind === "group" ? entry.subject : `${entry.subject} (${entry.group})`)}`,
+      `LOCATION:${escapeText(entry.room)}`,
+      `DESCRIPTION:${escapeText(`Teacher: ${entry.teacher}\nGroup: ${entry.group}\nRoom: ${entry.room}`)}`,
+      "END:VEVENT",
+    );
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+};
+
+/** One .ics file per group, teacher or room of the schedule */
+export const buildCalendars = (schedule: Schedule, kind: ExportKind, options: CalendarOptions): ExportFile[] =>
+  exportValues(schedule, kind).map(value => ({
+    value,
+    filename: `${slug(schedule.name)}-${kind}-${slug(value)}.ics`,
+    content: buildCalendar(schedule, kind, value, options),
+  }));
+
+/** Several calendars are handed out as one archive, since browsers drop extra downloads started at once */
+export const calendarsZipFilename = (schedule: Schedule, kind: ExportKind): string =>
+  `${slug(schedule.name)}-${kind}-calendars.zip`;
+
+export const csvColumns = ["Subject", "Teacher", "Group", "Room", "Day", "Start", "End"];
+
+const csvField = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const entriesToCsv = (entries: ScheduleEntry[]): string =>
+  [
+    csvColumns,
+    ...entries.map(entry => [
+      entry.subject, entry.teacher, entry.group, entry.room,
+      dayNames[entry.dayOfWeek], shortTime(entry.startTime), shortTime(entry.endTime),
+    ]),
+  ].map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+
+export const csvFilename = (schedule: Schedule): string => `${slug(schedule.name)}.csv`;
+
+// Firefox and Safari cancel a download whose URL is revoked before it has started
+const REVOKE_DELAY_MS = 10_000;
+
+export const downloadFile = (filename: string, content: string | Blob, type: string): void => {
+  // The BOM lets spreadsheet apps detect UTF-8 for non-Latin names
+  const blob = typeof content === "string"
+    ? new Blob([type.startsWith("text/csv") ? "\uFEFF" : "", content], { type })
+    : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
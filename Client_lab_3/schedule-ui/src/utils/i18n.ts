@@ -0,0 +1,90 @@
+import type { DayOfWeek } from "../types";
+import { en } from "../i18n/en";
+import { uk } from "../i18n/uk";
+import { loadJson, saveJson } from "./storage";
+
+export type Locale = "uk" | "en";
+
+/** Plural forms as chosen by Intl.PluralRules; a locale lists the ones its language uses */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+type English = typeof en;
+
+/** Every locale has every key of the English catalog, with the same kind of value */
+export type Messages = { [K in keyof English]: English[K] extends string ? string : PluralMessage };
+
+export type TextKey = { [K in keyof English]: English[K] extends string ? K : never }[keyof English];
+export type PluralKey = Exclude<keyof English, TextKey>;
+
+type Params = Record<string, string | number>;
+
+export const localeNames: Record<Locale, string> = { uk: "Українська", en: "English" };
+
+// BCP 47 tags handed to Intl; en-US matches the formatting used before translations existed
+const intlLocales: Record<Locale, string> = { uk: "uk-UA", en: "en-US" };
+
+const catalogs: Record<Locale, Messages> = { uk, en };
+
+const LOCALE_KEY = "schedule-ui.locale";
+
+const isLocale = (value: unknown): value is Locale => value === "uk" || value === "en";
+
+// Most users are Ukrainian-speaking, so only an English browser starts in English
+const initialLocale = (): Locale => {
+  const saved = loadJson<unknown>(LOCALE_KEY, null);
+  if (isLocale(saved)) return saved;
+  return navigator.language.toLowerCase().startsWith("en") ? "en" : "uk";
+};
+
+let current: Locale = initialLocale();
+document.documentElement.lang = current;
+
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => current;
+
+export const setLocale = (locale: Locale): void => {
+  if (locale === current) return;
+  current = locale;
+  saveJson(LOCALE_KEY, locale);
+  document.documentElement.lang = locale;
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeLocale = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const interpolate = (template: string, params: Params): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    (Object.hasOwn(params, name) ? String(params[name]) : placeholder));
+
+/** `{name}` placeholders are filled from `params`; unknown ones are left as they are */
+export const t = (key: TextKey, params: Params = {}, locale: Locale = current): string =>
+  interpolate(catalogs[locale][key], params);
+
+/** Picks the plural form for `count`, which is also available to the message as `{count}` */
+export const tn = (key: PluralKey, count: number, params: Params = {}, locale: Locale = current): string => {
+  const forms = catalogs[locale][key];
+  const rule = new Intl.PluralRules(intlLocales[locale]).select(count);
+  return interpolate(forms[rule] ?? forms.other, { count, ...params });
+};
+
+// Server timestamps carry no zone and are local time, which is how Date parses them too
+export const formatDateTime = (value: string | number | Date, locale: Locale = current): string =>
+  new Intl.DateTimeFormat(intlLocales[locale], { dateStyle: "medium", timeStyle: "short" }).format(new Date(value));
+
+export const formatTime = (value: string | number | Date, locale: Locale = current): string =>
+  new Intl.DateTimeFormat(intlLocales[locale], { hour: "2-digit", minute: "2-digit" }).format(new Date(value));
+
+export const formatDate = (value: string | number | Date, locale: Locale = current): string =>
+  new Intl.DateTimeFormat(intlLocales[locale], { dateStyle: "medium" }).format(new Date(value));
+
+// 7 January 2024 was a Sunday, so day N of the week falls on the (7 + N)th
+export const weekdayName = (day: DayOfWeek, width: "long" | "short" = "long", locale: Locale = current): string => {
+  const name = new Intl.DateTimeFormat(intlLocales[locale], { weekday: width }).format(new Date(2024, 0, 7 + day));
+  return name.charAt(0).toLocaleUpperCase(intlLocales[locale]) + name.slice(1);
+};
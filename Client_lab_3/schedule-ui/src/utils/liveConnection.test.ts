@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { connectionFailed, connectionOpened, initialConnection, reconnectDelay, shouldPoll } from "./liveConnection";
+
+describe("reconnectDelay", () => {
+  it("doubles from one second and stops at thirty", () => {
+    expect([0, 1, 2, 3, 4, 5, 6, 20].map(reconnectDelay)).toEqual([1000, 2000, 4000, 8000, 16_000, 30_000, 30_000, 30_000]);
+  });
+});
+
+describe("connection state", () => {
+  it("starts connecting without polling yet", () => {
+    expect(initialConnection).toEqual({ state: "connecting", failures: 0 });
+  });
+
+  it("falls back to polling and backs off further after each failure", () => {
+    const first = connectionFailed(initialConnection);
+    const second = connectionFailed(first);
+    const third = connectionFailed(second);
+    expect([first, second, third].map(c => c.retryInMs)).toEqual([1000, 2000, 4000]);
+    expect(third).toMatchObject({ state: "polling", failures: 3 });
+  });
+
+  it("resets the backoff once the stream opens again", () => {
+    const live = connectionOpened();
+    expect(live).toEqual({ state: "live", failures: 0 });
+    expect(connectionFailed(live).retryInMs).toBe(1000);
+  });
+});
+
+describe("shouldPoll", () => {
+  it("polls while the stream is not live", () => {
+    expect(shouldPoll("connecting", false)).toBe(true);
+    expect(shouldPoll("polling", false)).toBe(true);
+    expect(shouldPoll("live", false)).toBe(false);
+  });
+
+  it("never polls while paused", () => {
+    expect(shouldPoll("polling", true)).toBe(false);
+  });
+});
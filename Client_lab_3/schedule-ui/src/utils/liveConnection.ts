@@ -0,0 +1,32 @@
+// Reconnect schedule of the live event stream, kept apart from useLiveEvents' timers
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30_000;
+
+/** "polling" while the stream is down and a reconnect is pending */
+export type LiveState = "connecting" | "live" | "polling";
+
+export interface LiveConnection {
+  state: LiveState;
+  /** Failed attempts since the stream was last open */
+  failures: number;
+}
+
+export const initialConnection: LiveConnection = { state: "connecting", failures: 0 };
+
+/** Wait before the next attempt after `failures` failed ones: 1 s, 2 s, 4 s … 30 s */
+export const reconnectDelay = (failures: number): number =>
+  Math.min(INITIAL_RETRY_MS * 2 ** failures, MAX_RETRY_MS);
+
+/** An open stream resets the backoff */
+export const connectionOpened = (): LiveConnection => ({ state: "live", failures: 0 });
+
+/** The stream is gone: poll meanwhile and reconnect after `retryInMs` */
+export const connectionFailed = (connection: LiveConnection): LiveConnection & { retryInMs: number } => ({
+  state: "polling",
+  failures: connection.failures + 1,
+  retryInMs: reconnectDelay(connection.failures),
+});
+
+/** Polling stands in for the stream until it is live again, unless the user paused it */
+export const shouldPoll = (state: LiveState, paused: boolean): boolean => !paused && state !== "live";
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import type { DecodedEvent } from "../api/events";
+import { claimEcho, expectEcho, findEcho, type ExpectedEcho } from "./liveEchoes";
+
+const TTL = 10_000;
+
+const updated = (scheduleId: number, changeType: string): DecodedEvent => ({
+  kind: "updated",
+  data: { scheduleId, updatedBy: "System", changeType, details: "", updatedAt: "2025-02-01T08:00:00Z" },
+});
+
+const conflict = (scheduleId: number): DecodedEvent => ({
+  kind: "conflict",
+  data: {
+    scheduleId, conflictType: "TeacherConflict", affectedEntities: [], description: "", detectedAt: "2025-02-01T08:00:00Z",
+  },
+});
+
+const expecting = (...echoes: Omit<ExpectedEcho, "expiresAt">[]): ExpectedEcho[] =>
+  echoes.reduce<ExpectedEcho[]>((expected, echo) => expectEcho(expected, echo, 0, TTL), []);
+
+const followsNothing = () => false;
+
+describe("expectEcho", () => {
+  it("drops expired expectations when adding one", () => {
+    const expected = expectEcho(expecting({ kind: "updated", scheduleId: 1, changeType: "Updated" }), {
+      kind: "updated", scheduleId: 2, changeType: "Deleted",
+    }, TTL, TTL);
+    expect(expected).toEqual([{ kind: "updated", scheduleId: 2, changeType: "Deleted", expiresAt: 2 * TTL }]);
+  });
+});
+
+describe("findEcho", () => {
+  const expected = expecting(
+    { kind: "updated", scheduleId: 1, changeType: "Updated" },
+    { kind: "updated", scheduleId: 1, changeType: "Published" },
+    { kind: "conflict", scheduleId: 0, changeType: null }
+  );
+
+  it("matches on kind, schedule and change type", () => {
+    expect(findEcho(expected, updated(1, "Published"), 1)).toBe(1);
+    expect(findEcho(expected, conflict(0), 1)).toBe(2);
+  });
+
+  it("leaves other schedules and other changes to be announced", () => {
+    expect(findEcho(expected, updated(2, "Updated"), 1)).toBe(-1);
+    expect(findEcho(expected, updated(1, "Archived"), 1)).toBe(-1);
+    expect(findEcho(expected, conflict(1), 1)).toBe(-1);
+  });
+
+  it("ignores expectations that have expired", () => {
+    expect(findEcho(expected, updated(1, "Updated"), TTL)).toBe(-1);
+  });
+
+  it("never matches events it cannot decode", () => {
+    expect(findEcho(expected, { kind: "unknown", data: null }, 1)).toBe(-1);
+  });
+});
+
+describe("claimEcho", () => {
+  it("uses up the matched expectation, so a second identical event is announced", () => {
+    const first = claimEcho(expecting({ kind: "updated", scheduleId: 1, changeType: "Updated" }), updated(1, "Updated"), 1, followsNothing);
+    expect(first).toEqual({ own: true, expected: [] });
+
+    const second = claimEcho(first.expected, updated(1, "Updated"), 2, followsNothing);
+    expect(second.own).toBe(false);
+  });
+
+  it("uses up only one of two identical expectations", () => {
+    const echo = { kind: "updated" as const, scheduleId: 1, changeType: "Updated" };
+    const claim = claimEcho(expecting(echo, echo), updated(1, "Updated"), 1, followsNothing);
+    expect(claim.own).toBe(true);
+    expect(claim.expected).toHaveLength(1);
+  });
+
+  it("treats the status changes that end a followed run as this tab's own", () => {
+    const follows = (id: number) => id === 3;
+    expect(claimEcho([], updated(3, "Optimized"), 1, follows).own).toBe(true);
+    expect(claimEcho([], updated(3, "Draft"), 1, follows).own).toBe(true);
+    expect(claimEcho([], updated(3, "Updated"), 1, follows).own).toBe(false);
+    expect(claimEcho([], updated(4, "Optimized"), 1, follows).own).toBe(false);
+  });
+
+  it("keeps the expectations when the event is not an echo", () => {
+    const expected = expecting({ kind: "updated", scheduleId: 1, changeType: "Updated" });
+    expect(claimEcho(expected, updated(2, "Updated"), 1, followsNothing)).toEqual({ own: false, expected });
+  });
+});
@@ -0,0 +1,59 @@
+import type { DecodedEvent } from "../api/events";
+
+/** An event this tab's own request will cause, already announced when the request returned */
+export interface ExpectedEcho {
+  kind: "updated" | "conflict";
+  scheduleId: number;
+  /** ScheduleUpdatedEvent.ChangeType, e.g. "Updated" or "Published"; unused for conflicts */
+  changeType: string | null;
+  expiresAt: number;
+}
+
+/** Drops expired expectations and adds one that lasts `ttl` ms */
+export const expectEcho = (
+  expected: ExpectedEcho[],
+  echo: Omit<ExpectedEcho, "expiresAt">,
+  now: number,
+  ttl: number
+): ExpectedEcho[] => [...expected.filter(e => e.expiresAt > now), { ...echo, expiresAt: now + ttl }];
+
+/**
+ * Index of the expectation the event answers, or -1. Events of other schedules or other
+ * change types never match, so other users' changes are still announced.
+ */
+export const findEcho = (expected: ExpectedEcho[], decoded: DecodedEvent, now: number): number => {
+  if (decoded.kind !== "updated" && decoded.kind !== "conflict") return -1;
+  const changeType = decoded.kind === "updated" ? decoded.data.changeType : null;
+  return expected.findIndex(echo =>
+    echo.expiresAt > now &&
+    echo.kind === decoded.kind &&
+    echo.scheduleId === decoded.data.scheduleId &&
+    echo.changeType === changeType
+  );
+};
+
+export interface EchoClaim {
+  /** The event was caused by this tab and was already announced */
+  own: boolean;
+  /** Expectations left once the matched one is used up */
+  expected: ExpectedEcho[];
+}
+
+/**
+ * Matches an event against this tab's expectations. Status changes that end a run
+ * `followsRun` reports are also this tab's own: they are announced with the run itself.
+ */
+export const claimEcho = (
+  expected: ExpectedEcho[],
+  decoded: DecodedEvent,
+  now: number,
+  followsRun: (scheduleId: number) => boolean
+): EchoClaim => {
+  const index = findEcho(expected, decoded, now);
+  if (index >= 0) return { own: true, expected: expected.filter((_, i) => i !== index) };
+  const endsFollowedRun =
+    decoded.kind === "updated" &&
+    (decoded.data.changeType === "Optimized" || decoded.data.changeType === "Draft") &&
+    followsRun(decoded.data.scheduleId);
+  return { own: endsFollowedRun, expected };
+};
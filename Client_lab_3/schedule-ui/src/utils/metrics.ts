@@ -0,0 +1,115 @@
+import type { ScheduleEntry } from "../types";
+import { countConflicts } from "./conflicts";
+import { toMinutes } from "./time";
+
+// Gaps longer than this count as a "window", matching OptimizationService.CalculateWindows
+export const WINDOW_THRESHOLD_MINUTES = 15;
+
+export const countWindows = (entries: ScheduleEntry[]): number => {
+  const byDay = new Map<number, ScheduleEntry[]>();
+  entries.forEach(entry => byDay.set(entry.dayOfWeek, [...(byDay.get(entry.dayOfWeek) ?? []), entry]));
+
+  let windows = 0;
+  for (const dayEntries of byDay.values()) {
+    const sorted = [...dayEntries].sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+    for (let i = 0; i < sorted.length - 1; i++) {
+      if (toMinutes(sorted[i + 1].startTime) - toMinutes(sorted[i].endTime) > WINDOW_THRESHOLD_MINUTES) windows++;
+    }
+  }
+  return windows;
+};
+
+// Rooms are considered bookable 08:00–20:00, Monday to Saturday
+export const ROOM_HOURS_PER_WEEK = 12 * 6;
+
+export interface NamedHours {
+  name: string;
+  hours: number;
+}
+
+export interface GroupDayLoad {
+  group: string;
+  /** Hours per day, indexed by DayOfWeek */
+  byDay: number[];
+  total: number;
+}
+
+export interface RoomUtilization extends NamedHours {
+  percent: number;
+}
+
+export interface GapCell {
+  group: string;
+  /** Window minutes per day, indexed by DayOfWeek */
+  byDay: number[];
+}
+
+const entryHours = (entry: ScheduleEntry): number =>
+  Math.max(0, toMinutes(entry.endTime) - toMinutes(entry.startTime)) / 60;
+
+const sumBy = (entries: ScheduleEntry[], key: "teacher" | "group" | "room"): NamedHours[] => {
+  const totals = new Map<string, number>();
+  entries.forEach(entry => totals.set(entry[key], (totals.get(entry[key]) ?? 0) + entryHours(entry)));
+  return [...totals].map(([name, hours]) => ({ name, hours })).sort((a, b) => b.hours - a.hours);
+};
+
+export const totalHours = (entries: ScheduleEntry[]): number =>
+  entries.reduce((sum, entry) => sum + entryHours(entry), 0);
+
+export const hoursPerTeacher = (entries: ScheduleEntry[]): NamedHours[] => sumBy(entries, "teacher");
+
+export const hoursPerGroupPerDay = (entries: ScheduleEntry[]): GroupDayLoad[] =>
+  sumBy(entries, "group").map(({ name, hours }) => {
+    const byDay = Array<number>(7).fill(0);
+    entries.filter(entry => entry.group === name).forEach(entry => (byDay[entry.dayOfWeek] += entryHours(entry)));
+    return { group: name, byDay, total: hours };
+  });
+
+export const roomUtilization = (entries: ScheduleEntry[]): RoomUtilization[] =>
+  sumBy(entries, "room").map(({ name, hours }) => ({ name, hours, percent: (hours / ROOM_HOURS_PER_WEEK) * 100 }));
+
+/**
+ * Window minutes per group and day. countWindows looks at the whole schedule like
+ * OptimizationService does; here each group's day is taken on its own, which is what students feel.
+ */
+export const gapHeatmap = (entries: ScheduleEntry[]): GapCell[] =>
+  sumBy(entries, "group").map(({ name }) => {
+    const byDay = Array<number>(7).fill(0);
+    const groupEntries = entries.filter(entry => entry.group === name);
+    for (let day = 0; day < 7; day++) {
+      const sorted = groupEntries
+        .filter(entry => entry.dayOfWeek === day)
+        .sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+      for (let i = 0; i < sorted.length - 1; i++) {
+        const gap = toMinutes(sorted[i + 1].startTime) - toMinutes(sorted[i].endTime);
+        if (gap > WINDOW_THRESHOLD_MINUTES) byDay[day] += gap;
+      }
+    }
+    return { group: name, byDay };
+  });
+
+export interface ScheduleSummary {
+  classes: number;
+  hours: number;
+  windows: number;
+  conflicts: number;
+  teachers: number;
+  groups: number;
+  rooms: number;
+  /** Mean utilization of the rooms the schedule uses, in percent */
+  roomUtilization: number;
+}
+
+export const summarizeSchedule = (entries: ScheduleEntry[]): ScheduleSummary => {
+  const rooms = roomUtilization(entries);
+  return {
+    classes: entries.length,
+    hours: totalHours(entries),
+    windows: countWindows(entries),
+    conflicts: countConflicts(entries),
+    teachers: new Set(entries.map(entry => entry.teacher)).size,
+    groups: new Set(entries.map(entry => entry.group)).size,
+    rooms: rooms.length,
+    roomUtilization: rooms.length > 0 ? rooms.reduce((sum, room) => sum + room.percent, 0) / rooms.length : 0,
+  };
+};
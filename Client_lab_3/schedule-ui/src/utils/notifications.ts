@@ -0,0 +1,169 @@
+import type { NotificationType, ServerNotification, UiNotification } from "../types";
+import type { DecodedEvent } from "../api/events";
+import { loadJson, saveJson } from "./storage";
+
+const NOTIFICATIONS_STORAGE_KEY = "schedule-ui.notifications";
+const MAX_NOTIFICATIONS = 200;
+const MAX_SEEN_LIVE = 500;
+
+export interface NotificationStore {
+  /** Newest first */
+  items: UiNotification[];
+  /** Highest NotificationService id merged so far; 0 before the first sync */
+  serverCursor: number;
+  /** Keys of events this browser received live, newest first; their file entries are not shown again */
+  seenLive: string[];
+}
+
+const emptyStore: NotificationStore = { items: [], serverCursor: 0, seenLive: [] };
+
+export const loadNotifications = (): NotificationStore =>
+  ({ ...emptyStore, ...loadJson<Partial<NotificationStore>>(NOTIFICATIONS_STORAGE_KEY, {}) });
+
+export const saveNotifications = (store: NotificationStore): void => saveJson(NOTIFICATIONS_STORAGE_KEY, store);
+
+let sequence = 0;
+
+// Date.now() alone repeats when several notifications are added in the same tick
+const nextId = (): string => `${Date.now().toString(36)}-${(sequence++).toString(36)}`;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+/** Local time in the services' zone-less format, so both kinds of entries read the same */
+export const localTimestamp = (date = new Date()): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T` +
+  `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+const sameGroup = (a: UiNotification, b: UiNotification): boolean =>
+  a.source === b.source && a.type === b.type && a.scheduleId === b.scheduleId && a.message === b.message;
+
+/**
+ * Puts a notification on top. A repeat of one already in the list (same source, type,
+ * schedule and message, e.g. the same conflict reported again) is folded into it instead.
+ */
+const insert = (items: UiNotification[], notification: UiNotification): UiNotification[] => {
+  const existing = items.find(item => sameGroup(item, notification));
+  const merged = existing
+    ? { ...existing, time: notification.time, read: existing.read && notification.read, count: existing.count + 1 }
+    : notification;
+  return [merged, ...items.filter(item => item !== existing)].slice(0, MAX_NOTIFICATIONS);
+};
+
+export const pushNotification = (
+  store: NotificationStore,
+  type: NotificationType,
+  message: string,
+  scheduleId: number | null,
+  time: string
+): NotificationStore => ({
+  ...store,
+  items: insert(store.items, { id: nextId(), type, message, time, read: false, scheduleId, count: 1, source: "app" }),
+});
+
+// Which event an entry of the file was written for, from its title
+const serverKind = (title: string): DecodedEvent["kind"] => {
+  const upper = title.toUpperCase();
+  if (upper.includes("OPTIMIZATION")) return "optimized";
+  if (upper.includes("UPDATE")) return "updated";
+  if (upper.includes("CONFLICT")) return "conflict";
+  return "unknown";
+};
+
+// Seconds and no zone, the way NotificationService writes the event times
+const eventTime = (time: string): string => time.slice(0, 19).replace("T", " ");
+
+const eventKey = (kind: DecodedEvent["kind"], scheduleId: number, detail: string, time: string): string =>
+  [kind, scheduleId, detail, eventTime(time)].join("|");
+
+/** Identifies a pushed event so its NotificationService entry can be recognised; null for unknown events */
+export const liveEventKey = (decoded: DecodedEvent): string | null => {
+  switch (decoded.kind) {
+    case "optimized":
+      return eventKey("optimized", decoded.data.scheduleId, decoded.data.status, decoded.data.optimizedAt);
+    case "updated":
+      return eventKey("updated", decoded.data.scheduleId, decoded.data.changeType, decoded.data.updatedAt);
+    case "conflict":
+      return eventKey("conflict", decoded.data.scheduleId, decoded.data.description, decoded.data.detectedAt);
+    default:
+      return null;
+  }
+};
+
+// Same key as liveEventKey, built from the "Key: Value" lines of the entry
+const serverEventKey = ({ title, scheduleId, fields }: ServerNotification): string | null => {
+  switch (serverKind(title)) {
+    case "optimized":
+      return eventKey("optimized", scheduleId, fields["Status"] ?? "", fields["Optimized At"] ?? "");
+    case "updated":
+      return eventKey("updated", scheduleId, fields["Change Type"] ?? "", fields["Updated At"] ?? "");
+    case "conflict":
+      return eventKey("conflict", scheduleId, fields["Description"] ?? "", fields["Detected At"] ?? "");
+    default:
+      return null;
+  }
+};
+
+export const rememberLiveEvent = (store: NotificationStore, key: string): NotificationStore =>
+  store.seenLive.includes(key) ? store : { ...store, seenLive: [key, ...store.seenLive].slice(0, MAX_SEEN_LIVE) };
+
+const fromServer = (notification: ServerNotification, read: boolean): UiNotification => {
+  const { fields, title } = notification;
+  const kind = serverKind(title);
+  let type: NotificationType = "updated";
+  let message = title;
+  if (kind === "optimized") {
+    type = fields["Status"] === "Failed" ? "error" : "optimized";
+    message = `${fields["Schedule Name"] ?? "Schedule"}: ${fields["Message"] ?? fields["Status"] ?? ""}`;
+  } else if (kind === "updated") {
+    message = `${fields["Change Type"] ?? "Update"}: ${fields["Details"] ?? ""}`;
+  } else if (kind === "conflict") {
+    type = "conflict";
+    message = fields["Description"] ?? title;
+  }
+  return {
+    id: `server-${notification.id}`,
+    type,
+    message,
+    time: notification.savedAt,
+    read,
+    scheduleId: notification.scheduleId > 0 ? notification.scheduleId : null,
+    count: 1,
+    source: "server",
+  };
+};
+
+/**
+ * Adds the NotificationService entries not merged before. Everything already in the file
+ * at the first sync is history and arrives read; later entries arrive unread. Entries for
+ * events this browser received live were announced then and are left out.
+ */
+export const mergeServerNotifications = (store: NotificationStore, list: ServerNotification[]): NotificationStore => {
+  if (list.length === 0) return store;
+  const newest = Math.max(...list.map(notification => notification.id));
+  // Ids are positions in the file, so a lower maximum means NotificationService started a new file
+  const cursor = newest < store.serverCursor ? 0 : store.serverCursor;
+  if (newest === cursor) return store;
+  const fresh = list
+    .filter(notification => notification.id > cursor && !store.seenLive.includes(serverEventKey(notification) ?? ""))
+    .sort((a, b) => a.id - b.id);
+
+  const backlog = store.serverCursor === 0;
+  return {
+    ...store,
+    items: fresh.reduce((items, notification) => insert(items, fromServer(notification, backlog)), store.items),
+    serverCursor: newest,
+  };
+};
+
+export const markRead = (store: NotificationStore, ids: string[] | "all"): NotificationStore => ({
+  ...store,
+  items: store.items.map(item => (ids === "all" || ids.includes(item.id) ? { ...item, read: true } : item)),
+});
+
+export const removeNotification = (store: NotificationStore, id: string): NotificationStore => ({
+  ...store,
+  items: store.items.filter(item => item.id !== id),
+});
+
+// The cursor is kept so cleared server entries do not come back on the next sync
+export const clearNotifications = (store: NotificationStore): NotificationStore => ({ ...store, items: [] });
@@ -0,0 +1,166 @@
+import type { Schedule, ScheduleEntry } from "../types";
+import { ApiError, type ApiClient, type RequestOptions } from "../api/client";
+
+interface OperationBase {
+  id: string;
+  /** Negative for schedules created offline that the server has not assigned an id to yet */
+  scheduleId: number;
+  /** Shown in the pending-changes list and the sync notifications */
+  label: string;
+  /** Local "YYYY-MM-DDTHH:mm:ss" */
+  queuedAt: string;
+  /** Set when the server rejected the replay; the operation waits until it is discarded */
+  error?: string;
+}
+
+export type PendingOperation =
+  | OperationBase & { kind: "create"; name: string; entries: ScheduleEntry[] }
+  /** `base` is the server copy the edit was made on, compared with the server again before replaying */
+  | OperationBase & { kind: "update"; base: Schedule; entries: ScheduleEntry[] }
+  | OperationBase & { kind: "delete"; base: Schedule };
+
+// Omit applied to each member, so the kind-specific fields survive
+type WithoutQueueFields<T> = T extends unknown ? Omit<T, "id" | "queuedAt"> : never;
+
+/** What callers provide; the id and timestamp are filled in when it is queued */
+export type NewOperation = WithoutQueueFields<PendingOperation>;
+
+let sequence = 0;
+
+export const operationId = (): string => `${Date.now().toString(36)}-${(sequence++).toString(36)}`;
+
+/** The service could not be reached at all, so the change is worth keeping for later */
+export const isUnreachable = (error: unknown): boolean => error instanceof ApiError && error.status === 0;
+
+export const nextTemporaryId = (queue: PendingOperation[]): number =>
+  Math.min(0, ...queue.map(op => op.scheduleId)) - 1;
+
+/**
+ * Adds an operation, folding it into what is already queued for the same schedule so the
+ * replay sends one request per schedule: edits of an offline-created schedule go into its
+ * create, repeated edits keep the first base, and deleting an offline-created schedule
+ * drops it entirely.
+ */
+export const enqueue = (queue: PendingOperation[], op: PendingOperation): PendingOperation[] => {
+  const existing = queue.find(item => item.scheduleId === op.scheduleId && !item.error);
+  if (!existing || op.kind === "create") return [...queue, op];
+
+  const replace = (next: PendingOperation | null) =>
+    queue.flatMap(item => (item === existing ? (next ? [next] : []) : [item]));
+
+  if (existing.kind === "create") {
+    return op.kind === "delete" ? replace(null) : replace({ ...existing, entries: op.entries, label: op.label });
+  }
+  if (existing.kind === "delete") return queue;
+  return replace({ ...op, id: existing.id, base: existing.base, queuedAt: existing.queuedAt });
+};
+
+/** The server list as it will look once the queue has been replayed */
+export const applyPending = (schedules: Schedule[], queue: PendingOperation[]): Schedule[] => {
+  let result = schedules;
+  for (const op of queue) {
+    if (op.error) continue;
+    if (op.kind === "create") {
+      result = [...result, { id: op.scheduleId, name: op.name, status: 0, createdAt: op.queuedAt, entries: op.entries }];
+    } else if (op.kind === "update") {
+      result = result.map(schedule => (schedule.id === op.scheduleId ? { ...schedule, entries: op.entries } : schedule));
+    } else {
+      result = result.filter(schedule => schedule.id !== op.scheduleId);
+    }
+  }
+  return result;
+};
+
+const entryKey = (entry: ScheduleEntry): string =>
+  [entry.subject, entry.teacher, entry.group, entry.room, entry.dayOfWeek, entry.startTime, entry.endTime].join("|");
+
+const countKeys = (entries: ScheduleEntry[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  entries.forEach(entry => counts.set(entryKey(entry), (counts.get(entryKey(entry)) ?? 0) + 1));
+  return counts;
+};
+
+// Entries of `entries` beyond how often they occur in `other`; classes have no ids, so they compare by value
+const subtract = (entries: ScheduleEntry[], other: ScheduleEntry[]): ScheduleEntry[] => {
+  const remaining = countKeys(other);
+  return entries.filter(entry => {
+    const left = remaining.get(entryKey(entry)) ?? 0;
+    remaining.set(entryKey(entry), left - 1);
+    return left <= 0;
+  });
+};
+
+export interface EntryDiff {
+  added: ScheduleEntry[];
+  removed: ScheduleEntry[];
+}
+
+export const diffEntries = (before: ScheduleEntry[], after: ScheduleEntry[]): EntryDiff =>
+  ({ added: subtract(after, before), removed: subtract(before, after) });
+
+export const serverChanged = (base: Schedule, server: Schedule): boolean => {
+  const diff = diffEntries(base.entries, server.entries);
+  return base.name !== server.name || base.status !== server.status ||
+    diff.added.length > 0 || diff.removed.length > 0;
+};
+
+/**
+ * Three-way merge of the class lists: the server copy, plus the classes added offline,
+ * minus the ones removed offline. A class changed on both sides ends up in both versions.
+ */
+export const mergeEntries = (base: ScheduleEntry[], server: ScheduleEntry[], local: ScheduleEntry[]): ScheduleEntry[] => {
+  const { added, removed } = diffEntries(base, local);
+  return [...subtract(server, removed), ...subtract(added, server)];
+};
+
+export type SyncChoice = "mine" | "server" | "merge";
+
+export interface SyncConflict {
+  operation: PendingOperation;
+  /** null when the schedule was deleted on the server meanwhile */
+  server: Schedule | null;
+}
+
+/**
+ * Sends one queued operation. Updates and deletes are checked against the current server
+ * copy first; if someone else changed or deleted the schedule meanwhile, `resolve` decides.
+ * Resolves to the id the schedule ended up with on the server, or null if there is none.
+ */
+export const replayOperation = async (
+  client: ApiClient,
+  op: PendingOperation,
+  resolve: (conflict: SyncConflict) => Promise<SyncChoice>,
+  opts?: RequestOptions
+): Promise<number | null> => {
+  if (op.kind === "create") {
+    return (await client.schedules.create({ name: op.name, entries: op.entries }, opts)).id;
+  }
+
+  let server: Schedule | null = null;
+  try {
+    server = await client.schedules.get(op.scheduleId, opts);
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 404)) throw error;
+  }
+
+  if (op.kind === "delete") {
+    if (!server) return null;
+    if (serverChanged(op.base, server) && await resolve({ operation: op, server }) === "server") return server.id;
+    await client.schedules.remove(op.scheduleId, opts);
+    return null;
+  }
+
+  if (!server) {
+    if (await resolve({ operation: op, server: null }) === "server") return null;
+    return (await client.schedules.create({ name: op.base.name, entries: op.entries }, opts)).id;
+  }
+
+  let entries = op.entries;
+  if (serverChanged(op.base, server)) {
+    const choice = await resolve({ operation: op, server });
+    if (choice === "server") return server.id;
+    if (choice === "merge") entries = mergeEntries(op.base.entries, server.entries, op.entries);
+  }
+  await client.schedules.update({ ...server, entries }, opts);
+  return server.id;
+};
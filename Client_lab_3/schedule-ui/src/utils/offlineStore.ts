@@ -0,0 +1,50 @@
+// IndexedDB key-value helpers for the offline copy; like storage.ts, failures are non-fatal
+
+const DB_NAME = "schedule-ui";
+const DB_VERSION = 1;
+const STORE_NAME = "offline";
+
+export type OfflineKey = "schedules" | "catalog" | "queue" | "formDraft" | "versions";
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error: unknown) => {
+    // Let the next call try again, e.g. after the user allowed storage
+    database = null;
+    throw error;
+  });
+  return database;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const readOffline = async <T>(key: OfflineKey, fallback: T): Promise<T> => {
+  try {
+    const value = await run<unknown>("readonly", store => store.get(key));
+    return value === undefined ? fallback : (value as T);
+  } catch (error) {
+    console.error(`Failed to read offline ${key}:`, error);
+    return fallback;
+  }
+};
+
+export const writeOffline = async (key: OfflineKey, value: unknown): Promise<void> => {
+  try {
+    await run("readwrite", store => store.put(value, key));
+  } catch (error) {
+    console.error(`Failed to store offline ${key}:`, error);
+  }
+};
@@ -0,0 +1,36 @@
+import type { OptimizationCriteria, ScheduleEntry } from "../types";
+import { countConflicts } from "./conflicts";
+import { countWindows } from "./metrics";
+import { loadJson, saveJson } from "./storage";
+
+const CRITERIA_STORAGE_KEY = "schedule-ui.optimizationCriteria";
+
+// Same defaults as SharedModels.OptimizationCriteria
+export const defaultCriteria: OptimizationCriteria = {
+  minimizeWindows: true,
+  balanceLoad: true,
+  resolveConflicts: true,
+  maxIterations: 1000,
+};
+
+export interface QualitySnapshot {
+  windows: number;
+  conflicts: number;
+}
+
+export const takeSnapshot = (entries: ScheduleEntry[]): QualitySnapshot => ({
+  windows: countWindows(entries),
+  conflicts: countConflicts(entries),
+});
+
+export const loadCriteria = (scheduleId: number): OptimizationCriteria => ({
+  ...defaultCriteria,
+  ...loadJson<Record<number, OptimizationCriteria>>(CRITERIA_STORAGE_KEY, {})[scheduleId],
+});
+
+export const saveCriteria = (scheduleId: number, criteria: OptimizationCriteria): void => {
+  saveJson(CRITERIA_STORAGE_KEY, {
+    ...loadJson<Record<number, OptimizationCriteria>>(CRITERIA_STORAGE_KEY, {}),
+    [scheduleId]: criteria,
+  });
+};
@@ -0,0 +1,81 @@
+import type { Catalog, CatalogKind, Schedule, ScheduleEntry } from "../types";
+import { entriesOverlap, sameName } from "./conflicts";
+import type { ClashKind } from "./slots";
+import { shortTime, toMinutes } from "./time";
+import { t, weekdayName, type Locale, type TextKey } from "./i18n";
+
+export interface PersonalSelection {
+  kind: ClashKind;
+  name: string;
+}
+
+export interface PersonalEntry {
+  entry: ScheduleEntry;
+  schedule: Schedule;
+}
+
+export const personalKindLabels: Record<ClashKind, TextKey> = { teacher: "kind.teacher", group: "kind.group", room: "kind.room" };
+
+export const personalPlaceholders: Record<ClashKind, TextKey> = {
+  teacher: "personal.selectTeacher", group: "personal.selectGroup", room: "personal.selectRoom",
+};
+
+const catalogKinds: Record<ClashKind, CatalogKind> = { teacher: "teachers", group: "groups", room: "rooms" };
+
+/**
+ * Names to pick from: the catalog plus any name only used in schedule entries
+ * (e.g. classes imported before the catalog record was created).
+ */
+export const personalOptions = (catalog: Catalog, schedules: Schedule[], kind: ClashKind): string[] => {
+  const names = new Map<string, string>();
+  const add = (name: string) => {
+    const key = name.trim().toLowerCase();
+    if (key && !names.has(key)) names.set(key, name.trim());
+  };
+  catalog[catalogKinds[kind]].forEach(item => add(item.name));
+  schedules.forEach(schedule => schedule.entries.forEach(entry => add(entry[kind])));
+  return [...names.values()].sort((a, b) => a.localeCompare(b));
+};
+
+/** Every class of the teacher, group or room across the given schedules, in weekly order */
+export const gatherPersonalEntries = (schedules: Schedule[], selection: PersonalSelection): PersonalEntry[] =>
+  schedules
+    .flatMap(schedule => schedule.entries
+      .filter(entry => sameName(entry[selection.kind], selection.name))
+      .map(entry => ({ entry, schedule })))
+    .sort((a, b) =>
+      a.entry.dayOfWeek - b.entry.dayOfWeek || toMinutes(a.entry.startTime) - toMinutes(b.entry.startTime));
+
+const describe = ({ entry, schedule }: PersonalEntry, locale: Locale): string =>
+  t("personal.overlaps", {
+    subject: entry.subject,
+    schedule: schedule.name,
+    day: weekdayName(entry.dayOfWeek, "long", locale),
+    time: `${shortTime(entry.startTime)}–${shortTime(entry.endTime)}`,
+  }, locale);
+
+/**
+ * Conflict messages keyed by index into `items`. All the items share the selected
+ * entity, so any two that overlap in time are a clash for it. Clashes inside one
+ * schedule are rejected by ScheduleService on submit; the ones between schedules
+ * are only caught by CheckGlobalConflicts against the existing schedules.
+ */
+export const personalConflicts = (items: PersonalEntry[], locale: Locale): Record<number, string[]> => {
+  const conflicts: Record<number, string[]> = {};
+  const add = (index: number, other: PersonalEntry) => {
+    (conflicts[index] ??= []).push(describe(other, locale));
+  };
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (entriesOverlap(items[i].entry, items[j].entry)) {
+        add(i, items[j]);
+        add(j, items[i]);
+      }
+    }
+  }
+  return conflicts;
+};
+
+/** Total class time in hours per week */
+export const weeklyHours = (items: PersonalEntry[]): number =>
+  items.reduce((sum, { entry }) => sum + toMinutes(entry.endTime) - toMinutes(entry.startTime), 0) / 60;
@@ -0,0 +1,63 @@
+import type { Group, Room, ScheduleEntry, Subject } from "../types";
+import { findByName } from "./catalog";
+
+export interface RankedRoom {
+  room: Room;
+  /** Seats left after the group is seated; negative when the room is too small */
+  spareSeats: number | null;
+  typeMatches: boolean;
+}
+
+export interface CapacityIssue {
+  index: number;
+  entry: ScheduleEntry;
+  studentsCount: number;
+  capacity: number;
+}
+
+// Words that say nothing about what a room is equipped for
+const GENERIC_TYPE_WORDS = new Set(["room", "hall", "class", "classroom"]);
+
+const typeWords = (type: string): string[] =>
+  type.toLowerCase().split(/\W+/).filter(word => word.length > 2 && !GENERIC_TYPE_WORDS.has(word));
+
+/**
+ * Subjects carry no room type, so the type is inferred from their name and description:
+ * "Databases (computer lab)" prefers a "Computer Lab", "Lecture course" a "Lecture Hall".
+ */
+export const roomTypeMatches = (room: Room, subject: Subject | undefined): boolean => {
+  if (!subject) return false;
+  const text = `${subject.name} ${subject.description}`.toLowerCase();
+  return typeWords(room.type).some(word => text.includes(word));
+};
+
+/**
+ * Rooms that fit the group come first, then the ones equipped for the subject,
+ * then the tightest fit so large halls stay free for large groups.
+ */
+export const rankRooms = (rooms: Room[], group: Group | undefined, subject: Subject | undefined): RankedRoom[] =>
+  rooms
+    .map(room => ({
+      room,
+      spareSeats: group ? room.capacity - group.studentsCount : null,
+      typeMatches: roomTypeMatches(room, subject),
+    }))
+    .sort((a, b) => {
+      const aFits = a.spareSeats === null || a.spareSeats >= 0;
+      const bFits = b.spareSeats === null || b.spareSeats >= 0;
+      if (aFits !== bFits) return aFits ? -1 : 1;
+      if (a.typeMatches !== b.typeMatches) return a.typeMatches ? -1 : 1;
+      if (a.spareSeats !== null && b.spareSeats !== null && a.spareSeats !== b.spareSeats) {
+        return aFits ? a.spareSeats - b.spareSeats : b.spareSeats - a.spareSeats;
+      }
+      return a.room.name.localeCompare(b.room.name, undefined, { numeric: true });
+    });
+
+/** Entries whose group is larger than the room; names not found in the catalog are skipped */
+export const findCapacityIssues = (entries: ScheduleEntry[], groups: Group[], rooms: Room[]): CapacityIssue[] =>
+  entries.flatMap((entry, index) => {
+    const group = findByName(groups, entry.group);
+    const room = findByName(rooms, entry.room);
+    if (!group || !room || group.studentsCount <= room.capacity) return [];
+    return [{ index, entry, studentsCount: group.studentsCount, capacity: room.capacity }];
+  });
@@ -0,0 +1,146 @@
+import type { CatalogKind, ScheduleStatus } from "../types";
+import { catalogLabels } from "./catalog";
+import { emptyLogFilter, type LogFilter } from "./eventLog";
+import type { PersonalSelection } from "./personal";
+import { statusNames } from "./scheduleStatus";
+import type { ClashKind } from "./slots";
+
+export type ComparedIds = [number | null, number | null];
+
+export type Route =
+  | { page: "schedules"; scheduleId: number | null; status: ScheduleStatus | "all"; focus: number[] }
+  | { page: "personal"; selection: PersonalSelection; includeArchived: boolean }
+  | { page: "catalog"; kind: CatalogKind }
+  | { page: "analytics"; scheduleId: number | null; compare: ComparedIds }
+  | { page: "events"; filter: LogFilter };
+
+export type Page = Route["page"];
+
+// First path segment of each page; "/" is the schedules list
+const pageSegments: Record<Page, string> = {
+  schedules: "schedules",
+  personal: "my",
+  catalog: "catalog",
+  analytics: "analytics",
+  events: "events",
+};
+
+export const defaultRoute = (page: Page): Route => {
+  switch (page) {
+    case "schedules":
+      return { page, scheduleId: null, status: "all", focus: [] };
+    case "personal":
+      return { page, selection: { kind: "teacher", name: "" }, includeArchived: false };
+    case "catalog":
+      return { page, kind: "teachers" };
+    case "analytics":
+      return { page, scheduleId: null, compare: [null, null] };
+    case "events":
+      return { page, filter: emptyLogFilter };
+  }
+};
+
+const toId = (value: string | undefined | null): number | null =>
+  value && /^\d+$/.test(value) ? Number(value) : null;
+
+const toIds = (value: string | null): number[] =>
+  (value ?? "").split(",").map(toId).filter(id => id !== null);
+
+const statusSlug = (status: ScheduleStatus): string => statusNames[status].toLowerCase();
+
+const parseStatus = (value: string | null): ScheduleStatus | "all" =>
+  (Object.keys(statusNames).map(Number) as ScheduleStatus[]).find(status => statusSlug(status) === value) ?? "all";
+
+const isPersonalKind = (value: string | undefined): value is ClashKind =>
+  value === "teacher" || value === "group" || value === "room";
+
+const isCatalogKind = (value: string | undefined): value is CatalogKind =>
+  value !== undefined && Object.hasOwn(catalogLabels, value);
+
+const decodeSegment = (segment: string | undefined): string => {
+  try {
+    return decodeURIComponent(segment ?? "");
+  } catch {
+    return "";
+  }
+};
+
+/** Anything unknown falls back to the schedules list rather than an empty page */
+export const parseRoute = (pathname: string, search: string): Route => {
+  const [first, second, third] = pathname.split("/").filter(Boolean);
+  const params = new URLSearchParams(search);
+
+  switch (first) {
+    case pageSegments.personal:
+      return {
+        page: "personal",
+        selection: { kind: isPersonalKind(second) ? second : "teacher", name: decodeSegment(third) },
+        includeArchived: params.get("archived") === "1",
+      };
+    case pageSegments.catalog:
+      return { page: "catalog", kind: isCatalogKind(second) ? second : "teachers" };
+    case pageSegments.analytics: {
+      // Positional: "compare=,4" picks only the right-hand schedule
+      const [a = null, b = null] = (params.get("compare") ?? "").split(",").map(toId);
+      return { page: "analytics", scheduleId: toId(second), compare: [a, b] };
+    }
+    case pageSegments.events:
+      return {
+        page: "events",
+        filter: {
+          routingKeys: (params.get("type") ?? "").split(",").filter(Boolean),
+          scheduleId: params.get("schedule") ?? "",
+          from: params.get("from") ?? "",
+          to: params.get("to") ?? "",
+          search: params.get("q") ?? "",
+        },
+      };
+    default:
+      return {
+        page: "schedules",
+        scheduleId: first === pageSegments.schedules ? toId(second) : null,
+        status: parseStatus(params.get("status")),
+        focus: toIds(params.get("focus")),
+      };
+  }
+};
+
+/** Path plus query; empty values are left out so default views get short links */
+export const formatRoute = (route: Route): string => {
+  const segments: string[] = [pageSegments[route.page]];
+  const params = new URLSearchParams();
+  const set = (key: string, value: string) => {
+    if (value) params.set(key, value);
+  };
+
+  switch (route.page) {
+    case "schedules":
+      if (route.scheduleId !== null) segments.push(String(route.scheduleId));
+      if (route.status !== "all") set("status", statusSlug(route.status));
+      if (route.scheduleId !== null) set("focus", route.focus.join(","));
+      break;
+    case "personal":
+      segments.push(route.selection.kind);
+      if (route.selection.name) segments.push(encodeURIComponent(route.selection.name));
+      if (route.includeArchived) set("archived", "1");
+      break;
+    case "catalog":
+      segments.push(route.kind);
+      break;
+    case "analytics":
+      if (route.scheduleId !== null) segments.push(String(route.scheduleId));
+      if (route.compare.some(id => id !== null)) set("compare", route.compare.map(id => id ?? "").join(","));
+      break;
+    case "events":
+      set("type", route.filter.routingKeys.join(","));
+      set("schedule", route.filter.scheduleId.trim());
+      set("from", route.filter.from);
+      set("to", route.filter.to);
+      set("q", route.filter.search);
+      break;
+  }
+
+  // Commas separate list values and are safe in a query, so keep them readable
+  const query = params.toString().replace(/%2C/gi, ",");
+  return `/${segments.join("/")}${query ? `?${query}` : ""}`;
+};
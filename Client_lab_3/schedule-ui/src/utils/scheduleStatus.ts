@@ -0,0 +1,63 @@
+import type { AnalyticsEvent, Schedule, ScheduleStatus } from "../types";
+import { decodeEvent } from "../api/events";
+import type { TextKey } from "./i18n";
+
+// Canonical English names, used in URLs; the UI shows the translated statusKeys
+export const statusNames: Record<ScheduleStatus, string> = {
+  0: "Draft", 1: "Optimizing", 2: "Optimized", 3: "Published", 4: "Archived"
+};
+
+export const statusKeys: Record<ScheduleStatus, TextKey> = {
+  0: "status.draft", 1: "status.optimizing", 2: "status.optimized", 3: "status.published", 4: "status.archived",
+};
+
+export const statusClasses: Record<ScheduleStatus, string> = {
+  0: "bg-yellow-500/20 text-yellow-300 border-yellow-500/50",
+  1: "bg-blue-500/20 text-blue-300 border-blue-500/50",
+  2: "bg-green-500/20 text-green-300 border-green-500/50",
+  3: "bg-purple-500/20 text-purple-300 border-purple-500/50",
+  4: "bg-slate-500/20 text-slate-300 border-slate-500/50",
+};
+
+// Same rules as IsLocked/CanTransition in ScheduleService
+export const isLocked = (schedule: Schedule): boolean => schedule.status === 3 || schedule.status === 4;
+
+export const canPublish = (status: ScheduleStatus): boolean => status === 0 || status === 2;
+
+export const canArchive = (status: ScheduleStatus): boolean => status !== 4;
+
+export interface StatusChange {
+  /** null for a failed optimization, which leaves the status where it was */
+  status: ScheduleStatus | null;
+  label: TextKey;
+  timestamp: string;
+}
+
+const statusByChangeType: Record<string, ScheduleStatus> = { Created: 0, Published: 3, Archived: 4 };
+
+/**
+ * Status changes of one schedule, oldest first, reconstructed from the analytics
+ * event feed; only as complete as the events AnalyticsService still returns.
+ */
+export const statusTimeline = (scheduleId: number, events: AnalyticsEvent[]): StatusChange[] =>
+  events
+    .flatMap((event): StatusChange[] => {
+      const decoded = decodeEvent(event);
+      if (!decoded.data || decoded.data.scheduleId !== scheduleId) return [];
+      if (decoded.kind === "updated" && decoded.data.changeType in statusByChangeType) {
+        const status = statusByChangeType[decoded.data.changeType];
+        return [{ status, label: statusKeys[status], timestamp: event.timestamp }];
+      }
+      if (decoded.kind === "optimized") {
+        switch (decoded.data.status) {
+          case "Started":
+            return [{ status: 1, label: statusKeys[1], timestamp: event.timestamp }];
+          case "Completed":
+            return [{ status: 2, label: statusKeys[2], timestamp: event.timestamp }];
+          case "Failed":
+            return [{ status: null, label: "status.optimizationFailed", timestamp: event.timestamp }];
+        }
+      }
+      return [];
+    })
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
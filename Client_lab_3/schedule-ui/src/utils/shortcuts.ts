@@ -0,0 +1,58 @@
+import type { TextKey } from "./i18n";
+import { loadJson, saveJson } from "./storage";
+
+export type ShortcutAction =
+  | "newClass" | "nextSchedule" | "previousSchedule" | "checkConflicts" | "undo" | "toggleContrast" | "help"
+  | "tabSchedules" | "tabPersonal" | "tabCatalog" | "tabAnalytics" | "tabEvents";
+
+/**
+ * Single-key shortcuts; they are off while typing in a field, while a dialog is open,
+ * or when turned off in the shortcut list (a stray key press or speech input can hit them)
+ */
+export const shortcuts: { key: string; action: ShortcutAction; label: TextKey }[] = [
+  { key: "n", action: "newClass", label: "shortcuts.newClass" },
+  { key: "j", action: "nextSchedule", label: "shortcuts.nextSchedule" },
+  { key: "k", action: "previousSchedule", label: "shortcuts.previousSchedule" },
+  { key: "c", action: "checkConflicts", label: "shortcuts.checkConflicts" },
+  { key: "1", action: "tabSchedules", label: "tabs.schedules" },
+  { key: "2", action: "tabPersonal", label: "tabs.personal" },
+  { key: "3", action: "tabCatalog", label: "tabs.catalog" },
+  { key: "4", action: "tabAnalytics", label: "tabs.analytics" },
+  { key: "5", action: "tabEvents", label: "tabs.events" },
+  { key: "h", action: "toggleContrast", label: "shortcuts.toggleContrast" },
+  { key: "?", action: "help", label: "shortcuts.help" },
+];
+
+/** Shortcuts with Ctrl (⌘ on macOS); they stay on when the single-key ones are turned off */
+export const modifierShortcuts: { key: string; keys: string; action: ShortcutAction; label: TextKey }[] = [
+  { key: "z", keys: "Ctrl / ⌘ + Z", action: "undo", label: "shortcuts.undo" },
+];
+
+/** Keys handled by a focused class in the weekly timetable */
+export const timetableKeys: { keys: string; label: TextKey }[] = [
+  { keys: "Enter", label: "shortcuts.editClass" },
+  { keys: "Alt + ↑ / ↓", label: "shortcuts.moveTime" },
+  { keys: "Alt + ← / →", label: "shortcuts.moveDay" },
+  { keys: "Alt + Shift + ↑ / ↓", label: "shortcuts.resize" },
+];
+
+const isTyping = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Fields keep their own Ctrl+Z, and Ctrl+Shift+Z is left to the browser as redo
+export const matchShortcut = (e: KeyboardEvent, singleKeys: boolean): ShortcutAction | null => {
+  if (e.defaultPrevented || e.altKey || isTyping(e.target)) return null;
+  const key = e.key.toLowerCase();
+  if (e.ctrlKey || e.metaKey) {
+    return e.shiftKey ? null : modifierShortcuts.find(shortcut => shortcut.key === key)?.action ?? null;
+  }
+  if (!singleKeys) return null;
+  return shortcuts.find(shortcut => shortcut.key === key)?.action ?? null;
+};
+
+const SINGLE_KEYS_KEY = "schedule-ui.singleKeyShortcuts";
+
+export const loadSingleKeyShortcuts = (): boolean => loadJson<unknown>(SINGLE_KEYS_KEY, true) !== false;
+
+export const saveSingleKeyShortcuts = (enabled: boolean): void => saveJson(SINGLE_KEYS_KEY, enabled);
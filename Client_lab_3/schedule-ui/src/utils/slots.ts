@@ -0,0 +1,89 @@
+import type { DayOfWeek, Schedule, ScheduleEntry } from "../types";
+import { entriesOverlap, sameName } from "./conflicts";
+import { toMinutes, toTimeSpan } from "./time";
+import { weekDays } from "./timetable";
+
+// Same hours as ScheduleWeek in SharedModels
+const DAY_START_MINUTES = 8 * 60;
+const DAY_END_MINUTES = 20 * 60;
+const STEP_MINUTES = 15;
+
+export type ClashKind = "teacher" | "group" | "room";
+
+export interface Clash {
+  kind: ClashKind;
+  entity: string;
+  entry: ScheduleEntry;
+  /** null when the clash is inside the schedule being edited */
+  scheduleName: string | null;
+}
+
+export interface SlotSuggestion {
+  dayOfWeek: DayOfWeek;
+  start: number;
+  end: number;
+}
+
+const clashKinds: ClashKind[] = ["teacher", "group", "room"];
+
+const clashingKinds = (candidate: ScheduleEntry, other: ScheduleEntry): ClashKind[] =>
+  entriesOverlap(candidate, other) ? clashKinds.filter(kind => sameName(candidate[kind], other[kind])) : [];
+
+/**
+ * Checks a not-yet-saved entry against the schedule it goes into and every other
+ * loaded schedule, like CheckConflicts/CheckGlobalConflicts do on submit.
+ * Only the filled-in teacher/group/room fields are compared.
+ */
+export const findClashes = (
+  candidate: ScheduleEntry,
+  ownEntries: ScheduleEntry[],
+  otherSchedules: Schedule[]
+): Clash[] => {
+  const clashes: Clash[] = [];
+  for (const entry of ownEntries) {
+    clashingKinds(candidate, entry).forEach(kind =>
+      clashes.push({ kind, entity: entry[kind], entry, scheduleName: null }));
+  }
+  for (const schedule of otherSchedules) {
+    for (const entry of schedule.entries) {
+      clashingKinds(candidate, entry).forEach(kind =>
+        clashes.push({ kind, entity: entry[kind], entry, scheduleName: schedule.name }));
+    }
+  }
+  return clashes;
+};
+
+/**
+ * Nearest slots of the same length where the teacher, group and room are all free.
+ * Distance is measured from the requested slot; the same day is always preferred.
+ */
+export const suggestFreeSlots = (
+  candidate: ScheduleEntry,
+  occupied: ScheduleEntry[],
+  limit = 4
+): SlotSuggestion[] => {
+  const requestedStart = toMinutes(candidate.startTime);
+  const duration = toMinutes(candidate.endTime) - requestedStart;
+  if (duration <= 0) return [];
+
+  const relevant = occupied.filter(entry => clashKinds.some(kind => sameName(candidate[kind], entry[kind])));
+  const suggestions: (SlotSuggestion & { distance: number })[] = [];
+
+  for (const day of weekDays) {
+    for (let start = DAY_START_MINUTES; start + duration <= DAY_END_MINUTES; start += STEP_MINUTES) {
+      if (day === candidate.dayOfWeek && start === requestedStart) continue;
+
+      const end = start + duration;
+      const probe = { ...candidate, dayOfWeek: day, startTime: toTimeSpan(start), endTime: toTimeSpan(end) };
+      if (relevant.some(entry => clashingKinds(probe, entry).length > 0)) continue;
+
+      const dayDistance = Math.abs(day - candidate.dayOfWeek);
+      suggestions.push({ dayOfWeek: day, start, end, distance: dayDistance * 24 * 60 + Math.abs(start - requestedStart) });
+    }
+  }
+
+  return suggestions
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ dayOfWeek, start, end }) => ({ dayOfWeek, start, end }));
+};
@@ -0,0 +1,18 @@
+// localStorage helpers; storage can be unavailable (private mode, quota) so failures are non-fatal
+
+export const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveJson = (key: string, value: unknown): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to persist ${key}:`, error);
+  }
+};
@@ -0,0 +1,19 @@
+import { loadJson, saveJson } from "./storage";
+
+export type Theme = "dark" | "contrast";
+
+const THEME_KEY = "schedule-ui.theme";
+
+/** The saved choice, else high contrast when the system asks for more contrast */
+export const loadTheme = (): Theme => {
+  const saved = loadJson<unknown>(THEME_KEY, null);
+  if (saved === "dark" || saved === "contrast") return saved;
+  return window.matchMedia?.("(prefers-contrast: more)").matches ? "contrast" : "dark";
+};
+
+// index.css keys the high-contrast overrides off this attribute
+export const applyTheme = (theme: Theme): void => {
+  document.documentElement.dataset.theme = theme;
+};
+
+export const saveTheme = (theme: Theme): void => saveJson(THEME_KEY, theme);
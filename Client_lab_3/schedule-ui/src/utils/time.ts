@@ -0,0 +1,15 @@
+// Backend serializes TimeSpan as "HH:mm:ss"; the form works with "HH:mm".
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(part => parseInt(part, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const fromMinutes = (total: number): string => {
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+};
+
+export const toTimeSpan = (minutes: number): string => `${fromMinutes(minutes)}:00`;
+
+export const shortTime = (time: string): string => time.substring(0, 5);
@@ -0,0 +1,78 @@
+import type { DayOfWeek, ScheduleEntry } from "../types";
+import { toMinutes } from "./time";
+
+export const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Classes are only held Monday–Saturday; ScheduleWeek in SharedModels uses the same week
+export const weekDays: DayOfWeek[] = [1, 2, 3, 4, 5, 6];
+
+/** Columns of a weekly grid: Sunday is added after Saturday only when a class falls on it */
+export const daysShown = (entries: ScheduleEntry[]): DayOfWeek[] =>
+  entries.some(entry => entry.dayOfWeek === 0) ? [...weekDays, 0] : weekDays;
+
+export type TimetableFilterKind = "all" | "group" | "teacher" | "room";
+
+export interface PlacedEntry {
+  entry: ScheduleEntry;
+  index: number;
+  start: number;
+  end: number;
+  lane: number;
+  lanes: number;
+}
+
+export const matchesFilter = (entry: ScheduleEntry, kind: TimetableFilterKind, value: string): boolean =>
+  kind === "all" || !value || entry[kind] === value;
+
+/**
+ * Visible hour range of the grid: at least 08:00–18:00, widened to fit every entry.
+ */
+export const getHourRange = (entries: ScheduleEntry[]): { from: number; to: number } => {
+  let from = 8;
+  let to = 18;
+  for (const entry of entries) {
+    from = Math.min(from, Math.floor(toMinutes(entry.startTime) / 60));
+    to = Math.max(to, Math.ceil(toMinutes(entry.endTime) / 60));
+  }
+  return { from, to: Math.min(to, 24) };
+};
+
+/**
+ * Places the entries of one day into side-by-side lanes. Entries that overlap
+ * (directly or through a chain of overlaps) share a cluster and split its width.
+ */
+export const layoutDay = (items: { entry: ScheduleEntry; index: number }[]): PlacedEntry[] => {
+  const sorted = items
+    .map(({ entry, index }) => ({ entry, index, start: toMinutes(entry.startTime), end: toMinutes(entry.endTime) }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const placed: PlacedEntry[] = [];
+  let cluster: PlacedEntry[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = -1;
+
+  const closeCluster = () => {
+    cluster.forEach(item => { item.lanes = laneEnds.length; });
+    placed.push(...cluster);
+    cluster = [];
+    laneEnds = [];
+  };
+
+  for (const item of sorted) {
+    if (item.start >= clusterEnd) closeCluster();
+
+    let lane = laneEnds.findIndex(end => end <= item.start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(item.end);
+    } else {
+      laneEnds[lane] = item.end;
+    }
+
+    cluster.push({ ...item, lane, lanes: 1 });
+    clusterEnd = Math.max(clusterEnd, item.end);
+  }
+  closeCluster();
+
+  return placed;
+};
@@ -0,0 +1,112 @@
+import type { Schedule, ScheduleEntry, ScheduleStatus } from "../types";
+import type { TextKey } from "./i18n";
+
+// Older snapshots of a schedule are dropped beyond this many
+const MAX_VERSIONS_PER_SCHEDULE = 30;
+
+/** Why the snapshot was taken; all but "afterOptimization" hold the schedule as it was before the change */
+export type VersionReason = "edit" | "status" | "beforeOptimization" | "afterOptimization";
+
+export interface ScheduleVersion {
+  id: string;
+  scheduleId: number;
+  /** Local time in the services' zone-less format */
+  takenAt: string;
+  reason: VersionReason;
+  /** The change that followed, e.g. the notification text of the edit */
+  label: string;
+  name: string;
+  status: ScheduleStatus;
+  entries: ScheduleEntry[];
+}
+
+export const versionReasonKeys: Record<VersionReason, TextKey> = {
+  edit: "versions.reasonEdit",
+  status: "versions.reasonStatus",
+  beforeOptimization: "versions.reasonBeforeOptimization",
+  afterOptimization: "versions.reasonAfterOptimization",
+};
+
+let sequence = 0;
+
+const versionId = (): string => `${Date.now().toString(36)}-${(sequence++).toString(36)}`;
+
+const slotKey = (entry: ScheduleEntry): string =>
+  [entry.subject, entry.teacher, entry.group, entry.room, entry.dayOfWeek, entry.startTime, entry.endTime].join("|");
+
+// The same class in another slot; entries have no ids, so this is the closest thing to one
+const classKey = (entry: ScheduleEntry): string => [entry.subject, entry.teacher, entry.group, entry.room].join("|");
+
+const sameEntries = (a: ScheduleEntry[], b: ScheduleEntry[]): boolean =>
+  a.length === b.length && a.every((entry, i) => slotKey(entry) === slotKey(b[i]));
+
+/** Newest first, like the notification list */
+export const versionsOf = (versions: ScheduleVersion[], scheduleId: number): ScheduleVersion[] =>
+  versions.filter(version => version.scheduleId === scheduleId);
+
+/**
+ * Puts a snapshot of `schedule` on top. A snapshot identical to the schedule's newest one
+ * (e.g. before an edit that only changed the status) is not stored twice.
+ */
+export const addVersion = (
+  versions: ScheduleVersion[],
+  schedule: Schedule,
+  reason: VersionReason,
+  label: string,
+  takenAt: string,
+): ScheduleVersion[] => {
+  const latest = versions.find(version => version.scheduleId === schedule.id);
+  if (latest && latest.status === schedule.status && sameEntries(latest.entries, schedule.entries)) {
+    // An after-optimization snapshot that changed nothing still says so on the timeline
+    if (reason !== "afterOptimization") return versions;
+  }
+
+  const version: ScheduleVersion = {
+    id: versionId(),
+    scheduleId: schedule.id,
+    takenAt,
+    reason,
+    label,
+    name: schedule.name,
+    status: schedule.status,
+    entries: schedule.entries,
+  };
+  const own = [version, ...versionsOf(versions, schedule.id)].slice(0, MAX_VERSIONS_PER_SCHEDULE);
+  return [...own, ...versions.filter(item => item.scheduleId !== schedule.id)];
+};
+
+export interface VersionDiff {
+  /** Indexes into the newer list */
+  added: number[];
+  /** Indexes into the older list */
+  removed: number[];
+  /** The same class in another day or time */
+  moved: { from: number; to: number }[];
+}
+
+/** What changed from `from` to `to`; identical classes are matched first, then moves are paired up */
+export const compareVersions = (from: ScheduleEntry[], to: ScheduleEntry[]): VersionDiff => {
+  const unmatched = new Map<string, number[]>();
+  from.forEach((entry, i) => unmatched.set(slotKey(entry), [...(unmatched.get(slotKey(entry)) ?? []), i]));
+
+  const newcomers: number[] = [];
+  to.forEach((entry, i) => {
+    const candidates = unmatched.get(slotKey(entry));
+    if (candidates && candidates.length > 0) candidates.shift();
+    else newcomers.push(i);
+  });
+
+  const removed = [...unmatched.values()].flat().sort((a, b) => a - b);
+  const added: number[] = [];
+  const moved: VersionDiff["moved"] = [];
+  for (const i of newcomers) {
+    const match = removed.findIndex(j => classKey(from[j]) === classKey(to[i]));
+    if (match === -1) {
+      added.push(i);
+    } else {
+      moved.push({ from: removed[match], to: i });
+      removed.splice(match, 1);
+    }
+  }
+  return { added, removed, moved };
+};
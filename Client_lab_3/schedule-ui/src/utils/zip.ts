@@ -0,0 +1,71 @@
+// Minimal ZIP writer: files are stored uncompressed, which every unzip tool and OS can open
+
+const encoder = new TextEncoder();
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date in local time, to two seconds
+const dosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+];
+
+/** A little-endian record of `size` bytes; fields are [offset, width, value] */
+const record = (size: number, fields: [number, 2 | 4, number][]): Uint8Array<ArrayBuffer> => {
+  const view = new DataView(new ArrayBuffer(size));
+  for (const [offset, width, value] of fields) {
+    if (width === 2) view.setUint16(offset, value, true);
+    else view.setUint32(offset, value, true);
+  }
+  return new Uint8Array(view.buffer);
+};
+
+const VERSION = 20;
+// General purpose flag bit 11: names are UTF-8
+const UTF8_NAMES = 0x0800;
+
+export interface ZipEntry {
+  filename: string;
+  content: string;
+}
+
+/** An archive of UTF-8 text files */
+export const zipFiles = (files: ZipEntry[], now = new Date()): Blob => {
+  const [time, date] = dosDateTime(now);
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const directory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.filename);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = record(30, [
+      [0, 4, 0x04034b50], [4, 2, VERSION], [6, 2, UTF8_NAMES], [10, 2, time], [12, 2, date],
+      [14, 4, crc], [18, 4, data.length], [22, 4, data.length], [26, 2, name.length],
+    ]);
+    directory.push(record(46, [
+      [0, 4, 0x02014b50], [4, 2, VERSION], [6, 2, VERSION], [8, 2, UTF8_NAMES], [12, 2, time], [14, 2, date],
+      [16, 4, crc], [20, 4, data.length], [24, 4, data.length], [28, 2, name.length], [42, 4, offset],
+    ]), name);
+    parts.push(local, name, data);
+    offset += local.length + name.length + data.length;
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = record(22, [
+    [0, 4, 0x06054b50], [8, 2, files.length], [10, 2, files.length], [12, 4, directorySize], [16, 4, offset],
+  ]);
+  return new Blob([...parts, ...directory, end], { type: "application/zip" });
+};
@@ -20,6 +20,10 @@ export default defineConfig({
       '/api/optimization': {
         target: 'http://localhost:5002',
         changeOrigin: true,
+      },
+      '/api/notifications': {
+        target: 'http://localhost:5003',
+        changeOrigin: true,
       }
     }
   }
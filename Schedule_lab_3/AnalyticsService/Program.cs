@@ -1,6 +1,8 @@
 using Microsoft.AspNetCore.Mvc;
+using System.Collections.Concurrent;
 using System.Text;
 using System.Text.Json;
+using System.Threading.Channels;
 using RabbitMQ.Client;
 using RabbitMQ.Client.Events;
 using SharedModels;
@@ -24,6 +26,7 @@ builder.Services.AddOpenTelemetry()
     });
 
 builder.Services.AddSingleton<IAnalyticsRepository, InMemoryAnalyticsRepository>();
+builder.Services.AddSingleton<EventBroadcaster>();
 builder.Services.AddHostedService<EventConsumerService>();
 
 builder.Services.AddCors(options =>
@@ -59,20 +62,65 @@ app.MapGet("/api/analytics/schedule/{scheduleId}", (int scheduleId, IAnalyticsRe
 .WithName("GetScheduleMetrics")
 .WithOpenApi();
 
-app.MapGet("/api/analytics/events", (IAnalyticsRepository repo) =>
+app.MapGet("/api/analytics/events", (IAnalyticsRepository repo, int? limit) =>
 {
-    return Results.Ok(repo.GetRecentEvents());
+    return Results.Ok(repo.GetRecentEvents(Math.Clamp(limit ?? 50, 1, 1000)));
 })
 .WithName("GetRecentEvents")
 .WithOpenApi();
 
+// Server-sent events: every event consumed from schedule_exchange is pushed to the connected UIs
+app.MapGet("/api/analytics/stream", async (HttpContext context, EventBroadcaster broadcaster) =>
+{
+    var cancellationToken = context.RequestAborted;
+    context.Response.Headers.ContentType = "text/event-stream";
+    context.Response.Headers.CacheControl = "no-cache";
+    // Keeps nginx from buffering the stream
+    context.Response.Headers["X-Accel-Buffering"] = "no";
+
+    var reader = broadcaster.Subscribe(out var subscriptionId);
+    try
+    {
+        await context.Response.WriteAsync("retry: 5000\n\n", cancellationToken);
+        await context.Response.Body.FlushAsync(cancellationToken);
+
+        while (!cancellationToken.IsCancellationRequested)
+        {
+            // A comment line every 15 seconds keeps idle proxies from closing the connection
+            using var heartbeat = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+            heartbeat.CancelAfter(TimeSpan.FromSeconds(15));
+            try
+            {
+                var analyticsEvent = await reader.ReadAsync(heartbeat.Token);
+                var json = JsonSerializer.Serialize(analyticsEvent, JsonSerializerOptions.Web);
+                await context.Response.WriteAsync($"data: {json}\n\n", cancellationToken);
+            }
+            catch (OperationCanceledException) when (!cancellationToken.IsCancellationRequested)
+            {
+                await context.Response.WriteAsync(": keep-alive\n\n", cancellationToken);
+            }
+            await context.Response.Body.FlushAsync(cancellationToken);
+        }
+    }
+    catch (OperationCanceledException)
+    {
+        // Client disconnected
+    }
+    finally
+    {
+        broadcaster.Unsubscribe(subscriptionId);
+    }
+})
+.WithName("StreamEvents")
+.WithOpenApi();
+
 app.Run();
 
 public interface IAnalyticsRepository
 {
     SystemStatistics GetStatistics();
     ScheduleMetrics? GetScheduleMetrics(int scheduleId);
-    List<AnalyticsEvent> GetRecentEvents();
+    List<AnalyticsEvent> GetRecentEvents(int count);
     void RecordEvent(AnalyticsEvent analyticsEvent);
     void UpdateScheduleMetrics(int scheduleId, ScheduleMetrics metrics);
 }
@@ -104,9 +152,9 @@ public class InMemoryAnalyticsRepository : IAnalyticsRepository
         return _scheduleMetrics.TryGetValue(scheduleId, out var metrics) ? metrics : null;
     }
 
-    public List<AnalyticsEvent> GetRecentEvents()
+    public List<AnalyticsEvent> GetRecentEvents(int count)
     {
-        return _events.OrderByDescending(e => e.Timestamp).Take(50).ToList();
+        return _events.OrderByDescending(e => e.Timestamp).Take(count).ToList();
     }
 
     public void RecordEvent(AnalyticsEvent analyticsEvent)
@@ -194,15 +242,53 @@ public class InMemoryAnalyticsRepository : IAnalyticsRepository
     }
 }
 
+public class EventBroadcaster
+{
+    private const int SubscriberBufferSize = 100;
+    private readonly ConcurrentDictionary<Guid, Channel<AnalyticsEvent>> _subscribers = new();
+
+    public ChannelReader<AnalyticsEvent> Subscribe(out Guid subscriptionId)
+    {
+        subscriptionId = Guid.NewGuid();
+        // A slow client loses its oldest events instead of holding up the consumer
+        var channel = Channel.CreateBounded<AnalyticsEvent>(new BoundedChannelOptions(SubscriberBufferSize)
+        {
+            FullMode = BoundedChannelFullMode.DropOldest
+        });
+        _subscribers[subscriptionId] = channel;
+        Console.WriteLine($"[Analytics Stream] Client connected. Subscribers: {_subscribers.Count}");
+        return channel.Reader;
+    }
+
+    public void Unsubscribe(Guid subscriptionId)
+    {
+        if (_subscribers.TryRemove(subscriptionId, out var channel))
+        {
+            channel.Writer.TryComplete();
+            Console.WriteLine($"[Analytics Stream] Client disconnected. Subscribers: {_subscribers.Count}");
+        }
+    }
+
+    public void Publish(AnalyticsEvent analyticsEvent)
+    {
+        foreach (var channel in _subscribers.Values)
+        {
+            channel.Writer.TryWrite(analyticsEvent);
+        }
+    }
+}
+
 public class EventConsumerService : BackgroundService
 {
     private readonly IAnalyticsRepository _repository;
+    private readonly EventBroadcaster _broadcaster;
     private IConnection? _connection;
     private IChannel? _channel;
 
-    public EventConsumerService(IAnalyticsRepository repository)
+    public EventConsumerService(IAnalyticsRepository repository, EventBroadcaster broadcaster)
     {
         _repository = repository;
+        _broadcaster = broadcaster;
     }
 
     protected override async Task ExecuteAsync(CancellationToken stoppingToken)
@@ -292,6 +378,7 @@ public class EventConsumerService : BackgroundService
                     };
 
                     _repository.RecordEvent(analyticsEvent);
+                    _broadcaster.Publish(analyticsEvent);
 
                     Console.WriteLine($"[Analytics Consumer] Successfully recorded event: {routingKey}");
                 }
@@ -155,6 +155,86 @@ app.MapPost("/api/catalog/subjects", async (Subject subject, ICatalogRepository
 .WithName("AddSubject")
 .WithOpenApi();
 
+// Constraints endpoints: availability and load rules for teachers, groups and rooms
+app.MapGet("/api/catalog/constraints", (ICatalogRepository repo) =>
+{
+    return Results.Ok(repo.GetAllConstraints());
+})
+.WithName("GetConstraints")
+.WithOpenApi();
+
+app.MapPost("/api/catalog/constraints", async (SchedulingConstraint constraint, ICatalogRepository repo, IRabbitMqPublisher publisher) =>
+{
+    var error = ConstraintRules.Validate(constraint);
+    if (error != null) return Results.BadRequest(new { error });
+
+    repo.AddConstraint(constraint);
+
+    var updateEvent = new ScheduleUpdatedEvent
+    {
+        ScheduleId = 0,
+        UpdatedBy = "CatalogService",
+        ChangeType = "Constraint Added",
+        Details = $"{constraint.Kind} constraint added for {constraint.Target} '{constraint.Name}'",
+        UpdatedAt = DateTime.Now
+    };
+
+    await publisher.PublishAsync(updateEvent, RabbitMqSettings.RoutingKeyUpdated);
+
+    return Results.Created($"/api/catalog/constraints/{constraint.Id}", constraint);
+})
+.WithName("AddConstraint")
+.WithOpenApi();
+
+app.MapPut("/api/catalog/constraints/{id}", async (int id, SchedulingConstraint constraint, ICatalogRepository repo, IRabbitMqPublisher publisher) =>
+{
+    if (repo.GetConstraintById(id) == null) return Results.NotFound();
+
+    var error = ConstraintRules.Validate(constraint);
+    if (error != null) return Results.BadRequest(new { error });
+
+    constraint.Id = id;
+    repo.UpdateConstraint(constraint);
+
+    var updateEvent = new ScheduleUpdatedEvent
+    {
+        ScheduleId = 0,
+        UpdatedBy = "CatalogService",
+        ChangeType = "Constraint Updated",
+        Details = $"{constraint.Kind} constraint updated for {constraint.Target} '{constraint.Name}'",
+        UpdatedAt = DateTime.Now
+    };
+
+    await publisher.PublishAsync(updateEvent, RabbitMqSettings.RoutingKeyUpdated);
+
+    return Results.Ok(constraint);
+})
+.WithName("UpdateConstraint")
+.WithOpenApi();
+
+app.MapDelete("/api/catalog/constraints/{id}", async (int id, ICatalogRepository repo, IRabbitMqPublisher publisher) =>
+{
+    var constraint = repo.GetConstraintById(id);
+    if (constraint == null) return Results.NotFound();
+
+    repo.DeleteConstraint(id);
+
+    var updateEvent = new ScheduleUpdatedEvent
+    {
+        ScheduleId = 0,
+        UpdatedBy = "CatalogService",
+        ChangeType = "Constraint Deleted",
+        Details = $"{constraint.Kind} constraint removed for {constraint.Target} '{constraint.Name}'",
+        UpdatedAt = DateTime.Now
+    };
+
+    await publisher.PublishAsync(updateEvent, RabbitMqSettings.RoutingKeyUpdated);
+
+    return Results.NoContent();
+})
+.WithName("DeleteConstraint")
+.WithOpenApi();
+
 app.Run();
 
 public interface ICatalogRepository
@@ -167,6 +247,11 @@ public interface ICatalogRepository
     void AddGroup(Group group);
     void AddRoom(Room room);
     void AddSubject(Subject subject);
+    List<SchedulingConstraint> GetAllConstraints();
+    SchedulingConstraint? GetConstraintById(int id);
+    void AddConstraint(SchedulingConstraint constraint);
+    void UpdateConstraint(SchedulingConstraint constraint);
+    void DeleteConstraint(int id);
 }
 
 public class InMemoryCatalogRepository : ICatalogRepository
@@ -175,10 +260,12 @@ public class InMemoryCatalogRepository : ICatalogRepository
     private readonly List<Group> _groups = new();
     private readonly List<Room> _rooms = new();
     private readonly List<Subject> _subjects = new();
+    private readonly List<SchedulingConstraint> _constraints = new();
     private int _nextTeacherId = 1;
     private int _nextGroupId = 1;
     private int _nextRoomId = 1;
     private int _nextSubjectId = 1;
+    private int _nextConstraintId = 1;
 
     public InMemoryCatalogRepository()
     {
@@ -200,6 +287,8 @@ public class InMemoryCatalogRepository : ICatalogRepository
     public List<Group> GetAllGroups() => _groups;
     public List<Room> GetAllRooms() => _rooms;
     public List<Subject> GetAllSubjects() => _subjects;
+    public List<SchedulingConstraint> GetAllConstraints() => _constraints;
+    public SchedulingConstraint? GetConstraintById(int id) => _constraints.FirstOrDefault(c => c.Id == id);
 
     public void AddTeacher(Teacher teacher)
     {
@@ -224,6 +313,24 @@ public class InMemoryCatalogRepository : ICatalogRepository
         subject.Id = _nextSubjectId++;
         _subjects.Add(subject);
     }
+
+    public void AddConstraint(SchedulingConstraint constraint)
+    {
+        constraint.Id = _nextConstraintId++;
+        _constraints.Add(constraint);
+    }
+
+    public void UpdateConstraint(SchedulingConstraint constraint)
+    {
+        var index = _constraints.FindIndex(c => c.Id == constraint.Id);
+        if (index >= 0) _constraints[index] = constraint;
+    }
+
+    public void DeleteConstraint(int id)
+    {
+        var constraint = GetConstraintById(id);
+        if (constraint != null) _constraints.Remove(constraint);
+    }
 }
 
 public interface IRabbitMqPublisher
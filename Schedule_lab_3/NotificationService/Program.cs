@@ -1,12 +1,12 @@
 using System.Text;
 using System.Text.Json;
+using System.Text.RegularExpressions;
 using RabbitMQ.Client;
 using RabbitMQ.Client.Events;
 using RabbitMQ.Client.Exceptions;
 using SharedModels;
 using OpenTelemetry.Resources;
 using OpenTelemetry.Trace;
-using Microsoft.Extensions.Configuration;
 
 var tracerProvider = OpenTelemetry.Sdk.CreateTracerProviderBuilder()
     .AddSource("NotificationService")
@@ -14,228 +14,316 @@ var tracerProvider = OpenTelemetry.Sdk.CreateTracerProviderBuilder()
     .AddConsoleExporter()
     .Build();
 
-const string NotificationsFile = "schedule_notifications.txt";
-
 Console.WriteLine("╔═══════════════════════════════════════════════════════════╗");
 Console.WriteLine("║   Schedule Notification Service (Consumer)                ║");
 Console.WriteLine("╚═══════════════════════════════════════════════════════════╝\n");
 
-// Читаємо конфігурацію
-var configuration = new ConfigurationBuilder()
-    .SetBasePath(Directory.GetCurrentDirectory())
-    .AddJsonFile("appsettings.json", optional: false)
-    .AddEnvironmentVariables()
-    .Build();
+// HTTP запускається одразу, а споживач RabbitMQ працює у фоні: поки брокер недоступний,
+// UI все одно отримує збережену історію сповіщень
+var builder = WebApplication.CreateBuilder(args);
+builder.Services.AddHostedService<NotificationConsumer>();
 
-var rabbitHost = configuration["RabbitMQ:Host"] ?? "localhost";
-var rabbitPort = int.Parse(configuration["RabbitMQ:Port"] ?? "5672");
-var rabbitUser = configuration["RabbitMQ:Username"] ?? "guest";
-var rabbitPass = configuration["RabbitMQ:Password"] ?? "guest";
+var app = builder.Build();
 
-Console.WriteLine($"RabbitMQ Config: {rabbitUser}@{rabbitHost}:{rabbitPort}");
+app.MapGet("/api/notifications", async (int? limit) =>
+{
+    var notifications = await ReadNotifications(NotificationConsumer.NotificationsFile);
+    var count = Math.Clamp(limit ?? 100, 1, 1000);
+    return Results.Ok(notifications.AsEnumerable().Reverse().Take(count));
+})
+.WithName("GetNotifications")
+.WithOpenApi();
 
 try
 {
-    // Retry логіка для підключення
-    var factory = new ConnectionFactory 
-    { 
-        HostName = rabbitHost,
-        Port = rabbitPort,
-        UserName = rabbitUser,
-        Password = rabbitPass,
-        RequestedConnectionTimeout = TimeSpan.FromSeconds(30),
-        SocketReadTimeout = TimeSpan.FromSeconds(30),
-        SocketWriteTimeout = TimeSpan.FromSeconds(30)
-    };
-
-    IConnection? connection = null;
-    const int maxRetries = 30;
-    const int retryDelayMs = 2000;
-
-    for (int i = 1; i <= maxRetries; i++)
+    await app.RunAsync();
+}
+finally
+{
+    tracerProvider?.Dispose();
+}
+
+// Розбирає schedule_notifications.txt на окремі записи; Id — порядковий номер запису у файлі
+static async Task<List<StoredNotification>> ReadNotifications(string path)
+{
+    var notifications = new List<StoredNotification>();
+    if (!File.Exists(path)) return notifications;
+
+    string content;
+    // Споживач може саме дописувати файл
+    await using (var stream = new FileStream(path, FileMode.Open, FileAccess.Read, FileShare.ReadWrite))
+    using (var reader = new StreamReader(stream))
     {
-        try
+        content = await reader.ReadToEndAsync();
+    }
+
+    var headers = Regex.Matches(content, @"^\[(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})\]\r?$", RegexOptions.Multiline);
+    for (int i = 0; i < headers.Count; i++)
+    {
+        var start = headers[i].Index + headers[i].Length;
+        var end = i + 1 < headers.Count ? headers[i + 1].Index : content.Length;
+        notifications.Add(ParseNotification(i + 1, headers[i].Groups[1].Value, content[start..end]));
+    }
+
+    return notifications;
+}
+
+static StoredNotification ParseNotification(int id, string savedAt, string body)
+{
+    var lines = body.Split('\n').Select(line => line.TrimEnd('\r')).Where(line => line.Trim().Length > 0).ToList();
+    var fields = new Dictionary<string, string>();
+    var affectedEntities = new List<string>();
+    string? title = null;
+
+    foreach (var line in lines)
+    {
+        if (line.StartsWith('║'))
         {
-            Console.WriteLine($"[{i}/{maxRetries}] Attempting to connect to RabbitMQ...");
-            connection = await factory.CreateConnectionAsync();
-            Console.WriteLine("✓ Connected to RabbitMQ successfully!\n");
-            break;
+            title = line.Trim('║', ' ');
         }
-        catch (BrokerUnreachableException ex)
+        else if (line.StartsWith("   - "))
         {
-            if (i == maxRetries)
-            {
-                Console.WriteLine($"[FATAL] Failed to connect after {maxRetries} attempts");
-                throw;
-            }
-            Console.WriteLine($"[WARN] Connection failed: {ex.Message}. Retrying in {retryDelayMs}ms...");
-            await Task.Delay(retryDelayMs);
+            affectedEntities.Add(line[5..]);
+        }
+        else if (line.StartsWith(' ') && line.Contains(": "))
+        {
+            var separator = line.IndexOf(": ", StringComparison.Ordinal);
+            fields[line[..separator].Trim()] = line[(separator + 2)..].Trim();
         }
     }
 
-    if (connection == null)
+    int.TryParse(fields.GetValueOrDefault("Schedule ID"), out var scheduleId);
+    // Записи без рамки ("Unknown routing key: ...") — це один рядок тексту
+    return new StoredNotification(
+        id,
+        savedAt.Replace(' ', 'T'),
+        title ?? lines.FirstOrDefault() ?? string.Empty,
+        scheduleId,
+        fields,
+        affectedEntities);
+}
+
+record StoredNotification(
+    int Id,
+    string SavedAt,
+    string Title,
+    int ScheduleId,
+    Dictionary<string, string> Fields,
+    List<string> AffectedEntities);
+
+public class NotificationConsumer : BackgroundService
+{
+    public const string NotificationsFile = "schedule_notifications.txt";
+    private const int RetryDelayMs = 2000;
+
+    private readonly IConfiguration _configuration;
+    private IConnection? _connection;
+    private IChannel? _channel;
+
+    public NotificationConsumer(IConfiguration configuration)
     {
-        throw new Exception("Failed to establish RabbitMQ connection");
+        _configuration = configuration;
     }
 
-    await using (connection)
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
     {
-        await using var channel = await connection.CreateChannelAsync();
-
-        await channel.ExchangeDeclareAsync(
-            exchange: RabbitMqSettings.ExchangeName,
-            type: ExchangeType.Topic,
-            durable: true);
+        var rabbitHost = _configuration["RabbitMQ:Host"] ?? "localhost";
+        var rabbitPort = int.Parse(_configuration["RabbitMQ:Port"] ?? "5672");
+        var rabbitUser = _configuration["RabbitMQ:Username"] ?? "guest";
+        var rabbitPass = _configuration["RabbitMQ:Password"] ?? "guest";
 
-        await channel.QueueDeclareAsync(
-            queue: RabbitMqSettings.QueueName,
-            durable: false,
-            exclusive: false,
-            autoDelete: false);
+        Console.WriteLine($"RabbitMQ Config: {rabbitUser}@{rabbitHost}:{rabbitPort}");
 
-        await channel.QueueBindAsync(
-            queue: RabbitMqSettings.QueueName,
-            exchange: RabbitMqSettings.ExchangeName,
-            routingKey: "schedule.*");
-
-        Console.WriteLine($"✓ Queue '{RabbitMqSettings.QueueName}' bound to pattern 'schedule.*'\n");
-        Console.WriteLine($"Notifications will be saved to: {Path.GetFullPath(NotificationsFile)}\n");
+        var factory = new ConnectionFactory
+        {
+            HostName = rabbitHost,
+            Port = rabbitPort,
+            UserName = rabbitUser,
+            Password = rabbitPass,
+            RequestedConnectionTimeout = TimeSpan.FromSeconds(30),
+            SocketReadTimeout = TimeSpan.FromSeconds(30),
+            SocketWriteTimeout = TimeSpan.FromSeconds(30)
+        };
 
-        var consumer = new AsyncEventingBasicConsumer(channel);
-        consumer.ReceivedAsync += async (model, ea) =>
+        // Retry логіка для підключення: HTTP вже працює, тож чекаємо на брокер скільки потрібно
+        for (int i = 1; _connection == null; i++)
         {
             try
             {
-                var body = ea.Body.ToArray();
-                var json = Encoding.UTF8.GetString(body);
-                var routingKey = ea.RoutingKey;
-
-                Console.WriteLine($"[{DateTime.Now:HH:mm:ss}] Received: {routingKey}");
-
-                string notificationText = routingKey switch
-                {
-                    var key when key == RabbitMqSettings.RoutingKeyOptimized =>
-                        await ProcessOptimizationEvent(json),
-                    var key when key == RabbitMqSettings.RoutingKeyUpdated =>
-                        await ProcessUpdateEvent(json),
-                    var key when key == RabbitMqSettings.RoutingKeyConflict =>
-                        await ProcessConflictEvent(json),
-                    _ => $"Unknown routing key: {routingKey}"
-                };
-
-                await SaveNotification(notificationText);
+                Console.WriteLine($"[{i}] Attempting to connect to RabbitMQ...");
+                _connection = await factory.CreateConnectionAsync(stoppingToken);
+                Console.WriteLine("✓ Connected to RabbitMQ successfully!\n");
             }
-            catch (JsonException jsonEx)
+            catch (BrokerUnreachableException ex)
             {
-                Console.WriteLine($"[ERROR] Failed to deserialize: {jsonEx.Message}");
+                Console.WriteLine($"[WARN] Connection failed: {ex.Message}. Retrying in {RetryDelayMs}ms...");
+                await Task.Delay(RetryDelayMs, stoppingToken);
             }
-            catch (Exception ex)
+        }
+
+        try
+        {
+            _channel = await _connection.CreateChannelAsync(cancellationToken: stoppingToken);
+
+            await _channel.ExchangeDeclareAsync(
+                exchange: RabbitMqSettings.ExchangeName,
+                type: ExchangeType.Topic,
+                durable: true);
+
+            await _channel.QueueDeclareAsync(
+                queue: RabbitMqSettings.QueueName,
+                durable: false,
+                exclusive: false,
+                autoDelete: false);
+
+            await _channel.QueueBindAsync(
+                queue: RabbitMqSettings.QueueName,
+                exchange: RabbitMqSettings.ExchangeName,
+                routingKey: "schedule.*");
+
+            Console.WriteLine($"✓ Queue '{RabbitMqSettings.QueueName}' bound to pattern 'schedule.*'\n");
+            Console.WriteLine($"Notifications will be saved to: {Path.GetFullPath(NotificationsFile)}\n");
+
+            var consumer = new AsyncEventingBasicConsumer(_channel);
+            consumer.ReceivedAsync += async (model, ea) =>
             {
-                Console.WriteLine($"[ERROR] Processing error: {ex.Message}");
-            }
-            await Task.Yield();
-        };
+                try
+                {
+                    var body = ea.Body.ToArray();
+                    var json = Encoding.UTF8.GetString(body);
+                    var routingKey = ea.RoutingKey;
 
-        await channel.BasicConsumeAsync(
-            queue: RabbitMqSettings.QueueName,
-            autoAck: true,
-            consumer: consumer);
+                    Console.WriteLine($"[{DateTime.Now:HH:mm:ss}] Received: {routingKey}");
 
-        Console.WriteLine("✓ Consumer started. Press [Enter] to exit.\n");
-        Console.ReadLine();
-    }
-}
-catch (Exception ex)
-{
-    Console.WriteLine($"[FATAL] Service failed: {ex.Message}");
-    Console.WriteLine($"Stack trace: {ex.StackTrace}");
-    Environment.Exit(1);
-}
-finally
-{
-    tracerProvider?.Dispose();
-}
+                    string notificationText = routingKey switch
+                    {
+                        var key when key == RabbitMqSettings.RoutingKeyOptimized =>
+                            await ProcessOptimizationEvent(json),
+                        var key when key == RabbitMqSettings.RoutingKeyUpdated =>
+                            await ProcessUpdateEvent(json),
+                        var key when key == RabbitMqSettings.RoutingKeyConflict =>
+                            await ProcessConflictEvent(json),
+                        _ => $"Unknown routing key: {routingKey}"
+                    };
 
-static async Task<string> ProcessOptimizationEvent(string json)
-{
-    var evt = JsonSerializer.Deserialize<ScheduleOptimizedEvent>(json);
-    if (evt == null) return "Invalid optimization event";
-
-    var notification = new StringBuilder();
-    notification.AppendLine($"╔═══════════════════════════════════════════════════════════╗");
-    notification.AppendLine($"║ SCHEDULE OPTIMIZATION NOTIFICATION                        ║");
-    notification.AppendLine($"╠═══════════════════════════════════════════════════════════╣");
-    notification.AppendLine($" Schedule ID: {evt.ScheduleId}");
-    notification.AppendLine($" Schedule Name: {evt.ScheduleName}");
-    notification.AppendLine($" Status: {evt.Status}");
-    notification.AppendLine($" Windows Reduced: {evt.WindowsReduced}");
-    notification.AppendLine($" Load Balance Improvement: {evt.LoadBalanceImprovement}%");
-    notification.AppendLine($" Conflicts Resolved: {evt.ConflictsResolved}");
-    notification.AppendLine($" Optimized At: {evt.OptimizedAt:yyyy-MM-dd HH:mm:ss}");
-    notification.AppendLine($" Message: {evt.Message}");
-    notification.AppendLine($"╚═══════════════════════════════════════════════════════════╝");
-
-    var text = notification.ToString();
-    Console.WriteLine(text);
-    return text;
-}
+                    await SaveNotification(notificationText);
+                }
+                catch (JsonException jsonEx)
+                {
+                    Console.WriteLine($"[ERROR] Failed to deserialize: {jsonEx.Message}");
+                }
+                catch (Exception ex)
+                {
+                    Console.WriteLine($"[ERROR] Processing error: {ex.Message}");
+                }
+                await Task.Yield();
+            };
 
-static async Task<string> ProcessUpdateEvent(string json)
-{
-    var evt = JsonSerializer.Deserialize<ScheduleUpdatedEvent>(json);
-    if (evt == null) return "Invalid update event";
-
-    var notification = new StringBuilder();
-    notification.AppendLine($"╔═══════════════════════════════════════════════════════════╗");
-    notification.AppendLine($"║ SCHEDULE UPDATE NOTIFICATION                              ║");
-    notification.AppendLine($"╠═══════════════════════════════════════════════════════════╣");
-    notification.AppendLine($" Schedule ID: {evt.ScheduleId}");
-    notification.AppendLine($" Updated By: {evt.UpdatedBy}");
-    notification.AppendLine($" Change Type: {evt.ChangeType}");
-    notification.AppendLine($" Details: {evt.Details}");
-    notification.AppendLine($" Updated At: {evt.UpdatedAt:yyyy-MM-dd HH:mm:ss}");
-    notification.AppendLine($"╚═══════════════════════════════════════════════════════════╝");
-
-    var text = notification.ToString();
-    Console.WriteLine(text);
-    return text;
-}
+            await _channel.BasicConsumeAsync(
+                queue: RabbitMqSettings.QueueName,
+                autoAck: true,
+                consumer: consumer,
+                cancellationToken: stoppingToken);
 
-static async Task<string> ProcessConflictEvent(string json)
-{
-    var evt = JsonSerializer.Deserialize<ConflictDetectedEvent>(json);
-    if (evt == null) return "Invalid conflict event";
-
-    var notification = new StringBuilder();
-    notification.AppendLine($"╔═══════════════════════════════════════════════════════════╗");
-    notification.AppendLine($"║ SCHEDULE CONFLICT DETECTED                                ║");
-    notification.AppendLine($"╠═══════════════════════════════════════════════════════════╣");
-    notification.AppendLine($" Schedule ID: {evt.ScheduleId}");
-    notification.AppendLine($" Conflict Type: {evt.ConflictType}");
-    notification.AppendLine($" Affected Entities:");
-    foreach (var entity in evt.AffectedEntities)
+            Console.WriteLine("✓ Consumer started.\n");
+
+            await Task.Delay(Timeout.Infinite, stoppingToken);
+        }
+        catch (Exception ex) when (ex is not OperationCanceledException)
+        {
+            Console.WriteLine($"[FATAL] Consumer failed: {ex.Message}");
+            Console.WriteLine($"Stack trace: {ex.StackTrace}");
+        }
+    }
+
+    public override async Task StopAsync(CancellationToken cancellationToken)
     {
-        notification.AppendLine($"   - {entity}");
+        await base.StopAsync(cancellationToken);
+        _channel?.Dispose();
+        _connection?.Dispose();
     }
-    notification.AppendLine($" Description: {evt.Description}");
-    notification.AppendLine($" Detected At: {evt.DetectedAt:yyyy-MM-dd HH:mm:ss}");
-    notification.AppendLine($"╚═══════════════════════════════════════════════════════════╝");
 
-    var text = notification.ToString();
-    Console.WriteLine(text);
-    return text;
-}
+    private static async Task<string> ProcessOptimizationEvent(string json)
+    {
+        var evt = JsonSerializer.Deserialize<ScheduleOptimizedEvent>(json);
+        if (evt == null) return "Invalid optimization event";
 
-static async Task SaveNotification(string notification)
-{
-    try
+        var notification = new StringBuilder();
+        notification.AppendLine($"╔═══════════════════════════════════════════════════════════╗");
+        notification.AppendLine($"║ SCHEDULE OPTIMIZATION NOTIFICATION                        ║");
+        notification.AppendLine($"╠═══════════════════════════════════════════════════════════╣");
+        notification.AppendLine($" Schedule ID: {evt.ScheduleId}");
+        notification.AppendLine($" Schedule Name: {evt.ScheduleName}");
+        notification.AppendLine($" Status: {evt.Status}");
+        notification.AppendLine($" Windows Reduced: {evt.WindowsReduced}");
+        notification.AppendLine($" Load Balance Improvement: {evt.LoadBalanceImprovement}%");
+        notification.AppendLine($" Conflicts Resolved: {evt.ConflictsResolved}");
+        notification.AppendLine($" Optimized At: {evt.OptimizedAt:yyyy-MM-dd HH:mm:ss}");
+        notification.AppendLine($" Message: {evt.Message}");
+        notification.AppendLine($"╚═══════════════════════════════════════════════════════════╝");
+
+        var text = notification.ToString();
+        Console.WriteLine(text);
+        return text;
+    }
+
+    private static async Task<string> ProcessUpdateEvent(string json)
     {
-        var entry = $"[{DateTime.Now:yyyy-MM-dd HH:mm:ss}]\n{notification}\n";
-        await File.AppendAllTextAsync(NotificationsFile, entry);
-        Console.WriteLine($"✓ Notification saved\n");
+        var evt = JsonSerializer.Deserialize<ScheduleUpdatedEvent>(json);
+        if (evt == null) return "Invalid update event";
+
+        var notification = new StringBuilder();
+        notification.AppendLine($"╔═══════════════════════════════════════════════════════════╗");
+        notification.AppendLine($"║ SCHEDULE UPDATE NOTIFICATION                              ║");
+        notification.AppendLine($"╠═══════════════════════════════════════════════════════════╣");
+        notification.AppendLine($" Schedule ID: {evt.ScheduleId}");
+        notification.AppendLine($" Updated By: {evt.UpdatedBy}");
+        notification.AppendLine($" Change Type: {evt.ChangeType}");
+        notification.AppendLine($" Details: {evt.Details}");
+        notification.AppendLine($" Updated At: {evt.UpdatedAt:yyyy-MM-dd HH:mm:ss}");
+        notification.AppendLine($"╚═══════════════════════════════════════════════════════════╝");
+
+        var text = notification.ToString();
+        Console.WriteLine(text);
+        return text;
     }
-    catch (Exception ex)
+
+    private static async Task<string> ProcessConflictEvent(string json)
     {
-        Console.WriteLine($"[ERROR] Failed to save: {ex.Message}");
+        var evt = JsonSerializer.Deserialize<ConflictDetectedEvent>(json);
+        if (evt == null) return "Invalid conflict event";
+
+        var notification = new StringBuilder();
+        notification.AppendLine($"╔═══════════════════════════════════════════════════════════╗");
+        notification.AppendLine($"║ SCHEDULE CONFLICT DETECTED                                ║");
+        notification.AppendLine($"╠═══════════════════════════════════════════════════════════╣");
+        notification.AppendLine($" Schedule ID: {evt.ScheduleId}");
+        notification.AppendLine($" Conflict Type: {evt.ConflictType}");
+        notification.AppendLine($" Affected Entities:");
+        foreach (var entity in evt.AffectedEntities)
+        {
+            notification.AppendLine($"   - {entity}");
+        }
+        notification.AppendLine($" Description: {evt.Description}");
+        notification.AppendLine($" Detected At: {evt.DetectedAt:yyyy-MM-dd HH:mm:ss}");
+        notification.AppendLine($"╚═══════════════════════════════════════════════════════════╝");
+
+        var text = notification.ToString();
+        Console.WriteLine(text);
+        return text;
     }
-}
\ No newline at end of file
+
+    private static async Task SaveNotification(string notification)
+    {
+        try
+        {
+            var entry = $"[{DateTime.Now:yyyy-MM-dd HH:mm:ss}]\n{notification}\n";
+            await File.AppendAllTextAsync(NotificationsFile, entry);
+            Console.WriteLine($"✓ Notification saved\n");
+        }
+        catch (Exception ex)
+        {
+            Console.WriteLine($"[ERROR] Failed to save: {ex.Message}");
+        }
+    }
+}
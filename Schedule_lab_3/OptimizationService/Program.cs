@@ -1,4 +1,5 @@
 using Microsoft.AspNetCore.Mvc;
+using System.Diagnostics;
 using System.Text;
 using System.Text.Json;
 using RabbitMQ.Client;
@@ -47,7 +48,8 @@ app.UseCors();
 app.MapPost("/api/optimization/optimize", async (
     OptimizationRequest request,
     IOptimizationEngine engine,
-    IRabbitMqPublisher publisher) =>
+    IRabbitMqPublisher publisher,
+    IHttpClientFactory httpClientFactory) =>
 {
     try
     {
@@ -91,6 +93,8 @@ app.MapPost("/api/optimization/optimize", async (
                     Message = result.Message
                 };
 
+                // The status is settled first, so clients reloading on the event see it
+                await ReportOutcome(httpClientFactory, request, result.Success);
                 await publisher.PublishAsync(completedEvent, RabbitMqSettings.RoutingKeyOptimized);
             }
             catch (Exception ex)
@@ -104,6 +108,7 @@ app.MapPost("/api/optimization/optimize", async (
                     Message = $"Optimization failed: {ex.Message}"
                 };
 
+                await ReportOutcome(httpClientFactory, request, false);
                 await publisher.PublishAsync(failedEvent, RabbitMqSettings.RoutingKeyOptimized);
             }
         });
@@ -132,6 +137,31 @@ app.MapGet("/api/optimization/status/{scheduleId}", (int scheduleId) =>
 
 app.Run();
 
+// Moves the schedule out of Optimizing: to Optimized, or back to its earlier status when the run failed.
+// If ScheduleService cannot be reached, its own timeout restores the status later; a run it
+// already gave up on is refused, so the report cannot end a newer run of the same schedule
+static async Task ReportOutcome(IHttpClientFactory httpClientFactory, OptimizationRequest request, bool success)
+{
+    var scheduleServiceUrl = Environment.GetEnvironmentVariable("ScheduleService__Url") ?? "http://localhost:5001";
+    var outcome = success ? "complete" : "cancel";
+    var scheduleId = request.ScheduleId;
+
+    try
+    {
+        var response = await httpClientFactory.CreateClient().PostAsync(
+            $"{scheduleServiceUrl}/api/schedules/{scheduleId}/optimize/{outcome}?runId={request.RunId}", null);
+
+        if (!response.IsSuccessStatusCode)
+        {
+            Console.WriteLine($"[OPTIMIZATION] ScheduleService refused to {outcome} the run of schedule {scheduleId}: {response.StatusCode}");
+        }
+    }
+    catch (Exception ex) when (ex is HttpRequestException or TaskCanceledException)
+    {
+        Console.WriteLine($"[OPTIMIZATION] Could not report the run of schedule {scheduleId}: {ex.Message}");
+    }
+}
+
 public interface IOptimizationEngine
 {
     Task<OptimizationResult> OptimizeAsync(OptimizationRequest request);
@@ -150,7 +180,10 @@ public class SimpleOptimizationEngine : IOptimizationEngine
 
     public async Task<OptimizationResult> OptimizeAsync(OptimizationRequest request)
     {
-        _logger.LogInformation($"Starting optimization for schedule {request.ScheduleId}");
+        _logger.LogInformation($"Starting optimization for schedule {request.ScheduleId} " +
+            $"(MinimizeWindows={request.Criteria.MinimizeWindows}, BalanceLoad={request.Criteria.BalanceLoad}, " +
+            $"ResolveConflicts={request.Criteria.ResolveConflicts}, MaxIterations={request.Criteria.MaxIterations}, " +
+            $"Constraints={request.Criteria.Constraints.Count})");
 
         // Simulate optimization work
         await Task.Delay(2000);
@@ -188,26 +221,66 @@ public class SimpleOptimizationEngine : IOptimizationEngine
                 };
             }
 
-            _logger.LogInformation($"Optimizing schedule with {schedule.Entries.Count} entries");
+            // Classes of the other active schedules hold their teachers, groups and rooms too;
+            // ScheduleService rejects a PUT that clashes with them, so no move may land on one
+            var othersResponse = await _httpClient.GetAsync($"{scheduleServiceUrl}/api/schedules");
+            if (!othersResponse.IsSuccessStatusCode)
+            {
+                _logger.LogWarning("Failed to get the other schedules");
+                return new OptimizationResult
+                {
+                    ScheduleId = request.ScheduleId,
+                    Success = false,
+                    Message = "Failed to retrieve the other schedules",
+                    CompletedAt = DateTime.Now
+                };
+            }
+
+            var otherSchedules = await othersResponse.Content.ReadFromJsonAsync<List<Schedule>>() ?? new();
+            var booked = otherSchedules
+                .Where(s => s.Id != request.ScheduleId && s.Status != ScheduleStatus.Archived)
+                .SelectMany(s => s.Entries)
+                .ToList();
+
+            _logger.LogInformation($"Optimizing schedule with {schedule.Entries.Count} entries against {booked.Count} classes of other schedules");
 
             // Calculate initial metrics
             var initialWindows = CalculateWindows(schedule.Entries);
             var initialConflicts = CountConflicts(schedule.Entries);
 
-            // Perform optimization: Sort entries by day and time to minimize windows
+            // Move classes one at a time towards the requested criteria and constraints
+            var criteria = request.Criteria;
+            var constraints = criteria.Constraints;
+            var (moved, iterations, outOfTime) = Improve(schedule.Entries, booked, criteria);
+            var remainingViolations = ConstraintRules.FindViolations(schedule.Entries, constraints).Count;
+
+            // Present the result sorted by day and time
             var optimizedEntries = schedule.Entries
                 .OrderBy(e => e.DayOfWeek)
                 .ThenBy(e => e.StartTime)
                 .ToList();
 
+            // ScheduleService sets the status and LastOptimizedAt once the run is reported complete
             schedule.Entries = optimizedEntries;
-            schedule.Status = ScheduleStatus.Optimized;
-            schedule.LastOptimizedAt = DateTime.Now;
 
             // Calculate optimized metrics
             var finalWindows = CalculateWindows(optimizedEntries);
             var finalConflicts = CountConflicts(optimizedEntries);
 
+            // A run ScheduleService cancelled or timed out meanwhile has handed the schedule back;
+            // its moves are dropped rather than saved without anyone being told
+            if (!await IsRunActive(scheduleServiceUrl, request))
+            {
+                _logger.LogWarning($"Run {request.RunId} of schedule {request.ScheduleId} is no longer active, not saving");
+                return new OptimizationResult
+                {
+                    ScheduleId = request.ScheduleId,
+                    Success = false,
+                    Message = "Optimization was cancelled or timed out; the schedule was left unchanged",
+                    CompletedAt = DateTime.Now
+                };
+            }
+
             // Update schedule in ScheduleService
             var updateResponse = await _httpClient.PutAsJsonAsync(
                 $"{scheduleServiceUrl}/api/schedules/{request.ScheduleId}",
@@ -215,9 +288,23 @@ public class SimpleOptimizationEngine : IOptimizationEngine
 
             if (!updateResponse.IsSuccessStatusCode)
             {
-                _logger.LogWarning($"Failed to update schedule {request.ScheduleId}");
+                var reason = await updateResponse.Content.ReadAsStringAsync();
+                _logger.LogWarning($"Failed to update schedule {request.ScheduleId}: {reason}");
+                return new OptimizationResult
+                {
+                    ScheduleId = request.ScheduleId,
+                    Success = false,
+                    Message = $"Optimized schedule was not saved: ScheduleService answered {(int)updateResponse.StatusCode}",
+                    CompletedAt = DateTime.Now
+                };
             }
 
+            var goals = new List<string>();
+            if (criteria.ResolveConflicts) goals.Add("conflicts");
+            if (criteria.MinimizeWindows) goals.Add("windows");
+            if (criteria.BalanceLoad) goals.Add("load balance");
+            if (constraints.Count > 0) goals.Add($"{constraints.Count} constraints");
+
             var result = new OptimizationResult
             {
                 ScheduleId = request.ScheduleId,
@@ -226,7 +313,11 @@ public class SimpleOptimizationEngine : IOptimizationEngine
                 LoadBalanceImprovement = CalculateLoadBalanceImprovement(schedule.Entries),
                 ConflictsResolved = Math.Max(0, initialConflicts - finalConflicts),
                 CompletedAt = DateTime.Now,
-                Message = "Schedule optimized: entries sorted by day and time"
+                Message = goals.Count == 0
+                    ? "No criteria selected: entries sorted by day and time"
+                    : $"Schedule optimized for {string.Join(", ", goals)}: {moved} classes moved in {iterations} iterations" +
+                      (constraints.Count > 0 ? $", {remainingViolations} violations left" : "") +
+                      (outOfTime ? $" (stopped at the {SearchBudget.TotalSeconds:0} s time limit)" : "")
             };
 
             _logger.LogInformation($"Optimization completed: Windows reduced by {result.WindowsReduced}, Conflicts resolved: {result.ConflictsResolved}");
@@ -245,41 +336,193 @@ public class SimpleOptimizationEngine : IOptimizationEngine
         }
     }
 
-    private int CalculateWindows(List<ScheduleEntry> entries)
+    private static readonly DayOfWeek[] WorkDays = ScheduleWeek.WorkDays;
+    private static readonly TimeSpan DayStart = ScheduleWeek.DayStart;
+    private static readonly TimeSpan DayEnd = ScheduleWeek.DayEnd;
+    private static readonly TimeSpan SlotStep = TimeSpan.FromMinutes(15);
+
+    // Lower is better, compared field by field; criteria the run did not ask for stay 0.
+    // Constraints always count, so no move for another criterion breaks one of them
+    private static (int Conflicts, int Violations, int Windows, double Imbalance) Score(
+        List<ScheduleEntry> entries, OptimizationCriteria criteria) =>
+    (
+        criteria.ResolveConflicts ? CountConflicts(entries) : 0,
+        ConstraintRules.FindViolations(entries, criteria.Constraints).Count,
+        criteria.MinimizeWindows ? CalculateWindows(entries) : 0,
+        criteria.BalanceLoad ? DayImbalance(entries) : 0
+    );
+
+    // Upper bound on the search, well inside the client's 60 s wait and ScheduleService's run timeout
+    private static readonly TimeSpan SearchBudget = TimeSpan.FromSeconds(20);
+
+    // Local search: each iteration tries every class in each free slot of the week and makes
+    // the single move that lowers the score most; it stops when no move helps, after
+    // MaxIterations moves or once SearchBudget is spent. A class never moves onto one of its
+    // own schedule or of `booked`. A move only changes the score through the moved class, the
+    // rules naming it and the two days involved, so only those are counted again per slot.
+    // Returns how many classes ended up elsewhere, the iterations used and whether time ran out
+    private (int Moved, int Iterations, bool OutOfTime) Improve(
+        List<ScheduleEntry> entries, List<ScheduleEntry> booked, OptimizationCriteria criteria)
     {
-        var windows = 0;
-        var entriesByDay = entries.GroupBy(e => e.DayOfWeek);
-
-        foreach (var dayGroup in entriesByDay)
+        var originals = entries.ToList();
+        var bookedOn = booked.ToLookup(b => b.DayOfWeek);
+        var perDay = WorkDays.Select(day => entries.Count(e => e.DayOfWeek == day)).ToArray();
+        var score = Score(entries, criteria);
+        var stopwatch = Stopwatch.StartNew();
+        var outOfTime = false;
+        var iterations = 0;
+
+        while (iterations < criteria.MaxIterations && !outOfTime)
         {
-            var sortedEntries = dayGroup.OrderBy(e => e.StartTime).ToList();
-            for (int i = 0; i < sortedEntries.Count - 1; i++)
+            var bestIndex = -1;
+            ScheduleEntry? best = null;
+            var bestScore = score;
+
+            for (int i = 0; i < entries.Count; i++)
             {
-                var gap = sortedEntries[i + 1].StartTime - sortedEntries[i].EndTime;
-                if (gap.TotalMinutes > 15) // Count gaps larger than 15 minutes as windows
+                if (stopwatch.Elapsed > SearchBudget)
+                {
+                    outOfTime = true;
+                    break;
+                }
+
+                var original = entries[i];
+                var duration = original.EndTime - original.StartTime;
+                var rules = criteria.Constraints.Where(c => ConstraintRules.Concerns(c, original)).ToList();
+                // A candidate never clashes, so moving drops every conflict the class had
+                var conflicts = criteria.ResolveConflicts
+                    ? score.Conflicts - entries.Where((other, j) => j != i && Clashes(other, original)).Count()
+                    : 0;
+
+                foreach (var day in WorkDays.Where(d => d != original.DayOfWeek).Prepend(original.DayOfWeek))
                 {
-                    windows++;
+                    var before = LocalScore(entries, rules, original.DayOfWeek, day, criteria);
+                    var imbalance = criteria.BalanceLoad ? ImbalanceAfterMove(perDay, original.DayOfWeek, day) : 0;
+
+                    for (var start = DayStart; start + duration <= DayEnd; start += SlotStep)
+                    {
+                        if (day == original.DayOfWeek && start == original.StartTime) continue;
+
+                        var candidate = MoveEntry(original, day, start, start + duration);
+                        if (entries.Where((other, j) => j != i && Clashes(other, candidate)).Any() ||
+                            bookedOn[day].Any(b => Clashes(b, candidate))) continue;
+
+                        entries[i] = candidate;
+                        var after = LocalScore(entries, rules, original.DayOfWeek, day, criteria);
+                        entries[i] = original;
+
+                        var candidateScore = (
+                            conflicts,
+                            score.Violations - before.Violations + after.Violations,
+                            score.Windows - before.Windows + after.Windows,
+                            imbalance);
+
+                        if (candidateScore.CompareTo(bestScore) < 0)
+                        {
+                            bestIndex = i;
+                            best = candidate;
+                            bestScore = candidateScore;
+                        }
+                    }
                 }
             }
+
+            // A move found before the time ran out still improves the schedule
+            if (best == null) break;
+
+            ShiftDay(perDay, entries[bestIndex].DayOfWeek, best.DayOfWeek);
+            entries[bestIndex] = best;
+            score = bestScore;
+            iterations++;
+        }
+
+        var moved = entries.Where((entry, i) =>
+            entry.DayOfWeek != originals[i].DayOfWeek || entry.StartTime != originals[i].StartTime).Count();
+
+        if (moved > 0 || outOfTime)
+        {
+            _logger.LogInformation($"Moved {moved} classes in {iterations} iterations ({stopwatch.Elapsed.TotalSeconds:0.#} s), score now {score}");
+        }
+
+        return (moved, iterations, outOfTime);
+    }
+
+    // Violations of the given rules and windows on the given days
+    private static (int Violations, int Windows) LocalScore(
+        List<ScheduleEntry> entries, List<SchedulingConstraint> rules, DayOfWeek from, DayOfWeek to, OptimizationCriteria criteria) =>
+    (
+        rules.Count == 0 ? 0 : ConstraintRules.FindViolations(entries, rules).Count,
+        !criteria.MinimizeWindows ? 0 : WindowsOn(entries, from) + (to == from ? 0 : WindowsOn(entries, to))
+    );
+
+    private static void ShiftDay(int[] perDay, DayOfWeek from, DayOfWeek to)
+    {
+        var fromIndex = Array.IndexOf(WorkDays, from);
+        var toIndex = Array.IndexOf(WorkDays, to);
+        if (fromIndex >= 0) perDay[fromIndex]--;
+        if (toIndex >= 0) perDay[toIndex]++;
+    }
+
+    private static double ImbalanceAfterMove(int[] perDay, DayOfWeek from, DayOfWeek to)
+    {
+        var moved = (int[])perDay.Clone();
+        ShiftDay(moved, from, to);
+        return Variance(moved);
+    }
+
+    private async Task<bool> IsRunActive(string scheduleServiceUrl, OptimizationRequest request)
+    {
+        var response = await _httpClient.GetAsync($"{scheduleServiceUrl}/api/schedules/{request.ScheduleId}/optimize");
+        if (!response.IsSuccessStatusCode) return false;
+
+        var run = await response.Content.ReadFromJsonAsync<OptimizationRunInfo>();
+        return run?.RunId == request.RunId;
+    }
+
+    private static ScheduleEntry MoveEntry(ScheduleEntry entry, DayOfWeek day, TimeSpan start, TimeSpan end) => new()
+    {
+        Id = entry.Id,
+        ScheduleId = entry.ScheduleId,
+        Subject = entry.Subject,
+        Teacher = entry.Teacher,
+        Group = entry.Group,
+        Room = entry.Room,
+        DayOfWeek = day,
+        StartTime = start,
+        EndTime = end
+    };
+
+    // The checks ScheduleService runs on save, so an optimized schedule is never refused for a clash
+    private static bool Clashes(ScheduleEntry e1, ScheduleEntry e2) => SchedulingRules.Clash(e1, e2);
+
+    private static int CalculateWindows(List<ScheduleEntry> entries) =>
+        entries.Select(e => e.DayOfWeek).Distinct().Sum(day => WindowsOn(entries, day));
+
+    private static int WindowsOn(List<ScheduleEntry> entries, DayOfWeek day)
+    {
+        var windows = 0;
+        var sortedEntries = entries.Where(e => e.DayOfWeek == day).OrderBy(e => e.StartTime).ToList();
+
+        for (int i = 0; i < sortedEntries.Count - 1; i++)
+        {
+            var gap = sortedEntries[i + 1].StartTime - sortedEntries[i].EndTime;
+            if (gap.TotalMinutes > 15) // Count gaps larger than 15 minutes as windows
+            {
+                windows++;
+            }
         }
 
         return windows;
     }
 
-    private int CountConflicts(List<ScheduleEntry> entries)
+    private static int CountConflicts(List<ScheduleEntry> entries)
     {
         var conflicts = 0;
         for (int i = 0; i < entries.Count; i++)
         {
             for (int j = i + 1; j < entries.Count; j++)
             {
-                var e1 = entries[i];
-                var e2 = entries[j];
-
-                if (e1.DayOfWeek != e2.DayOfWeek) continue;
-
-                bool timeOverlap = e1.StartTime < e2.EndTime && e2.StartTime < e1.EndTime;
-                if (timeOverlap && (e1.Teacher == e2.Teacher || e1.Group == e2.Group || e1.Room == e2.Room))
+                if (Clashes(entries[i], entries[j]))
                 {
                     conflicts++;
                 }
@@ -288,6 +531,16 @@ public class SimpleOptimizationEngine : IOptimizationEngine
         return conflicts;
     }
 
+    // Variance of the number of classes per working day, empty days included
+    private static double DayImbalance(List<ScheduleEntry> entries) =>
+        Variance(WorkDays.Select(day => entries.Count(e => e.DayOfWeek == day)).ToArray());
+
+    private static double Variance(int[] counts)
+    {
+        var avg = counts.Average();
+        return counts.Sum(count => Math.Pow(count - avg, 2)) / counts.Length;
+    }
+
     private double CalculateLoadBalanceImprovement(List<ScheduleEntry> entries)
     {
         // Simple metric: calculate how evenly distributed classes are across days
@@ -1,4 +1,5 @@
 using Microsoft.AspNetCore.Mvc;
+using System.Collections.Concurrent;
 using System.Text;
 using System.Text.Json;
 using RabbitMQ.Client;
@@ -24,6 +25,7 @@ builder.Services.AddOpenTelemetry()
     });
 
 builder.Services.AddSingleton<IScheduleRepository, InMemoryScheduleRepository>();
+builder.Services.AddSingleton<OptimizationRuns>();
 builder.Services.AddScoped<IRabbitMqPublisher, RabbitMqPublisher>();
 builder.Services.AddHttpClient();
 
@@ -114,7 +116,8 @@ app.MapPost("/api/schedules", async (Schedule schedule, IScheduleRepository repo
     }
 
     // Validate conflicts with OTHER existing schedules
-    var existingSchedules = repo.GetAll();
+    // Archived schedules no longer hold their teachers, groups and rooms
+    var existingSchedules = repo.GetAll().Where(s => s.Status != ScheduleStatus.Archived).ToList();
     var globalConflicts = CheckGlobalConflicts(schedule.Entries, existingSchedules);
     Console.WriteLine($"[VALIDATION] Found {globalConflicts.Count} global conflicts");
 
@@ -168,6 +171,11 @@ app.MapPut("/api/schedules/{id}", async (int id, Schedule schedule, IScheduleRep
     var existing = repo.GetById(id);
     if (existing == null) return Results.NotFound();
 
+    if (IsLocked(existing))
+    {
+        return Results.Conflict(new { error = $"Schedule '{existing.Name}' is {existing.Status} and can no longer be edited" });
+    }
+
     // Validate required fields
     if (string.IsNullOrWhiteSpace(schedule.Name))
     {
@@ -202,7 +210,7 @@ app.MapPut("/api/schedules/{id}", async (int id, Schedule schedule, IScheduleRep
     }
 
     // Validate conflicts with OTHER existing schedules (exclude current schedule being updated)
-    var existingSchedules = repo.GetAll().Where(s => s.Id != id).ToList();
+    var existingSchedules = repo.GetAll().Where(s => s.Id != id && s.Status != ScheduleStatus.Archived).ToList();
     var globalConflicts = CheckGlobalConflicts(schedule.Entries, existingSchedules);
 
     if (globalConflicts.Any())
@@ -214,7 +222,12 @@ app.MapPut("/api/schedules/{id}", async (int id, Schedule schedule, IScheduleRep
         });
     }
 
+    // Status and timestamps belong to the server: status changes go through ChangeStatus,
+    // so a stale copy cannot undo a publish or an optimization
     schedule.Id = id;
+    schedule.Status = existing.Status;
+    schedule.CreatedAt = existing.CreatedAt;
+    schedule.LastOptimizedAt = existing.LastOptimizedAt;
     repo.Update(schedule);
 
     var updateEvent = new ScheduleUpdatedEvent
@@ -233,12 +246,13 @@ app.MapPut("/api/schedules/{id}", async (int id, Schedule schedule, IScheduleRep
 .WithName("UpdateSchedule")
 .WithOpenApi();
 
-app.MapDelete("/api/schedules/{id}", async (int id, IScheduleRepository repo, IRabbitMqPublisher publisher) =>
+app.MapDelete("/api/schedules/{id}", async (int id, IScheduleRepository repo, OptimizationRuns runs, IRabbitMqPublisher publisher) =>
 {
     var existing = repo.GetById(id);
     if (existing == null) return Results.NotFound();
 
     repo.Delete(id);
+    runs.Finish(id);
 
     var updateEvent = new ScheduleUpdatedEvent
     {
@@ -256,11 +270,23 @@ app.MapDelete("/api/schedules/{id}", async (int id, IScheduleRepository repo, IR
 .WithName("DeleteSchedule")
 .WithOpenApi();
 
-app.MapPost("/api/schedules/{id}/optimize", async (int id, IScheduleRepository repo, HttpClient httpClient) =>
+app.MapPost("/api/schedules/{id}/optimize", async (int id, OptimizationCriteria? criteria, IScheduleRepository repo, OptimizationRuns runs, HttpClient httpClient) =>
 {
     var schedule = repo.GetById(id);
     if (schedule == null) return Results.NotFound();
 
+    if (IsLocked(schedule))
+    {
+        return Results.Conflict(new { error = $"Schedule '{schedule.Name}' is {schedule.Status} and cannot be optimized" });
+    }
+
+    if (schedule.Status == ScheduleStatus.Optimizing)
+    {
+        return Results.Conflict(new { error = $"Schedule '{schedule.Name}' is already being optimized" });
+    }
+
+    var previous = schedule.Status;
+    var runId = runs.Start(id, previous);
     schedule.Status = ScheduleStatus.Optimizing;
     repo.Update(schedule);
 
@@ -268,37 +294,100 @@ app.MapPost("/api/schedules/{id}/optimize", async (int id, IScheduleRepository r
     {
         ScheduleId = schedule.Id,
         ScheduleName = schedule.Name,
-        Criteria = new OptimizationCriteria
-        {
-            MinimizeWindows = true,
-            BalanceLoad = true,
-            ResolveConflicts = true
-        }
+        RunId = runId,
+        // Body is optional: without it the run uses the default criteria
+        Criteria = criteria ?? new OptimizationCriteria()
     };
 
     // Read from environment, default to localhost:5002 for local development
     var optimizationServiceUrl = Environment.GetEnvironmentVariable("OptimizationService__Url") ?? "http://localhost:5002";
 
-    var response = await httpClient.PostAsJsonAsync(
-        $"{optimizationServiceUrl}/api/optimization/optimize",
-        request);
+    try
+    {
+        var response = await httpClient.PostAsJsonAsync(
+            $"{optimizationServiceUrl}/api/optimization/optimize",
+            request);
 
-    if (response.IsSuccessStatusCode)
+        if (response.IsSuccessStatusCode)
+        {
+            return Results.Accepted($"/api/schedules/{id}", new { message = "Optimization started" });
+        }
+    }
+    catch (Exception ex) when (ex is HttpRequestException or TaskCanceledException)
     {
-        return Results.Accepted($"/api/schedules/{id}", new { message = "Optimization started" });
+        Console.WriteLine($"[OPTIMIZATION] Could not reach OptimizationService: {ex.Message}");
     }
 
+    // The run never started, so the schedule goes back to where it was
+    runs.Finish(id);
+    schedule.Status = previous;
+    repo.Update(schedule);
+
     return Results.Problem("Failed to start optimization");
 })
 .WithName("OptimizeSchedule")
 .WithOpenApi();
 
-app.MapPost("/api/schedules/{id}/check-conflicts", async (int id, IScheduleRepository repo, IRabbitMqPublisher publisher) =>
+// Lets OptimizationService check that its run still holds the schedule before saving
+app.MapGet("/api/schedules/{id}/optimize", (int id, OptimizationRuns runs) =>
+{
+    return runs.Active(id) is { } run ? Results.Ok(run) : Results.NotFound();
+})
+.WithName("GetOptimizationRun")
+.WithOpenApi();
+
+// Called by OptimizationService once the optimized entries are stored
+app.MapPost("/api/schedules/{id}/optimize/complete", async (int id, Guid? runId, IScheduleRepository repo, OptimizationRuns runs, IRabbitMqPublisher publisher) =>
+{
+    if (runId is Guid run && !runs.IsActive(id, run)) return StaleRun();
+
+    runs.Finish(id);
+
+    var schedule = repo.GetById(id);
+    if (schedule?.Status == ScheduleStatus.Optimizing)
+    {
+        schedule.LastOptimizedAt = DateTime.Now;
+    }
+
+    return await ChangeStatus(id, ScheduleStatus.Optimized, repo, publisher);
+})
+.WithName("CompleteOptimization")
+.WithOpenApi();
+
+// Called by OptimizationService when a run fails; also lets a client free a schedule whose run was lost
+app.MapPost("/api/schedules/{id}/optimize/cancel", async (int id, Guid? runId, IScheduleRepository repo, OptimizationRuns runs, IRabbitMqPublisher publisher) =>
+{
+    if (runId is Guid run && !runs.IsActive(id, run)) return StaleRun();
+
+    return await ChangeStatus(id, runs.Finish(id) ?? ScheduleStatus.Draft, repo, publisher);
+})
+.WithName("CancelOptimization")
+.WithOpenApi();
+
+app.MapPost("/api/schedules/{id}/publish", async (int id, IScheduleRepository repo, IRabbitMqPublisher publisher) =>
+{
+    return await ChangeStatus(id, ScheduleStatus.Published, repo, publisher);
+})
+.WithName("PublishSchedule")
+.WithOpenApi();
+
+app.MapPost("/api/schedules/{id}/archive", async (int id, IScheduleRepository repo, OptimizationRuns runs, IRabbitMqPublisher publisher) =>
+{
+    // An archived schedule ignores whatever its running optimization reports later
+    runs.Finish(id);
+    return await ChangeStatus(id, ScheduleStatus.Archived, repo, publisher);
+})
+.WithName("ArchiveSchedule")
+.WithOpenApi();
+
+app.MapPost("/api/schedules/{id}/check-conflicts", async (int id, IScheduleRepository repo, IRabbitMqPublisher publisher, HttpClient httpClient) =>
 {
     var schedule = repo.GetById(id);
     if (schedule == null) return Results.NotFound();
 
     var conflicts = CheckConflicts(schedule);
+    var constraints = await LoadConstraints(httpClient);
+    var violations = ConstraintRules.FindViolations(schedule.Entries, constraints);
 
     if (conflicts.Any())
     {
@@ -312,8 +401,12 @@ app.MapPost("/api/schedules/{id}/check-conflicts", async (int id, IScheduleRepos
         };
 
         await publisher.PublishAsync(conflictEvent, RabbitMqSettings.RoutingKeyConflict);
+    }
 
-        return Results.Ok(new { conflicts });
+    // Constraint violations are reported next to the conflicts but do not block saving
+    if (conflicts.Any() || violations.Any())
+    {
+        return Results.Ok(new { conflicts, violations });
     }
 
     return Results.Ok(new { message = "No conflicts detected" });
@@ -321,8 +414,95 @@ app.MapPost("/api/schedules/{id}/check-conflicts", async (int id, IScheduleRepos
 .WithName("CheckConflicts")
 .WithOpenApi();
 
+// Runs the optimizer never reported back on are handed their previous status
+_ = Task.Run(async () =>
+{
+    using var timer = new PeriodicTimer(TimeSpan.FromSeconds(30));
+    try
+    {
+        while (await timer.WaitForNextTickAsync(app.Lifetime.ApplicationStopping))
+        {
+            var runs = app.Services.GetRequiredService<OptimizationRuns>();
+            var repo = app.Services.GetRequiredService<IScheduleRepository>();
+            using var scope = app.Services.CreateScope();
+            var publisher = scope.ServiceProvider.GetRequiredService<IRabbitMqPublisher>();
+
+            foreach (var id in runs.StartedBefore(DateTime.Now - OptimizationRuns.Timeout))
+            {
+                Console.WriteLine($"[OPTIMIZATION] No result for schedule {id} after {OptimizationRuns.Timeout.TotalMinutes} minutes, restoring its status");
+                await ChangeStatus(id, runs.Finish(id) ?? ScheduleStatus.Draft, repo, publisher);
+            }
+        }
+    }
+    catch (OperationCanceledException)
+    {
+        // Shutting down
+    }
+});
+
 app.Run();
 
+static bool IsLocked(Schedule schedule) =>
+    schedule.Status == ScheduleStatus.Published || schedule.Status == ScheduleStatus.Archived;
+
+// A late report of a run that timed out or was cancelled must not end the schedule's current run
+static IResult StaleRun() =>
+    Results.Conflict(new { error = "This optimization run is no longer active" });
+
+// Draft/Optimized -> Published, anything not yet archived -> Archived, and a running
+// optimization ends in Optimized or, when it fails, back in the status it started from
+static bool CanTransition(ScheduleStatus from, ScheduleStatus to) => to switch
+{
+    ScheduleStatus.Published => from == ScheduleStatus.Draft || from == ScheduleStatus.Optimized,
+    ScheduleStatus.Archived => from != ScheduleStatus.Archived,
+    ScheduleStatus.Optimized or ScheduleStatus.Draft => from == ScheduleStatus.Optimizing,
+    _ => false
+};
+
+static async Task<IResult> ChangeStatus(int id, ScheduleStatus status, IScheduleRepository repo, IRabbitMqPublisher publisher)
+{
+    var schedule = repo.GetById(id);
+    if (schedule == null) return Results.NotFound();
+
+    if (!CanTransition(schedule.Status, status))
+    {
+        return Results.Conflict(new { error = $"Schedule '{schedule.Name}' cannot go from {schedule.Status} to {status}" });
+    }
+
+    var previous = schedule.Status;
+    schedule.Status = status;
+    repo.Update(schedule);
+
+    var updateEvent = new ScheduleUpdatedEvent
+    {
+        ScheduleId = schedule.Id,
+        UpdatedBy = "System",
+        ChangeType = status.ToString(),
+        Details = $"Schedule '{schedule.Name}' moved from {previous} to {status}",
+        UpdatedAt = DateTime.Now
+    };
+
+    await publisher.PublishAsync(updateEvent, RabbitMqSettings.RoutingKeyUpdated);
+
+    return Results.Ok(schedule);
+}
+
+// Rules live in CatalogService; without them the check still reports plain conflicts
+static async Task<List<SchedulingConstraint>> LoadConstraints(HttpClient httpClient)
+{
+    var catalogServiceUrl = Environment.GetEnvironmentVariable("CatalogService__Url") ?? "http://localhost:5005";
+
+    try
+    {
+        return await httpClient.GetFromJsonAsync<List<SchedulingConstraint>>($"{catalogServiceUrl}/api/catalog/constraints") ?? new();
+    }
+    catch (Exception ex) when (ex is HttpRequestException or TaskCanceledException or JsonException)
+    {
+        Console.WriteLine($"[VALIDATION] Could not load constraints from CatalogService: {ex.Message}");
+        return new();
+    }
+}
+
 static List<string> CheckConflicts(Schedule schedule)
 {
     var conflicts = new List<string>();
@@ -341,17 +521,17 @@ static List<string> CheckConflicts(Schedule schedule)
 
             if (!timeOverlap) continue;
 
-            if (e1.Teacher == e2.Teacher)
+            if (SchedulingRules.SameName(e1.Teacher, e2.Teacher))
             {
                 conflicts.Add($"Teacher '{e1.Teacher}' has overlapping classes on {e1.DayOfWeek} at {e1.StartTime}");
             }
 
-            if (e1.Group == e2.Group)
+            if (SchedulingRules.SameName(e1.Group, e2.Group))
             {
                 conflicts.Add($"Group '{e1.Group}' has overlapping classes on {e1.DayOfWeek} at {e1.StartTime}");
             }
 
-            if (e1.Room == e2.Room)
+            if (SchedulingRules.SameName(e1.Room, e2.Room))
             {
                 conflicts.Add($"Room '{e1.Room}' is double-booked on {e1.DayOfWeek} at {e1.StartTime}");
             }
@@ -381,25 +561,19 @@ static List<string> CheckGlobalConflicts(List<ScheduleEntry> newEntries, List<Sc
                 if (!timeOverlap) continue;
 
                 // Конфлікт по викладачу
-                if (!string.IsNullOrEmpty(newEntry.Teacher) &&
-                    !string.IsNullOrEmpty(existingEntry.Teacher) &&
-                    newEntry.Teacher.Equals(existingEntry.Teacher, StringComparison.OrdinalIgnoreCase))
+                if (SchedulingRules.SameName(newEntry.Teacher, existingEntry.Teacher))
                 {
                     conflicts.Add($"Teacher '{newEntry.Teacher}' is already scheduled on {newEntry.DayOfWeek} from {existingEntry.StartTime:hh\\:mm} to {existingEntry.EndTime:hh\\:mm} in schedule '{existingSchedule.Name}'");
                 }
 
                 // Конфлікт по групі
-                if (!string.IsNullOrEmpty(newEntry.Group) &&
-                    !string.IsNullOrEmpty(existingEntry.Group) &&
-                    newEntry.Group.Equals(existingEntry.Group, StringComparison.OrdinalIgnoreCase))
+                if (SchedulingRules.SameName(newEntry.Group, existingEntry.Group))
                 {
                     conflicts.Add($"Group '{newEntry.Group}' is already scheduled on {newEntry.DayOfWeek} from {existingEntry.StartTime:hh\\:mm} to {existingEntry.EndTime:hh\\:mm} in schedule '{existingSchedule.Name}'");
                 }
 
                 // Конфлікт по аудиторії
-                if (!string.IsNullOrEmpty(newEntry.Room) &&
-                    !string.IsNullOrEmpty(existingEntry.Room) &&
-                    newEntry.Room.Equals(existingEntry.Room, StringComparison.OrdinalIgnoreCase))
+                if (SchedulingRules.SameName(newEntry.Room, existingEntry.Room))
                 {
                     conflicts.Add($"Room '{newEntry.Room}' is already booked on {newEntry.DayOfWeek} from {existingEntry.StartTime:hh\\:mm} to {existingEntry.EndTime:hh\\:mm} in schedule '{existingSchedule.Name}'");
                 }
@@ -447,6 +621,35 @@ public class InMemoryScheduleRepository : IScheduleRepository
     }
 }
 
+// Status each schedule had when its optimization started, so a failed or lost run can restore it
+public class OptimizationRuns
+{
+    // Longest a run may take before the schedule is given back
+    public static readonly TimeSpan Timeout = TimeSpan.FromMinutes(5);
+
+    private readonly ConcurrentDictionary<int, (Guid RunId, ScheduleStatus Previous, DateTime StartedAt)> _runs = new();
+
+    public Guid Start(int scheduleId, ScheduleStatus previous)
+    {
+        var runId = Guid.NewGuid();
+        _runs[scheduleId] = (runId, previous, DateTime.Now);
+        return runId;
+    }
+
+    public OptimizationRunInfo? Active(int scheduleId) =>
+        _runs.TryGetValue(scheduleId, out var run) ? new OptimizationRunInfo { RunId = run.RunId, StartedAt = run.StartedAt } : null;
+
+    public bool IsActive(int scheduleId, Guid runId) =>
+        _runs.TryGetValue(scheduleId, out var run) && run.RunId == runId;
+
+    // Null when no run of this schedule is known, e.g. after a restart
+    public ScheduleStatus? Finish(int scheduleId) =>
+        _runs.TryRemove(scheduleId, out var run) ? run.Previous : null;
+
+    public List<int> StartedBefore(DateTime time) =>
+        _runs.Where(run => run.Value.StartedAt < time).Select(run => run.Key).ToList();
+}
+
 public interface IRabbitMqPublisher
 {
     Task PublishAsync<T>(T message, string routingKey);
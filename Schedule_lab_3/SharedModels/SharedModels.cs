@@ -23,6 +23,33 @@ public class ScheduleEntry
     public TimeSpan EndTime { get; set; }
 }
 
+// Days and hours classes can be placed in; the client uses the same week
+// (weekDays in utils/timetable.ts, the slot bounds in utils/slots.ts)
+public static class ScheduleWeek
+{
+    public static readonly DayOfWeek[] WorkDays =
+    {
+        DayOfWeek.Monday, DayOfWeek.Tuesday, DayOfWeek.Wednesday, DayOfWeek.Thursday, DayOfWeek.Friday, DayOfWeek.Saturday
+    };
+    public static readonly TimeSpan DayStart = new(8, 0, 0);
+    public static readonly TimeSpan DayEnd = new(20, 0, 0);
+}
+
+// The rule every conflict check uses: classes share a teacher, group or room when the names
+// match ignoring case and surrounding spaces; an empty name never matches. The client's
+// sameName in utils/conflicts.ts follows it
+public static class SchedulingRules
+{
+    public static bool SameName(string a, string b) =>
+        !string.IsNullOrWhiteSpace(a) && string.Equals(a.Trim(), b?.Trim(), StringComparison.OrdinalIgnoreCase);
+
+    // Same day, intersecting half-open time ranges and a shared teacher, group or room
+    public static bool Clash(ScheduleEntry a, ScheduleEntry b) =>
+        a.DayOfWeek == b.DayOfWeek &&
+        a.StartTime < b.EndTime && b.StartTime < a.EndTime &&
+        (SameName(a.Teacher, b.Teacher) || SameName(a.Group, b.Group) || SameName(a.Room, b.Room));
+}
+
 public enum ScheduleStatus
 {
     Draft,
@@ -99,6 +126,8 @@ public class OptimizationRequest
 {
     public int ScheduleId { get; set; }
     public string ScheduleName { get; set; } = string.Empty;
+    // Given by ScheduleService when it starts the run; reports and saves of another run are refused
+    public Guid RunId { get; set; }
     public OptimizationCriteria Criteria { get; set; } = new();
 }
 
@@ -108,6 +137,8 @@ public class OptimizationCriteria
     public bool BalanceLoad { get; set; } = true;
     public bool ResolveConflicts { get; set; } = true;
     public int MaxIterations { get; set; } = 1000;
+    // Rules from CatalogService the optimizer has to keep to; empty means none
+    public List<SchedulingConstraint> Constraints { get; set; } = new();
 }
 
 public class OptimizationResult
@@ -121,6 +152,138 @@ public class OptimizationResult
     public string Message { get; set; } = string.Empty;
 }
 
+// The run that currently holds a schedule in Optimizing
+public class OptimizationRunInfo
+{
+    public Guid RunId { get; set; }
+    public DateTime StartedAt { get; set; }
+}
+
+// Scheduling constraints
+public enum ConstraintTarget
+{
+    Teacher,
+    Group,
+    Room
+}
+
+public enum ConstraintKind
+{
+    Unavailable,
+    MaxDailyHours,
+    PreferredTime
+}
+
+public class SchedulingConstraint
+{
+    public int Id { get; set; }
+    public ConstraintTarget Target { get; set; }
+    // Teacher, group or room name as used in schedule entries
+    public string Name { get; set; } = string.Empty;
+    public ConstraintKind Kind { get; set; }
+    // Unavailable / PreferredTime: null means every day
+    public DayOfWeek? DayOfWeek { get; set; }
+    // Unavailable: null means the whole day; PreferredTime: required
+    public TimeSpan? StartTime { get; set; }
+    public TimeSpan? EndTime { get; set; }
+    // MaxDailyHours only
+    public double? MaxHours { get; set; }
+}
+
+public static class ConstraintRules
+{
+    // Returns an error message, or null when the rule is complete
+    public static string? Validate(SchedulingConstraint constraint)
+    {
+        if (string.IsNullOrWhiteSpace(constraint.Name))
+        {
+            return "Constraint must name a teacher, group or room";
+        }
+
+        if (constraint.StartTime.HasValue != constraint.EndTime.HasValue)
+        {
+            return "Both start and end time must be set";
+        }
+
+        if (constraint.StartTime.HasValue && constraint.EndTime <= constraint.StartTime)
+        {
+            return "End time must be after start time";
+        }
+
+        return constraint.Kind switch
+        {
+            ConstraintKind.Unavailable when constraint.DayOfWeek == null && constraint.StartTime == null =>
+                "Unavailability needs a day, a time range or both",
+            ConstraintKind.MaxDailyHours when constraint.MaxHours is not > 0 =>
+                "Maximum daily hours must be greater than zero",
+            ConstraintKind.PreferredTime when constraint.StartTime == null =>
+                "Preferred time needs a time range",
+            _ => null
+        };
+    }
+
+    // Messages follow the conflict format ("Teacher 'X' ... on Monday from 09:00 to 10:30")
+    // so clients can point at the classes involved the same way
+    public static List<string> FindViolations(List<ScheduleEntry> entries, IEnumerable<SchedulingConstraint> constraints)
+    {
+        var violations = new List<string>();
+
+        foreach (var constraint in constraints)
+        {
+            var target = constraint.Target.ToString();
+            var own = entries
+                .Where(e => Concerns(constraint, e))
+                .OrderBy(e => e.DayOfWeek)
+                .ThenBy(e => e.StartTime)
+                .ToList();
+
+            switch (constraint.Kind)
+            {
+                case ConstraintKind.Unavailable:
+                    foreach (var entry in own.Where(e => AppliesOn(constraint, e.DayOfWeek) &&
+                        (constraint.StartTime == null || (e.StartTime < constraint.EndTime && constraint.StartTime < e.EndTime))))
+                    {
+                        violations.Add($"{target} '{NameOf(entry, constraint.Target)}' is unavailable on {entry.DayOfWeek} from {entry.StartTime:hh\\:mm} to {entry.EndTime:hh\\:mm}");
+                    }
+                    break;
+
+                case ConstraintKind.MaxDailyHours:
+                    foreach (var day in own.GroupBy(e => e.DayOfWeek))
+                    {
+                        var hours = day.Sum(e => (e.EndTime - e.StartTime).TotalHours);
+                        if (constraint.MaxHours == null || hours <= constraint.MaxHours) continue;
+                        violations.Add($"{target} '{NameOf(day.First(), constraint.Target)}' has {hours:0.##} h of classes on {day.Key} from {day.First().StartTime:hh\\:mm} to {day.Max(e => e.EndTime):hh\\:mm}, more than the {constraint.MaxHours:0.##} h allowed");
+                    }
+                    break;
+
+                case ConstraintKind.PreferredTime:
+                    foreach (var entry in own.Where(e => AppliesOn(constraint, e.DayOfWeek) &&
+                        (e.StartTime < constraint.StartTime || e.EndTime > constraint.EndTime)))
+                    {
+                        violations.Add($"{target} '{NameOf(entry, constraint.Target)}' has a class outside preferred hours on {entry.DayOfWeek} from {entry.StartTime:hh\\:mm} to {entry.EndTime:hh\\:mm} (prefers {constraint.StartTime:hh\\:mm}-{constraint.EndTime:hh\\:mm})");
+                    }
+                    break;
+            }
+        }
+
+        return violations;
+    }
+
+    // Whether the rule names this class's teacher, group or room
+    public static bool Concerns(SchedulingConstraint constraint, ScheduleEntry entry) =>
+        SchedulingRules.SameName(NameOf(entry, constraint.Target), constraint.Name);
+
+    private static bool AppliesOn(SchedulingConstraint constraint, DayOfWeek day) =>
+        constraint.DayOfWeek == null || constraint.DayOfWeek == day;
+
+    private static string NameOf(ScheduleEntry entry, ConstraintTarget target) => target switch
+    {
+        ConstraintTarget.Teacher => entry.Teacher,
+        ConstraintTarget.Group => entry.Group,
+        _ => entry.Room
+    };
+}
+
 // Events
 public class ScheduleOptimizedEvent
 {